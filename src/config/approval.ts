@@ -0,0 +1,62 @@
+// ALVA POS MVP - Quote Approval Configuration
+// Discount/margin limits per role; quotes beyond them wait for a 'quotes:approve' decision
+
+import { config } from '@/config/environment';
+import { ROLES, Role, isValidRole } from '@/config/permissions';
+
+export interface ApprovalThreshold {
+  maxDiscountPercent: number | null; // total discount vs gross amount, null = unlimited
+  minMarginPercent: number | null;   // (net - cost) / net for priced lines, null = not checked
+}
+
+export const DEFAULT_APPROVAL_THRESHOLDS: Record<Role, ApprovalThreshold> = {
+  sales: { maxDiscountPercent: 10, minMarginPercent: 15 },
+  cashier: { maxDiscountPercent: 5, minMarginPercent: 20 },
+  warehouse: { maxDiscountPercent: 0, minMarginPercent: 20 },
+  manager: { maxDiscountPercent: 30, minMarginPercent: 5 },
+  admin: { maxDiscountPercent: null, minMarginPercent: null },
+};
+
+/**
+ * Merge APPROVAL_THRESHOLDS over the defaults, e.g.
+ * {"sales":{"maxDiscountPercent":15},"cashier":{"minMarginPercent":null}}
+ */
+function loadApprovalThresholds(raw: string): Record<Role, ApprovalThreshold> {
+  const thresholds: Record<Role, ApprovalThreshold> = { ...DEFAULT_APPROVAL_THRESHOLDS };
+  if (!raw) return thresholds;
+
+  let overrides: Record<string, Partial<ApprovalThreshold>>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Environment validation error: APPROVAL_THRESHOLDS is not valid JSON`);
+  }
+
+  for (const [role, override] of Object.entries(overrides || {})) {
+    if (!isValidRole(role)) {
+      throw new Error(`Environment validation error: APPROVAL_THRESHOLDS has unknown role '${role}' (expected ${ROLES.join(', ')})`);
+    }
+
+    for (const [key, value] of Object.entries(override || {})) {
+      if (key !== 'maxDiscountPercent' && key !== 'minMarginPercent') {
+        throw new Error(`Environment validation error: APPROVAL_THRESHOLDS.${role}.${key} is not a threshold`);
+      }
+      if (value !== null && (typeof value !== 'number' || value < 0 || value > 100)) {
+        throw new Error(`Environment validation error: APPROVAL_THRESHOLDS.${role}.${key} must be 0-100 or null`);
+      }
+    }
+
+    thresholds[role] = { ...thresholds[role], ...override };
+  }
+
+  return thresholds;
+}
+
+export const APPROVAL_THRESHOLDS = loadApprovalThresholds(config.approval.thresholds);
+
+/**
+ * Threshold for a role (unknown roles get the strictest limits: no discount)
+ */
+export function getApprovalThreshold(role: string): ApprovalThreshold {
+  return APPROVAL_THRESHOLDS[role as Role] || { maxDiscountPercent: 0, minMarginPercent: null };
+}
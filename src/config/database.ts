@@ -132,19 +132,37 @@ class PostgreSQLConnection implements DatabaseConnection {
   }
 
   /**
-   * Execute query with error handling and logging
+   * Execute query with error handling and logging.
+   * With organisationId the query runs in a transaction with app.current_org set,
+   * so the organisation RLS policies apply to it.
    */
   async executeQuery<T = any>(
     queryText: string,
     values?: any[],
-    context?: string
+    context?: string,
+    organisationId?: string
   ): Promise<{ data: T[] | null; error: any }> {
     const startTime = Date.now();
     let client: PoolClient | null = null;
+    let inTransaction = false;
 
     try {
       client = await this.pool.connect();
+
+      if (organisationId) {
+        await client.query('BEGIN');
+        inTransaction = true;
+        // is_local = true: setting is dropped at COMMIT, before the client goes back to the pool
+        await client.query("SELECT set_config('app.current_org', $1, true)", [organisationId]);
+      }
+
       const result = await client.query(queryText, values);
+
+      if (inTransaction) {
+        await client.query('COMMIT');
+        inTransaction = false;
+      }
+
       const duration = Date.now() - startTime;
 
       Logger.database(`Query executed: ${context || 'unknown'}`, {
@@ -159,6 +177,16 @@ class PostgreSQLConnection implements DatabaseConnection {
       };
     } catch (error) {
       const duration = Date.now() - startTime;
+
+      if (client && inTransaction) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          Logger.error('Query rollback failed', {
+            error: rollbackError instanceof Error ? rollbackError.message : String(rollbackError),
+          });
+        }
+      }
       
       Logger.error('Database query error', {
         context,
@@ -251,12 +279,13 @@ class PostgreSQLConnection implements DatabaseConnection {
     sessionId: string,
     queryText: string,
     values?: any[],
-    context?: string
+    context?: string,
+    organisationId?: string
   ): Promise<{ data: T[] | null; error: any }> {
     // Add session context to query logging
     const contextWithSession = `${context || 'query'} [session: ${sessionId.substring(0, 8)}...]`;
     
-    return this.executeQuery<T>(queryText, values, contextWithSession);
+    return this.executeQuery<T>(queryText, values, contextWithSession, organisationId);
   }
 
   /**
@@ -319,8 +348,9 @@ export const db = {
     sessionId: string,
     queryText: string,
     values?: any[],
-    context?: string
-  ) => database.sessionQuery<T>(sessionId, queryText, values, context),
+    context?: string,
+    organisationId?: string
+  ) => database.sessionQuery<T>(sessionId, queryText, values, context, organisationId),
 
   /**
    * Execute query without session context
@@ -328,8 +358,9 @@ export const db = {
   execute: <T = any>(
     queryText: string,
     values?: any[],
-    context?: string
-  ) => database.executeQuery<T>(queryText, values, context),
+    context?: string,
+    organisationId?: string
+  ) => database.executeQuery<T>(queryText, values, context, organisationId),
 
   /**
    * Execute transaction
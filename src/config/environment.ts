@@ -28,6 +28,36 @@ const envSchema = Joi.object({
   SESSION_TIMEOUT: Joi.number().default(86400000), // 24 hours
   SESSION_CLEANUP_INTERVAL: Joi.number().default(3600000), // 1 hour
   
+  // Authentication Configuration
+  JWT_SECRET: Joi.string().min(32), // falls back to SESSION_SECRET
+  JWT_EXPIRES_IN: Joi.string().default('12h'),
+  JWT_ISSUER: Joi.string().default('alva-pos'),
+  
+  // Export Configuration
+  EXPORT_URL_SECRET: Joi.string().min(32), // falls back to SESSION_SECRET
+  EXPORT_LINK_TTL_MINUTES: Joi.number().default(60),
+  COMPANY_NAME: Joi.string().default('ALVA'),
+  COMPANY_ADDRESS: Joi.string().allow('').default(''),
+  COMPANY_PHONE: Joi.string().allow('').default(''),
+  COMPANY_EMAIL: Joi.string().allow('').default(''),
+  COMPANY_LOGO_PATH: Joi.string().allow('').default(''),
+  
+  // Quote Approval Configuration
+  APPROVAL_THRESHOLDS: Joi.string().allow('').default(''), // JSON per role, see src/config/approval.ts
+  
+  // Quote Expiry Configuration
+  QUOTE_EXPIRY_INTERVAL: Joi.number().min(60000).default(3600000), // 1 hour
+  
+  // Quote Sharing Configuration
+  QUOTE_SHARE_BASE_URL: Joi.string().uri().default('http://localhost:5173/q'), // public page, link = <base>/<token>
+  
+  // Real-time Configuration
+  REALTIME_WS_PATH: Joi.string().pattern(/^\//).default('/api/realtime/ws'),
+  REALTIME_HEARTBEAT_INTERVAL: Joi.number().min(5000).default(30000), // 30 seconds
+  REALTIME_RECONNECT_WINDOW: Joi.number().min(0).default(300000), // 5 minutes
+  REALTIME_SSE_KEEPALIVE_INTERVAL: Joi.number().min(1000).default(15000), // 15 seconds
+  REALTIME_REPLAY_BUFFER_SIZE: Joi.number().integer().min(0).default(500), // messages kept for Last-Event-ID resume
+  
   // Security Configuration
   CORS_ORIGIN: Joi.string().default('http://localhost:5173'),
   ALLOWED_ORIGINS: Joi.string().default('http://localhost:3000,http://localhost:5173,http://localhost:4173'),
@@ -86,6 +116,44 @@ export const config = {
     cleanupInterval: envVars.SESSION_CLEANUP_INTERVAL,
   },
   
+  auth: {
+    jwtSecret: envVars.JWT_SECRET || envVars.SESSION_SECRET,
+    tokenExpiresIn: envVars.JWT_EXPIRES_IN,
+    issuer: envVars.JWT_ISSUER,
+  },
+  
+  export: {
+    urlSecret: envVars.EXPORT_URL_SECRET || envVars.SESSION_SECRET,
+    linkTtlMinutes: envVars.EXPORT_LINK_TTL_MINUTES,
+    branding: {
+      companyName: envVars.COMPANY_NAME,
+      address: envVars.COMPANY_ADDRESS,
+      phone: envVars.COMPANY_PHONE,
+      email: envVars.COMPANY_EMAIL,
+      logoPath: envVars.COMPANY_LOGO_PATH,
+    },
+  },
+  
+  approval: {
+    thresholds: envVars.APPROVAL_THRESHOLDS,
+  },
+  
+  quoteExpiry: {
+    interval: envVars.QUOTE_EXPIRY_INTERVAL,
+  },
+  
+  quoteSharing: {
+    baseUrl: envVars.QUOTE_SHARE_BASE_URL.replace(/\/+$/, ''),
+  },
+  
+  realtime: {
+    wsPath: envVars.REALTIME_WS_PATH,
+    heartbeatInterval: envVars.REALTIME_HEARTBEAT_INTERVAL,
+    reconnectWindow: envVars.REALTIME_RECONNECT_WINDOW,
+    sseKeepAliveInterval: envVars.REALTIME_SSE_KEEPALIVE_INTERVAL,
+    replayBufferSize: envVars.REALTIME_REPLAY_BUFFER_SIZE,
+  },
+  
   cors: {
     origin: envVars.CORS_ORIGIN,
     allowedOrigins: envVars.ALLOWED_ORIGINS.split(',').map((origin: string) => origin.trim()),
@@ -26,6 +26,9 @@ export const EXPORT_CONFIG = {
   processing: {
     timeoutMs: 30000, // 30 seconds
     maxRetries: 1,
+    concurrency: 2, // Background jobs running at the same time
+    retryDelayMs: 5000, // Backoff before a failed job is retried (x attempt)
+    pollIntervalMs: 5000, // Queue check for retries and jobs queued by other instances
   },
 };
 
@@ -39,7 +42,17 @@ export const EXPORT_PATHS = {
 export const EXPORT_CONSTANTS = {
   SUPPORTED_FORMATS: ['pdf', 'excel'] as const,
   MAX_QUOTE_ITEMS: 500,
+  MAX_LIST_ROWS: 1000,
   FILENAME_MAX_LENGTH: 100,
+
+  MIME_TYPES: {
+    pdf: 'application/pdf',
+    excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  FILE_EXTENSIONS: {
+    pdf: 'pdf',
+    excel: 'xlsx',
+  },
   
   // Simple error codes
   ERROR_CODES: {
@@ -0,0 +1,90 @@
+// ALVA POS MVP - Role & Permission Configuration
+// Static role → permission map; roles are assigned per user in the user_roles table
+
+export const ROLES = ['sales', 'cashier', 'warehouse', 'manager', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  'quotes:read',
+  'quotes:write',
+  'quotes:delete',
+  'quotes:approve',
+  'templates:read',
+  'templates:write',
+  'orders:read',
+  'orders:write',
+  'orders:payment',
+  'orders:fulfil',
+  'customers:read',
+  'customers:write',
+  'products:write',
+  'products:cache',
+  'export:read',
+  'export:create',
+  'database:admin',
+  'users:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Role given to users without an explicit assignment
+export const DEFAULT_ROLE: Role = 'sales';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  sales: [
+    'quotes:read',
+    'quotes:write',
+    'quotes:delete',
+    'templates:read',
+    'templates:write',
+    'orders:read',
+    'orders:write',
+    'customers:read',
+    'customers:write',
+    'export:read',
+    'export:create',
+  ],
+  cashier: [
+    'quotes:read',
+    'templates:read',
+    'orders:read',
+    'orders:write',
+    'orders:payment',
+    'customers:read',
+    'customers:write',
+    'export:read',
+    'export:create',
+  ],
+  warehouse: [
+    'orders:read',
+    'orders:fulfil',
+    'export:read',
+  ],
+  manager: [
+    'quotes:read',
+    'quotes:write',
+    'quotes:delete',
+    'quotes:approve',
+    'templates:read',
+    'templates:write',
+    'orders:read',
+    'orders:write',
+    'customers:read',
+    'customers:write',
+    'export:read',
+    'export:create',
+  ],
+  admin: [...PERMISSIONS],
+};
+
+/**
+ * Resolve permissions for a role (unknown roles get none)
+ */
+export function getRolePermissions(role: string): Permission[] {
+  return ROLE_PERMISSIONS[role as Role] || [];
+}
+
+export function isValidRole(role: string): role is Role {
+  return (ROLES as readonly string[]).includes(role);
+}
@@ -0,0 +1,38 @@
+-- ALVA POS MVP - Order Status History Migration
+-- Version: 1.0.3
+-- Description: Audit trail for order lifecycle transitions (orders live in Alvamitra tb_store_transaksi_master)
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Order status history migration starting
+
+-- ===========================================
+-- ORDER STATUS HISTORY
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id text NOT NULL,                    -- tb_store_transaksi_master.Id_Transaksi_Master
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor text NOT NULL,
+  reason text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT order_status_history_status_check CHECK (
+    from_status IN ('draft', 'confirmed', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded') AND
+    to_status IN ('draft', 'confirmed', 'paid', 'packed', 'shipped', 'delivered', 'cancelled', 'refunded')
+  ),
+  CONSTRAINT order_status_history_actor_check CHECK (length(trim(actor)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history (order_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_to_status
+  ON order_status_history (to_status, created_at DESC);
+
+-- Order status history migration completed successfully
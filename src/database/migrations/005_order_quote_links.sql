@@ -0,0 +1,29 @@
+-- ALVA POS MVP - Order Quote Links Migration
+-- Version: 1.0.4
+-- Description: Back-reference from Alvamitra orders (tb_store_transaksi_master) to the quote (tb_store_estimasi_master) they were converted from
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Order quote links migration starting
+
+-- ===========================================
+-- ORDER QUOTE LINKS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS order_quote_links (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id text NOT NULL,                    -- tb_store_transaksi_master.Id_Transaksi_Master
+  order_number text NOT NULL,
+  quote_id text NOT NULL,                    -- tb_store_estimasi_master.Id_Estimasi_Master
+  quote_number text NOT NULL,
+  converted_by text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  -- A quote can only be converted once
+  CONSTRAINT order_quote_links_quote_unique UNIQUE (quote_id),
+  CONSTRAINT order_quote_links_order_unique UNIQUE (order_id)
+);
+
+-- Order quote links migration completed successfully
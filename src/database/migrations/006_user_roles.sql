@@ -0,0 +1,27 @@
+-- ALVA POS MVP - User Roles Migration
+-- Version: 1.0.5
+-- Description: Role assignment for Alvamitra users (tb_data_pengguna.Id_Pengguna); permissions per role live in src/config/permissions.ts
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- User roles migration starting
+
+-- ===========================================
+-- USER ROLES
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id text PRIMARY KEY,                  -- tb_data_pengguna.Id_Pengguna
+  role text NOT NULL DEFAULT 'sales',
+  assigned_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT user_roles_role_check CHECK (role IN ('sales', 'cashier', 'warehouse', 'admin'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles (role);
+
+-- User roles migration completed successfully
@@ -0,0 +1,119 @@
+-- ALVA POS MVP - Organisation Isolation Migration
+-- Version: 1.0.6
+-- Description: Tenant scoping per Alvamitra organisation (tb_data_pengguna.Organisasi_Kode) on top of the session RLS policies
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Organisation isolation migration starting
+
+-- ===========================================
+-- ORGANISATION COLUMNS
+-- ===========================================
+
+-- NULL = created before tenant scoping; only visible to service_role
+-- (templates: NULL = shared system template, visible to every organisation)
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS organisation_id text;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS organisation_id text;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS organisation_id text;
+ALTER TABLE boq_imports ADD COLUMN IF NOT EXISTS organisation_id text;
+ALTER TABLE session_analytics ADD COLUMN IF NOT EXISTS organisation_id text;
+
+CREATE INDEX IF NOT EXISTS idx_customers_organisation ON customers (organisation_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_organisation ON quotes (organisation_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_templates_organisation ON templates (organisation_id);
+CREATE INDEX IF NOT EXISTS idx_boq_imports_organisation ON boq_imports (organisation_id);
+CREATE INDEX IF NOT EXISTS idx_session_analytics_organisation ON session_analytics (organisation_id);
+
+-- ===========================================
+-- ORGANISATION RLS POLICIES
+-- ===========================================
+
+-- RESTRICTIVE: combined with AND on top of the existing (permissive) session policies,
+-- so a row must match both the session and the organisation set in app.current_org.
+-- The application sets app.current_org per query (set_config(..., true) inside a transaction).
+
+CREATE POLICY customers_organisation_policy ON customers
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  )
+  WITH CHECK (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY quotes_organisation_policy ON quotes
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  )
+  WITH CHECK (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+-- Public templates are shared within the organisation only; system templates (NULL) are read-only for tenants
+CREATE POLICY templates_organisation_read_policy ON templates
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id IS NULL OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY templates_organisation_insert_policy ON templates
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY templates_organisation_update_policy ON templates
+  AS RESTRICTIVE
+  FOR UPDATE
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY templates_organisation_delete_policy ON templates
+  AS RESTRICTIVE
+  FOR DELETE
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY boq_imports_organisation_policy ON boq_imports
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  )
+  WITH CHECK (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+CREATE POLICY session_analytics_organisation_policy ON session_analytics
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  )
+  WITH CHECK (
+    current_setting('role') = 'service_role' OR
+    organisation_id = current_setting('app.current_org', true)
+  );
+
+-- Organisation isolation migration completed successfully
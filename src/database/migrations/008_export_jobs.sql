@@ -0,0 +1,49 @@
+-- ALVA POS MVP - Export Jobs Migration
+-- Version: 1.0.7
+-- Description: Persistent queue for background export jobs (quote PDF/XLSX, quote and order list workbooks)
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Export jobs migration starting
+
+-- ===========================================
+-- EXPORT JOBS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_type text NOT NULL,
+  format text NOT NULL,
+  params jsonb DEFAULT '{}',
+  status text NOT NULL DEFAULT 'queued',
+  progress integer NOT NULL DEFAULT 0,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 1,
+  result jsonb,
+  error_message text,
+  user_id text,
+  organisation_id text,                      -- tb_data_pengguna.Organisasi_Kode (Alvamitra)
+  organisation_id_smartjmp text,             -- Organisasi_Kode used for SmartJMP catalog queries
+  run_after timestamptz DEFAULT now(),       -- retry backoff: job is not picked up before this
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT export_jobs_type_check CHECK (job_type IN ('quote', 'quote_list', 'order_list')),
+  CONSTRAINT export_jobs_format_check CHECK (format IN ('pdf', 'excel')),
+  CONSTRAINT export_jobs_status_check CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  CONSTRAINT export_jobs_progress_check CHECK (progress >= 0 AND progress <= 100),
+  CONSTRAINT export_jobs_attempts_check CHECK (attempts >= 0 AND max_attempts >= 1)
+);
+
+-- Queue pick-up: oldest runnable job first
+CREATE INDEX IF NOT EXISTS idx_export_jobs_queue
+  ON export_jobs (status, run_after, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_export_jobs_organisation
+  ON export_jobs (organisation_id, created_at DESC);
+
+-- Export jobs migration completed successfully
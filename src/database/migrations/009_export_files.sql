@@ -0,0 +1,37 @@
+-- ALVA POS MVP - Export Files Migration
+-- Version: 1.0.8
+-- Description: Registry of generated export files (opaque IDs, expiry and download limits)
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Export files migration starting
+
+-- ===========================================
+-- EXPORT FILES
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS export_files (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),  -- opaque ID used in download URLs
+  filename text NOT NULL,                           -- file name inside the exports directory
+  format text NOT NULL,
+  mime_type text NOT NULL,
+  file_size integer NOT NULL DEFAULT 0,
+  download_count integer NOT NULL DEFAULT 0,
+  max_downloads integer NOT NULL,
+  user_id text,
+  organisation_id text,
+  expires_at timestamptz NOT NULL,
+  last_downloaded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT export_files_filename_check CHECK (filename ~ '^[A-Za-z0-9_.-]+$'),
+  CONSTRAINT export_files_format_check CHECK (format IN ('pdf', 'excel')),
+  CONSTRAINT export_files_downloads_check CHECK (download_count >= 0 AND max_downloads >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_files_expires
+  ON export_files (expires_at);
+
+-- Export files migration completed successfully
@@ -0,0 +1,34 @@
+-- ALVA POS MVP - BOQ Product Aliases Migration
+-- Version: 1.0.9
+-- Description: Learned supplier wording -> catalog product aliases from manual BOQ match overrides
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- BOQ product aliases migration starting
+
+-- ===========================================
+-- BOQ PRODUCT ALIASES
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS boq_product_aliases (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organisation_id text,                      -- NULL = learned outside an organisation context
+  alias text NOT NULL,                       -- normalised BOQ description (lowercase, single spaces)
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  created_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT boq_product_aliases_alias_length CHECK (length(trim(alias)) >= 2)
+);
+
+-- One product per wording and organisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_boq_product_aliases_unique
+  ON boq_product_aliases ((coalesce(organisation_id, '')), alias);
+
+CREATE INDEX IF NOT EXISTS idx_boq_product_aliases_product
+  ON boq_product_aliases (product_id);
+
+-- BOQ product aliases migration completed successfully
@@ -0,0 +1,32 @@
+-- ALVA POS MVP - Template Gallery Migration
+-- Version: 1.0.10
+-- Description: Template gallery view with popularity levels for the /api/templates gallery
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Template gallery migration starting
+
+-- ===========================================
+-- TEMPLATE GALLERY VIEW
+-- ===========================================
+
+-- Recreated (not replaced) so t.* picks up organisation_id added in 007;
+-- visibility (public / owner / organisation) is filtered by the querying service
+DROP VIEW IF EXISTS template_gallery;
+
+CREATE VIEW template_gallery AS
+SELECT
+  t.*,
+  CASE
+    WHEN t.usage_count > 10 THEN 'popular'
+    WHEN t.usage_count > 5 THEN 'moderate'
+    ELSE 'new'
+  END as popularity_level,
+  jsonb_array_length(COALESCE(t.template_data->'items', '[]'::jsonb)) as item_count,
+  jsonb_array_length(COALESCE(t.template_data->'laborItems', '[]'::jsonb)) as labor_item_count,
+  (t.template_data->'items')::jsonb as preview_items
+FROM templates t;
+
+-- Template gallery migration completed successfully
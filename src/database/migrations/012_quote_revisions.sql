@@ -0,0 +1,75 @@
+-- ALVA POS MVP - Quote Revisions Migration
+-- Version: 1.0.11
+-- Description: Immutable quote revision history (cart snapshot, totals, author) written on every quote update
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Quote revisions migration starting
+
+-- ===========================================
+-- QUOTE REVISIONS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,          -- 1 = quote as created, assigned by trigger
+  cart_data jsonb NOT NULL,
+  status text NOT NULL,
+  tax_rate decimal(5,4) NOT NULL,
+  subtotal decimal(12,2) NOT NULL DEFAULT 0,
+  tax_amount decimal(12,2) NOT NULL DEFAULT 0,
+  final_total decimal(12,2) NOT NULL DEFAULT 0,
+  changed_fields text[] DEFAULT '{}',
+  changed_by text,                           -- user id; NULL for revisions backfilled by this migration
+  organisation_id text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT quote_revisions_number_unique UNIQUE (quote_id, revision_number),
+  CONSTRAINT quote_revisions_number_positive CHECK (revision_number >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_revisions_organisation
+  ON quote_revisions (organisation_id, created_at DESC);
+
+-- Next revision number per quote. Writers hold the quote row lock (UPDATE quotes in the same
+-- statement), and each query in this function sees rows committed before it started.
+CREATE OR REPLACE FUNCTION assign_quote_revision_number() RETURNS trigger AS $$
+BEGIN
+  SELECT COALESCE(MAX(revision_number), 0) + 1
+    INTO NEW.revision_number
+    FROM quote_revisions
+   WHERE quote_id = NEW.quote_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_quote_revision_number ON quote_revisions;
+CREATE TRIGGER trigger_quote_revision_number
+  BEFORE INSERT ON quote_revisions
+  FOR EACH ROW EXECUTE FUNCTION assign_quote_revision_number();
+
+-- Revisions are immutable; they only go away together with their quote (ON DELETE CASCADE)
+CREATE OR REPLACE FUNCTION prevent_quote_revision_change() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM quotes WHERE id = OLD.quote_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'quote revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_quote_revision_immutable ON quote_revisions;
+CREATE TRIGGER trigger_quote_revision_immutable
+  BEFORE UPDATE OR DELETE ON quote_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_quote_revision_change();
+
+-- Baseline revision for quotes created before revision history existed
+INSERT INTO quote_revisions (quote_id, cart_data, status, tax_rate, subtotal, tax_amount, final_total, organisation_id, created_at)
+SELECT q.id, q.cart_data, q.status, q.tax_rate, q.subtotal, q.tax_amount, q.final_total, q.organisation_id, q.updated_at
+FROM quotes q
+WHERE NOT EXISTS (SELECT 1 FROM quote_revisions r WHERE r.quote_id = q.id);
+
+-- Quote revisions migration completed successfully
@@ -0,0 +1,62 @@
+-- ALVA POS MVP - Quote Approvals Migration
+-- Version: 1.0.12
+-- Description: Manager approval of quotes whose discount/margin exceeds the author's role threshold (src/config/approval.ts)
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Quote approvals migration starting
+
+-- ===========================================
+-- ROLES & QUOTE STATUS
+-- ===========================================
+
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_role_check;
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_role_check
+  CHECK (role IN ('sales', 'cashier', 'warehouse', 'manager', 'admin'));
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_status_check
+  CHECK (status IN ('draft', 'pending_approval', 'sent', 'accepted', 'rejected', 'expired'));
+
+-- ===========================================
+-- QUOTE APPROVALS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS quote_approvals (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_id text NOT NULL,                    -- quotes.id (postgres) or tb_store_estimasi_master.Id_Estimasi_Master (alvamitra)
+  quote_store text NOT NULL,
+  quote_number text,
+  status text NOT NULL DEFAULT 'pending',
+  requested_by text,
+  requested_role text,
+  discount_percent decimal(7,4) NOT NULL DEFAULT 0,
+  margin_percent decimal(7,4),               -- NULL when no product costs are known
+  final_total decimal(12,2) NOT NULL DEFAULT 0,
+  reasons jsonb NOT NULL DEFAULT '[]',       -- thresholds that were exceeded
+  decided_by text,
+  decision_comment text,
+  decided_at timestamptz,
+  organisation_id text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT quote_approvals_store_check CHECK (quote_store IN ('postgres', 'alvamitra')),
+  CONSTRAINT quote_approvals_status_check CHECK (status IN ('pending', 'approved', 'rejected')),
+  CONSTRAINT quote_approvals_decision_check CHECK (status = 'pending' OR decided_at IS NOT NULL)
+);
+
+-- At most one open request per quote
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_approvals_pending
+  ON quote_approvals (quote_store, quote_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_quote_approvals_quote
+  ON quote_approvals (quote_store, quote_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_quote_approvals_organisation_status
+  ON quote_approvals (organisation_id, status, created_at DESC);
+
+-- Quote approvals migration completed successfully
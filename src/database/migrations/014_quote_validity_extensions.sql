@@ -0,0 +1,37 @@
+-- ALVA POS MVP - Quote Validity Extensions Migration
+-- Version: 1.0.13
+-- Description: Audit trail of quote validity extensions (previous/new valid_until, note, user); overdue quotes are expired by QuoteExpiryService
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Quote validity extensions migration starting
+
+-- ===========================================
+-- QUOTE VALIDITY EXTENSIONS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS quote_validity_extensions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  previous_valid_until timestamptz,
+  new_valid_until timestamptz NOT NULL,
+  previous_status text NOT NULL,             -- 'expired' when the extension reopened the quote
+  note text NOT NULL,
+  extended_by text,
+  organisation_id text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT quote_validity_extensions_note_length CHECK (length(trim(note)) >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_validity_extensions_quote
+  ON quote_validity_extensions (quote_id, created_at DESC);
+
+-- Expiry job scans open quotes by due date
+CREATE INDEX IF NOT EXISTS idx_quotes_open_valid_until
+  ON quotes (valid_until)
+  WHERE status IN ('draft', 'pending_approval', 'sent');
+
+-- Quote validity extensions migration completed successfully
@@ -0,0 +1,81 @@
+-- ALVA POS MVP - Quote Share Links Migration
+-- Version: 1.0.14
+-- Description: Tokenized public links for sent quotes and the customer's accept/reject response
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Quote share links migration starting
+
+-- ===========================================
+-- QUOTE SHARE LINKS
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS quote_share_links (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  token_hash text NOT NULL,                  -- sha256 of the link token; the token itself is never stored
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,                    -- set when the quote is sent again with a new link
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_by text,
+  organisation_id text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT quote_share_links_token_unique UNIQUE (token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_share_links_quote
+  ON quote_share_links (quote_id, created_at DESC);
+
+-- ===========================================
+-- CUSTOMER RESPONSES
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS quote_customer_responses (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  share_link_id uuid REFERENCES quote_share_links(id) ON DELETE SET NULL,
+  decision text NOT NULL,
+  customer_name text NOT NULL,
+  comment text,
+  ip_address text,
+  user_agent text,
+  organisation_id text,
+  responded_at timestamptz DEFAULT now(),
+
+  CONSTRAINT quote_customer_responses_decision_check CHECK (decision IN ('accepted', 'rejected')),
+  CONSTRAINT quote_customer_responses_name_length CHECK (length(trim(customer_name)) >= 1),
+  -- A quote is answered once; the answer moves it out of 'sent'
+  CONSTRAINT quote_customer_responses_quote_unique UNIQUE (quote_id)
+);
+
+-- ===========================================
+-- SESSION PERFORMANCE
+-- ===========================================
+
+-- accepted_quotes / conversion_rate as in schema.sql, plus the other customer outcomes
+DROP VIEW IF EXISTS session_performance;
+
+CREATE VIEW session_performance AS
+SELECT 
+  session_id,
+  COUNT(DISTINCT date_trunc('day', created_at)) as active_days,
+  COUNT(*) as total_quotes,
+  AVG(final_total) as avg_quote_value,
+  SUM(final_total) as total_quote_value,
+  MAX(created_at) as last_quote_date,
+  COUNT(*) FILTER (WHERE status = 'accepted') as accepted_quotes,
+  ROUND(
+    COUNT(*) FILTER (WHERE status = 'accepted')::decimal / 
+    NULLIF(COUNT(*), 0) * 100, 2
+  ) as conversion_rate,
+  COUNT(*) FILTER (WHERE status IN ('sent', 'accepted', 'rejected')) as sent_quotes,
+  COUNT(*) FILTER (WHERE status = 'rejected') as rejected_quotes
+FROM quotes
+WHERE session_id IS NOT NULL
+GROUP BY session_id;
+
+-- Quote share links migration completed successfully
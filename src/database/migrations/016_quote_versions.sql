@@ -0,0 +1,31 @@
+-- ALVA POS MVP - Quote Versions Migration
+-- Version: 1.0.15
+-- Description: Version number per quote, incremented on every update, for optimistic update tracking and conflict detection
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Quote versions migration starting
+
+-- ===========================================
+-- ROW VERSIONS
+-- ===========================================
+
+-- Every UPDATE bumps the row version, whichever code path writes it (edits, approvals,
+-- expiry job, public accept/reject)
+CREATE OR REPLACE FUNCTION increment_row_version() RETURNS trigger AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+DROP TRIGGER IF EXISTS trigger_quotes_version ON quotes;
+CREATE TRIGGER trigger_quotes_version
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION increment_row_version();
+
+-- Quote versions migration completed successfully
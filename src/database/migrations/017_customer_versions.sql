@@ -0,0 +1,23 @@
+-- ALVA POS MVP - Customer Versions Migration
+-- Version: 1.0.16
+-- Description: Version number per customer for If-Match / version checks on customer updates
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Customer versions migration starting
+
+-- ===========================================
+-- ROW VERSIONS
+-- ===========================================
+
+-- increment_row_version() is defined in 016_quote_versions
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+DROP TRIGGER IF EXISTS trigger_customers_version ON customers;
+CREATE TRIGGER trigger_customers_version
+  BEFORE UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION increment_row_version();
+
+-- Customer versions migration completed successfully
@@ -0,0 +1,46 @@
+-- ALVA POS MVP - Alvamitra Quote State Migration
+-- Version: 1.0.17
+-- Description: Quotes live in the Alvamitra estimasi tables; their version and revision history are kept here, keyed by Id_Estimasi_Master
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Alvamitra quote state migration starting
+
+-- ===========================================
+-- QUOTE STATE
+-- ===========================================
+
+-- One row per estimasi that was changed through the API; no row = version 1
+CREATE TABLE IF NOT EXISTS alvamitra_quote_state (
+  quote_id text PRIMARY KEY,                 -- tb_store_estimasi_master.Id_Estimasi_Master
+  version integer NOT NULL DEFAULT 1,        -- bumped on every edit and status change
+  organisation_id text,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT alvamitra_quote_state_version_positive CHECK (version >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alvamitra_quote_state_organisation
+  ON alvamitra_quote_state (organisation_id);
+
+-- ===========================================
+-- QUOTE REVISIONS
+-- ===========================================
+
+-- Revisions now reference Alvamitra quotes (numeric id as text) instead of quotes.id
+ALTER TABLE quote_revisions DROP CONSTRAINT IF EXISTS quote_revisions_quote_id_fkey;
+ALTER TABLE quote_revisions ALTER COLUMN quote_id TYPE text USING quote_id::text;
+
+-- assign_quote_revision_number() is unchanged: writers hold the estimasi row lock
+-- (SELECT ... FOR UPDATE in Alvamitra) while they insert a revision
+
+-- Alvamitra estimasi are only ever deactivated, so revisions are never removed
+CREATE OR REPLACE FUNCTION prevent_quote_revision_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'quote revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Alvamitra quote state migration completed successfully
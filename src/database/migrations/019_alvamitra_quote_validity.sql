@@ -0,0 +1,32 @@
+-- ALVA POS MVP - Alvamitra Quote Validity Migration
+-- Version: 1.0.18
+-- Description: Validity of Alvamitra quotes (extended valid_until, status before the expiry job) and their extension audit trail
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Alvamitra quote validity migration starting
+
+-- ===========================================
+-- QUOTE STATE
+-- ===========================================
+
+-- valid_until NULL = Waktu_Simpan_Data + 30 days (ALVAMITRA_QUOTE_VALID_DAYS);
+-- expired_from is the status the expiry job expired the quote from, NULL otherwise
+ALTER TABLE alvamitra_quote_state ADD COLUMN IF NOT EXISTS valid_until timestamptz;
+ALTER TABLE alvamitra_quote_state ADD COLUMN IF NOT EXISTS expired_from text;
+
+CREATE INDEX IF NOT EXISTS idx_alvamitra_quote_state_valid_until
+  ON alvamitra_quote_state (valid_until)
+  WHERE valid_until IS NOT NULL;
+
+-- ===========================================
+-- QUOTE VALIDITY EXTENSIONS
+-- ===========================================
+
+-- Extensions now reference Alvamitra quotes (numeric id as text) instead of quotes.id
+ALTER TABLE quote_validity_extensions DROP CONSTRAINT IF EXISTS quote_validity_extensions_quote_id_fkey;
+ALTER TABLE quote_validity_extensions ALTER COLUMN quote_id TYPE text USING quote_id::text;
+
+-- Alvamitra quote validity migration completed successfully
@@ -0,0 +1,27 @@
+-- ALVA POS MVP - Alvamitra Quote Share Links Migration
+-- Version: 1.0.19
+-- Description: Share links and customer responses reference Alvamitra quotes (Id_Estimasi_Master)
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Alvamitra quote share links migration starting
+
+-- ===========================================
+-- QUOTE SHARE LINKS
+-- ===========================================
+
+ALTER TABLE quote_share_links DROP CONSTRAINT IF EXISTS quote_share_links_quote_id_fkey;
+ALTER TABLE quote_share_links ALTER COLUMN quote_id TYPE text USING quote_id::text;
+
+-- ===========================================
+-- CUSTOMER RESPONSES
+-- ===========================================
+
+ALTER TABLE quote_customer_responses DROP CONSTRAINT IF EXISTS quote_customer_responses_quote_id_fkey;
+ALTER TABLE quote_customer_responses ALTER COLUMN quote_id TYPE text USING quote_id::text;
+
+-- session_performance still counts the legacy quotes table; Alvamitra quotes have no session
+
+-- Alvamitra quote share links migration completed successfully
@@ -0,0 +1,23 @@
+-- ALVA POS MVP - Organisation SmartJMP Mapping Migration
+-- Version: 1.0.20
+-- Description: SmartJMP organisation of each Alvamitra organisation, used to scope SmartJMP inventory queries
+
+-- ===========================================
+-- MIGRATION METADATA
+-- ===========================================
+
+-- Organisation SmartJMP mapping migration starting
+
+-- ===========================================
+-- ORGANISATION SMARTJMP
+-- ===========================================
+
+-- Organisations without a row get no SmartJMP data
+CREATE TABLE IF NOT EXISTS organisation_smartjmp (
+  organisation_id text PRIMARY KEY,          -- tb_data_pengguna.Organisasi_Kode (Alvamitra)
+  organisasi_kode_smartjmp text NOT NULL,    -- Organisasi_Kode in SmartJMP
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Organisation SmartJMP mapping migration completed successfully
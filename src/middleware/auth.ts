@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from 'express';
+import { authService, AuthUser } from '@/services/AuthService';
+import { Permission } from '@/config/permissions';
+import { Logger } from '@/utils/logger';
+import { runWithRequestContext } from '@/utils/requestContext';
+
+// Extend Express Request interface to include the authenticated user context
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      userId?: string;
+      organisasiKode?: string;
+    }
+  }
+}
+
+// Request that has passed requiredAuthMiddleware / requirePermission
+export interface AuthenticatedRequest extends Request {
+  user: AuthUser;
+  userId: string;
+  organisasiKode: string;
+}
+
+export interface AuthMiddlewareOptions {
+  required?: boolean;
+}
+
+/**
+ * Extract bearer token from the Authorization header
+ */
+function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) return null;
+
+  return token.trim();
+}
+
+/**
+ * Authentication middleware: verifies the access token and puts
+ * userId / organisasiKode on the request
+ */
+export function authMiddleware(options: AuthMiddlewareOptions = {}) {
+  const { required = true } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      // Already authenticated by an earlier middleware
+      if (req.user) {
+        return next();
+      }
+
+      const token = extractToken(req);
+      const user = token ? authService.verifyToken(token) : null;
+
+      if (!user) {
+        if (required) {
+          Logger.security(token ? 'Invalid or expired access token' : 'Authentication required but no token provided', {
+            ip: req.ip,
+            userAgent: req.get('User-Agent'),
+            url: req.url,
+          });
+
+          res.status(401).json({
+            error: 'Authentication required',
+            message: token ? 'Access token is invalid or expired' : 'A valid access token is required to access this resource',
+            code: token ? 'INVALID_TOKEN' : 'AUTH_REQUIRED',
+          });
+          return;
+        }
+
+        return next();
+      }
+
+      req.user = user;
+      req.userId = user.id;
+      req.organisasiKode = user.organisasiKode;
+      res.locals.userId = user.id;
+      res.locals.organisasiKode = user.organisasiKode;
+
+      // Tenant scope for DatabaseService queries made while handling this request
+      runWithRequestContext({
+        userId: user.id,
+        sessionId: req.sessionId || undefined,
+        organisasiKode: user.organisasiKode,
+        organisasiKodeSmartjmp: user.organisasiKodeSmartjmp || undefined,
+      }, next);
+    } catch (error) {
+      Logger.error('Auth middleware error', {
+        error: error instanceof Error ? error.message : String(error),
+        ip: req.ip,
+        url: req.url,
+      });
+
+      res.status(500).json({
+        error: 'Authentication error',
+        message: 'An error occurred while verifying your credentials',
+        code: 'AUTH_ERROR',
+      });
+    }
+  };
+}
+
+/**
+ * Middleware for routes that work with or without a logged-in user
+ */
+export const optionalAuthMiddleware = authMiddleware({
+  required: false,
+});
+
+/**
+ * Middleware for routes that require a logged-in user
+ */
+export const requiredAuthMiddleware = authMiddleware({
+  required: true,
+});
+
+/**
+ * Permission middleware: requires a logged-in user whose role grants
+ * every listed permission, e.g. requirePermission('orders:write')
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'A valid access token is required to access this resource',
+        code: 'AUTH_REQUIRED',
+      });
+      return;
+    }
+
+    const missing = permissions.filter(permission => !req.user!.permissions.includes(permission));
+
+    if (missing.length > 0) {
+      Logger.security('Permission denied', {
+        userId: req.user.id,
+        role: req.user.role,
+        missing,
+        method: req.method,
+        url: req.originalUrl,
+      });
+
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Role '${req.user.role}' is missing required permission: ${missing.join(', ')}`,
+        code: 'PERMISSION_DENIED',
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -3,19 +3,6 @@
 
 import { Request, Response, NextFunction } from 'express';
 
-interface AuthenticatedRequest {
-  user?: {
-    id: string;
-    permissions: string[];
-    role: string;
-  };
-  sessionId?: string;
-  clientIP?: string;
-  ip?: string;
-  body?: any;
-  query?: any;
-}
-
 // Basic rate limiting using in-memory store (for MVP only)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
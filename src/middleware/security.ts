@@ -33,8 +33,9 @@ export const corsMiddleware = cors({
     'Authorization',
     'X-Session-ID',
     'X-Request-ID',
+    'If-Match',
   ],
-  exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
+  exposedHeaders: ['X-Total-Count', 'X-Page-Count', 'ETag'],
   maxAge: 86400, // 24 hours
 });
 
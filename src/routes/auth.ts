@@ -0,0 +1,233 @@
+// ALVA POS MVP - Authentication API Routes
+// Login against Alvamitra users and issue signed access tokens
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authService, AuthUser, LoginResult } from '@/services/AuthService';
+import { requiredAuthMiddleware, requirePermission } from '@/middleware/auth';
+import { ROLES, Role } from '@/config/permissions';
+import { Logger } from '@/utils/logger';
+import { ApiResponse } from '@/types/api';
+
+const router = Router();
+
+// ===========================================
+// HELPER FUNCTIONS
+// ===========================================
+
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const validationErrors = errors.array().map(error => ({
+      field: error.type === 'field' ? (error as any).path : error.type,
+      message: error.msg
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    return res.status(400).json({
+      ...response,
+      validation_errors: validationErrors
+    });
+  }
+  next();
+}
+
+// ===========================================
+// VALIDATION RULES
+// ===========================================
+
+const loginValidation = [
+  body('email').isEmail().withMessage('Valid email is required'),
+  body('password').isString().isLength({ min: 1 }).withMessage('Password is required'),
+  handleValidationErrors
+];
+
+const setRoleValidation = [
+  param('id').isString().isLength({ min: 1 }).withMessage('Valid user ID is required'),
+  body('role').isIn([...ROLES]).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+  handleValidationErrors
+];
+
+// ===========================================
+// ROUTE HANDLERS
+// ===========================================
+
+/**
+ * POST /api/auth/login - Login and receive an access token
+ */
+router.post('/login', loginValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const { email, password } = req.body;
+
+    const result = await authService.login(String(email).trim().toLowerCase(), password);
+
+    if (result.error || !result.data) {
+      const invalidCredentials = result.error?.code === 'INVALID_CREDENTIALS';
+
+      return res.status(invalidCredentials ? 401 : 500).json({
+        success: false,
+        error: invalidCredentials ? 'Invalid credentials' : 'Login failed',
+        message: invalidCredentials ? 'Invalid email or password' : 'Unable to process login',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Login successful', {
+      userId: result.data.user.id,
+      sessionId: res.locals.sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse<LoginResult> = {
+      success: true,
+      data: result.data,
+      message: 'Login successful',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Login failed', {
+      error: error instanceof Error ? error.message : String(error),
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Login failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/auth/me - Current user context
+ */
+router.get('/me', requiredAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    // Token may outlive the account; re-check the user is still active
+    const result = await authService.getUser(req.userId!);
+
+    if (result.error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch user',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    if (!result.data) {
+      return res.status(401).json({
+        success: false,
+        error: 'User is no longer active',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse<AuthUser> = {
+      success: true,
+      data: { ...result.data, organisasiKodeSmartjmp: req.user!.organisasiKodeSmartjmp },
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Current user lookup failed', {
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.userId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Current user lookup failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * PUT /api/auth/users/:id/role - Assign role to a user (admin)
+ */
+router.put('/users/:id/role', requirePermission('users:manage'), setRoleValidation, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const role = req.body.role as Role;
+
+    const userResult = await authService.getUser(id);
+    if (!userResult.error && !userResult.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const result = await authService.setUserRole(id, role, req.userId!);
+
+    if (userResult.error || result.error || !result.data) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to assign role',
+        message: (userResult.error || result.error)?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse<{ user_id: string; role: Role }> = {
+      success: true,
+      data: result.data,
+      message: 'Role assigned; takes effect at the user\'s next login',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Role assignment failed', {
+      error: error instanceof Error ? error.message : String(error),
+      targetUserId: req.params.id,
+      userId: req.userId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Role assignment failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export { router as authRouter };
@@ -0,0 +1,496 @@
+// ALVA POS MVP - BOQ Import API Routes
+// ALVA Survey BOQ spreadsheet upload, parsing and catalog matching
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { config } from '@/config/environment';
+import { databaseService, BOQImport, Quote } from '@/services/DatabaseService';
+import { boqImportService } from '@/services/BOQImportService';
+import { requirePermission } from '@/middleware/auth';
+import { validateFileUpload } from '@/middleware/security';
+import { Logger } from '@/utils/logger';
+import { ApiResponse, BOQImportRow, BOQQuoteRequest } from '@/types/api';
+
+const router = Router();
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// ===========================================
+// HELPER FUNCTIONS
+// ===========================================
+
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const validationErrors = errors.array().map(error => ({
+      field: error.type === 'field' ? (error as any).path : error.type,
+      message: error.msg,
+      value: error.type === 'field' ? (error as any).value : undefined
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    return res.status(400).json({
+      ...response,
+      validation_errors: validationErrors
+    });
+  }
+  next();
+}
+
+/**
+ * Original file name from the X-Filename header or ?filename=, reduced to a safe base name
+ */
+function uploadFilename(req: Request): string {
+  const raw = String(req.get('X-Filename') || req.query.filename || 'boq.xlsx');
+  const base = raw.split(/[\\/]/).pop() || 'boq.xlsx';
+  return base.replace(/[^\w.\- ]/g, '_').slice(0, 255);
+}
+
+/**
+ * Map BOQImportService error codes to HTTP status
+ */
+function statusForBOQError(error: any): number {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+    case 'ROW_NOT_FOUND':
+      return 404;
+    case 'IMPORT_NOT_COMPLETED':
+      return 409;
+    case 'UNKNOWN_ROWS':
+    case 'UNRESOLVED_ROWS':
+    case 'EMPTY_QUOTE':
+    case 'PRODUCT_NOT_FOUND':
+    case 'CALCULATION_FAILED':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+// ===========================================
+// VALIDATION RULES
+// ===========================================
+
+const uploadValidation = [
+  query('filename').optional().isString().isLength({ min: 1, max: 255 }).withMessage('Filename must be less than 255 characters'),
+  handleValidationErrors
+];
+
+const getImportValidation = [
+  param('id').isUUID().withMessage('Valid import ID is required'),
+  handleValidationErrors
+];
+
+const createQuoteValidation = [
+  param('id').isUUID().withMessage('Valid import ID is required'),
+  body('resolutions').optional().isArray({ max: 1000 }).withMessage('Resolutions must be an array'),
+  body('resolutions.*.row').isInt({ min: 1 }).withMessage('Resolution row must be a worksheet row number'),
+  body('resolutions.*.action').isIn(['product', 'drop']).withMessage('Resolution action must be product or drop'),
+  body('resolutions.*.product_id')
+    .if(body('resolutions.*.action').equals('product'))
+    .isUUID().withMessage('Valid product ID is required when choosing a product'),
+  body('tax_rate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1'),
+  body('notes').optional().isString().isLength({ max: 2000 }).withMessage('Notes must be less than 2000 characters'),
+  handleValidationErrors
+];
+
+const reviewRowsValidation = [
+  param('id').isUUID().withMessage('Valid import ID is required'),
+  query('status').optional().isIn(['matched', 'unmatched']).withMessage('Status must be matched or unmatched'),
+  query('max_confidence').optional().isFloat({ min: 0, max: 1 }).withMessage('Max confidence must be between 0 and 1'),
+  handleValidationErrors
+];
+
+const overrideMatchValidation = [
+  param('id').isUUID().withMessage('Valid import ID is required'),
+  param('row').isInt({ min: 1 }).withMessage('Row must be a worksheet row number'),
+  body('product_id').isUUID().withMessage('Valid product ID is required'),
+  body('remember').optional().isBoolean().withMessage('Remember must be a boolean'),
+  handleValidationErrors
+];
+
+const listImportsValidation = [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+// ===========================================
+// ROUTE HANDLERS
+// ===========================================
+
+/**
+ * POST /api/boq/imports - Upload an ALVA Survey BOQ spreadsheet (raw XLSX body)
+ *
+ * The workbook is parsed before answering; catalog matching then runs in the
+ * background and the import's processing_progress / matched_items / unmatched_items
+ * can be polled through GET /api/boq/imports/:id.
+ */
+router.post(
+  '/imports',
+  requirePermission('quotes:write'),
+  validateFileUpload(),
+  express.raw({ type: XLSX_MIME_TYPE, limit: config.fileUpload.maxSize }),
+  uploadValidation,
+  async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'BOQ file required',
+          message: `Send the spreadsheet as the request body with Content-Type ${XLSX_MIME_TYPE}`,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      const originalFilename = uploadFilename(req);
+      const parsed = await boqImportService.parseWorkbook(req.body);
+
+      if (parsed.error || !parsed.data) {
+        return res.status(422).json({
+          success: false,
+          error: 'BOQ could not be read',
+          message: parsed.error?.message,
+          code: parsed.error?.code,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      const createResult = await databaseService.createBOQImport({
+        session_id: res.locals.sessionId,
+        filename: `boq-${Date.now()}.xlsx`,
+        original_filename: originalFilename,
+        file_size: req.body.length,
+        mime_type: XLSX_MIME_TYPE,
+        status: 'processing',
+        processing_progress: 0,
+        total_items: parsed.data.rows.length,
+        matched_items: 0,
+        unmatched_items: 0,
+        import_data: {
+          sheet: parsed.data.sheet,
+          header_row: parsed.data.headerRow,
+          columns: parsed.data.columns,
+          rows: []
+        }
+      });
+
+      if (createResult.error || !createResult.data) {
+        throw new Error(createResult.error?.message || 'Failed to create BOQ import');
+      }
+
+      const boqImport = createResult.data;
+
+      // Matching continues after the response (request context keeps session and organisation)
+      void boqImportService.processImport(boqImport.id!, parsed.data);
+
+      Logger.info('BOQ import uploaded', {
+        importId: boqImport.id,
+        filename: originalFilename,
+        rows: parsed.data.rows.length,
+        sessionId: res.locals.sessionId,
+        responseTime: Date.now() - startTime
+      });
+
+      const response: ApiResponse<BOQImport> = {
+        success: true,
+        data: boqImport,
+        message: `BOQ with ${parsed.data.rows.length} rows accepted, matching products`,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.status(202).json(response);
+
+    } catch (error) {
+      Logger.error('BOQ import upload failed', {
+        error: error instanceof Error ? error.message : String(error),
+        sessionId: res.locals.sessionId,
+        responseTime: Date.now() - startTime
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'BOQ import failed',
+        message: error instanceof Error ? error.message : 'Internal server error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/boq/imports - Recent BOQ imports of the session
+ */
+router.get('/imports', requirePermission('quotes:read'), listImportsValidation, async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const result = await databaseService.getBOQImports(limit);
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const response: ApiResponse<BOQImport[]> = {
+      success: true,
+      data: result.data || [],
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('BOQ import listing failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list BOQ imports',
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+});
+
+/**
+ * GET /api/boq/imports/:id - Import status, progress and per-row match results
+ */
+router.get('/imports/:id', requirePermission('quotes:read'), getImportValidation, async (req: Request, res: Response) => {
+  try {
+    const result = await databaseService.getBOQImport(req.params.id);
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    if (!result.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'BOQ import not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse<BOQImport> = {
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('BOQ import fetch failed', {
+      error: error instanceof Error ? error.message : String(error),
+      importId: req.params.id
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load BOQ import',
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+});
+
+/**
+ * GET /api/boq/imports/:id/rows - Rows of a completed import for match review
+ *
+ * Each row carries its match (with confidence) and the top trigram candidates;
+ * ?status=unmatched and ?max_confidence=0.7 narrow the list to rows worth checking.
+ */
+router.get('/imports/:id/rows', requirePermission('quotes:read'), reviewRowsValidation, async (req: Request, res: Response) => {
+  try {
+    const result = await boqImportService.getReviewRows(req.params.id, {
+      status: req.query.status as BOQImportRow['status'] | undefined,
+      maxConfidence: req.query.max_confidence !== undefined ? Number(req.query.max_confidence) : undefined
+    });
+
+    if (result.error || !result.data) {
+      return res.status(statusForBOQError(result.error)).json({
+        success: false,
+        error: result.error?.message || 'Failed to load BOQ rows',
+        code: result.error?.code,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const { import: boqImport, rows } = result.data;
+    const response: ApiResponse<{ import_id: string; total_items: number; matched_items: number; unmatched_items: number; rows: BOQImportRow[] }> = {
+      success: true,
+      data: {
+        import_id: boqImport.id!,
+        total_items: boqImport.total_items,
+        matched_items: boqImport.matched_items,
+        unmatched_items: boqImport.unmatched_items,
+        rows
+      },
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('BOQ row review failed', {
+      error: error instanceof Error ? error.message : String(error),
+      importId: req.params.id
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load BOQ rows',
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+});
+
+/**
+ * PUT /api/boq/imports/:id/rows/:row/match - Override the product matched to a row
+ *
+ * The row's wording is learned as an alias for later imports unless `remember` is false.
+ */
+router.put('/imports/:id/rows/:row/match', requirePermission('quotes:write'), overrideMatchValidation, async (req: Request, res: Response) => {
+  try {
+    const remember = req.body.remember === undefined ? true : req.body.remember === true || req.body.remember === 'true';
+    const result = await boqImportService.overrideRowMatch(
+      req.params.id,
+      Number(req.params.row),
+      req.body.product_id,
+      remember
+    );
+
+    if (result.error || !result.data) {
+      return res.status(statusForBOQError(result.error)).json({
+        success: false,
+        error: result.error?.message || 'Failed to override BOQ match',
+        code: result.error?.code,
+        details: result.error?.details,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse<{ row: BOQImportRow; learned_alias: string | null }> = {
+      success: true,
+      data: { row: result.data.row, learned_alias: result.data.alias },
+      message: result.data.alias ? 'Match updated and remembered for future imports' : 'Match updated',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('BOQ match override failed', {
+      error: error instanceof Error ? error.message : String(error),
+      importId: req.params.id,
+      row: req.params.row
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to override BOQ match',
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+});
+
+/**
+ * POST /api/boq/imports/:id/quote - Create a priced draft quote from a completed import
+ *
+ * Unmatched rows must be resolved in `resolutions` ({ row, action: 'product', product_id }
+ * or { row, action: 'drop' }); matched rows can be overridden the same way.
+ */
+router.post('/imports/:id/quote', requirePermission('quotes:write'), createQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const request: BOQQuoteRequest = {
+      resolutions: (req.body.resolutions || []).map((resolution: any) => ({
+        row: Number(resolution.row),
+        action: resolution.action,
+        product_id: resolution.product_id
+      })),
+      tax_rate: req.body.tax_rate !== undefined ? Number(req.body.tax_rate) : undefined,
+      notes: req.body.notes
+    };
+
+    const result = await boqImportService.createQuoteFromImport(
+      req.params.id,
+      { userId: req.userId!, organisasiKode: req.organisasiKode! },
+      request
+    );
+
+    if (result.error || !result.data) {
+      return res.status(statusForBOQError(result.error)).json({
+        success: false,
+        error: result.error?.message || 'Failed to create quote from BOQ',
+        code: result.error?.code,
+        details: result.error?.details,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    Logger.info('BOQ quote created', {
+      importId: req.params.id,
+      quoteId: result.data.quote.id,
+      sessionId: res.locals.sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse<{ quote: Quote; dropped_rows: number[] }> = {
+      success: true,
+      data: { quote: result.data.quote, dropped_rows: result.data.droppedRows },
+      message: 'Draft quote created from BOQ import',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    Logger.error('BOQ quote creation failed', {
+      error: error instanceof Error ? error.message : String(error),
+      importId: req.params.id,
+      responseTime: Date.now() - startTime
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create quote from BOQ',
+      message: error instanceof Error ? error.message : 'Internal server error',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+});
+
+export { router as boqRouter };
@@ -3,7 +3,9 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
-import { databaseService } from '@/services/DatabaseService';
+import { databaseService, Customer as DBCustomer } from '@/services/DatabaseService';
+import { requirePermission } from '@/middleware/auth';
+import { evaluateVersionPrecondition, staleWriteStatus, versionETag, VersionPrecondition } from '@/utils/versioning';
 import { Logger } from '@/utils/logger';
 import { 
   ApiResponse, 
@@ -36,6 +38,41 @@ function normalizeEmail(email: string): string {
   return email.toLowerCase().trim();
 }
 
+/**
+ * DatabaseService customer to API format
+ */
+function toApiCustomer(dbCustomer: DBCustomer): Customer {
+  return {
+    ...dbCustomer,
+    id: dbCustomer.id!,
+    created_at: dbCustomer.created_at || new Date().toISOString(),
+    updated_at: dbCustomer.updated_at || new Date().toISOString(),
+    total_quotes: dbCustomer.total_quotes || 0,
+    last_quote_date: dbCustomer.last_quote_date || null
+  } as Customer;
+}
+
+/**
+ * 412 (If-Match) or 409 (version) for an edit based on an older version, with the current customer
+ */
+function respondStaleCustomer(res: Response, precondition: VersionPrecondition, current: DBCustomer) {
+  const customer = toApiCustomer(current);
+  if (customer.version !== undefined) {
+    res.set('ETag', versionETag(customer.version));
+  }
+
+  const response: ApiResponse<Customer> = {
+    success: false,
+    error: 'Customer was modified',
+    message: `Customer is at version ${customer.version}; reload it and apply your changes again`,
+    data: customer,
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
+  };
+
+  return res.status(staleWriteStatus(precondition)).json({ ...response, code: 'VERSION_CONFLICT' });
+}
+
 /**
  * Find potential duplicate customers
  */
@@ -151,6 +188,7 @@ const updateCustomerValidation = [
   body('email').optional().isEmail().isLength({ max: 255 }).withMessage('Valid email is required'),
   body('phone').optional().isString().isLength({ min: 10, max: 20 }).withMessage('Valid phone number is required'),
   body('company').optional().isString().isLength({ max: 255 }).withMessage('Company name must be less than 255 characters'),
+  body('version').optional().isInt({ min: 1 }).withMessage('Version must be a positive integer').toInt(),
   handleValidationErrors
 ];
 
@@ -174,7 +212,7 @@ const listCustomersValidation = [
 /**
  * POST /api/customers - Create new customer with deduplication
  */
-router.post('/', createCustomerValidation, async (req: Request, res: Response) => {
+router.post('/', requirePermission('customers:write'), createCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -275,7 +313,7 @@ router.post('/', createCustomerValidation, async (req: Request, res: Response) =
 /**
  * POST /api/customers/force - Force create customer (bypassing duplicates)
  */
-router.post('/force', createCustomerValidation, async (req: Request, res: Response) => {
+router.post('/force', requirePermission('customers:write'), createCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -345,7 +383,7 @@ router.post('/force', createCustomerValidation, async (req: Request, res: Respon
 /**
  * GET /api/customers/:id - Get customer by ID
  */
-router.get('/:id', getCustomerValidation, async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('customers:read'), getCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -363,16 +401,13 @@ router.get('/:id', getCustomerValidation, async (req: Request, res: Response) =>
       });
     }
 
-    const customer: Customer = {
-      ...getResult.data,
-      id: getResult.data.id!,
-      created_at: getResult.data.created_at || new Date().toISOString(),
-      updated_at: getResult.data.updated_at || new Date().toISOString(),
-      total_quotes: getResult.data.total_quotes || 0,
-      last_quote_date: getResult.data.last_quote_date || null
-    };
+    const customer = toApiCustomer(getResult.data);
     const responseTime = Date.now() - startTime;
 
+    if (customer.version !== undefined) {
+      res.set('ETag', versionETag(customer.version));
+    }
+
     Logger.info('Customer retrieved successfully', {
       customerId: id,
       sessionId,
@@ -410,14 +445,16 @@ router.get('/:id', getCustomerValidation, async (req: Request, res: Response) =>
 
 /**
  * PUT /api/customers/:id - Update customer
+ * If-Match (ETag from GET) or body `version` make the update conditional: 412/409 with the
+ * current customer when it changed in the meantime
  */
-router.put('/:id', updateCustomerValidation, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('customers:write'), updateCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
     const { id } = req.params;
     const sessionId = res.locals.sessionId;
-    const updateData: CustomerUpdateRequest = req.body;
+    const { version, ...updateData }: CustomerUpdateRequest = req.body;
 
     // Verify customer exists
     const existingResult = await databaseService.getCustomer(id);
@@ -431,6 +468,12 @@ router.put('/:id', updateCustomerValidation, async (req: Request, res: Response)
       });
     }
 
+    // If-Match / version: refuse edits based on an older version of the customer
+    const precondition = evaluateVersionPrecondition(req, existingResult.data.version);
+    if (precondition.stale) {
+      return respondStaleCustomer(res, precondition, existingResult.data);
+    }
+
     // TODO: Implement duplicate email check using available service methods
     // For now, proceed with the update
 
@@ -448,20 +491,25 @@ router.put('/:id', updateCustomerValidation, async (req: Request, res: Response)
       id,
       ...existingResult.data,
       ...updateData
-    });
+    }, precondition.expectedVersion);
 
     if (updateResult.error) {
       throw new Error(updateResult.error.message);
     }
 
-    const updatedCustomer: Customer = {
-      ...updateResult.data!,
-      id: updateResult.data!.id!,
-      created_at: updateResult.data!.created_at || new Date().toISOString(),
-      updated_at: updateResult.data!.updated_at || new Date().toISOString(),
-      total_quotes: updateResult.data!.total_quotes || 0,
-      last_quote_date: updateResult.data!.last_quote_date || null
-    };
+    if (!updateResult.data) {
+      // Another edit landed between the version check and this write
+      const current = await databaseService.getCustomer(id);
+      if (current.data && precondition.expectedVersion !== null) {
+        return respondStaleCustomer(res, precondition, current.data);
+      }
+      throw new Error('Customer not updated');
+    }
+
+    const updatedCustomer = toApiCustomer(updateResult.data);
+    if (updatedCustomer.version !== undefined) {
+      res.set('ETag', versionETag(updatedCustomer.version));
+    }
 
     const responseTime = Date.now() - startTime;
     Logger.info('Customer updated successfully', {
@@ -504,7 +552,7 @@ router.put('/:id', updateCustomerValidation, async (req: Request, res: Response)
 /**
  * GET /api/customers - Search and list customers
  */
-router.get('/', listCustomersValidation, async (req: Request, res: Response) => {
+router.get('/', requirePermission('customers:read'), listCustomersValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -626,7 +674,7 @@ router.get('/', listCustomersValidation, async (req: Request, res: Response) =>
 /**
  * GET /api/customers/:id/quotes - Get customer's quote history
  */
-router.get('/:id/quotes', getCustomerValidation, async (req: Request, res: Response) => {
+router.get('/:id/quotes', requirePermission('customers:read', 'quotes:read'), getCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -735,7 +783,7 @@ router.get('/:id/quotes', getCustomerValidation, async (req: Request, res: Respo
 /**
  * GET /api/customers/search/duplicates - Find potential duplicates for given customer data
  */
-router.post('/search/duplicates', createCustomerValidation, async (req: Request, res: Response) => {
+router.post('/search/duplicates', requirePermission('customers:read'), createCustomerValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -5,6 +5,7 @@ import { Router, Request, Response } from 'express';
 import { databaseService, DatabaseService } from '@/services/DatabaseService';
 import { migrationManager } from '@/database/MigrationManager';
 import { sessionMiddleware } from '@/middleware/sessionMiddleware';
+import { requirePermission } from '@/middleware/auth';
 import { Logger } from '@/utils/logger';
 
 const router = Router();
@@ -12,6 +13,9 @@ const router = Router();
 // Apply session middleware to all database routes
 router.use(sessionMiddleware);
 
+// Database management is admin only
+router.use(requirePermission('database:admin'));
+
 // Extend Request interface to include database service
 interface DatabaseRequest extends Request {
   db?: DatabaseService;
@@ -252,6 +256,14 @@ router.get('/products', async (req: DatabaseRequest, res: Response) => {
       parseInt(limit as string),
       parseInt(offset as string)
     );
+
+    if ((error as any)?.code === 'SMARTJMP_ORGANISATION_MISSING') {
+      return res.status(403).json({
+        success: false,
+        error: error!.message,
+        code: 'SMARTJMP_ORGANISATION_MISSING'
+      });
+    }
     
     if (error) {
       throw new Error(error.message || 'Failed to get products');
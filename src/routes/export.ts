@@ -1,32 +1,374 @@
 // ALVA POS MVP - Export API Routes
 // Simple export endpoints for MVP functionality
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
 import { 
   securityHeaders,
   sanitizeInput
 } from '../middleware/exportSecurity';
-
-interface AuthenticatedRequest {
-  user?: {
-    id: string;
-    permissions: string[];
-    role: string;
-  };
-  sessionId?: string;
-  clientIP?: string;
-  ip?: string;
-  body?: any;
-  query?: any;
-  params?: any;
-}
+import { requirePermission } from '@/middleware/auth';
+import { simpleExportService } from '@/services/SimpleExportService';
+import { exportJobService, ExportFormat, ExportJobType } from '@/services/ExportJobService';
+import ExportLoggerService from '@/services/ExportLoggerService';
+import { EXPORT_CONSTANTS } from '@/config/export';
+import { ExportError, ExportResponse } from '@/types/export';
 
 const router = Router();
+const exportLogger = ExportLoggerService.getInstance();
 
 // Apply security middleware to all routes
 router.use(securityHeaders());
 router.use(sanitizeInput());
 
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      code: EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED,
+      validation_errors: errors.array().map(error => ({
+        field: error.type === 'field' ? (error as any).path : error.type,
+        message: error.msg
+      }))
+    });
+  }
+  next();
+}
+
+const quoteExportValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  body('format').optional().isIn(EXPORT_CONSTANTS.SUPPORTED_FORMATS).withMessage('Format must be pdf or excel'),
+  body('options.includeLogo').optional().isBoolean().withMessage('includeLogo must be a boolean'),
+  handleValidationErrors
+];
+
+const listExportValidation = [
+  body('format').optional().isIn(['excel']).withMessage('List exports are only available as excel'),
+  body('status').optional().isArray().withMessage('Status must be an array'),
+  body('status.*').optional().isString().isLength({ min: 1, max: 30 }),
+  body('date_from').optional().isISO8601().withMessage('date_from must be an ISO 8601 date'),
+  body('date_to').optional().isISO8601().withMessage('date_to must be an ISO 8601 date'),
+  handleValidationErrors
+];
+
+const jobIdValidation = [
+  param('id').isUUID().withMessage('Valid job ID is required'),
+  handleValidationErrors
+];
+
+const fileDownloadValidation = [
+  param('id').isUUID().withMessage('Valid file ID is required'),
+  query('expires').isInt().withMessage('Missing link expiry'),
+  query('signature').isHexadecimal().withMessage('Missing link signature'),
+  handleValidationErrors
+];
+
+/**
+ * List filters from the request body
+ */
+function listFilters(req: Request) {
+  return {
+    status: req.body.status as string[] | undefined,
+    date_from: req.body.date_from as string | undefined,
+    date_to: req.body.date_to as string | undefined
+  };
+}
+
+/**
+ * Send export failure: not found / validation errors keep their code, everything else is a processing failure
+ */
+function sendExportError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof ExportError && error.code === EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND) {
+    return res.status(404).json({ success: false, error: error.message, code: error.code });
+  }
+  if (error instanceof ExportError && error.code === EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED) {
+    return res.status(422).json({ success: false, error: error.message, code: error.code });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    code: EXPORT_CONSTANTS.ERROR_CODES.PROCESSING_FAILED
+  });
+}
+
+/**
+ * Queue a background export job and answer 202 with its status URL
+ */
+async function queueExport(
+  res: Response,
+  jobType: ExportJobType,
+  format: ExportFormat,
+  params: Record<string, any>
+) {
+  const { data: job, error } = await exportJobService.enqueue(jobType, format, params);
+
+  if (error || !job) {
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue export job',
+      code: EXPORT_CONSTANTS.ERROR_CODES.PROCESSING_FAILED
+    });
+  }
+
+  const response: ExportResponse = {
+    success: true,
+    message: 'Export job queued',
+    data: {
+      ...exportJobService.describeJob(job),
+      statusUrl: `/api/v1/export/jobs/${job.id}`
+    }
+  };
+
+  res.status(202).json(response);
+}
+
+/**
+ * @route POST /api/v1/export/quotes/:id
+ * @desc Render a quote (Alvamitra estimasi) as a branded PDF quotation or an XLSX workbook
+ * @access Private (export:create)
+ */
+router.post('/quotes/:id', requirePermission('export:create'), quoteExportValidation, async (req: Request, res: Response) => {
+  const format: ExportFormat = req.body.format || 'pdf';
+  const jobId = `quote-${req.params.id}-${Date.now()}`;
+  const stopTimer = exportLogger.startPerformanceTimer();
+
+  try {
+    exportLogger.logExportStart(jobId, format, req.userId);
+
+    const file = await exportJobService.exportQuote(req.params.id, format, req.body.options);
+    exportLogger.logExportComplete(jobId, format, file.fileSize, stopTimer());
+
+    const response: ExportResponse = {
+      success: true,
+      message: format === 'excel' ? 'Quotation workbook generated' : 'Quotation PDF generated',
+      data: file
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    exportLogger.logExportError(jobId, format, error instanceof Error ? error : new Error(String(error)));
+    sendExportError(res, error, 'Failed to generate quotation export');
+  }
+});
+
+/**
+ * @route POST /api/v1/export/quotes
+ * @desc Export a filtered quote list as XLSX (Quotes, Items, Labor, Totals)
+ * @access Private (export:create, quotes:read)
+ */
+router.post('/quotes', requirePermission('export:create', 'quotes:read'), listExportValidation, async (req: Request, res: Response) => {
+  const jobId = `quotes-${Date.now()}`;
+  const stopTimer = exportLogger.startPerformanceTimer();
+
+  try {
+    exportLogger.logExportStart(jobId, 'excel', req.userId);
+
+    const file = await exportJobService.exportQuoteList(listFilters(req));
+    exportLogger.logExportComplete(jobId, 'excel', file.fileSize, stopTimer());
+
+    const response: ExportResponse = {
+      success: true,
+      message: `Exported ${file.rowCount} of ${file.total} quotes`,
+      data: file
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    exportLogger.logExportError(jobId, 'excel', error instanceof Error ? error : new Error(String(error)));
+    sendExportError(res, error, 'Failed to export quotes');
+  }
+});
+
+/**
+ * @route POST /api/v1/export/orders
+ * @desc Export a filtered order list as XLSX (Orders, Items, Labor, Totals)
+ * @access Private (export:create, orders:read)
+ */
+router.post('/orders', requirePermission('export:create', 'orders:read'), listExportValidation, async (req: Request, res: Response) => {
+  const jobId = `orders-${Date.now()}`;
+  const stopTimer = exportLogger.startPerformanceTimer();
+
+  try {
+    exportLogger.logExportStart(jobId, 'excel', req.userId);
+
+    const file = await exportJobService.exportOrderList(listFilters(req));
+    exportLogger.logExportComplete(jobId, 'excel', file.fileSize, stopTimer());
+
+    const response: ExportResponse = {
+      success: true,
+      message: `Exported ${file.rowCount} of ${file.total} orders`,
+      data: file
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    exportLogger.logExportError(jobId, 'excel', error instanceof Error ? error : new Error(String(error)));
+    sendExportError(res, error, 'Failed to export orders');
+  }
+});
+
+/**
+ * @route POST /api/v1/export/jobs/quotes/:id
+ * @desc Queue a quote PDF/XLSX export in the background
+ * @access Private (export:create)
+ */
+router.post('/jobs/quotes/:id', requirePermission('export:create'), quoteExportValidation, async (req: Request, res: Response) => {
+  await queueExport(res, 'quote', req.body.format || 'pdf', {
+    quoteId: req.params.id,
+    includeLogo: req.body.options?.includeLogo
+  });
+});
+
+/**
+ * @route POST /api/v1/export/jobs/quotes
+ * @desc Queue a filtered quote list XLSX export in the background
+ * @access Private (export:create, quotes:read)
+ */
+router.post('/jobs/quotes', requirePermission('export:create', 'quotes:read'), listExportValidation, async (req: Request, res: Response) => {
+  await queueExport(res, 'quote_list', 'excel', {
+    filters: listFilters(req)
+  });
+});
+
+/**
+ * @route POST /api/v1/export/jobs/orders
+ * @desc Queue a filtered order list XLSX export in the background
+ * @access Private (export:create, orders:read)
+ */
+router.post('/jobs/orders', requirePermission('export:create', 'orders:read'), listExportValidation, async (req: Request, res: Response) => {
+  await queueExport(res, 'order_list', 'excel', { filters: listFilters(req) });
+});
+
+/**
+ * @route GET /api/v1/export/jobs/:id
+ * @desc Poll export job status and progress; completed jobs include a signed download URL
+ * @access Private (export:read)
+ */
+router.get('/jobs/:id', requirePermission('export:read'), jobIdValidation, async (req: Request, res: Response) => {
+  const { data: job, error } = await exportJobService.getJob(req.params.id);
+
+  if (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load export job',
+      code: EXPORT_CONSTANTS.ERROR_CODES.PROCESSING_FAILED
+    });
+  }
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Export job not found',
+      code: EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND
+    });
+  }
+
+  const response: ExportResponse = {
+    success: true,
+    message: `Export job ${job.status}`,
+    data: exportJobService.describeJob(job)
+  };
+
+  res.json(response);
+});
+
+/**
+ * @route GET /api/v1/export/files/:id
+ * @desc Download an export file through a signed, expiring URL (limited number of downloads per file)
+ * @access Public (signature required)
+ */
+router.get('/files/:id', fileDownloadValidation, async (req: Request, res: Response) => {
+  const fileId = req.params.id;
+
+  if (!simpleExportService.verifyDownloadSignature(fileId, Number(req.query.expires), String(req.query.signature))) {
+    exportLogger.logSecurityEvent('Invalid or expired download link', { fileId, ip: req.ip });
+    return res.status(403).json({
+      success: false,
+      error: 'Download link is invalid or has expired',
+      code: 'INVALID_DOWNLOAD_LINK'
+    });
+  }
+
+  try {
+    const file = await simpleExportService.getExportFileById(fileId);
+    const { filePath, exists } = file
+      ? await simpleExportService.getExportFile(file.filename)
+      : { filePath: '', exists: false };
+
+    if (!file || !exists) {
+      return res.status(404).json({
+        success: false,
+        error: 'Export file not found',
+        code: EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND
+      });
+    }
+
+    if (file.expiresAt.getTime() <= Date.now()) {
+      return res.status(410).json({
+        success: false,
+        error: 'Export file has expired',
+        code: 'EXPORT_EXPIRED'
+      });
+    }
+
+    // Counted before streaming, so concurrent requests cannot exceed the limit
+    const counted = await simpleExportService.registerDownload(fileId);
+    if (!counted) {
+      exportLogger.logSecurityEvent('Download limit reached', { fileId, maxDownloads: file.maxDownloads, ip: req.ip });
+      return res.status(410).json({
+        success: false,
+        error: `Export file can only be downloaded ${file.maxDownloads} times`,
+        code: 'DOWNLOAD_LIMIT_REACHED'
+      });
+    }
+
+    exportLogger.logFileDownload(fileId, {
+      filename: counted.filename,
+      downloadCount: counted.downloadCount,
+      maxDownloads: counted.maxDownloads,
+      userId: req.userId,
+      ip: req.ip
+    });
+
+    // The file can disappear after the exists check (cleanup/expiry); answer instead of crashing
+    res.sendFile(filePath, {
+      headers: {
+        'Content-Type': counted.mimeType,
+        'Content-Disposition': `attachment; filename="${counted.filename}"`,
+        'X-Downloads-Remaining': String(counted.maxDownloads - counted.downloadCount)
+      }
+    }, async (sendError?: NodeJS.ErrnoException) => {
+      if (!sendError) return;
+
+      exportLogger.error('Export file could not be sent', sendError, { fileId });
+      if (res.headersSent) return;
+
+      await simpleExportService.releaseDownload(fileId).catch(releaseError =>
+        exportLogger.error('Failed to release download count', releaseError, { fileId })
+      );
+
+      const notFound = sendError.code === 'ENOENT';
+      res.status(notFound ? 404 : 500).json({
+        success: false,
+        error: notFound ? 'Export file not found' : 'Failed to download export file',
+        code: notFound ? EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND : EXPORT_CONSTANTS.ERROR_CODES.PROCESSING_FAILED
+      });
+    });
+
+  } catch (error) {
+    exportLogger.error('Export file download failed', error instanceof Error ? error : new Error(String(error)), { fileId });
+    sendExportError(res, error, 'Failed to download export file');
+  }
+});
+
 /**
  * @route GET /api/v1/export/health
  * @desc Basic health check for export services
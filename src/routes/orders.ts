@@ -1,52 +1,346 @@
-// src/routes/ordersRouter.ts
-import { databaseService } from '@/services/DatabaseService';
-import { Router, Request, Response } from 'express';
-// import { createOrderValidation } from '../validators/orderValidation';
-// import { OrdersController } from '../controllers/ordersController';
+// ALVA POS MVP - Order Management API Routes
+// Orders are persisted in Alvamitra tb_store_transaksi_master/sub/detail
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { databaseService, OrderTotals } from '@/services/DatabaseService';
+import { financialCalculationService } from '@/services/FinancialCalculationService';
+import { orderLifecycleService, OrderLifecycleService, OrderAction } from '@/services/OrderLifecycleService';
+import { requirePermission } from '@/middleware/auth';
+import { Permission } from '@/config/permissions';
+import { Logger } from '@/utils/logger';
+import {
+  ApiResponse,
+  CartData,
+  Order,
+  OrderStatusHistoryEntry,
+  OrderSummary,
+  OrderTransitionRequest,
+  OrderSearchQuery,
+  OrderUpdateRequest,
+  PaginationResponse,
+  ValidationError
+} from '@/types/api';
 
 const router = Router();
 
+// ===========================================
+// HELPER FUNCTIONS
+// ===========================================
+
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const validationErrors = errors.array().map(error => ({
+      field: error.type === 'field' ? (error as any).path : error.type,
+      message: error.msg,
+      value: error.type === 'field' ? (error as any).value : undefined
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    return res.status(400).json({
+      ...response,
+      validation_errors: validationErrors
+    });
+  }
+  next();
+}
+
+/**
+ * Map DatabaseService error codes to HTTP status
+ */
+function statusForOrderError(error: any): number {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+      return 404;
+    case 'ORDER_NOT_EDITABLE':
+    case 'INVALID_TRANSITION':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
 /**
- * GET /api/orders
- * Ambil semua orders
+ * Recalculate cart server-side and reconcile it against the client's totals
  */
-router.get('/', async (req: Request, res: Response) => {
+function calculateOrderCart(cartData: Partial<CartData>, taxRate: number): {
+  cart: CartData | null;
+  totals: OrderTotals | null;
+  errors: ValidationError[];
+  mismatches: ValidationError[];
+} {
+  const { items = [], laborItems = [], totalDiscount } = cartData;
+
+  const validation = financialCalculationService.validateCartData({ items, laborItems, totalDiscount });
+  if (!validation.isValid) {
+    return { cart: null, totals: null, errors: validation.errors, mismatches: [] };
+  }
+
+  const calculation = financialCalculationService.priceCart(items, laborItems, taxRate, totalDiscount);
+  if (!calculation.isValid) {
+    return { cart: null, totals: null, errors: calculation.errors, mismatches: [] };
+  }
+
+  const reconciliation = financialCalculationService.reconcileClientTotals(cartData, calculation.updatedCartData);
+
+  return {
+    cart: calculation.updatedCartData,
+    totals: financialCalculationService.summarizeOrderTotals(calculation.totals),
+    errors: [],
+    mismatches: reconciliation.errors
+  };
+}
+
+/**
+ * Send 400/422 response for a cart that failed server-side calculation
+ */
+function rejectOrderCart(res: Response, errors: ValidationError[], mismatches: ValidationError[]) {
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid cart data',
+      message: 'Cart data failed financial validation',
+      validation_errors: errors,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    });
+  }
+
+  return res.status(422).json({
+    success: false,
+    error: 'Totals mismatch',
+    message: 'Submitted totals do not match server calculation',
+    validation_errors: mismatches,
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
+  });
+}
+
+/**
+ * Identify who performed an action, for the order status history
+ */
+function resolveActor(req: Request, res: Response): string {
+  if (req.userId) {
+    return `user:${req.userId}`;
+  }
+  return `session:${res.locals.sessionId || req.sessionId || 'anonymous'}`;
+}
+
+// ===========================================
+// VALIDATION RULES
+// ===========================================
+
+const getOrderValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid order ID is required'),
+  handleValidationErrors
+];
+
+const createOrderValidation = [
+  body('cart_data').isObject().withMessage('Cart data is required'),
+  body('cart_data.items').isArray().withMessage('Cart items must be an array'),
+  body('cart_data.laborItems').optional().isArray().withMessage('Labor items must be an array'),
+  body('tax_rate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1').toFloat(),
+  handleValidationErrors
+];
+
+const updateOrderValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid order ID is required'),
+  body('cart_data').optional().isObject().withMessage('Cart data must be an object'),
+  body('cart_data.items').optional().isArray().withMessage('Cart items must be an array'),
+  body('tax_rate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1').toFloat(),
+  handleValidationErrors
+];
+
+const transitionOrderValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid order ID is required'),
+  body('reason').optional().isString().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters'),
+  handleValidationErrors
+];
+
+const listOrdersValidation = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().custom((value) => {
+    const validStatuses = Object.keys(OrderLifecycleService.TRANSITIONS);
+    const statuses = Array.isArray(value) ? value : String(value).split(',');
+    return statuses.every(s => validStatuses.includes(s.trim()));
+  }).withMessage('Invalid status filter'),
+  query('date_from').optional().isISO8601().withMessage('date_from must be an ISO 8601 date'),
+  query('date_to').optional().isISO8601().withMessage('date_to must be an ISO 8601 date'),
+  handleValidationErrors
+];
+
+// ===========================================
+// ROUTE HANDLERS
+// ===========================================
+
+/**
+ * GET /api/orders - List orders with pagination and status/date filters
+ */
+router.get('/', requirePermission('orders:read'), listOrdersValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
   try {
-    // const orders = await OrdersController.getAllOrders();
-    console.log("📝 [FETCH ORDERS REQUEST]");
-    res.json({
+    const { status, date_from, date_to }: OrderSearchQuery = req.query;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const offset = (page - 1) * limit;
+
+    // status boleh array (?status=a&status=b) atau comma separated (?status=a,b)
+    const statusFilter = status
+      ? (Array.isArray(status) ? status : String(status).split(',')).map(s => s.trim()).filter(Boolean)
+      : undefined;
+
+    const result = await databaseService.getOrdersAlvamitra(
+      { status: statusFilter, date_from, date_to },
+      limit,
+      offset
+    );
+
+    if (result.error || !result.data) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch orders',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const orders: OrderSummary[] = result.data.orders.map(order => ({
+      id: order.id,
+      order_number: order.order_number,
+      status: order.status,
+      order_date: order.order_date,
+      final_total: order.final_total,
+      item_count: order.item_count
+    }));
+
+    const total = result.data.total;
+    const totalPages = Math.ceil(total / limit);
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Orders listed successfully', {
+      count: orders.length,
+      total,
+      page,
+      responseTime
+    });
+
+    res.setHeader('X-Total-Count', String(total));
+    res.setHeader('X-Page-Count', String(totalPages));
+
+    const response: ApiResponse<PaginationResponse<OrderSummary>> = {
       success: true,
-      message: 'List of orders',
-      data: [], // ganti dengan data dari DB
+      data: {
+        data: orders,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      },
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Orders listing failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId,
+      responseTime
     });
-  } catch (err) {
-    res.status(500).json({
+
+    const response: ApiResponse = {
       success: false,
-      message: 'Failed to fetch orders',
-      error: (err as Error).message,
-    });
+      error: 'Orders listing failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
   }
 });
 
 /**
- * GET /api/orders/:id
- * Ambil detail order
+ * GET /api/orders/:id - Get order detail with line items
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('orders:read'), getOrderValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
   try {
     const { id } = req.params;
-    // const order = await OrdersController.getOrderById(id);
-    res.json({
+
+    const result = await databaseService.getOrderAlvamitra(id);
+
+    if (result.error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch order',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    if (!result.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Order retrieved successfully', {
+      orderId: id,
+      itemCount: result.data.items.length,
+      responseTime
+    });
+
+    const response: ApiResponse<Order> = {
       success: true,
-      message: `Order detail for ID: ${id}`,
-      data: {}, // ganti dengan data dari DB
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Order retrieval failed', {
+      error: error instanceof Error ? error.message : String(error),
+      orderId: req.params.id,
+      responseTime
     });
-  } catch (err) {
-    res.status(500).json({
+
+    const response: ApiResponse = {
       success: false,
-      message: 'Failed to fetch order',
-      error: (err as Error).message,
-    });
+      error: 'Order retrieval failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
   }
 });
 
@@ -54,37 +348,53 @@ router.get('/:id', async (req: Request, res: Response) => {
  * POST /api/orders
  * Buat order baru
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('orders:write'), createOrderValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
 
   try {
     const sessionId = res.locals.sessionId;
     const requestData = req.body;
 
-    console.log("📝 [CREATE ORDER REQUEST]");
-    console.log("Session ID:", sessionId);
-    console.log("Headers:", req.headers);
-    console.log("Body:", JSON.stringify(requestData, null, 2));
+    Logger.debug('Create order request', {
+      sessionId,
+      userId: req.userId,
+      itemCount: requestData.cart_data?.items?.length || 0,
+      laborItemCount: requestData.cart_data?.laborItems?.length || 0
+    });
 
     // ✅ Generate Nomor Order (sementara random, bisa bikin helper mirip generateQuoteNumber)
     const orderNumber = `ORD-${Date.now()}`;
 
+    // ✅ Hitung ulang cart di server, tolak kalau totals client beda
+    const taxRate = requestData.tax_rate ?? 0.10;
+    const calculated = calculateOrderCart(requestData.cart_data || { items: [], laborItems: [] }, taxRate);
+    if (calculated.errors.length > 0 || calculated.mismatches.length > 0) {
+      Logger.warn('Order rejected by server-side calculation', {
+        sessionId,
+        errors: calculated.errors,
+        mismatches: calculated.mismatches
+      });
+      return rejectOrderCart(res, calculated.errors, calculated.mismatches);
+    }
+
     // ✅ Siapkan payload buat Alvamitra
     const alvamitraOrderData = {
       quote_number: orderNumber, // di DB pakai field Nomor_Order
-      id_pengguna: '66', // sebaiknya ambil dari session/login user
-      organisasi_kode: '20191214071651',
+      id_pengguna: req.userId!,
+      organisasi_kode: req.organisasiKode!,
+      organisasi_kode_smartjmp: req.user!.organisasiKodeSmartjmp || undefined,
       nomor_whatsapp: requestData.nomor_whatsapp,
-      cart_data: requestData.cart_data || { items: [], laborItems: [] },
+      cart_data: calculated.cart,
       notes: requestData.notes,
-      tax_rate: requestData.tax_rate || 0.10
+      tax_rate: taxRate,
+      totals: calculated.totals
     };
 
     // ✅ Insert ke Alvamitra DB
     const orderResult = await databaseService.createOrderAlvamitra(alvamitraOrderData);
 
     if (orderResult.error || !orderResult.data) {
-      console.error('❌ Order creation failed |', {
+      Logger.error('Order creation failed', {
         error: orderResult.error,
         sessionId: res.locals.requestId,
         responseTime: Date.now() - startTime
@@ -107,6 +417,7 @@ router.post('/', async (req: Request, res: Response) => {
         masterId: orderResult.data.masterId,
         subId: orderResult.data.subId,
         items: orderResult.data.items,
+        totals: calculated.totals,
         status: 'draft'
       },
       message: 'Order created successfully',
@@ -116,7 +427,7 @@ router.post('/', async (req: Request, res: Response) => {
 
   } catch (error) {
     const responseTime = Date.now() - startTime;
-    console.error('❌ Order creation failed', {
+    Logger.error('Order creation failed', {
       error: error instanceof Error ? error.message : String(error),
       sessionId: res.locals.sessionId,
       responseTime
@@ -133,49 +444,314 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 /**
- * PUT /api/orders/:id
- * Update order
+ * PUT /api/orders/:id - Update draft order (line items and/or tax rate)
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('orders:write'), updateOrderValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
   try {
     const { id } = req.params;
-    const updateData = req.body;
-    // const updatedOrder = await OrdersController.updateOrder(id, updateData);
+    const updateData: OrderUpdateRequest = req.body;
 
-    res.json({
+    if (updateData.cart_data === undefined && updateData.tax_rate === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'No valid updates provided',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    let cartData: CartData | undefined;
+    let totals: OrderTotals | undefined;
+
+    if (updateData.cart_data) {
+      // Tanpa tax_rate baru, pakai PPN order yang tersimpan
+      let taxRate = updateData.tax_rate;
+      if (taxRate === undefined) {
+        const existing = await databaseService.getOrderAlvamitra(id);
+        if (!existing.error && !existing.data) {
+          return res.status(404).json({
+            success: false,
+            error: 'Order not found',
+            timestamp: new Date().toISOString(),
+            requestId: res.locals.requestId
+          });
+        }
+        taxRate = existing.data?.tax_rate ?? 0.10;
+      }
+
+      const calculated = calculateOrderCart(updateData.cart_data, taxRate);
+      if (calculated.errors.length > 0 || calculated.mismatches.length > 0) {
+        return rejectOrderCart(res, calculated.errors, calculated.mismatches);
+      }
+
+      cartData = calculated.cart;
+      totals = calculated.totals;
+    }
+
+    const result = await databaseService.updateOrderAlvamitra(id, {
+      cart_data: cartData,
+      tax_rate: updateData.tax_rate,
+      totals
+    });
+
+    if (result.error || !result.data) {
+      return res.status(statusForOrderError(result.error)).json({
+        success: false,
+        error: 'Failed to update order',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Order updated successfully', {
+      orderId: id,
+      hasCartUpdate: updateData.cart_data !== undefined,
+      responseTime
+    });
+
+    const response: ApiResponse<Order> = {
       success: true,
-      message: `Order ${id} updated successfully`,
-      data: updateData,
+      data: result.data,
+      message: 'Order updated successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Order update failed', {
+      error: error instanceof Error ? error.message : String(error),
+      orderId: req.params.id,
+      responseTime
     });
-  } catch (err) {
-    res.status(500).json({
+
+    const response: ApiResponse = {
       success: false,
-      message: 'Failed to update order',
-      error: (err as Error).message,
-    });
+      error: 'Order update failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
   }
 });
 
 /**
- * DELETE /api/orders/:id
- * Hapus order
+ * DELETE /api/orders/:id - Delete draft order (soft delete)
  */
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('orders:write'), getOrderValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
   try {
     const { id } = req.params;
-    // await OrdersController.deleteOrder(id);
 
-    res.json({
+    const result = await databaseService.deleteOrderAlvamitra(id);
+
+    if (result.error || !result.data) {
+      return res.status(statusForOrderError(result.error)).json({
+        success: false,
+        error: 'Failed to delete order',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Order deleted successfully', { orderId: id, responseTime });
+
+    const response: ApiResponse = {
       success: true,
-      message: `Order ${id} deleted successfully`,
+      message: 'Order deleted successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Order deletion failed', {
+      error: error instanceof Error ? error.message : String(error),
+      orderId: req.params.id,
+      responseTime
     });
-  } catch (err) {
-    res.status(500).json({
+
+    const response: ApiResponse = {
       success: false,
-      message: 'Failed to delete order',
-      error: (err as Error).message,
+      error: 'Order deletion failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// ===========================================
+// ORDER LIFECYCLE
+// ===========================================
+
+/**
+ * GET /api/orders/:id/history - Status transition history
+ */
+router.get('/:id/history', requirePermission('orders:read'), getOrderValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const { id } = req.params;
+
+    const orderResult = await databaseService.getOrderAlvamitra(id);
+    if (!orderResult.error && !orderResult.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const result = await databaseService.getOrderStatusHistory(id);
+
+    if (orderResult.error || result.error || !result.data) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch order history',
+        message: (orderResult.error || result.error)?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Order history retrieved', { orderId: id, entries: result.data.length, responseTime });
+
+    const response: ApiResponse<{
+      status: Order['status'];
+      allowed_transitions: Order['status'][];
+      history: OrderStatusHistoryEntry[];
+    }> = {
+      success: true,
+      data: {
+        status: orderResult.data.status,
+        allowed_transitions: orderLifecycleService.getAllowedTransitions(orderResult.data.status),
+        history: result.data
+      },
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Order history retrieval failed', {
+      error: error instanceof Error ? error.message : String(error),
+      orderId: req.params.id,
+      responseTime
     });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Order history retrieval failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
   }
 });
 
+/**
+ * Build handler for a lifecycle transition endpoint
+ */
+function transitionHandler(action: OrderAction) {
+  return async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const { id } = req.params;
+      const { reason }: OrderTransitionRequest = req.body || {};
+      const actor = resolveActor(req, res);
+
+      const result = await orderLifecycleService.applyAction(id, action, actor, reason);
+
+      if (result.error || !result.order) {
+        return res.status(statusForOrderError(result.error)).json({
+          success: false,
+          error: result.error?.code === 'INVALID_TRANSITION' ? 'Invalid order transition' : `Failed to ${action} order`,
+          message: result.error?.message || 'Unknown error',
+          details: result.error?.details,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      const responseTime = Date.now() - startTime;
+      Logger.info(`Order ${action} completed`, { orderId: id, status: result.order.status, actor, responseTime });
+
+      const response: ApiResponse<{ order: Order; transition: OrderStatusHistoryEntry }> = {
+        success: true,
+        data: {
+          order: result.order,
+          transition: result.history!
+        },
+        message: `Order ${result.order.status}`,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      Logger.error(`Order ${action} failed`, {
+        error: error instanceof Error ? error.message : String(error),
+        orderId: req.params.id,
+        responseTime
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: `Order ${action} failed`,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.status(500).json(response);
+    }
+  };
+}
+
+/**
+ * Permission needed per lifecycle action
+ */
+const ACTION_PERMISSIONS: Record<OrderAction, Permission> = {
+  confirm: 'orders:write',
+  cancel: 'orders:write',
+  pay: 'orders:payment',
+  refund: 'orders:payment',
+  pack: 'orders:fulfil',
+  ship: 'orders:fulfil',
+  deliver: 'orders:fulfil'
+};
+
+/**
+ * POST /api/orders/:id/confirm | pay | pack | ship | deliver | cancel | refund
+ */
+(Object.keys(OrderLifecycleService.ACTIONS) as OrderAction[]).forEach(action => {
+  router.post(
+    `/:id/${action}`,
+    requirePermission(ACTION_PERMISSIONS[action]),
+    transitionOrderValidation,
+    transitionHandler(action)
+  );
+});
+
 export { router as ordersRouter };
@@ -4,6 +4,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { databaseService } from '@/services/DatabaseService';
+import { requirePermission } from '@/middleware/auth';
 import { Logger } from '@/utils/logger';
 import { 
   ApiResponse, 
@@ -835,7 +836,7 @@ router.get('/:id', [param('id').isUUID().withMessage('Valid product ID is requir
 /**
  * POST /api/products - Add new product (admin only)
  */
-router.post('/', createProductValidation, async (req: Request, res: Response) => {
+router.post('/', requirePermission('products:write'), createProductValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -874,7 +875,7 @@ router.post('/', createProductValidation, async (req: Request, res: Response) =>
 /**
  * PUT /api/products/:id - Update product (admin only)
  */
-router.put('/:id', updateProductValidation, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('products:write'), updateProductValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -927,7 +928,7 @@ router.put('/:id', updateProductValidation, async (req: Request, res: Response)
 /**
  * GET /api/products/cache/stats - Get cache statistics (debug endpoint)
  */
-router.get('/cache/stats', (req: Request, res: Response) => {
+router.get('/cache/stats', requirePermission('products:cache'), (req: Request, res: Response) => {
   const stats = productCache.getStats();
   
   const response: ApiResponse<any> = {
@@ -943,7 +944,7 @@ router.get('/cache/stats', (req: Request, res: Response) => {
 /**
  * DELETE /api/products/cache - Clear product cache (admin endpoint)
  */
-router.delete('/cache', (req: Request, res: Response) => {
+router.delete('/cache', requirePermission('products:cache'), (req: Request, res: Response) => {
   productCache.clear();
   
   const response: ApiResponse = {
@@ -0,0 +1,182 @@
+// ALVA POS MVP - Public API Routes
+// Customer-facing quote view and accept/reject through share links (no session or token)
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { advancedRateLimiter } from '@/middleware/security';
+import { quoteShareService } from '@/services/QuoteShareService';
+import { Logger } from '@/utils/logger';
+import { ApiResponse, PublicQuoteView, QuoteCustomerResponseRequest } from '@/types/api';
+
+const router = Router();
+
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const validationErrors = errors.array().map(error => ({
+      field: error.type === 'field' ? (error as any).path : error.type,
+      message: error.msg,
+      value: error.type === 'field' ? (error as any).value : undefined
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    return res.status(400).json({
+      ...response,
+      validation_errors: validationErrors
+    });
+  }
+  next();
+}
+
+/**
+ * Map QuoteShareService error codes to HTTP status
+ */
+function statusForShareError(error: any): number {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+      return 404;
+    case 'ALREADY_RESPONDED':
+    case 'NOT_RESPONDABLE':
+      return 409;
+    case 'QUOTE_EXPIRED':
+      return 410;
+    default:
+      return 500;
+  }
+}
+
+// ===========================================
+// VALIDATION RULES
+// ===========================================
+
+const tokenValidation = param('token')
+  .isLength({ min: 32, max: 128 }).withMessage('Invalid link')
+  .matches(/^[A-Za-z0-9_-]+$/).withMessage('Invalid link');
+
+const viewQuoteValidation = [
+  tokenValidation,
+  handleValidationErrors
+];
+
+const respondQuoteValidation = [
+  tokenValidation,
+  body('name').isString().withMessage('Your name is required')
+    .trim().isLength({ min: 1, max: 200 }).withMessage('Name must be 1-200 characters'),
+  body('comment').optional().isString().trim().isLength({ max: 2000 }).withMessage('Comment must be less than 2000 characters'),
+  handleValidationErrors
+];
+
+// ===========================================
+// ROUTE HANDLERS
+// ===========================================
+
+/**
+ * GET /api/public/quotes/:token - Read-only quote behind a share link
+ */
+router.get('/quotes/:token', viewQuoteValidation, async (req: Request, res: Response) => {
+  try {
+    const result = await quoteShareService.getPublicQuote(req.params.token);
+
+    if (result.error || !result.data) {
+      const status = statusForShareError(result.error);
+      return res.status(status).json({
+        success: false,
+        error: status === 404 ? 'Quote not found' : 'Failed to load quote',
+        message: status === 404 ? result.error?.message : undefined,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse<PublicQuoteView> = {
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.set('Cache-Control', 'no-store');
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Public quote view failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load quote',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/public/quotes/:token/accept and /reject - Customer decision with name and comment
+ */
+function customerResponseHandler(decision: 'accepted' | 'rejected') {
+  return async (req: Request, res: Response) => {
+    try {
+      const { name, comment }: QuoteCustomerResponseRequest = req.body;
+
+      const result = await quoteShareService.respond(req.params.token, decision, { name, comment }, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      if (result.error || !result.data) {
+        const status = statusForShareError(result.error);
+        return res.status(status).json({
+          success: false,
+          error: status === 500 ? 'Failed to record your response' : result.error?.message,
+          code: result.error?.code,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      const response: ApiResponse<PublicQuoteView> = {
+        success: true,
+        data: result.data,
+        message: decision === 'accepted' ? 'Quote accepted' : 'Quote rejected',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      Logger.error('Public quote response failed', {
+        error: error instanceof Error ? error.message : String(error),
+        decision
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to record your response',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.status(500).json(response);
+    }
+  };
+}
+
+router.post('/quotes/:token/accept', advancedRateLimiter(), respondQuoteValidation, customerResponseHandler('accepted'));
+router.post('/quotes/:token/reject', advancedRateLimiter(), respondQuoteValidation, customerResponseHandler('rejected'));
+
+export { router as publicRouter };
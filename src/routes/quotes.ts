@@ -8,6 +8,12 @@ import { databaseService } from '@/services/DatabaseService';
 import { Logger } from '@/utils/logger';
 import { financialCalculationService } from '@/services/FinancialCalculationService';
 import { realTimeSyncService } from '@/services/RealTimeSyncService';
+import { templateService } from '@/services/TemplateService';
+import { quoteRevisionService } from '@/services/QuoteRevisionService';
+import { quoteApprovalService } from '@/services/QuoteApprovalService';
+import { quoteShareService } from '@/services/QuoteShareService';
+import { requirePermission } from '@/middleware/auth';
+import { evaluateVersionPrecondition, staleWriteStatus, versionETag, VersionPrecondition } from '@/utils/versioning';
 import { 
   ApiResponse, 
   Quote, 
@@ -16,12 +22,28 @@ import {
   QuoteSearchQuery,
   QuoteSummary,
   PaginationResponse,
+  Order,
   CartData,
+  CartItem,
   CartTotals,
   Customer,
-  ValidationError
+  ValidationError,
+  SaveAsTemplateRequest,
+  QuoteRevisionDiff,
+  QuoteApprovalEvaluation,
+  QuoteApprovalDecisionRequest,
+  QuoteExtendValidityRequest
 } from '@/types/api';
-import { Customer as DBCustomer } from '@/services/DatabaseService';
+import {
+  Customer as DBCustomer,
+  Template,
+  QuoteRevision,
+  QuoteApproval,
+  QuoteValidityExtension,
+  QuoteShareLink,
+  PRICE_TIERS,
+  PriceTier
+} from '@/services/DatabaseService';
 
 const router = Router();
 
@@ -30,44 +52,66 @@ const router = Router();
 // ===========================================
 
 /**
- * Convert DatabaseService Quote to API Quote format
+ * Convert Alvamitra quote (DatabaseService.getQuoteAlvamitra) to API Quote format;
+ * totals are calculated server-side from the estimasi lines
  */
-function convertDbQuoteToApiQuote(dbQuote: import('@/services/DatabaseService').Quote): Quote {
+function convertAlvamitraQuoteToApiQuote(alvamitraQuote: any): Quote {
+  const { totals } = financialCalculationService.priceCart(alvamitraQuote.items, alvamitraQuote.laborItems, alvamitraQuote.tax_rate);
+
   return {
-    id: dbQuote.id!,
-    quote_number: dbQuote.quote_number,
-    customer_id: dbQuote.customer_id,
+    id: alvamitraQuote.id,
+    quote_number: alvamitraQuote.quote_number,
     cart_data: {
-      items: dbQuote.cart_data.items || [],
-      laborItems: dbQuote.cart_data.laborItems || [],
-      totals: {
-        subtotal: dbQuote.cart_data.subtotal,
-        itemsSubtotal: dbQuote.cart_data.subtotal, // Fallback
-        laborSubtotal: 0, // Fallback  
-        itemDiscounts: 0, // Fallback
-        laborDiscounts: 0, // Fallback
-        totalDiscount: dbQuote.cart_data.totalDiscount,
-        taxRate: dbQuote.tax_rate,
-        taxAmount: dbQuote.cart_data.taxAmount,
-        finalTotal: dbQuote.cart_data.finalTotal
-      },
-      totalDiscount: dbQuote.cart_data.totalDiscount
+      items: alvamitraQuote.items,
+      laborItems: alvamitraQuote.laborItems,
+      totals
     },
-    customer_snapshot: dbQuote.customer_snapshot as Customer,
-    status: dbQuote.status,
-    tax_rate: dbQuote.tax_rate,
-    subtotal: dbQuote.cart_data.subtotal,
-    tax_amount: dbQuote.cart_data.taxAmount,
-    final_total: dbQuote.cart_data.finalTotal,
-    source: dbQuote.source,
-    template_id: dbQuote.template_id,
-    boq_import_id: dbQuote.boq_import_id,
-    created_at: dbQuote.created_at!,
-    updated_at: dbQuote.updated_at!,
-    valid_until: dbQuote.valid_until,
-    notes: dbQuote.notes,
-    metadata: dbQuote.metadata
+    status: alvamitraQuote.status,
+    tax_rate: alvamitraQuote.tax_rate,
+    subtotal: totals.subtotal,
+    tax_amount: totals.taxAmount,
+    final_total: totals.finalTotal,
+    created_at: alvamitraQuote.created_at,
+    updated_at: alvamitraQuote.updated_at,
+    valid_until: alvamitraQuote.valid_until,
+    notes: alvamitraQuote.notes,
+    version: alvamitraQuote.version
+  };
+}
+
+/**
+ * 412 (If-Match) or 409 (version) for an edit based on an older version, with the current quote
+ */
+function respondStaleQuote(res: Response, precondition: VersionPrecondition, current: any) {
+  const quote = convertAlvamitraQuoteToApiQuote(current);
+  if (quote.version !== undefined) {
+    res.set('ETag', versionETag(quote.version));
+  }
+
+  const response: ApiResponse<Quote> = {
+    success: false,
+    error: 'Quote was modified',
+    message: `Quote is at version ${quote.version}; reload it and apply your changes again`,
+    data: quote,
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
   };
+
+  return res.status(staleWriteStatus(precondition)).json({ ...response, code: 'VERSION_CONFLICT' });
+}
+
+/**
+ * 409 for a PUT on a quote that is no longer draft or expired
+ */
+function respondQuoteNotEditable(res: Response, status: string) {
+  return res.status(409).json({
+    success: false,
+    error: 'Quote cannot be edited',
+    message: `Quote is ${status}; only ${EDITABLE_STATUSES.join(' and ')} quotes can be edited`,
+    code: 'QUOTE_NOT_EDITABLE',
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
+  });
 }
 
 /**
@@ -104,15 +148,14 @@ function convertDbCustomerToApiCustomer(dbCustomer: DBCustomer): Customer {
   };
 }
 
-/**
- * Generate unique quote number
- */
-function generateQuoteNumber(): string {
-  const year = new Date().getFullYear();
-  const timestamp = Date.now().toString().slice(-6);
-  const random = Math.random().toString(36).substring(2, 5).toUpperCase();
-  return `QT${year}-${timestamp}${random}`;
-}
+
+// Statuses PUT may set, and the only statuses PUT may edit: sent/accepted/rejected come from
+// POST /:id/send and the customer's answer, pending_approval ends with the approval decision
+const EDITABLE_STATUSES: QuoteUpdateRequest['status'][] = ['draft', 'expired'];
+
+// Same upper bound as valid_days on create
+const MAX_VALIDITY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Calculate cart totals using FinancialCalculationService
@@ -181,14 +224,86 @@ const createQuoteValidation = [
 ];
 
 const updateQuoteValidation = [
-  param('id').isUUID().withMessage('Valid quote ID is required'),
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
   body('tax_rate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1'),
-  body('status').optional().isIn(['draft', 'sent', 'accepted', 'rejected', 'expired']).withMessage('Invalid status'),
+  body('status').optional().isIn(EDITABLE_STATUSES)
+    .withMessage(`Status can only be set to ${EDITABLE_STATUSES.join(' or ')}; use POST /api/quotes/:id/send to send a quote`),
+  body('valid_until').optional().isISO8601().withMessage('valid_until must be an ISO 8601 date'),
+  body('version').optional().isInt({ min: 1 }).withMessage('Version must be a positive integer').toInt(),
   handleValidationErrors
 ];
 
 const getQuoteValidation = [
-  param('id').isUUID().withMessage('Valid quote ID is required'),
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  handleValidationErrors
+];
+
+const revisionDiffValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  param('a').isInt({ min: 1 }).withMessage('Revision numbers must be positive integers'),
+  param('b').isInt({ min: 1 }).withMessage('Revision numbers must be positive integers'),
+  handleValidationErrors
+];
+
+const extendValidityValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  body('valid_until').optional().isISO8601().withMessage('valid_until must be an ISO 8601 date'),
+  body('extend_days').optional().isInt({ min: 1, max: MAX_VALIDITY_DAYS }).withMessage(`extend_days must be between 1 and ${MAX_VALIDITY_DAYS}`),
+  body().custom((value) => (value?.valid_until === undefined) !== (value?.extend_days === undefined))
+    .withMessage('Provide either valid_until or extend_days'),
+  body('note').isString().withMessage('An audit note is required')
+    .trim().isLength({ min: 1, max: 500 }).withMessage('Note must be 1-500 characters'),
+  handleValidationErrors
+];
+
+const convertQuoteValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  handleValidationErrors
+];
+
+const duplicateQuoteValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  body('reprice').optional().isBoolean().withMessage('reprice must be a boolean'),
+  body('price_tier').optional().isIn(PRICE_TIERS).withMessage(`Price tier must be one of ${PRICE_TIERS.join(', ')}`),
+  handleValidationErrors
+];
+
+const saveAsTemplateValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required'),
+  body('name').isString().trim().isLength({ min: 2, max: 200 }).withMessage('Template name must be 2-200 characters'),
+  body('category').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Template category is required'),
+  body('description').optional().isString().isLength({ max: 2000 }).withMessage('Description must be less than 2000 characters'),
+  body('tags').optional().isArray({ max: 20 }).withMessage('Tags must be an array of at most 20 tags'),
+  body('tags.*').isString().trim().toLowerCase().isLength({ min: 1, max: 50 }).withMessage('Each tag must be 1-50 characters'),
+  body('is_public').optional().isBoolean().withMessage('is_public must be a boolean'),
+  body('keep_discounts').optional().isBoolean().withMessage('keep_discounts must be a boolean'),
+  handleValidationErrors
+];
+
+const approvalQuoteIdValidation = param('id').isInt({ min: 1 }).withMessage('Valid quote ID is required');
+
+const quoteApprovalsValidation = [
+  approvalQuoteIdValidation,
+  handleValidationErrors
+];
+
+const approveQuoteValidation = [
+  approvalQuoteIdValidation,
+  body('comment').optional().isString().trim().isLength({ max: 1000 }).withMessage('Comment must be less than 1000 characters'),
+  handleValidationErrors
+];
+
+const rejectQuoteValidation = [
+  approvalQuoteIdValidation,
+  body('comment').isString().withMessage('A comment is required when rejecting')
+    .trim().isLength({ min: 1, max: 1000 }).withMessage('Comment must be 1-1000 characters'),
+  handleValidationErrors
+];
+
+const listApprovalsValidation = [
+  query('status').optional().isIn(['pending', 'approved', 'rejected']).withMessage('Invalid approval status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   handleValidationErrors
 ];
 
@@ -196,7 +311,7 @@ const listQuotesValidation = [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('status').optional().custom((value) => {
-    const validStatuses = ['draft', 'sent', 'accepted', 'rejected', 'expired'];
+    const validStatuses = ['draft', 'pending_approval', 'sent', 'accepted', 'rejected', 'expired', 'converted'];
     if (Array.isArray(value)) {
       return value.every(s => validStatuses.includes(s));
     }
@@ -213,7 +328,7 @@ const listQuotesValidation = [
  * POST /api/quotes - Create new quote
  */
 
-router.post('/', createQuoteValidation, async (req: Request, res: Response) => {
+router.post('/', requirePermission('quotes:write'), createQuoteValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
 
   try {
@@ -227,22 +342,23 @@ router.post('/', createQuoteValidation, async (req: Request, res: Response) => {
     // console.log("Query Params:", req.query);
     // console.log("URL Params:", req.params);
 
-    // Generate quote number & valid until date
-    const quoteNumber = generateQuoteNumber();
+    // Generate quote number; valid_days overrides the default validity (ALVAMITRA_QUOTE_VALID_DAYS)
+    const quoteNumber = databaseService.generateQuoteNumberAlvamitra();
     const validUntil = requestData.valid_days
-      ? new Date(Date.now() + (requestData.valid_days * 24 * 60 * 60 * 1000)).toISOString()
-      : new Date(Date.now() + (30 * 24 * 60 * 60 * 1000)).toISOString(); // default 30 days
+      ? new Date(Date.now() + (requestData.valid_days * DAY_MS)).toISOString()
+      : undefined;
     console.log("===================DEBUG ALVAMITRA PAYLOAD===================");
     console.log("Quote Number       :", quoteNumber);
     // Siapkan payload untuk Alvamitra
     const alvamitraQuoteData = {
       quote_number: quoteNumber,
-      id_pengguna: '66', // <-- harus dari session atau login user
-      organisasi_kode: '20191214071651',
+      id_pengguna: req.userId!,
+      organisasi_kode: req.organisasiKode!,
       nomor_whatsapp: requestData.nomor_whatsapp,
       cart_data: requestData.cart_data || { items: [], laborItems: [] },
       notes: requestData.notes,
-      tax_rate: requestData.tax_rate || 0.10
+      tax_rate: requestData.tax_rate || 0.10,
+      valid_until: validUntil
     };
 
     // Insert quote ke Alvamitra
@@ -265,14 +381,46 @@ router.post('/', createQuoteValidation, async (req: Request, res: Response) => {
       });
     }
 
+    // Cek diskon/margin terhadap threshold role pembuat
+    const quoteId = String(quoteResult.data.masterId);
+    let status: Quote['status'] = 'draft';
+    let approval: QuoteApprovalEvaluation | undefined;
+
+    const evaluation = await quoteApprovalService.evaluate(alvamitraQuoteData.cart_data, req.user!.role);
+    if (evaluation.requires_approval) {
+      approval = evaluation;
+      const pending = await databaseService.transitionQuoteStatusAlvamitra(quoteId, ['draft'], 'pending_approval');
+      const request = await quoteApprovalService.requestApproval('alvamitra', {
+        id: quoteId,
+        quote_number: quoteNumber,
+        final_total: financialCalculationService.priceCart(
+          alvamitraQuoteData.cart_data.items || [],
+          alvamitraQuoteData.cart_data.laborItems || [],
+          alvamitraQuoteData.tax_rate,
+          requestData.cart_data?.totalDiscount
+        ).totals.finalTotal
+      }, evaluation);
+
+      if (pending.error || !pending.data || request.error) {
+        // Convert tetap diblokir oleh cek approval, quote hanya tidak muncul di antrian approval
+        Logger.warn('Failed to queue quote for approval', { quoteId, statusError: pending.error, approvalError: request.error });
+      } else {
+        status = 'pending_approval';
+      }
+    }
+
     // Return sukses
     const response: ApiResponse = {
       success: true,
       data: {
+        id: quoteId,
         quote_number: alvamitraQuoteData.quote_number,
-        status: 'draft'
+        status,
+        ...(approval && { approval })
       },
-      message: 'Quote created successfully',
+      message: status === 'pending_approval'
+        ? 'Quote created and waiting for discount approval'
+        : 'Quote created successfully',
       timestamp: new Date().toISOString(),
       requestId: res.locals.requestId
     };
@@ -298,18 +446,59 @@ router.post('/', createQuoteValidation, async (req: Request, res: Response) => {
 });
 
 
+/**
+ * GET /api/quotes/approvals - Approval requests of the organisation (default: pending)
+ */
+router.get('/approvals', requirePermission('quotes:approve'), listApprovalsValidation, async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as QuoteApproval['status']) || 'pending';
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const result = await quoteApprovalService.listApprovals({ status }, limit, (page - 1) * limit);
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const response: ApiResponse<QuoteApproval[]> = {
+      success: true,
+      data: result.data || [],
+      message: `Retrieved ${result.data?.length || 0} ${status} approval requests`,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Failed to list quote approvals', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to retrieve approval requests',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 /**
  * GET /api/quotes/:id - Get quote by ID
  */
-router.get('/:id', getQuoteValidation, async (req: Request, res: Response) => {
+router.get('/:id', requirePermission('quotes:read'), getQuoteValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
     const { id } = req.params;
     const sessionId = res.locals.sessionId;
 
-    databaseService.setSession(sessionId);
-    const result = await databaseService.getQuote(id);
+    const result = await databaseService.getQuoteAlvamitra(id);
 
     if (result.error || !result.data) {
       return res.status(404).json({
@@ -320,44 +509,13 @@ router.get('/:id', getQuoteValidation, async (req: Request, res: Response) => {
       });
     }
 
-    // Convert DB Quote to API Quote format
-    const dbQuote = result.data;
-    const quote: Quote = {
-      id: dbQuote.id!,
-      quote_number: dbQuote.quote_number,
-      customer_id: dbQuote.customer_id,
-      cart_data: {
-        items: dbQuote.cart_data.items || [],
-        laborItems: dbQuote.cart_data.laborItems || [],
-        totals: {
-          subtotal: dbQuote.cart_data.subtotal,
-          itemsSubtotal: dbQuote.cart_data.subtotal, // Fallback - should be calculated properly
-          laborSubtotal: 0, // Fallback - should be calculated properly  
-          itemDiscounts: 0, // Fallback - should be calculated properly
-          laborDiscounts: 0, // Fallback - should be calculated properly
-          totalDiscount: dbQuote.cart_data.totalDiscount,
-          taxRate: dbQuote.tax_rate,
-          taxAmount: dbQuote.cart_data.taxAmount,
-          finalTotal: dbQuote.cart_data.finalTotal
-        }
-      },
-      customer_snapshot: dbQuote.customer_snapshot as Customer,
-      status: dbQuote.status,
-      tax_rate: dbQuote.tax_rate,
-      subtotal: dbQuote.cart_data.subtotal,
-      tax_amount: dbQuote.cart_data.taxAmount,
-      final_total: dbQuote.cart_data.finalTotal,
-      source: dbQuote.source,
-      template_id: dbQuote.template_id,
-      boq_import_id: dbQuote.boq_import_id,
-      created_at: dbQuote.created_at!,
-      updated_at: dbQuote.updated_at!,
-      valid_until: dbQuote.valid_until,
-      notes: dbQuote.notes,
-      metadata: dbQuote.metadata
-    };
+    const quote = convertAlvamitraQuoteToApiQuote(result.data);
     const responseTime = Date.now() - startTime;
 
+    if (quote.version !== undefined) {
+      res.set('ETag', versionETag(quote.version));
+    }
+
     Logger.info('Quote retrieved successfully', {
       quoteId: id,
       sessionId,
@@ -394,194 +552,80 @@ router.get('/:id', getQuoteValidation, async (req: Request, res: Response) => {
 });
 
 /**
- * PUT /api/quotes/:id - Update quote
+ * GET /api/quotes/:id/revisions - Revision history (newest first, without cart snapshots)
  */
-router.put('/:id', updateQuoteValidation, async (req: Request, res: Response) => {
-  const startTime = Date.now();
-  
+router.get('/:id/revisions', requirePermission('quotes:read'), getQuoteValidation, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const sessionId = res.locals.sessionId;
-    const updateData: QuoteUpdateRequest = req.body;
 
-    // Verify quote exists and belongs to session
-    databaseService.setSession(sessionId);
-    const existingResult = await databaseService.getQuote(id);
-
-    if (existingResult.error || !existingResult.data) {
+    const quoteResult = await databaseService.getQuoteAlvamitra(id);
+    if (quoteResult.error) {
+      throw new Error(quoteResult.error.message || 'Failed to load quote');
+    }
+    if (!quoteResult.data) {
       return res.status(404).json({
         success: false,
-        error: 'Quote not found or access denied',
+        error: 'Quote not found',
         timestamp: new Date().toISOString(),
         requestId: res.locals.requestId
       });
     }
 
-    const existingQuote = existingResult.data;
-
-    // Build update object for DatabaseService
-    const updatePayload: Partial<Quote> = {};
-
-    // Handle cart data updates with new financial calculation service
-    if (updateData.cart_data) {
-      const taxRate = updateData.tax_rate || existingQuote.tax_rate;
-      const calculationResult = financialCalculationService.calculateComprehensiveCartTotals(
-        updateData.cart_data,
-        taxRate
-      );
-
-      if (!calculationResult.isValid || calculationResult.errors.length > 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid cart data or calculation failed',
-          validation_errors: calculationResult.errors,
-          timestamp: new Date().toISOString(),
-          requestId: res.locals.requestId
-        });
-      }
-
-      const totals = calculationResult.totals;
-      const processedCartData = calculationResult.updatedCartData;
-      
-      // Update cart data in API format first 
-      const apiCartData: CartData = {
-        items: processedCartData.items || [],
-        laborItems: processedCartData.laborItems || [],
-        totals: {
-          subtotal: totals.subtotal,
-          itemsSubtotal: totals.itemsSubtotal || totals.subtotal,
-          laborSubtotal: totals.laborSubtotal || 0,
-          itemDiscounts: totals.itemDiscounts || 0,
-          laborDiscounts: totals.laborDiscounts || 0,
-          totalDiscount: processedCartData.totalDiscount,
-          taxRate: taxRate,
-          taxAmount: totals.taxAmount,
-          finalTotal: totals.finalTotal
-        },
-        totalDiscount: processedCartData.totalDiscount,
-        metadata: processedCartData.metadata
-      };
-      
-      // Set in update payload (will be converted to DB format during update)
-      updatePayload.cart_data = apiCartData;
-      
-      updatePayload.tax_rate = taxRate;
-
-      // Sync calculation in real-time
-      try {
-        await realTimeSyncService.syncCalculation(sessionId, id, processedCartData, taxRate);
-      } catch (syncError) {
-        Logger.warn('Real-time calculation sync failed', { quoteId: id, sessionId, syncError });
-      }
-    }
-
-    // Handle other updates
-    if (updateData.status !== undefined) {
-      updatePayload.status = updateData.status;
-    }
-
-    if (updateData.tax_rate !== undefined) {
-      updatePayload.tax_rate = updateData.tax_rate;
+    // Quotes that were never changed have no revisions yet
+    const result = await databaseService.getQuoteRevisions(id);
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to load revisions');
     }
 
-    if (updateData.notes !== undefined) {
-      updatePayload.notes = updateData.notes;
-    }
+    const response: ApiResponse<Omit<QuoteRevision, 'cart_data'>[]> = {
+      success: true,
+      data: result.data || [],
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
 
-    if (updateData.valid_until !== undefined) {
-      updatePayload.valid_until = updateData.valid_until;
-    }
+    res.json(response);
 
-    if (updateData.metadata !== undefined) {
-      updatePayload.metadata = updateData.metadata as Record<string, any>;
-    }
+  } catch (error) {
+    Logger.error('Quote revision listing failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId
+    });
 
-    // Handle customer updates
-    if (updateData.customer_data && existingQuote.customer_id) {
-      const customerUpdateData: Partial<DBCustomer> = {};
-      
-      if (updateData.customer_data.name) customerUpdateData.name = updateData.customer_data.name;
-      if (updateData.customer_data.email) customerUpdateData.email = updateData.customer_data.email;
-      if (updateData.customer_data.phone) customerUpdateData.phone = updateData.customer_data.phone;
-      if (updateData.customer_data.company) customerUpdateData.company = updateData.customer_data.company;
-      if (updateData.customer_data.address) customerUpdateData.address = updateData.customer_data.address;
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote revision listing failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
 
-      if (Object.keys(customerUpdateData).length > 0) {
-        customerUpdateData.id = existingQuote.customer_id;
-        const customerResult = await databaseService.upsertCustomer(customerUpdateData as DBCustomer);
-        
-        if (customerResult.data) {
-          // Convert DB Customer to API Customer format for snapshot
-          updatePayload.customer_snapshot = convertDbCustomerToApiCustomer(customerResult.data) as Customer;
-        }
-      }
-    }
+    res.status(500).json(response);
+  }
+});
 
-    if (Object.keys(updatePayload).length === 0 && !updateData.cart_data) {
-      return res.status(400).json({
-        success: false,
-        error: 'No valid updates provided',
-        timestamp: new Date().toISOString(),
-        requestId: res.locals.requestId
-      });
-    }
+/**
+ * GET /api/quotes/:id/revisions/:a/diff/:b - Item-level changes from revision a to revision b
+ */
+router.get('/:id/revisions/:a/diff/:b', requirePermission('quotes:read'), revisionDiffValidation, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const result = await quoteRevisionService.getDiff(id, Number(req.params.a), Number(req.params.b));
 
-    // Convert to DB format for DatabaseService
-    const dbUpdatePayload: Partial<import('@/services/DatabaseService').Quote> = {
-      ...updatePayload,
-      cart_data: updatePayload.cart_data ? {
-        items: updatePayload.cart_data.items || [],
-        laborItems: updatePayload.cart_data.laborItems || [],
-        subtotal: updatePayload.cart_data.totals?.subtotal || 0,
-        taxAmount: updatePayload.cart_data.totals?.taxAmount || 0,
-        finalTotal: updatePayload.cart_data.totals?.finalTotal || 0,
-        totalDiscount: updatePayload.cart_data.totalDiscount
-      } : undefined,
-      customer_snapshot: updatePayload.customer_snapshot as Record<string, any>
-    };
-    
-    const result = await databaseService.updateQuote(id, dbUpdatePayload);
-    
     if (result.error || !result.data) {
-      return res.status(500).json({
+      return res.status(result.error?.code === 'NOT_FOUND' ? 404 : 500).json({
         success: false,
-        error: 'Failed to update quote',
-        message: result.error?.message || 'Unknown error',
+        error: result.error?.message || 'Quote revision diff failed',
+        code: result.error?.code,
+        details: result.error?.details,
         timestamp: new Date().toISOString(),
         requestId: res.locals.requestId
       });
     }
-    
-    // Convert DB Quote to API Quote format
-    const updatedQuote = convertDbQuoteToApiQuote(result.data);
-
-    // Register optimistic update for real-time sync
-    try {
-      realTimeSyncService.registerOptimisticUpdate({
-        id: updatedQuote.id,
-        type: 'quote',
-        operation: 'update',
-        data: updatedQuote,
-        timestamp: new Date().toISOString(),
-        confirmed: false
-      });
-    } catch (syncError) {
-      Logger.warn('Failed to register optimistic update', { quoteId: id, syncError });
-    }
-
-    const responseTime = Date.now() - startTime;
-    Logger.info('Quote updated successfully', {
-      quoteId: id,
-      sessionId,
-      updatedFields: Object.keys(updatePayload),
-      responseTime,
-      hasCartUpdate: updateData.cart_data !== undefined
-    });
 
-    const response: ApiResponse<Quote> = {
+    const response: ApiResponse<QuoteRevisionDiff> = {
       success: true,
-      data: updatedQuote,
-      message: 'Quote updated successfully',
+      data: result.data,
       timestamp: new Date().toISOString(),
       requestId: res.locals.requestId
     };
@@ -589,17 +633,15 @@ router.put('/:id', updateQuoteValidation, async (req: Request, res: Response) =>
     res.json(response);
 
   } catch (error) {
-    const responseTime = Date.now() - startTime;
-    Logger.error('Quote update failed', {
+    Logger.error('Quote revision diff failed', {
       error: error instanceof Error ? error.message : String(error),
       quoteId: req.params.id,
-      sessionId: res.locals.sessionId,
-      responseTime
+      sessionId: res.locals.sessionId
     });
 
     const response: ApiResponse = {
       success: false,
-      error: 'Quote update failed',
+      error: 'Quote revision diff failed',
       timestamp: new Date().toISOString(),
       requestId: res.locals.requestId
     };
@@ -609,21 +651,14 @@ router.put('/:id', updateQuoteValidation, async (req: Request, res: Response) =>
 });
 
 /**
- * DELETE /api/quotes/:id - Soft delete quote
+ * GET /api/quotes/:id/validity-extensions - Validity extension audit trail, newest first
  */
-router.delete('/:id', getQuoteValidation, async (req: Request, res: Response) => {
-  const startTime = Date.now();
-  
+router.get('/:id/validity-extensions', requirePermission('quotes:read'), getQuoteValidation, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const sessionId = res.locals.sessionId;
-
-    // Update quote status to indicate deletion using DatabaseService
-    databaseService.setSession(sessionId);
-    
-    const result = await databaseService.updateQuote(id, { status: 'expired' });
 
-    if (result.error || !result.data) {
+    const quoteResult = await databaseService.getQuoteAlvamitra(id);
+    if (quoteResult.error || !quoteResult.data) {
       return res.status(404).json({
         success: false,
         error: 'Quote not found or access denied',
@@ -632,16 +667,15 @@ router.delete('/:id', getQuoteValidation, async (req: Request, res: Response) =>
       });
     }
 
-    const responseTime = Date.now() - startTime;
-    Logger.info('Quote deleted successfully', {
-      quoteId: id,
-      sessionId,
-      responseTime
-    });
+    const result = await databaseService.getQuoteValidityExtensions(id);
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to load validity extensions');
+    }
 
-    const response: ApiResponse = {
+    const response: ApiResponse<QuoteValidityExtension[]> = {
       success: true,
-      message: 'Quote deleted successfully',
+      data: result.data || [],
+      message: `Retrieved ${result.data?.length || 0} validity extensions`,
       timestamp: new Date().toISOString(),
       requestId: res.locals.requestId
     };
@@ -649,17 +683,15 @@ router.delete('/:id', getQuoteValidation, async (req: Request, res: Response) =>
     res.json(response);
 
   } catch (error) {
-    const responseTime = Date.now() - startTime;
-    Logger.error('Quote deletion failed', {
+    Logger.error('Failed to load quote validity extensions', {
       error: error instanceof Error ? error.message : String(error),
       quoteId: req.params.id,
-      sessionId: res.locals.sessionId,
-      responseTime
+      sessionId: res.locals.sessionId
     });
 
     const response: ApiResponse = {
       success: false,
-      error: 'Quote deletion failed',
+      error: 'Failed to retrieve validity extensions',
       timestamp: new Date().toISOString(),
       requestId: res.locals.requestId
     };
@@ -669,137 +701,571 @@ router.delete('/:id', getQuoteValidation, async (req: Request, res: Response) =>
 });
 
 /**
- * GET /api/quotes - List quotes with pagination and filtering
+ * POST /api/quotes/:id/extend-validity - Move valid_until with an audit note.
+ * Quotes expired by the expiry job are reopened in their previous status.
  */
-router.get('/', listQuotesValidation, async (req: Request, res: Response) => {
+router.post('/:id/extend-validity', requirePermission('quotes:write'), extendValidityValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
-  
+
   try {
+    const { id } = req.params;
     const sessionId = res.locals.sessionId;
-    const {
-      page = 1,
-      limit = 20,
-      sort = 'updated_at',
-      order = 'desc',
-      status,
-      source,
-      date_from,
-      date_to,
-      min_total,
-      max_total,
-      customer_id,
-      q
-    }: QuoteSearchQuery = req.query;
-
-    // Build where conditions
-    const conditions: string[] = ['(q.session_id = $1 OR $1 IS NULL)'];
-    const params: any[] = [sessionId];
-    let paramIndex = 2;
-
-    if (status) {
-      const statusArray = Array.isArray(status) ? status : [status];
-      conditions.push(`q.status = ANY($${paramIndex++})`);
-      params.push(statusArray);
-    }
+    const { valid_until, extend_days, note }: QuoteExtendValidityRequest = req.body;
 
-    if (source) {
-      conditions.push(`q.source = $${paramIndex++}`);
-      params.push(source);
-    }
-
-    if (customer_id) {
-      conditions.push(`q.customer_id = $${paramIndex++}`);
-      params.push(customer_id);
-    }
+    const existingResult = await databaseService.getQuoteAlvamitra(id);
 
-    if (date_from) {
-      conditions.push(`q.created_at >= $${paramIndex++}`);
-      params.push(date_from);
+    if (existingResult.error || !existingResult.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quote not found or access denied',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
     }
 
-    if (date_to) {
-      conditions.push(`q.created_at <= $${paramIndex++}`);
-      params.push(date_to);
-    }
+    const existing = existingResult.data;
+    const now = Date.now();
+    const currentValidUntil = existing.valid_until ? new Date(existing.valid_until).getTime() : now;
+    const newValidUntil = valid_until
+      ? new Date(valid_until)
+      : new Date(Math.max(now, currentValidUntil) + extend_days! * DAY_MS);
 
-    if (min_total) {
-      conditions.push(`q.final_total >= $${paramIndex++}`);
-      params.push(min_total);
+    if (newValidUntil.getTime() <= now || newValidUntil.getTime() > now + MAX_VALIDITY_DAYS * DAY_MS) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid validity date',
+        message: `New valid_until must be in the future and at most ${MAX_VALIDITY_DAYS} days ahead`,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
     }
 
-    if (max_total) {
-      conditions.push(`q.final_total <= $${paramIndex++}`);
-      params.push(max_total);
-    }
+    const result = await databaseService.extendQuoteValidityAlvamitra(id, newValidUntil.toISOString(), note);
 
-    if (q) {
-      conditions.push(`q.search_vector @@ plainto_tsquery('english', $${paramIndex++})`);
-      params.push(q);
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to extend quote validity');
     }
-
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-    
-    // Validate sort field
-    const allowedSortFields = ['created_at', 'updated_at', 'final_total', 'quote_number'];
-    const sortField = allowedSortFields.includes(sort) ? sort : 'updated_at';
-    const sortOrder = order.toLowerCase() === 'asc' ? 'ASC' : 'DESC';
-
-    // Calculate pagination
-    const offset = (page - 1) * limit;
-
-    // Use DatabaseService to get quotes with simplified pagination
-    databaseService.setSession(sessionId);
-    const quotesResult = await databaseService.getSessionQuotes(limit, offset);
-    
-    if (quotesResult.error || !quotesResult.data) {
-      return res.status(500).json({
+    if (!result.data) {
+      return res.status(409).json({
         success: false,
-        error: 'Failed to fetch quotes',
-        message: quotesResult.error?.message || 'Unknown error',
+        error: 'Quote validity cannot be extended',
+        message: `Quote is ${existing.status}; only open quotes and quotes expired by the expiry job can be extended`,
         timestamp: new Date().toISOString(),
         requestId: res.locals.requestId
       });
     }
 
-    // Apply client-side filtering for now (can be optimized later)
-    let filteredQuotes = quotesResult.data;
-    
-    // Apply filters
-    if (status) {
-      const statusArray = Array.isArray(status) ? status : [status];
-      filteredQuotes = filteredQuotes.filter(quote => statusArray.includes(quote.status));
+    Logger.info('Quote validity extended', {
+      quoteId: id,
+      previousValidUntil: result.data.extension.previous_valid_until,
+      newValidUntil: result.data.extension.new_valid_until,
+      reopened: result.data.extension.previous_status === 'expired',
+      sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse<{ quote: Quote; extension: QuoteValidityExtension }> = {
+      success: true,
+      data: {
+        quote: convertAlvamitraQuoteToApiQuote(result.data.quote),
+        extension: result.data.extension
+      },
+      message: 'Quote validity extended',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Quote validity extension failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote validity extension failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/quotes/:id/send - Mark the quote as sent and create its public share link.
+ * Sending again replaces the link; the discount approval check applies as for cart edits (PUT).
+ */
+router.post('/:id/send', requirePermission('quotes:write'), getQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const { id } = req.params;
+    const sessionId = res.locals.sessionId;
+
+    const result = await quoteShareService.sendQuote(id, req.user!.role);
+
+    if (result.error || !result.data) {
+      const code = result.error?.code;
+      const status = code === 'NOT_FOUND'
+        ? 404
+        : code === 'APPROVAL_REQUIRED' || code === 'NOT_SENDABLE' || code === 'QUOTE_EXPIRED'
+          ? 409
+          : 500;
+
+      return res.status(status).json({
+        success: false,
+        error: status === 404
+          ? 'Quote not found or access denied'
+          : code === 'APPROVAL_REQUIRED' ? 'Quote requires approval' : 'Failed to send quote',
+        message: result.error?.message || 'Unknown error',
+        ...(code === 'APPROVAL_REQUIRED' && result.error?.details && { approval: result.error.details }),
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    Logger.info('Quote share link created', {
+      quoteId: id,
+      sessionId,
+      expiresAt: result.data.share_link.expires_at,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse<{ quote: Quote; share_url: string; share_link: QuoteShareLink }> = {
+      success: true,
+      data: {
+        quote: convertAlvamitraQuoteToApiQuote(result.data.quote),
+        share_url: result.data.url,
+        share_link: result.data.share_link
+      },
+      message: 'Quote sent',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    Logger.error('Quote send failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote send failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * PUT /api/quotes/:id - Update quote
+ * If-Match (ETag from GET) or body `version` make the update conditional: 412/409 with the
+ * current quote when it changed in the meantime
+ */
+router.put('/:id', requirePermission('quotes:write'), updateQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  let optimisticUpdateId: string | null = null;
+  
+  try {
+    const { id } = req.params;
+    const sessionId = res.locals.sessionId;
+    const updateData: QuoteUpdateRequest = req.body;
+
+    // Verify quote exists and belongs to the organisation
+    const existingResult = await databaseService.getQuoteAlvamitra(id);
+
+    if (existingResult.error || !existingResult.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quote not found or access denied',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const existingQuote = existingResult.data;
+
+    // If-Match / version: refuse edits based on an older version of the quote
+    const precondition = evaluateVersionPrecondition(req, existingQuote.version);
+    if (precondition.stale) {
+      return respondStaleQuote(res, precondition, existingQuote);
+    }
+
+    if (!EDITABLE_STATUSES.includes(existingQuote.status)) {
+      return respondQuoteNotEditable(res, existingQuote.status);
+    }
+
+    // Build update object for DatabaseService
+    const updatePayload: Parameters<typeof databaseService.updateQuoteAlvamitra>[1] = {};
+
+    // Handle cart data updates with new financial calculation service
+    if (updateData.cart_data) {
+      const taxRate = updateData.tax_rate ?? existingQuote.tax_rate;
+      const calculationResult = financialCalculationService.calculateComprehensiveCartTotals(
+        updateData.cart_data,
+        taxRate
+      );
+
+      if (!calculationResult.isValid || calculationResult.errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cart data or calculation failed',
+          validation_errors: calculationResult.errors,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      // Alvamitra keeps line discounts only (Harga_Produk_Setelah_Diskon), like POST /api/quotes
+      const processedCartData = calculationResult.updatedCartData;
+      updatePayload.cart_data = {
+        items: processedCartData.items || [],
+        laborItems: processedCartData.laborItems || []
+      };
+
+      // Sync calculation in real-time
+      try {
+        await realTimeSyncService.syncCalculation(sessionId, id, processedCartData, taxRate);
+      } catch (syncError) {
+        Logger.warn('Real-time calculation sync failed', { quoteId: id, sessionId, syncError });
+      }
+    }
+
+    // Handle other updates
+    if (updateData.status !== undefined) {
+      updatePayload.status = updateData.status;
+    }
+
+    if (updateData.tax_rate !== undefined) {
+      updatePayload.tax_rate = updateData.tax_rate;
+    }
+
+    if (updateData.notes !== undefined) {
+      updatePayload.notes = updateData.notes;
+    }
+
+    if (updateData.valid_until !== undefined) {
+      updatePayload.valid_until = updateData.valid_until;
+    }
+
+    // Discount/margin approval: a cart beyond the role's threshold that no approval covers
+    // keeps the quote in pending_approval, whatever status was asked for
+    let approval: QuoteApprovalEvaluation | undefined;
+
+    if (updatePayload.cart_data) {
+      const check = await quoteApprovalService.checkApproval('alvamitra', id, {
+        items: updatePayload.cart_data.items || [],
+        laborItems: updatePayload.cart_data.laborItems || []
+      }, req.user!.role);
+
+      if (check.error || !check.data) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to check discount approval',
+          message: check.error?.message || 'Unknown error',
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      if (!check.data.allowed) {
+        approval = check.data.evaluation;
+        updatePayload.status = 'pending_approval';
+      }
+    }
+
+    if (Object.keys(updatePayload).length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No valid updates provided',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    // Track the write so the session's other tabs get a confirmation or a conflict
+    optimisticUpdateId = realTimeSyncService.registerOptimisticUpdate({
+      id: res.locals.requestId,
+      type: 'quote',
+      entityId: id,
+      operation: 'update',
+      data: updateData,
+      sessionId,
+      baseVersion: updateData.version ?? existingQuote.version ?? null,
+      timestamp: new Date().toISOString(),
+      confirmed: false
+    }).id;
+
+    const result = await databaseService.updateQuoteAlvamitra(id, updatePayload, precondition.expectedVersion, EDITABLE_STATUSES as string[]);
+
+    if (!result.error && !result.data) {
+      // Another edit landed between the version check and this write
+      const current = await databaseService.getQuoteAlvamitra(id);
+      if (current.data) {
+        await realTimeSyncService.rollbackOptimisticUpdate(optimisticUpdateId, 'Quote was changed by another edit', {
+          version: current.data.version ?? null,
+          data: convertAlvamitraQuoteToApiQuote(current.data)
+        });
+        return respondStaleQuote(res, precondition, current.data);
+      }
+    }
+
+    if (result.error?.code === 'QUOTE_NOT_EDITABLE') {
+      // Sent, answered or queued for approval between the status check and this write
+      await realTimeSyncService.rollbackOptimisticUpdate(optimisticUpdateId, result.error.message);
+      return respondQuoteNotEditable(res, result.error.details?.status);
+    }
+
+    if (result.error?.code === 'NOT_FOUND') {
+      await realTimeSyncService.rollbackOptimisticUpdate(optimisticUpdateId, 'Quote not found');
+      return res.status(404).json({
+        success: false,
+        error: 'Quote not found or access denied',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    if (result.error || !result.data) {
+      await realTimeSyncService.rollbackOptimisticUpdate(optimisticUpdateId, 'Failed to update quote');
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update quote',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    // Convert Alvamitra quote to API Quote format
+    const updatedQuote = convertAlvamitraQuoteToApiQuote(result.data);
+    if (updatedQuote.version !== undefined) {
+      res.set('ETag', versionETag(updatedQuote.version));
+    }
+
+    try {
+      await realTimeSyncService.confirmOptimisticUpdate(optimisticUpdateId, {
+        version: updatedQuote.version ?? null,
+        data: updatedQuote
+      });
+    } catch (syncError) {
+      Logger.warn('Failed to confirm optimistic update', { quoteId: id, syncError });
+    }
+
+    if (approval) {
+      const request = await quoteApprovalService.requestApproval('alvamitra', {
+        id,
+        quote_number: updatedQuote.quote_number,
+        final_total: updatedQuote.final_total
+      }, approval);
+
+      if (request.error) {
+        Logger.warn('Failed to queue quote for approval', { quoteId: id, error: request.error });
+      }
+    }
+
+    // Push the saved quote to the session and quote subscribers
+    try {
+      await realTimeSyncService.broadcastMessage({
+        type: 'quote_updated',
+        sessionId,
+        data: { quoteId: updatedQuote.id, quoteNumber: updatedQuote.quote_number, status: updatedQuote.status, quote: updatedQuote },
+        timestamp: new Date().toISOString(),
+        messageId: uuidv4()
+      });
+    } catch (syncError) {
+      Logger.warn('Failed to broadcast quote update', { quoteId: id, syncError });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Quote updated successfully', {
+      quoteId: id,
+      sessionId,
+      updatedFields: Object.keys(updatePayload),
+      responseTime,
+      hasCartUpdate: updateData.cart_data !== undefined
+    });
+
+    // Saved, but held in pending_approval (instead of any requested status) until a manager approves
+    const response: ApiResponse<Quote> = {
+      success: true,
+      data: updatedQuote,
+      message: approval
+        ? `Quote saved as pending_approval until a manager approves its discount: ${approval.reasons.join('; ')}`
+        : 'Quote updated successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    if (approval) {
+      return res.status(202).json({ ...response, approval });
+    }
+
+    res.json(response);
+
+  } catch (error) {
+    if (optimisticUpdateId) {
+      await realTimeSyncService.rollbackOptimisticUpdate(optimisticUpdateId, 'Quote update failed').catch(() => undefined);
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.error('Quote update failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote update failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * DELETE /api/quotes/:id - Soft delete quote
+ */
+router.delete('/:id', requirePermission('quotes:delete'), getQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  
+  try {
+    const { id } = req.params;
+    const sessionId = res.locals.sessionId;
+
+    // Deactivate the estimasi; converted quotes stay, their order refers to them
+    const result = await databaseService.deleteQuoteAlvamitra(id);
+
+    if (result.error?.code === 'QUOTE_NOT_DELETABLE') {
+      return res.status(409).json({
+        success: false,
+        error: 'Quote cannot be deleted',
+        message: result.error.message,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    if (result.error) {
+      throw new Error(result.error.message || 'Failed to delete quote');
     }
-    
-    if (source) {
-      filteredQuotes = filteredQuotes.filter(quote => quote.source === source);
+
+    if (!result.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Quote not found or access denied',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
     }
-    
-    if (customer_id) {
-      filteredQuotes = filteredQuotes.filter(quote => quote.customer_id === customer_id);
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Quote deleted successfully', {
+      quoteId: id,
+      sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Quote deleted successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Quote deletion failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote deletion failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/quotes - List quotes with pagination and filtering
+ */
+router.get('/', requirePermission('quotes:read'), listQuotesValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  
+  try {
+    const sessionId = res.locals.sessionId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const { status, date_from, date_to, min_total, max_total }: QuoteSearchQuery = req.query;
+
+    // Calculate pagination
+    const offset = (page - 1) * limit;
+
+    const quotesResult = await databaseService.getQuotesAlvamitra({
+      status: status ? (Array.isArray(status) ? status : [status]) : undefined,
+      date_from,
+      date_to
+    }, limit, offset);
+
+    if (quotesResult.error || !quotesResult.data) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch quotes',
+        message: quotesResult.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
     }
-    
+
+    // Totals are calculated from the estimasi lines, so the total filters apply to the page
+    let quotes: QuoteSummary[] = quotesResult.data.quotes.map(alvamitraQuote => {
+      const quote = convertAlvamitraQuoteToApiQuote(alvamitraQuote);
+      return {
+        id: quote.id,
+        quote_number: quote.quote_number,
+        status: quote.status,
+        final_total: quote.final_total,
+        created_at: quote.created_at,
+        updated_at: quote.updated_at,
+        item_count: quote.cart_data.items.length,
+        labor_count: quote.cart_data.laborItems.length
+      };
+    });
+
     if (min_total) {
-      filteredQuotes = filteredQuotes.filter(quote => quote.cart_data.finalTotal >= min_total);
+      quotes = quotes.filter(quote => quote.final_total >= Number(min_total));
     }
-    
+
     if (max_total) {
-      filteredQuotes = filteredQuotes.filter(quote => quote.cart_data.finalTotal <= max_total);
-    }
-    
-    // Convert to QuoteSummary format
-    const quotes: QuoteSummary[] = filteredQuotes.map(quote => ({
-      id: quote.id!,
-      quote_number: quote.quote_number,
-      status: quote.status,
-      final_total: quote.cart_data.finalTotal,
-      created_at: quote.created_at!,
-      updated_at: quote.updated_at!,
-      customer_name: quote.customer_snapshot?.name || 'Unknown',
-      item_count: quote.cart_data.items?.length || 0,
-      labor_count: quote.cart_data.laborItems?.length || 0
-    }));
-    
-    const total = quotes.length;
+      quotes = quotes.filter(quote => quote.final_total <= Number(max_total));
+    }
+
+    const total = quotesResult.data.total;
     const totalPages = Math.ceil(total / limit);
 
     const responseTime = Date.now() - startTime;
@@ -849,149 +1315,444 @@ router.get('/', listQuotesValidation, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/quotes/:id/convert-to-order - Convert Alvamitra quote (estimasi) into an order (transaksi)
+ */
+router.post('/:id/convert-to-order', requirePermission('quotes:read', 'orders:write'), convertQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const { id } = req.params;
+    const sessionId = res.locals.sessionId;
+
+    // Diskon di atas threshold role harus sudah di-approve sebelum convert
+    const quoteResult = await databaseService.getQuoteAlvamitra(id);
+    if (quoteResult.error) {
+      throw new Error(quoteResult.error.message || 'Failed to load quote');
+    }
+
+    // Quote yang pending/tidak bisa di-convert ditolak oleh convertQuoteToOrderAlvamitra
+    if (quoteResult.data && !['pending_approval', 'expired', 'rejected', 'converted'].includes(quoteResult.data.status)) {
+      const quote = quoteResult.data;
+      const check = await quoteApprovalService.checkApproval('alvamitra', id, quote, req.user!.role);
+      if (check.error || !check.data) {
+        throw new Error(check.error?.message || 'Failed to check discount approval');
+      }
+
+      if (!check.data.allowed) {
+        const evaluation = check.data.evaluation;
+        await databaseService.transitionQuoteStatusAlvamitra(id, [quote.status], 'pending_approval');
+        const request = await quoteApprovalService.requestApproval('alvamitra', {
+          id,
+          quote_number: quote.quote_number,
+          final_total: financialCalculationService.priceCart(quote.items, quote.laborItems, quote.tax_rate).totals.finalTotal
+        }, evaluation);
+
+        if (request.error) {
+          Logger.warn('Failed to queue quote for approval', { quoteId: id, error: request.error });
+        }
+
+        return res.status(409).json({
+          success: false,
+          error: 'Quote requires approval',
+          message: `Quote cannot be converted before a manager approves its discount: ${evaluation.reasons.join('; ')}`,
+          approval: evaluation,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+    }
+
+    const orderNumber = `ORD-${Date.now()}`;
+
+    const result = await databaseService.convertQuoteToOrderAlvamitra(id, {
+      order_number: orderNumber,
+      id_pengguna: req.userId!,
+      organisasi_kode: req.organisasiKode!,
+      organisasi_kode_smartjmp: req.user!.organisasiKodeSmartjmp || undefined,
+      converted_by: `user:${req.userId}`
+    });
+
+    if (result.error || !result.data) {
+      const status = result.error?.code === 'NOT_FOUND'
+        ? 404
+        : result.error?.code === 'QUOTE_NOT_CONVERTIBLE' || result.error?.code === 'APPROVAL_REQUIRED'
+          ? 409
+          : 500;
+
+      return res.status(status).json({
+        success: false,
+        error: status === 404
+          ? 'Quote not found'
+          : result.error?.code === 'APPROVAL_REQUIRED' ? 'Quote requires approval' : 'Failed to convert quote',
+        message: result.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Quote converted to order', {
+      quoteId: id,
+      orderId: result.data.id,
+      orderNumber,
+      itemCount: result.data.items.length,
+      sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse<Order> = {
+      success: true,
+      data: result.data,
+      message: 'Quote converted to order successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Quote conversion failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote conversion failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/quotes/:id/save-as-template - Save a quote's items and labor as a reusable template
+ */
+router.post('/:id/save-as-template', requirePermission('quotes:read', 'templates:write'), saveAsTemplateValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const request: SaveAsTemplateRequest = {
+      name: req.body.name,
+      category: req.body.category,
+      description: req.body.description,
+      tags: req.body.tags ? [...new Set<string>(req.body.tags)] : [],
+      is_public: req.body.is_public === true || req.body.is_public === 'true',
+      keep_discounts: req.body.keep_discounts === true || req.body.keep_discounts === 'true'
+    };
+
+    const result = await templateService.createTemplateFromQuote(req.params.id, request);
+
+    if (result.error || !result.data) {
+      const status = result.error?.code === 'NOT_FOUND' ? 404 : result.error?.code === 'EMPTY_TEMPLATE' ? 422 : 500;
+      return res.status(status).json({
+        success: false,
+        error: result.error?.message || 'Failed to save quote as template',
+        code: result.error?.code,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    Logger.info('Quote saved as template', {
+      quoteId: req.params.id,
+      templateId: result.data.id,
+      sessionId: res.locals.sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data: result.data,
+      message: 'Quote saved as template',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    Logger.error('Save quote as template failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime: Date.now() - startTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to save quote as template',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 /**
  * POST /api/quotes/:id/duplicate - Duplicate existing quote
+ *
+ * The copy gets a new quote number, draft status and a "Duplicated from" note.
+ * With `reprice: true` items are priced at the current catalog price of `price_tier`
+ * (default Harga_Retail); line discounts are kept and items no longer in the catalog
+ * keep their original price.
  */
-// router.post('/:id/duplicate', getQuoteValidation, async (req: Request, res: Response) => {
-//   const startTime = Date.now();
-  
-//   try {
-//     const { id } = req.params;
-//     const sessionId = res.locals.sessionId;
-
-//     // Get original quote using DatabaseService
-//     databaseService.setSession(sessionId);
-//     const originalResult = await databaseService.getQuote(id);
-
-//     if (originalResult.error || !originalResult.data) {
-//       return res.status(404).json({
-//         success: false,
-//         error: 'Original quote not found',
-//         timestamp: new Date().toISOString(),
-//         requestId: res.locals.requestId
-//       });
-//     }
-
-//     const original = originalResult.data;
-//     const newQuoteNumber = generateQuoteNumber();
-//     const validUntil = new Date(Date.now() + (30 * 24 * 60 * 60 * 1000)).toISOString();
-
-//     // Create duplicate using DatabaseService
-//     const duplicateData: Omit<import('@/services/DatabaseService').Quote, 'id'> = {
-//       quote_number: newQuoteNumber,
-//       customer_id: original.customer_id,
-//       cart_data: original.cart_data,
-//       customer_snapshot: original.customer_snapshot,
-//       tax_rate: original.tax_rate,
-//       status: 'draft',
-//       source: 'fresh', // Reset source to fresh for duplicate
-//       notes: `Duplicated from ${original.quote_number}`,
-//       metadata: original.metadata || {},
-//       valid_until: validUntil
-//     };
-
-//     const duplicateResult = await databaseService.createQuote(duplicateData);
-    
-//     if (duplicateResult.error || !duplicateResult.data) {
-//       return res.status(500).json({
-//         success: false,
-//         error: 'Failed to duplicate quote',
-//         message: duplicateResult.error?.message || 'Unknown error',
-//         timestamp: new Date().toISOString(),
-//         requestId: res.locals.requestId
-//       });
-//     }
-
-//     // Convert DB Quote to API Quote format
-//     const dbQuote = duplicateResult.data;
-//     const duplicatedQuote: Quote = {
-//       id: dbQuote.id!,
-//       quote_number: dbQuote.quote_number,
-//       customer_id: dbQuote.customer_id,
-//       cart_data: {
-//         items: dbQuote.cart_data.items || [],
-//         laborItems: dbQuote.cart_data.laborItems || [],
-//         totals: {
-//           subtotal: dbQuote.cart_data.subtotal,
-//           itemsSubtotal: dbQuote.cart_data.subtotal, // Fallback - should be calculated properly
-//           laborSubtotal: 0, // Fallback - should be calculated properly  
-//           itemDiscounts: 0, // Fallback - should be calculated properly
-//           laborDiscounts: 0, // Fallback - should be calculated properly
-//           totalDiscount: dbQuote.cart_data.totalDiscount,
-//           taxRate: dbQuote.tax_rate,
-//           taxAmount: dbQuote.cart_data.taxAmount,
-//           finalTotal: dbQuote.cart_data.finalTotal
-//         }
-//       },
-//       customer_snapshot: dbQuote.customer_snapshot as Customer,
-//       status: dbQuote.status,
-//       tax_rate: dbQuote.tax_rate,
-//       subtotal: dbQuote.cart_data.subtotal,
-//       tax_amount: dbQuote.cart_data.taxAmount,
-//       final_total: dbQuote.cart_data.finalTotal,
-//       source: dbQuote.source,
-//       template_id: dbQuote.template_id,
-//       boq_import_id: dbQuote.boq_import_id,
-//       created_at: dbQuote.created_at!,
-//       updated_at: dbQuote.updated_at!,
-//       valid_until: dbQuote.valid_until,
-//       notes: dbQuote.notes,
-//       metadata: dbQuote.metadata
-//     };
-    
-//     // Register optimistic update for the duplicated quote
-//     try {
-//       realTimeSyncService.registerOptimisticUpdate({
-//         id: duplicatedQuote.id,
-//         type: 'quote',
-//         operation: 'create',
-//         data: duplicatedQuote,
-//         timestamp: new Date().toISOString(),
-//         confirmed: false
-//       });
-//     } catch (syncError) {
-//       Logger.warn('Failed to register optimistic update for duplicate', { 
-//         duplicateId: duplicatedQuote.id, 
-//         syncError 
-//       });
-//     }
-    
-//     const responseTime = Date.now() - startTime;
-//     Logger.info('Quote duplicated successfully', {
-//       originalId: id,
-//       duplicateId: duplicatedQuote.id,
-//       sessionId,
-//       responseTime
-//     });
-
-//     const response: ApiResponse<Quote> = {
-//       success: true,
-//       data: duplicatedQuote,
-//       message: 'Quote duplicated successfully',
-//       timestamp: new Date().toISOString(),
-//       requestId: res.locals.requestId
-//     };
-
-//     res.status(201).json(response);
-
-//   } catch (error) {
-//     const responseTime = Date.now() - startTime;
-//     Logger.error('Quote duplication failed', {
-//       error: error instanceof Error ? error.message : String(error),
-//       originalId: req.params.id,
-//       sessionId: res.locals.sessionId,
-//       responseTime
-//     });
-
-//     const response: ApiResponse = {
-//       success: false,
-//       error: 'Quote duplication failed',
-//       timestamp: new Date().toISOString(),
-//       requestId: res.locals.requestId
-//     };
-
-//     res.status(500).json(response);
-//   }
-// });
+router.post('/:id/duplicate', requirePermission('quotes:read', 'quotes:write'), duplicateQuoteValidation, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const { id } = req.params;
+    const sessionId = res.locals.sessionId;
+    const reprice = req.body.reprice === true || req.body.reprice === 'true';
+    const priceTier: PriceTier = req.body.price_tier || 'Harga_Retail';
+
+    // Ambil quote asal dari Alvamitra
+    const originalResult = await databaseService.getQuoteAlvamitra(id);
+
+    if (originalResult.error) {
+      throw new Error(originalResult.error.message || 'Failed to load original quote');
+    }
+    if (!originalResult.data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Original quote not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const original = originalResult.data;
+    let items: CartItem[] = original.items;
+    const repricedItems: Array<{ productId: string; originalPrice: number; currentPrice: number }> = [];
+    const unavailableItems: string[] = [];
+
+    if (reprice) {
+      const productIds = [...new Set(items.map(item => item.productId))];
+      const pricesResult = await databaseService.getProductPricesAlvamitra(productIds, priceTier);
+
+      if (pricesResult.error || !pricesResult.data) {
+        throw new Error(pricesResult.error?.message || 'Failed to load current prices');
+      }
+
+      const prices = pricesResult.data;
+      items = items.map(item => {
+        const current = prices[item.productId];
+        if (!current) {
+          unavailableItems.push(item.productId);
+          return item;
+        }
+        if (current.price === item.price) {
+          return item;
+        }
+
+        repricedItems.push({ productId: item.productId, originalPrice: item.price, currentPrice: current.price });
+        const subtotal = current.price * item.quantity;
+        const lineDiscount = item.discount?.appliedAmount || 0;
+        return { ...item, price: current.price, subtotal, total: Math.max(subtotal - lineDiscount, 0) };
+      });
+    }
+
+    const quoteNumber = databaseService.generateQuoteNumberAlvamitra();
+    const duplicateResult = await databaseService.createQuoteAlvamitra({
+      quote_number: quoteNumber,
+      id_pengguna: req.userId!,
+      organisasi_kode: req.organisasiKode!,
+      cart_data: { items, laborItems: original.laborItems },
+      notes: `Duplicated from ${original.quote_number}`,
+      tax_rate: original.tax_rate
+    });
+
+    if (duplicateResult.error || !duplicateResult.data) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to duplicate quote',
+        message: duplicateResult.error?.message || 'Unknown error',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const duplicateId = String(duplicateResult.data.masterId);
+    const duplicateQuote = await databaseService.getQuoteAlvamitra(duplicateId);
+
+    const responseTime = Date.now() - startTime;
+    Logger.info('Quote duplicated successfully', {
+      originalId: id,
+      duplicateId,
+      reprice,
+      repriced: repricedItems.length,
+      sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...(duplicateQuote.data || { id: duplicateId, quote_number: quoteNumber, status: 'draft' }),
+        repriced_items: repricedItems,
+        unavailable_items: unavailableItems
+      },
+      message: 'Quote duplicated successfully',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+    Logger.error('Quote duplication failed', {
+      error: error instanceof Error ? error.message : String(error),
+      originalId: req.params.id,
+      sessionId: res.locals.sessionId,
+      responseTime
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote duplication failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/quotes/:id/approvals - Approval history of a quote, newest first
+ */
+router.get('/:id/approvals', requirePermission('quotes:read'), quoteApprovalsValidation, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const result = await quoteApprovalService.listApprovals({ quote_store: 'alvamitra', quote_id: id });
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const response: ApiResponse<QuoteApproval[]> = {
+      success: true,
+      data: result.data || [],
+      message: `Retrieved ${result.data?.length || 0} approval requests`,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Failed to load quote approvals', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.id,
+      sessionId: res.locals.sessionId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to retrieve approval history',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * Map QuoteApprovalService error codes to HTTP status
+ */
+function statusForApprovalError(error: any): number {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+      return 404;
+    case 'SELF_APPROVAL':
+    case 'APPROVER_LIMIT_EXCEEDED':
+      return 403;
+    case 'ALREADY_DECIDED':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * POST /api/quotes/:id/approve and /reject - Decide the pending approval request of a quote.
+ * The quote returns to draft; a rejected discount keeps send/convert blocked until it is lowered.
+ */
+function approvalDecisionHandler(decision: 'approved' | 'rejected') {
+  return async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const { id } = req.params;
+      const { comment }: QuoteApprovalDecisionRequest = req.body || {};
+
+      const result = await quoteApprovalService.decide(
+        'alvamitra',
+        id,
+        decision,
+        { userId: req.userId!, role: req.user!.role },
+        comment
+      );
+
+      if (result.error || !result.data) {
+        return res.status(statusForApprovalError(result.error)).json({
+          success: false,
+          error: result.error?.code === 'NOT_FOUND' ? 'No pending approval for this quote' : `Failed to record ${decision === 'approved' ? 'approval' : 'rejection'}`,
+          message: result.error?.message || 'Unknown error',
+          details: result.error?.details,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      Logger.info(`Quote ${decision}`, {
+        quoteId: id,
+        approvalId: result.data.id,
+        decidedBy: req.userId,
+        responseTime: Date.now() - startTime
+      });
+
+      const response: ApiResponse<QuoteApproval> = {
+        success: true,
+        data: result.data,
+        message: decision === 'approved' ? 'Quote discount approved' : 'Quote discount rejected',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      Logger.error('Quote approval decision failed', {
+        error: error instanceof Error ? error.message : String(error),
+        quoteId: req.params.id,
+        decision,
+        sessionId: res.locals.sessionId,
+        responseTime: Date.now() - startTime
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Quote approval decision failed',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.status(500).json(response);
+    }
+  };
+}
+
+router.post('/:id/approve', requirePermission('quotes:approve'), approveQuoteValidation, approvalDecisionHandler('approved'));
+router.post('/:id/reject', requirePermission('quotes:approve'), rejectQuoteValidation, approvalDecisionHandler('rejected'));
 
 export { router as quotesRouter };
\ No newline at end of file
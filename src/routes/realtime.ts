@@ -1,10 +1,16 @@
-// ALVA POS MVP - Calculation API Routes (formerly Real-Time)
-// Real-time sync functionality temporarily disabled - PostgreSQL conversion
+// ALVA POS MVP - Calculation & Real-Time API Routes
+// Financial calculations plus REST companions of the WebSocket sync (config.realtime.wsPath)
 
 import { Router, Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { financialCalculationService } from '@/services/FinancialCalculationService';
+import { realTimeSyncService, RealTimeMessage, RealTimeSyncError } from '@/services/RealTimeSyncService';
+import { databaseService } from '@/services/DatabaseService';
+import { authService } from '@/services/AuthService';
 import { financialErrorHandler } from '@/middleware/financialErrorHandler';
+import { requirePermission } from '@/middleware/auth';
+import { config } from '@/config/environment';
+import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '@/utils/logger';
 import { 
   ApiResponse, 
@@ -46,6 +52,20 @@ function handleValidationErrors(req: Request, res: Response, next: any) {
   next();
 }
 
+/**
+ * Map RealTimeSyncService error codes to HTTP status
+ */
+function statusForRealtimeError(error: RealTimeSyncError): number {
+  switch (error.code) {
+    case 'INVALID_QUOTE_ID':
+      return 400;
+    case 'NOT_FOUND':
+      return 404;
+    default:
+      return 500;
+  }
+}
+
 // ===========================================
 // VALIDATION RULES
 // ===========================================
@@ -53,17 +73,51 @@ function handleValidationErrors(req: Request, res: Response, next: any) {
 const calculationValidation = [
   body('cartData').notEmpty().withMessage('Cart data is required'),
   body('taxRate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1'),
-  body('quoteId').optional().isUUID().withMessage('Quote ID must be a valid UUID'),
+  body('quoteId').optional().isInt({ min: 1 }).withMessage('Quote ID must be a positive integer'),
+  handleValidationErrors
+];
+
+const subscriptionValidation = [
+  body('quoteId').optional().isInt({ min: 1 }).withMessage('Quote ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// Quotes one SSE stream may follow
+const MAX_STREAM_QUOTES = 20;
+// Alvamitra quote ids (Id_Estimasi_Master)
+const QUOTE_ID_PATTERN = /^[1-9]\d*$/;
+
+const streamValidation = [
+  query('quoteId').optional()
+    .customSanitizer(value => [].concat(value))
+    .custom((values: any[]) => values.length <= MAX_STREAM_QUOTES).withMessage(`At most ${MAX_STREAM_QUOTES} quotes per stream`)
+    .custom((values: any[]) => values.every(value => QUOTE_ID_PATTERN.test(String(value)))).withMessage('Quote ID must be a positive integer'),
+  query('token').optional().isString().withMessage('Token must be a string'),
+  handleValidationErrors
+];
+
+const syncValidation = [
+  param('quoteId').isInt({ min: 1 }).withMessage('Quote ID must be a positive integer'),
+  body('cartData').notEmpty().withMessage('Cart data is required'),
+  body('taxRate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1'),
+  handleValidationErrors
+];
+
+const broadcastValidation = [
+  body('sessionId').isString().withMessage('Session ID is required')
+    .trim().notEmpty().withMessage('Session ID is required'),
+  body('type').isIn(['quote_updated', 'customer_updated', 'connection_status']).withMessage('Invalid message type'),
+  body('data').optional().isObject().withMessage('Data must be an object'),
   handleValidationErrors
 ];
 
 // ===========================================
-// CALCULATION ENDPOINTS (NON-REAL-TIME)
+// CALCULATION ENDPOINTS
 // ===========================================
 
 /**
  * POST /api/realtime/calculate - Perform financial calculations
- * Note: Real-time sync functionality disabled in PostgreSQL conversion
+ * With quoteId the result is also pushed as calculation_sync
  */
 router.post('/calculate', calculationValidation, async (req: Request, res: Response) => {
   const startTime = Date.now();
@@ -87,6 +141,20 @@ router.post('/calculate', calculationValidation, async (req: Request, res: Respo
       taxRate
     );
 
+    // Push the result to the session (and quote subscribers) over WebSocket
+    let realTimeSync: { success: boolean; error?: string } = {
+      success: false,
+      error: quoteId ? 'Calculation is invalid, nothing synced' : 'No quoteId given'
+    };
+    if (quoteId && calculationResult.isValid) {
+      try {
+        realTimeSync = await realTimeSyncService.syncCalculation(sessionId, quoteId, cartData, taxRate);
+      } catch (syncError) {
+        Logger.warn('Real-time calculation sync failed', { quoteId, sessionId, syncError });
+        realTimeSync = { success: false, error: 'Real-time sync failed' };
+      }
+    }
+
     const responseTime = Date.now() - startTime;
     Logger.info('Financial calculation completed', {
       sessionId,
@@ -106,11 +174,7 @@ router.post('/calculate', calculationValidation, async (req: Request, res: Respo
           errors: calculationResult.errors,
           calculationTime: responseTime
         },
-        // Note: Real-time sync disabled for PostgreSQL conversion
-        realTimeSync: {
-          success: false,
-          error: 'Real-time sync functionality temporarily disabled'
-        }
+        realTimeSync
       },
       message: calculationResult.isValid ? 'Calculation completed successfully' : 'Calculation completed with errors',
       timestamp: new Date().toISOString(),
@@ -217,12 +281,7 @@ router.get('/health', async (req: Request, res: Response) => {
       data: {
         systemHealth,
         errorStatistics: errorStats,
-        // Note: Real-time connections disabled for PostgreSQL conversion
-        realtimeConnections: {
-          activeConnections: 0,
-          status: 'disabled',
-          message: 'Real-time functionality temporarily disabled'
-        },
+        realtimeConnections: realTimeSyncService.getConnectionStats(),
         responseTime
       },
       timestamp: new Date().toISOString(),
@@ -357,48 +416,183 @@ router.post('/format-currency', [
 });
 
 // ===========================================
-// DISABLED ENDPOINTS - REAL-TIME FUNCTIONALITY
+// REAL-TIME SYNC ENDPOINTS
 // ===========================================
 
 /**
- * Real-time subscription endpoints are disabled for PostgreSQL conversion
- * These can be re-enabled later with WebSocket implementation
+ * GET /api/realtime/stream - Server-Sent Events fallback for the WebSocket endpoint.
+ * Follows the session plus any ?quoteId= (repeatable, requires a token; EventSource cannot
+ * send headers, so ?token= is accepted too). Last-Event-ID replays missed messages.
  */
+router.get('/stream', streamValidation, async (req: Request, res: Response) => {
+  try {
+    const sessionId = res.locals.sessionId;
+    const quoteIds: string[] = req.query.quoteId ? [...new Set(req.query.quoteId as unknown as string[])] : [];
+    const token = req.query.token as string | undefined;
 
-router.post('/subscribe', (req: Request, res: Response) => {
-  res.status(503).json({
-    success: false,
-    error: 'Service unavailable',
-    message: 'Real-time subscription functionality temporarily disabled during PostgreSQL conversion',
-    timestamp: new Date().toISOString(),
-    requestId: res.locals.requestId
-  });
+    const user = req.user || (token ? authService.verifyToken(token) : null);
+    if (token && !user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Access token is invalid or expired',
+        code: 'INVALID_TOKEN',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+    const result = await realTimeSyncService.openStream(res, sessionId, user, quoteIds, lastEventId);
+
+    if (result.error) {
+      const status = result.error.code === 'AUTH_REQUIRED' ? 401 : statusForRealtimeError(result.error);
+      return res.status(status).json({
+        success: false,
+        error: result.error.message,
+        code: result.error.code,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+  } catch (error) {
+    Logger.error('Real-time stream failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Real-time stream failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/realtime/subscribe - Subscribe the session's open WebSocket connections
+ * to the session, or to one of its quotes (quoteId, requires a token)
+ */
+router.post('/subscribe', subscriptionValidation, async (req: Request, res: Response) => {
+  try {
+    const sessionId = res.locals.sessionId;
+    const { quoteId } = req.body;
+
+    if (quoteId && !req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Quote subscriptions require an access token',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const result = await realTimeSyncService.subscribeSession(sessionId, quoteId);
+    if (result.error) {
+      return res.status(statusForRealtimeError(result.error)).json({
+        success: false,
+        error: result.error.message,
+        code: result.error.code,
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    if (!result.data?.isConnected) {
+      return res.status(409).json({
+        success: false,
+        error: 'No open WebSocket connection',
+        message: `Connect to ${config.realtime.wsPath} with this session first`,
+        code: 'NOT_CONNECTED',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        sessionId,
+        quoteId: quoteId || null,
+        connectionState: result.data
+      },
+      message: quoteId ? 'Subscribed to quote' : 'Subscribed to session',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Real-time subscription failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Real-time subscription failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
 });
 
-router.delete('/subscribe', (req: Request, res: Response) => {
-  res.status(503).json({
-    success: false,
-    error: 'Service unavailable', 
-    message: 'Real-time unsubscription functionality temporarily disabled during PostgreSQL conversion',
+/**
+ * DELETE /api/realtime/subscribe - Drop a quote subscription (quoteId) or all subscriptions
+ */
+router.delete('/subscribe', subscriptionValidation, async (req: Request, res: Response) => {
+  const sessionId = res.locals.sessionId;
+  const { quoteId } = req.body;
+
+  await realTimeSyncService.unsubscribeSession(sessionId, quoteId);
+
+  const response: ApiResponse = {
+    success: true,
+    data: {
+      sessionId,
+      quoteId: quoteId || null,
+      connectionState: realTimeSyncService.getConnectionState(sessionId)
+    },
+    message: quoteId ? 'Unsubscribed from quote' : 'Unsubscribed from all channels',
     timestamp: new Date().toISOString(),
     requestId: res.locals.requestId
-  });
+  };
+
+  res.json(response);
 });
 
+/**
+ * GET /api/realtime/status - Connection state of the current session, and whether it is
+ * connected over WebSocket and/or SSE
+ */
 router.get('/status', (req: Request, res: Response) => {
+  const sessionId = res.locals.sessionId;
+
   res.json({
     success: true,
     data: {
-      sessionId: res.locals.sessionId,
-      connectionState: {
+      sessionId,
+      websocketPath: config.realtime.wsPath,
+      streamPath: '/api/realtime/stream',
+      transports: realTimeSyncService.getSessionTransports(sessionId),
+      connectionState: realTimeSyncService.getConnectionState(sessionId) || {
         isConnected: false,
-        status: 'disabled',
-        message: 'Real-time functionality temporarily disabled'
-      },
-      systemStats: {
-        activeConnections: 0,
-        status: 'disabled'
+        reconnectAttempts: 0,
+        subscriptions: []
       },
+      systemStats: realTimeSyncService.getConnectionStats(),
       timestamp: new Date().toISOString()
     },
     timestamp: new Date().toISOString(),
@@ -406,41 +600,120 @@ router.get('/status', (req: Request, res: Response) => {
   });
 });
 
-router.post('/sync/:quoteId', (req: Request, res: Response) => {
-  res.status(503).json({
-    success: false,
-    error: 'Service unavailable',
-    message: 'Quote sync functionality temporarily disabled during PostgreSQL conversion',
-    timestamp: new Date().toISOString(),
-    requestId: res.locals.requestId
-  });
+/**
+ * POST /api/realtime/sync/:quoteId - Recalculate a quote's cart and push it as calculation_sync
+ */
+router.post('/sync/:quoteId', syncValidation, async (req: Request, res: Response) => {
+  try {
+    const sessionId = res.locals.sessionId;
+    const { quoteId } = req.params;
+    const { cartData, taxRate = 0.10 } = req.body;
+
+    const { data: quote, error } = await databaseService.getQuoteAlvamitra(quoteId);
+    if (error || !quote) {
+      return res.status(error ? 500 : 404).json({
+        success: false,
+        error: error ? 'Failed to load quote' : 'Quote not found',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+
+    const result = await realTimeSyncService.syncCalculation(sessionId, quoteId, cartData, taxRate);
+
+    const response: ApiResponse = {
+      success: result.success,
+      data: { quoteId, realTimeSync: result },
+      message: result.success ? 'Calculation synced' : result.error,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(result.success ? 200 : 400).json(response);
+
+  } catch (error) {
+    Logger.error('Quote calculation sync failed', {
+      error: error instanceof Error ? error.message : String(error),
+      quoteId: req.params.quoteId,
+      sessionId: res.locals.sessionId
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Quote calculation sync failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
 });
 
-router.get('/connections', (req: Request, res: Response) => {
+/**
+ * GET /api/realtime/connections - Open WebSocket connections (admin)
+ */
+router.get('/connections', requirePermission('database:admin'), (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const activeConnections = realTimeSyncService.getActiveConnections();
+
   res.json({
     success: true,
     data: {
-      activeConnections: [],
-      stats: {
-        activeConnections: 0,
-        status: 'disabled',
-        message: 'Real-time connections disabled'
-      },
-      responseTime: 0
+      activeConnections,
+      stats: realTimeSyncService.getConnectionStats(),
+      responseTime: Date.now() - startTime
     },
     timestamp: new Date().toISOString(),
     requestId: res.locals.requestId
   });
 });
 
-router.post('/broadcast', (req: Request, res: Response) => {
-  res.status(503).json({
-    success: false,
-    error: 'Service unavailable',
-    message: 'Broadcast functionality temporarily disabled during PostgreSQL conversion',
-    timestamp: new Date().toISOString(),
-    requestId: res.locals.requestId
-  });
+/**
+ * POST /api/realtime/broadcast - Push a message to a session's subscribers (admin)
+ */
+router.post('/broadcast', requirePermission('database:admin'), broadcastValidation, async (req: Request, res: Response) => {
+  try {
+    const message: RealTimeMessage = {
+      type: req.body.type,
+      sessionId: req.body.sessionId,
+      data: req.body.data,
+      timestamp: new Date().toISOString(),
+      messageId: uuidv4()
+    };
+
+    await realTimeSyncService.broadcastMessage(message);
+
+    Logger.info('Real-time message broadcast by admin', {
+      userId: req.userId,
+      type: message.type,
+      sessionId: message.sessionId,
+      messageId: message.messageId
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { messageId: message.messageId },
+      message: 'Message broadcast',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Real-time broadcast failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Broadcast failed',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(500).json(response);
+  }
 });
 
 export { router as realtimeRouter };
\ No newline at end of file
@@ -0,0 +1,595 @@
+// ALVA POS MVP - Quote Template API Routes
+// Template CRUD, tagging, sharing, gallery and applying templates to new quotes
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { databaseService, Quote, Template, TemplateGalleryEntry } from '@/services/DatabaseService';
+import { templateService, SkippedTemplateItem, RepricedTemplateItem } from '@/services/TemplateService';
+import { requirePermission } from '@/middleware/auth';
+import { Logger } from '@/utils/logger';
+import { ApiResponse, PaginationResponse, TemplateApplyRequest } from '@/types/api';
+
+const router = Router();
+
+// ===========================================
+// HELPER FUNCTIONS
+// ===========================================
+
+/**
+ * Handle validation errors
+ */
+function handleValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const validationErrors = errors.array().map(error => ({
+      field: error.type === 'field' ? (error as any).path : error.type,
+      message: error.msg,
+      value: error.type === 'field' ? (error as any).value : undefined
+    }));
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    return res.status(400).json({
+      ...response,
+      validation_errors: validationErrors
+    });
+  }
+  next();
+}
+
+/**
+ * Tags are stored lowercase, trimmed and without duplicates
+ */
+function normalizeTags(tags: unknown): string[] | undefined {
+  if (tags === undefined) return undefined;
+
+  const list = Array.isArray(tags) ? tags : String(tags).split(',');
+  return [...new Set(list.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Map TemplateService error codes to HTTP status
+ */
+function statusForTemplateError(error: any): number {
+  switch (error?.code) {
+    case 'NOT_FOUND':
+      return 404;
+    case 'EMPTY_QUOTE':
+    case 'CALCULATION_FAILED':
+      return 422;
+    default:
+      return 500;
+  }
+}
+
+function notFound(res: Response) {
+  return res.status(404).json({
+    success: false,
+    error: 'Template not found',
+    message: 'Template does not exist or is not owned by you',
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
+  });
+}
+
+function serverError(res: Response, error: unknown, message: string) {
+  return res.status(500).json({
+    success: false,
+    error: message,
+    message: error instanceof Error ? error.message : 'Internal server error',
+    timestamp: new Date().toISOString(),
+    requestId: res.locals.requestId
+  });
+}
+
+// ===========================================
+// VALIDATION RULES
+// ===========================================
+
+const tagRules = (field: string, optional: boolean) => [
+  (optional ? body(field).optional() : body(field)).isArray({ max: 20 }).withMessage('Tags must be an array of at most 20 tags'),
+  body(`${field}.*`).isString().trim().isLength({ min: 1, max: 50 }).withMessage('Each tag must be 1-50 characters')
+];
+
+const templateDataRules = (optional: boolean) => [
+  (optional ? body('template_data').optional() : body('template_data')).isObject().withMessage('Template data is required'),
+  body('template_data.items').if(body('template_data').exists()).isArray({ max: 500 }).withMessage('Template items must be an array'),
+  body('template_data.items.*.productId').isString().notEmpty().withMessage('Each item needs a productId'),
+  body('template_data.items.*.quantity').isFloat({ gt: 0 }).withMessage('Item quantity must be greater than 0'),
+  body('template_data.laborItems').optional().isArray({ max: 100 }).withMessage('Labor items must be an array'),
+  body('template_data.laborItems.*.name').isString().notEmpty().withMessage('Each labor item needs a name'),
+  body('template_data.laborItems.*.rate').isFloat({ min: 0 }).withMessage('Labor rate must be 0 or more'),
+  body('template_data.laborItems.*.quantity').isFloat({ gt: 0 }).withMessage('Labor quantity must be greater than 0')
+];
+
+const listTemplatesValidation = [
+  query('category').optional().isString().isLength({ max: 100 }),
+  query('tags').optional().isString().isLength({ max: 500 }),
+  query('q').optional().isString().isLength({ max: 100 }).withMessage('Search query must be less than 100 characters'),
+  query('mine').optional().isBoolean().withMessage('Mine must be a boolean'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+const galleryValidation = [
+  query('category').optional().isString().isLength({ max: 100 }),
+  query('tags').optional().isString().isLength({ max: 500 }),
+  query('q').optional().isString().isLength({ max: 100 }).withMessage('Search query must be less than 100 characters'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+const getTemplateValidation = [
+  param('id').isUUID().withMessage('Valid template ID is required'),
+  handleValidationErrors
+];
+
+const createTemplateValidation = [
+  body('name').isString().trim().isLength({ min: 2, max: 200 }).withMessage('Name must be 2-200 characters'),
+  body('description').optional().isString().isLength({ max: 2000 }).withMessage('Description must be less than 2000 characters'),
+  body('category').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Category is required'),
+  ...templateDataRules(false),
+  ...tagRules('tags', true),
+  body('is_public').optional().isBoolean().withMessage('is_public must be a boolean'),
+  handleValidationErrors
+];
+
+const updateTemplateValidation = [
+  param('id').isUUID().withMessage('Valid template ID is required'),
+  body('name').optional().isString().trim().isLength({ min: 2, max: 200 }).withMessage('Name must be 2-200 characters'),
+  body('description').optional().isString().isLength({ max: 2000 }).withMessage('Description must be less than 2000 characters'),
+  body('category').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Category must be 1-100 characters'),
+  ...templateDataRules(true),
+  ...tagRules('tags', true),
+  body('is_public').optional().isBoolean().withMessage('is_public must be a boolean'),
+  handleValidationErrors
+];
+
+const updateTagsValidation = [
+  param('id').isUUID().withMessage('Valid template ID is required'),
+  ...tagRules('tags', false),
+  handleValidationErrors
+];
+
+const sharingValidation = [
+  param('id').isUUID().withMessage('Valid template ID is required'),
+  body('is_public').isBoolean().withMessage('is_public must be a boolean'),
+  handleValidationErrors
+];
+
+const applyTemplateValidation = [
+  param('id').isUUID().withMessage('Valid template ID is required'),
+  body('tax_rate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be between 0 and 1'),
+  body('notes').optional().isString().isLength({ max: 2000 }).withMessage('Notes must be less than 2000 characters'),
+  handleValidationErrors
+];
+
+// ===========================================
+// ROUTE HANDLERS
+// ===========================================
+
+/**
+ * GET /api/templates - Public templates plus the user's own (?mine=true for own only)
+ */
+router.get('/', requirePermission('templates:read'), listTemplatesValidation, async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const { data, error } = await databaseService.getTemplates(req.query.category as string | undefined, limit, {
+      tags: normalizeTags(req.query.tags),
+      search: req.query.q as string | undefined,
+      mine: req.query.mine === 'true'
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get templates');
+    }
+
+    const response: ApiResponse<Template[]> = {
+      success: true,
+      data: data || [],
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template listing failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    serverError(res, error, 'Failed to list templates');
+  }
+});
+
+/**
+ * GET /api/templates/gallery - Shared templates ranked by usage, with popularity level
+ */
+router.get('/gallery', requirePermission('templates:read'), galleryValidation, async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 24;
+
+    const { data, total, error } = await databaseService.getTemplateGallery(
+      req.query.category as string | undefined,
+      { tags: normalizeTags(req.query.tags), search: req.query.q as string | undefined },
+      limit,
+      (page - 1) * limit
+    );
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get template gallery');
+    }
+
+    const totalPages = Math.ceil(total / limit);
+    const response: ApiResponse<PaginationResponse<TemplateGalleryEntry>> = {
+      success: true,
+      data: {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      },
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template gallery failed', {
+      error: error instanceof Error ? error.message : String(error),
+      sessionId: res.locals.sessionId
+    });
+
+    serverError(res, error, 'Failed to load template gallery');
+  }
+});
+
+/**
+ * GET /api/templates/tags - Tags used on visible templates, most used first
+ */
+router.get('/tags', requirePermission('templates:read'), async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await databaseService.getTemplateTags();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get template tags');
+    }
+
+    const response: ApiResponse<Array<{ tag: string; count: number }>> = {
+      success: true,
+      data: data || [],
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template tag listing failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    serverError(res, error, 'Failed to list template tags');
+  }
+});
+
+/**
+ * GET /api/templates/:id - Template with its items
+ */
+router.get('/:id', requirePermission('templates:read'), getTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await databaseService.getTemplate(req.params.id);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get template');
+    }
+    if (!data) {
+      return notFound(res);
+    }
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template fetch failed', {
+      error: error instanceof Error ? error.message : String(error),
+      templateId: req.params.id
+    });
+
+    serverError(res, error, 'Failed to load template');
+  }
+});
+
+/**
+ * POST /api/templates - Create a template (private unless is_public is set)
+ */
+router.post('/', requirePermission('templates:write'), createTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await databaseService.createTemplate({
+      name: req.body.name,
+      description: req.body.description,
+      category: req.body.category,
+      template_data: {
+        items: req.body.template_data.items || [],
+        laborItems: req.body.template_data.laborItems || [],
+        totalDiscount: req.body.template_data.totalDiscount ?? null
+      },
+      tags: normalizeTags(req.body.tags) || [],
+      is_public: req.body.is_public === true,
+      created_by: req.userId
+    });
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create template');
+    }
+
+    Logger.info('Template created', { templateId: data.id, isPublic: data.is_public, userId: req.userId });
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data,
+      message: 'Template created',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    Logger.error('Template creation failed', {
+      error: error instanceof Error ? error.message : String(error),
+      userId: req.userId
+    });
+
+    serverError(res, error, 'Failed to create template');
+  }
+});
+
+/**
+ * PUT /api/templates/:id - Update an own template
+ */
+router.put('/:id', requirePermission('templates:write'), updateTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const templateData = req.body.template_data;
+    const { data, error } = await databaseService.updateTemplate(req.params.id, {
+      name: req.body.name,
+      description: req.body.description,
+      category: req.body.category,
+      template_data: templateData
+        ? { items: templateData.items || [], laborItems: templateData.laborItems || [], totalDiscount: templateData.totalDiscount ?? null }
+        : undefined,
+      tags: normalizeTags(req.body.tags),
+      is_public: req.body.is_public
+    });
+
+    if (error && error.message === 'No fields to update') {
+      return res.status(400).json({
+        success: false,
+        error: 'No fields to update',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      });
+    }
+    if (error) {
+      throw new Error(error.message || 'Failed to update template');
+    }
+    if (!data) {
+      return notFound(res);
+    }
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data,
+      message: 'Template updated',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template update failed', {
+      error: error instanceof Error ? error.message : String(error),
+      templateId: req.params.id
+    });
+
+    serverError(res, error, 'Failed to update template');
+  }
+});
+
+/**
+ * PUT /api/templates/:id/tags - Replace the tags of an own template
+ */
+router.put('/:id/tags', requirePermission('templates:write'), updateTagsValidation, async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await databaseService.updateTemplate(req.params.id, { tags: normalizeTags(req.body.tags) });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update template tags');
+    }
+    if (!data) {
+      return notFound(res);
+    }
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data,
+      message: 'Template tags updated',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template tag update failed', {
+      error: error instanceof Error ? error.message : String(error),
+      templateId: req.params.id
+    });
+
+    serverError(res, error, 'Failed to update template tags');
+  }
+});
+
+/**
+ * PATCH /api/templates/:id/sharing - Share an own template with the organisation or make it private
+ */
+router.patch('/:id/sharing', requirePermission('templates:write'), sharingValidation, async (req: Request, res: Response) => {
+  try {
+    const isPublic = req.body.is_public === true || req.body.is_public === 'true';
+    const { data, error } = await databaseService.updateTemplate(req.params.id, { is_public: isPublic });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update template sharing');
+    }
+    if (!data) {
+      return notFound(res);
+    }
+
+    Logger.info('Template sharing changed', { templateId: data.id, isPublic, userId: req.userId });
+
+    const response: ApiResponse<Template> = {
+      success: true,
+      data,
+      message: isPublic ? 'Template shared' : 'Template made private',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template sharing update failed', {
+      error: error instanceof Error ? error.message : String(error),
+      templateId: req.params.id
+    });
+
+    serverError(res, error, 'Failed to update template sharing');
+  }
+});
+
+/**
+ * DELETE /api/templates/:id - Delete an own template (quotes created from it are kept)
+ */
+router.delete('/:id', requirePermission('templates:write'), getTemplateValidation, async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await databaseService.deleteTemplate(req.params.id);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to delete template');
+    }
+    if (!data) {
+      return notFound(res);
+    }
+
+    Logger.info('Template deleted', { templateId: req.params.id, userId: req.userId });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Template deleted',
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    Logger.error('Template deletion failed', {
+      error: error instanceof Error ? error.message : String(error),
+      templateId: req.params.id
+    });
+
+    serverError(res, error, 'Failed to delete template');
+  }
+});
+
+/**
+ * POST /api/templates/:id/apply - Create a draft quote from a template at current catalog prices
+ */
+router.post(
+  '/:id/apply',
+  requirePermission('templates:read', 'quotes:write'),
+  applyTemplateValidation,
+  async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const request: TemplateApplyRequest = {
+        tax_rate: req.body.tax_rate !== undefined ? Number(req.body.tax_rate) : undefined,
+        notes: req.body.notes
+      };
+
+      const result = await templateService.applyTemplate(
+        req.params.id,
+        { userId: req.userId!, organisasiKode: req.organisasiKode! },
+        request
+      );
+
+      if (result.error || !result.data) {
+        return res.status(statusForTemplateError(result.error)).json({
+          success: false,
+          error: result.error?.message || 'Failed to apply template',
+          code: result.error?.code,
+          details: result.error?.details,
+          timestamp: new Date().toISOString(),
+          requestId: res.locals.requestId
+        });
+      }
+
+      Logger.info('Template applied', {
+        templateId: req.params.id,
+        quoteId: result.data.quote.id,
+        sessionId: res.locals.sessionId,
+        responseTime: Date.now() - startTime
+      });
+
+      const response: ApiResponse<{ quote: Quote; skipped_items: SkippedTemplateItem[]; repriced_items: RepricedTemplateItem[] }> = {
+        success: true,
+        data: {
+          quote: result.data.quote,
+          skipped_items: result.data.skippedItems,
+          repriced_items: result.data.repricedItems
+        },
+        message: result.data.skippedItems.length > 0
+          ? `Draft quote created; ${result.data.skippedItems.length} item(s) no longer in the catalog were left out`
+          : 'Draft quote created from template',
+        timestamp: new Date().toISOString(),
+        requestId: res.locals.requestId
+      };
+
+      res.status(201).json(response);
+
+    } catch (error) {
+      Logger.error('Template apply failed', {
+        error: error instanceof Error ? error.message : String(error),
+        templateId: req.params.id,
+        responseTime: Date.now() - startTime
+      });
+
+      serverError(res, error, 'Failed to apply template');
+    }
+  }
+);
+
+export { router as templatesRouter };
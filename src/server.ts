@@ -26,6 +26,7 @@ import {
   optionalSessionMiddleware,
   validateSessionMiddleware,
 } from '@/middleware/sessionMiddleware';
+import { optionalAuthMiddleware, requiredAuthMiddleware } from '@/middleware/auth';
 import {
   errorHandler,
   notFoundHandler,
@@ -36,15 +37,22 @@ import { financialErrorMiddleware } from '@/middleware/financialErrorHandler';
 
 // Route imports
 import { healthRoutes } from '@/routes/health';
+import { authRouter } from '@/routes/auth';
 import databaseRoutes from '@/routes/database';
 import { quotesRouter } from '@/routes/quotes';
 import { customersRouter } from '@/routes/customers';
 import { productsRouter } from '@/routes/products';
 import { realtimeRouter } from '@/routes/realtime';
+import { boqRouter } from '@/routes/boq';
+import { templatesRouter } from '@/routes/templates';
+import { publicRouter } from '@/routes/public';
+import exportRouter from '@/routes/export';
 
 // Service imports for initialization
 import { realTimeSyncService } from '@/services/RealTimeSyncService';
 import { financialCalculationService } from '@/services/FinancialCalculationService';
+import { exportJobService } from '@/services/ExportJobService';
+import { quoteExpiryService } from '@/services/QuoteExpiryService';
 import { ordersRouter } from './routes/orders';
 
 // dotenv.config();
@@ -131,6 +139,9 @@ class ALVAPOSServer {
     this.app.use(optionalSessionMiddleware);
     this.app.use(validateSessionMiddleware());
 
+    // Authentication context (userId / organisasiKode when a token is sent)
+    this.app.use(optionalAuthMiddleware);
+
     Logger.info('Middleware setup completed');
   }
 
@@ -141,17 +152,28 @@ class ALVAPOSServer {
     // Health check routes (no session required)
     this.app.use('/api/health', healthRoutes);
 
+    // Authentication routes
+    this.app.use('/api/auth', authRouter);
+
     // Database management routes (with session management)
     // this.app.use('/api/database', databaseRoutes);
     // Tambahkan middleware database sebelum route database
     // this.app.use('/api/database', mysqlMiddleware(), databaseRoutes);
 
     // Core API routes
-    this.app.use('/api/quotes', quotesRouter);
-    this.app.use('/api/orders', ordersRouter);
+    this.app.use('/api/quotes', requiredAuthMiddleware, quotesRouter);
+    this.app.use('/api/orders', requiredAuthMiddleware, ordersRouter);
     this.app.use('/api/customers', customersRouter);
     this.app.use('/api/products', productsRouter);
     this.app.use('/api/realtime', realtimeRouter);
+    this.app.use('/api/boq', requiredAuthMiddleware, boqRouter);
+    this.app.use('/api/templates', requiredAuthMiddleware, templatesRouter);
+
+    // Export routes (signed download links work without a session token)
+    this.app.use('/api/v1/export', exportRouter);
+
+    // Public customer pages (quote share links, no session or token)
+    this.app.use('/api/public', publicRouter);
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -173,12 +195,18 @@ class ALVAPOSServer {
         environment: config.env,
         endpoints: {
           health: '/api/health',
+          auth: '/api/auth',
           database: '/api/database',
           migrations: '/api/database/migrations',
           search: '/api/database/search',
           quotes: '/api/quotes',
+          orders: '/api/orders',
           customers: '/api/customers',
           products: '/api/products',
+          boq: '/api/boq/imports',
+          templates: '/api/templates',
+          export: '/api/v1/export',
+          publicQuotes: '/api/public/quotes/:token',
           calculations: {
             base: '/api/realtime',
             calculate: '/api/realtime/calculate',
@@ -186,6 +214,13 @@ class ALVAPOSServer {
             health: '/api/realtime/health',
             errors: '/api/realtime/errors',
             formatCurrency: '/api/realtime/format-currency'
+          },
+          realtime: {
+            websocket: config.realtime.wsPath,
+            stream: '/api/realtime/stream',
+            subscribe: '/api/realtime/subscribe',
+            status: '/api/realtime/status',
+            sync: '/api/realtime/sync/:quoteId'
           }
         },
         features: {
@@ -253,9 +288,25 @@ class ALVAPOSServer {
       financialCalculationService;
       Logger.info('Financial calculation service initialized');
       
-      // Initialize real-time sync service stub (singleton pattern)  
+      // Initialize real-time sync service (WebSocket server is attached to the HTTP server below)
       realTimeSyncService;
-      Logger.info('Real-time sync service stub initialized (functionality disabled)');
+      Logger.info('Real-time sync service initialized');
+
+      // Resume export job queue (jobs interrupted by the last shutdown are requeued)
+      if (dbHealthy) {
+        await exportJobService.start();
+        Logger.info('Export job queue started');
+      } else {
+        Logger.warn('Export job queue not started: database unavailable');
+      }
+
+      // Expire overdue quotes now and on every QUOTE_EXPIRY_INTERVAL
+      if (dbHealthy) {
+        await quoteExpiryService.start();
+        Logger.info('Quote expiry job started');
+      } else {
+        Logger.warn('Quote expiry job not started: database unavailable');
+      }
       
       Logger.info('All application services initialized successfully');
 
@@ -278,6 +329,9 @@ class ALVAPOSServer {
         }
       });
 
+      // Real-time WebSocket endpoint (config.realtime.wsPath)
+      realTimeSyncService.attach(this.server);
+
       // Configure server timeouts
       this.server.keepAliveTimeout = config.performance.keepAliveTimeout;
       this.server.headersTimeout = config.performance.headersTimeout;
@@ -312,12 +366,18 @@ class ALVAPOSServer {
       // Cleanup session manager
       sessionManager.stopCleanupTimer();
 
-      // Cleanup real-time sync service stub
+      // Stop picking up export jobs
+      exportJobService.stop();
+
+      // Stop the quote expiry job
+      quoteExpiryService.stop();
+
+      // Close real-time WebSocket connections
       try {
         await realTimeSyncService.shutdown();
-        Logger.info('Real-time sync service stub shutdown completed');
+        Logger.info('Real-time sync service shutdown completed');
       } catch (error) {
-        Logger.warn('Error shutting down real-time sync service stub', { error });
+        Logger.warn('Error shutting down real-time sync service', { error });
       }
 
       // Cleanup database connections
@@ -0,0 +1,245 @@
+// ALVA POS MVP - Authentication Service
+// Login against Alvamitra tb_data_pengguna and signed (JWT) access tokens
+
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { config } from '@/config/environment';
+import { db } from '@/config/database';
+import { DEFAULT_ROLE, Permission, Role, getRolePermissions } from '@/config/permissions';
+import { Logger } from '@/utils/logger';
+import { poolAlvamitra } from '../middleware/database';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  organisasiKode: string;
+  organisasiKodeSmartjmp: string | null;
+  role: Role;
+  permissions: Permission[];
+}
+
+export interface AuthTokenPayload {
+  sub: string;
+  org: string;
+  org_smartjmp: string | null;
+  role: Role;
+  name: string;
+  email: string;
+}
+
+export interface LoginResult {
+  token: string;
+  tokenType: 'Bearer';
+  expiresAt: string;
+  user: AuthUser;
+}
+
+export class AuthService {
+  private static instance: AuthService;
+
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  /**
+   * Login dengan email + password user Alvamitra
+   */
+  public async login(email: string, password: string): Promise<{ data: LoginResult | null; error: any }> {
+    try {
+      const [rows] = await poolAlvamitra.query(
+        `SELECT Id_Pengguna, Nama_Depan, Nama_Belakang, Email, Password, Organisasi_Kode
+        FROM tb_data_pengguna
+        WHERE Email = ? AND Status = 'Aktif'
+        LIMIT 1`,
+        [email]
+      );
+
+      const row = (rows as any[])[0];
+      if (!row || !(await this.verifyPassword(password, row.Password))) {
+        Logger.security('Failed login attempt', { email });
+        return { data: null, error: { message: 'Invalid email or password', code: 'INVALID_CREDENTIALS' } };
+      }
+
+      const user = this.mapUserRow(
+        row,
+        await this.getUserRole(String(row.Id_Pengguna)),
+        await this.getSmartjmpOrganisasiKode(row.Organisasi_Kode)
+      );
+
+      await poolAlvamitra.query(
+        'UPDATE tb_data_pengguna SET Waktu_Terakhir_Login = ? WHERE Id_Pengguna = ?',
+        [new Date(), row.Id_Pengguna]
+      );
+
+      const token = this.signToken(user);
+      const decoded = jwt.decode(token) as jwt.JwtPayload;
+
+      Logger.info('User logged in', { userId: user.id, organisasiKode: user.organisasiKode });
+
+      return {
+        data: {
+          token,
+          tokenType: 'Bearer',
+          expiresAt: new Date((decoded.exp || 0) * 1000).toISOString(),
+          user
+        },
+        error: null
+      };
+    } catch (error) {
+      Logger.error('Login failed', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Verify access token and return the user it was issued for
+   */
+  public verifyToken(token: string): AuthUser | null {
+    try {
+      const payload = jwt.verify(token, config.auth.jwtSecret, {
+        issuer: config.auth.issuer
+      }) as AuthTokenPayload & jwt.JwtPayload;
+
+      return {
+        id: payload.sub,
+        name: payload.name,
+        email: payload.email,
+        organisasiKode: payload.org,
+        organisasiKodeSmartjmp: payload.org_smartjmp || null,
+        role: payload.role,
+        permissions: getRolePermissions(payload.role)
+      };
+    } catch (error) {
+      Logger.debug('Access token rejected', {
+        reason: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get active user by ID
+   */
+  public async getUser(userId: string): Promise<{ data: AuthUser | null; error: any }> {
+    try {
+      const [rows] = await poolAlvamitra.query(
+        `SELECT Id_Pengguna, Nama_Depan, Nama_Belakang, Email, Organisasi_Kode
+        FROM tb_data_pengguna
+        WHERE Id_Pengguna = ? AND Status = 'Aktif'
+        LIMIT 1`,
+        [userId]
+      );
+
+      const row = (rows as any[])[0];
+      if (!row) {
+        return { data: null, error: null };
+      }
+
+      return {
+        data: this.mapUserRow(row, await this.getUserRole(userId), await this.getSmartjmpOrganisasiKode(row.Organisasi_Kode)),
+        error: null
+      };
+    } catch (error) {
+      Logger.error('Error fetching user', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get role assigned to a user (DEFAULT_ROLE when none assigned)
+   */
+  public async getUserRole(userId: string): Promise<Role> {
+    const { data, error } = await db.execute<{ role: Role }>(
+      'SELECT role FROM user_roles WHERE user_id = $1',
+      [userId],
+      'get_user_role'
+    );
+
+    if (error) {
+      Logger.warn('Could not load user role, using default', { userId, defaultRole: DEFAULT_ROLE });
+    }
+
+    return data && data.length > 0 ? data[0].role : DEFAULT_ROLE;
+  }
+
+  /**
+   * SmartJMP organisation mapped to an Alvamitra organisation (null when none is mapped)
+   */
+  public async getSmartjmpOrganisasiKode(organisasiKode: string): Promise<string | null> {
+    const { data, error } = await db.execute<{ organisasi_kode_smartjmp: string }>(
+      'SELECT organisasi_kode_smartjmp FROM organisation_smartjmp WHERE organisation_id = $1',
+      [organisasiKode],
+      'get_organisation_smartjmp'
+    );
+
+    if (error) {
+      Logger.warn('Could not load SmartJMP organisation, SmartJMP data disabled', { organisasiKode });
+    }
+
+    return data && data.length > 0 ? data[0].organisasi_kode_smartjmp : null;
+  }
+
+  /**
+   * Assign a role to a user
+   */
+  public async setUserRole(userId: string, role: Role, assignedBy: string): Promise<{ data: { user_id: string; role: Role } | null; error: any }> {
+    const { data, error } = await db.execute<{ user_id: string; role: Role }>(
+      `INSERT INTO user_roles (user_id, role, assigned_by)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id) DO UPDATE
+        SET role = EXCLUDED.role, assigned_by = EXCLUDED.assigned_by, updated_at = now()
+      RETURNING user_id, role`,
+      [userId, role, assignedBy],
+      'set_user_role'
+    );
+
+    if (!error) {
+      Logger.security('User role changed', { userId, role, assignedBy });
+    }
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  private signToken(user: AuthUser): string {
+    const payload: AuthTokenPayload = {
+      sub: user.id,
+      org: user.organisasiKode,
+      org_smartjmp: user.organisasiKodeSmartjmp,
+      role: user.role,
+      name: user.name,
+      email: user.email
+    };
+
+    return jwt.sign(payload, config.auth.jwtSecret, {
+      expiresIn: config.auth.tokenExpiresIn,
+      issuer: config.auth.issuer
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Password Alvamitra di-hash dengan bcrypt PHP ($2y$), bcryptjs hanya kenal $2a$/$2b$
+   */
+  private async verifyPassword(password: string, hash?: string): Promise<boolean> {
+    if (!hash) return false;
+    return bcrypt.compare(password, hash.replace(/^\$2y\$/, '$2a$'));
+  }
+
+  private mapUserRow(row: any, role: Role, organisasiKodeSmartjmp: string | null): AuthUser {
+    return {
+      id: String(row.Id_Pengguna),
+      name: [row.Nama_Depan, row.Nama_Belakang].filter(Boolean).join(' '),
+      email: row.Email,
+      organisasiKode: row.Organisasi_Kode,
+      organisasiKodeSmartjmp,
+      role,
+      permissions: getRolePermissions(role)
+    };
+  }
+}
+
+// Export singleton instance
+export const authService = AuthService.getInstance();
@@ -0,0 +1,536 @@
+// ALVA POS MVP - BOQ Import Service
+// Parses ALVA Survey BOQ spreadsheets and matches rows to catalog products (SKU, learned alias, then trigram name match)
+
+import ExcelJS from 'exceljs';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, BOQImport, Quote } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { Logger } from '@/utils/logger';
+import { BOQImportRow, BOQProductMatch, BOQQuoteRequest, CartItem } from '@/types/api';
+
+type BOQColumn = 'sku' | 'description' | 'quantity' | 'unit' | 'notes';
+
+export interface ParsedBOQ {
+  sheet: string;
+  headerRow: number;
+  columns: Partial<Record<BOQColumn, number>>;
+  rows: Array<Omit<BOQImportRow, 'status' | 'match' | 'candidates'>>;
+}
+
+// Header labels per column (lowercase, English and Indonesian as used in survey sheets)
+const HEADER_ALIASES: Record<BOQColumn, string[]> = {
+  sku: ['sku', 'kode', 'kode barang', 'kode produk', 'item code', 'code', 'part number', 'part no', 'pn'],
+  description: ['description', 'deskripsi', 'uraian', 'uraian pekerjaan', 'nama barang', 'nama produk', 'nama item', 'item', 'product', 'produk'],
+  quantity: ['qty', 'quantity', 'jumlah', 'volume', 'vol'],
+  unit: ['unit', 'satuan', 'uom'],
+  notes: ['notes', 'note', 'keterangan', 'catatan', 'remarks', 'lokasi', 'location'],
+};
+
+// Header must be within the first rows (title / project block sits above it)
+const HEADER_SCAN_ROWS = 20;
+
+// Same default as POST /api/quotes
+const DEFAULT_TAX_RATE = 0.10;
+
+export interface BOQReviewFilters {
+  status?: BOQImportRow['status'];
+  maxConfidence?: number; // only rows whose match confidence is at or below this (unmatched rows always qualify)
+}
+
+export interface BOQServiceError {
+  message: string;
+  code: string;
+  details?: any;
+}
+
+export interface BOQReviewResult {
+  data: { import: BOQImport; rows: BOQImportRow[] } | null;
+  error: BOQServiceError | null;
+}
+
+export interface BOQOverrideResult {
+  data: { row: BOQImportRow; alias: string | null } | null;
+  error: BOQServiceError | null;
+}
+
+export interface BOQQuoteResult {
+  data: { quote: Quote; droppedRows: number[] } | null;
+  error: BOQServiceError | null;
+}
+
+export class BOQImportService {
+  private static instance: BOQImportService;
+
+  // Rows allowed per import
+  public static readonly MAX_ROWS = 1000;
+
+  // Minimum trigram similarity for a name match to count as matched
+  public static readonly FUZZY_MATCH_THRESHOLD = 0.5;
+
+  // Trigram candidates kept per row for manual review
+  public static readonly CANDIDATE_LIMIT = 3;
+
+  // Progress is written to boq_imports every N rows
+  private static readonly PROGRESS_EVERY = 10;
+
+  static getInstance(): BOQImportService {
+    if (!BOQImportService.instance) {
+      BOQImportService.instance = new BOQImportService();
+    }
+    return BOQImportService.instance;
+  }
+
+  /**
+   * Read BOQ rows from the first worksheet that has a recognisable header
+   * (description and quantity columns are required, SKU / unit / notes optional)
+   */
+  async parseWorkbook(data: Buffer): Promise<{ data: ParsedBOQ | null; error: { message: string; code: string } | null }> {
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      // exceljs types predate the generic Buffer<ArrayBufferLike> of newer @types/node
+      await workbook.xlsx.load(data as any);
+    } catch (error) {
+      return { data: null, error: { message: 'File is not a readable XLSX workbook', code: 'INVALID_WORKBOOK' } };
+    }
+
+    for (const worksheet of workbook.worksheets) {
+      const header = this.findHeader(worksheet);
+      if (!header) continue;
+
+      const rows: ParsedBOQ['rows'] = [];
+      for (let rowNumber = header.row + 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+        const row = worksheet.getRow(rowNumber);
+        const text = (column: BOQColumn) =>
+          header.columns[column] ? row.getCell(header.columns[column]!).text.trim() : '';
+
+        const description = text('description');
+        const sku = text('sku');
+        const quantity = this.toNumber(row.getCell(header.columns.quantity!));
+
+        // Blank lines, section headings and subtotal lines have no quantity
+        if ((!description && !sku) || !quantity || quantity <= 0) continue;
+
+        rows.push({
+          row: rowNumber,
+          sku: sku || undefined,
+          description: description || sku,
+          quantity,
+          unit: text('unit') || undefined,
+          notes: text('notes') || undefined,
+        });
+      }
+
+      if (rows.length === 0) {
+        return { data: null, error: { message: `Sheet '${worksheet.name}' has no BOQ rows`, code: 'EMPTY_BOQ' } };
+      }
+      if (rows.length > BOQImportService.MAX_ROWS) {
+        return {
+          data: null,
+          error: { message: `BOQ has more than ${BOQImportService.MAX_ROWS} rows`, code: 'TOO_MANY_ROWS' }
+        };
+      }
+
+      return {
+        data: { sheet: worksheet.name, headerRow: header.row, columns: header.columns, rows },
+        error: null
+      };
+    }
+
+    return {
+      data: null,
+      error: { message: 'No BOQ header found (description and quantity columns are required)', code: 'BOQ_HEADER_NOT_FOUND' }
+    };
+  }
+
+  /**
+   * Match parsed rows to the catalog and record progress, counts and per-row results on the import.
+   * Runs after the upload response; errors are stored on the import instead of being thrown.
+   */
+  async processImport(importId: string, parsed: ParsedBOQ): Promise<void> {
+    const results: BOQImportRow[] = [];
+    let matched = 0;
+    let unmatched = 0;
+
+    const importData = () => ({
+      sheet: parsed.sheet,
+      header_row: parsed.headerRow,
+      columns: parsed.columns,
+      rows: results
+    });
+
+    try {
+      const skus = [...new Set(parsed.rows.map(row => row.sku).filter(Boolean))] as string[];
+      const skuResult = await databaseService.getProductsBySku(skus);
+      if (skuResult.error) {
+        throw new Error(skuResult.error.message || 'SKU lookup failed');
+      }
+
+      const productsBySku = new Map<string, any>(
+        (skuResult.data || []).map(product => [String(product.sku).toUpperCase(), product])
+      );
+
+      const aliases = [...new Set(parsed.rows.map(row => this.normalizeAlias(row.description)))];
+      const aliasResult = await databaseService.getProductAliases(aliases);
+      if (aliasResult.error) {
+        throw new Error(aliasResult.error.message || 'Alias lookup failed');
+      }
+
+      const productsByAlias = new Map<string, any>(
+        (aliasResult.data || []).map(product => [product.alias, product])
+      );
+
+      for (let i = 0; i < parsed.rows.length; i++) {
+        const row = parsed.rows[i];
+        const { match, candidates } = await this.matchRow(row, productsBySku, productsByAlias);
+
+        results.push({
+          ...row,
+          status: match ? 'matched' : 'unmatched',
+          match: match || undefined,
+          candidates: candidates.length > 0 ? candidates : undefined
+        });
+        match ? matched++ : unmatched++;
+
+        if ((i + 1) % BOQImportService.PROGRESS_EVERY === 0 && i + 1 < parsed.rows.length) {
+          await databaseService.updateBOQImport(importId, {
+            processing_progress: Math.floor(((i + 1) / parsed.rows.length) * 100),
+            matched_items: matched,
+            unmatched_items: unmatched,
+            import_data: importData()
+          });
+        }
+      }
+
+      await databaseService.updateBOQImport(importId, {
+        status: 'completed',
+        processing_progress: 100,
+        matched_items: matched,
+        unmatched_items: unmatched,
+        import_data: importData(),
+        processed_at: new Date().toISOString()
+      });
+
+      Logger.info('BOQ import processed', { importId, rows: parsed.rows.length, matched, unmatched });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error('BOQ import processing failed', { importId, error: message });
+
+      await databaseService.updateBOQImport(importId, {
+        status: 'error',
+        error_message: message,
+        matched_items: matched,
+        unmatched_items: unmatched,
+        import_data: importData()
+      });
+    }
+  }
+
+  /**
+   * Rows of a completed import for match review, with confidence and stored candidates
+   */
+  async getReviewRows(importId: string, filters: BOQReviewFilters = {}): Promise<BOQReviewResult> {
+    const loaded = await this.loadCompletedImport(importId);
+    if (loaded.error || !loaded.data) {
+      return { data: null, error: loaded.error };
+    }
+
+    const rows = (loaded.data.import_data?.rows || []).filter((row: BOQImportRow) => {
+      if (filters.status && row.status !== filters.status) return false;
+      if (filters.maxConfidence !== undefined && row.match && row.match.confidence > filters.maxConfidence) return false;
+      return true;
+    });
+
+    return { data: { import: loaded.data, rows }, error: null };
+  }
+
+  /**
+   * Point a row at another product. The row's wording is remembered as an alias
+   * (unless remember is false) so later imports match it without review.
+   */
+  async overrideRowMatch(importId: string, rowNumber: number, productId: string, remember = true): Promise<BOQOverrideResult> {
+    const loaded = await this.loadCompletedImport(importId);
+    if (loaded.error || !loaded.data) {
+      return { data: null, error: loaded.error };
+    }
+
+    const boqImport = loaded.data;
+    const rows: BOQImportRow[] = boqImport.import_data?.rows || [];
+    const index = rows.findIndex(row => row.row === rowNumber);
+    if (index === -1) {
+      return { data: null, error: { message: `Row ${rowNumber} is not in this import`, code: 'ROW_NOT_FOUND' } };
+    }
+
+    const productResult = await databaseService.getProductsByIds([productId]);
+    if (productResult.error) {
+      return { data: null, error: { message: productResult.error.message || 'Failed to load product', code: 'DATABASE_ERROR' } };
+    }
+
+    const product = productResult.data?.[0];
+    if (!product) {
+      return { data: null, error: { message: 'Product not found', code: 'PRODUCT_NOT_FOUND', details: { productIds: [productId] } } };
+    }
+
+    const row: BOQImportRow = { ...rows[index], status: 'matched', match: this.toMatch(product, 'manual', 1) };
+    const updatedRows = [...rows];
+    updatedRows[index] = row;
+
+    const matched = updatedRows.filter(entry => entry.status === 'matched').length;
+    const { error: updateError } = await databaseService.updateBOQImport(importId, {
+      matched_items: matched,
+      unmatched_items: updatedRows.length - matched,
+      import_data: { ...boqImport.import_data, rows: updatedRows }
+    });
+
+    if (updateError) {
+      return { data: null, error: { message: updateError.message || 'Failed to update BOQ import', code: 'DATABASE_ERROR' } };
+    }
+
+    let alias: string | null = null;
+    if (remember) {
+      alias = this.normalizeAlias(row.description);
+      const { error: aliasError } = await databaseService.upsertProductAlias(alias, productId);
+
+      // The override itself is saved; a failed alias only means the next import asks again
+      if (aliasError) {
+        Logger.warn('BOQ alias could not be saved', { importId, row: rowNumber, alias, error: aliasError.message });
+        alias = null;
+      }
+    }
+
+    Logger.info('BOQ row match overridden', { importId, row: rowNumber, productId, alias });
+
+    return { data: { row, alias }, error: null };
+  }
+
+  /**
+   * Build a priced draft quote from a completed import. Matched rows use their product
+   * unless the caller resolves them otherwise; every unmatched row must be resolved
+   * (another product or dropped). Prices are taken from the catalog at creation time.
+   */
+  async createQuoteFromImport(
+    importId: string,
+    owner: { userId: string; organisasiKode: string },
+    request: BOQQuoteRequest = {}
+  ): Promise<BOQQuoteResult> {
+    const loaded = await this.loadCompletedImport(importId);
+    if (loaded.error || !loaded.data) {
+      return { data: null, error: loaded.error };
+    }
+
+    const boqImport = loaded.data;
+
+    const rows: BOQImportRow[] = boqImport.import_data?.rows || [];
+    const rowNumbers = new Set(rows.map(row => row.row));
+    const resolutions = new Map((request.resolutions || []).map(resolution => [resolution.row, resolution]));
+
+    const unknownRows = [...resolutions.keys()].filter(row => !rowNumbers.has(row));
+    if (unknownRows.length > 0) {
+      return { data: null, error: { message: 'Resolutions refer to rows not in this import', code: 'UNKNOWN_ROWS', details: { rows: unknownRows } } };
+    }
+
+    const selected: Array<{ row: BOQImportRow; productId: string }> = [];
+    const droppedRows: number[] = [];
+    const unresolvedRows: number[] = [];
+
+    for (const row of rows) {
+      const resolution = resolutions.get(row.row);
+
+      if (resolution?.action === 'drop') {
+        droppedRows.push(row.row);
+      } else if (resolution?.action === 'product' && resolution.product_id) {
+        selected.push({ row, productId: resolution.product_id });
+      } else if (row.status === 'matched' && row.match) {
+        selected.push({ row, productId: row.match.productId });
+      } else {
+        unresolvedRows.push(row.row);
+      }
+    }
+
+    if (unresolvedRows.length > 0) {
+      return {
+        data: null,
+        error: {
+          message: 'Unmatched rows must be resolved with a product or dropped',
+          code: 'UNRESOLVED_ROWS',
+          details: { rows: unresolvedRows }
+        }
+      };
+    }
+    if (selected.length === 0) {
+      return { data: null, error: { message: 'No rows left to quote', code: 'EMPTY_QUOTE' } };
+    }
+
+    const productIds = [...new Set(selected.map(entry => entry.productId))];
+    const productResult = await databaseService.getProductsByIds(productIds);
+    if (productResult.error) {
+      return { data: null, error: { message: productResult.error.message || 'Failed to load products', code: 'DATABASE_ERROR' } };
+    }
+
+    const products = new Map<string, any>((productResult.data || []).map(product => [String(product.id), product]));
+    const missingProducts = productIds.filter(id => !products.has(id));
+    if (missingProducts.length > 0) {
+      return {
+        data: null,
+        error: { message: 'Some products are no longer available', code: 'PRODUCT_NOT_FOUND', details: { productIds: missingProducts } }
+      };
+    }
+
+    const items: CartItem[] = selected.map(({ row, productId }) => {
+      const product = products.get(productId);
+      return {
+        id: uuidv4(),
+        productId,
+        name: product.name,
+        category: product.category,
+        price: Number(product.price) || 0,
+        quantity: row.quantity,
+        notes: row.notes,
+        boqSource: `Row ${row.row}: ${row.description}`,
+        subtotal: 0,
+        total: 0
+      };
+    });
+
+    const taxRate = request.tax_rate ?? DEFAULT_TAX_RATE;
+    const calculation = financialCalculationService.priceCart(items, [], taxRate);
+
+    if (!calculation.isValid || calculation.errors.length > 0) {
+      return { data: null, error: { message: 'Quote calculation failed', code: 'CALCULATION_FAILED', details: calculation.errors } };
+    }
+
+    // Quotes live in Alvamitra, same as POST /api/quotes
+    const { data: created, error } = await databaseService.createQuoteAlvamitra({
+      quote_number: databaseService.generateQuoteNumberAlvamitra(),
+      id_pengguna: owner.userId,
+      organisasi_kode: owner.organisasiKode,
+      cart_data: { items: calculation.updatedCartData.items, laborItems: [] },
+      notes: request.notes || `Created from BOQ ${boqImport.original_filename}`,
+      tax_rate: taxRate
+    });
+
+    if (error || !created) {
+      return { data: null, error: { message: error?.message || 'Failed to create quote', code: 'DATABASE_ERROR' } };
+    }
+
+    const { data: quote, error: loadError } = await databaseService.getQuoteAlvamitra(String(created.masterId));
+    if (loadError || !quote) {
+      return { data: null, error: { message: loadError?.message || 'Failed to load created quote', code: 'DATABASE_ERROR' } };
+    }
+
+    Logger.info('Quote created from BOQ import', {
+      importId,
+      quoteId: quote.id,
+      rows: rows.length,
+      items: items.length,
+      dropped: droppedRows.length
+    });
+
+    return { data: { quote, droppedRows }, error: null };
+  }
+
+  /**
+   * SKU match first, then a learned alias; otherwise the best trigram name match above
+   * the threshold. Trigram candidates are returned for review either way.
+   */
+  private async matchRow(
+    row: ParsedBOQ['rows'][number],
+    productsBySku: Map<string, any>,
+    productsByAlias: Map<string, any>
+  ): Promise<{ match: BOQProductMatch | null; candidates: BOQProductMatch[] }> {
+    const bySku = row.sku ? productsBySku.get(row.sku.toUpperCase()) : null;
+    if (bySku) {
+      return { match: this.toMatch(bySku, 'sku', 1), candidates: [] };
+    }
+
+    const byAlias = productsByAlias.get(this.normalizeAlias(row.description));
+    if (byAlias) {
+      return { match: this.toMatch(byAlias, 'alias', 1), candidates: [] };
+    }
+
+    const { data, error } = await databaseService.fuzzyProductSearch(row.description, 0.3, BOQImportService.CANDIDATE_LIMIT);
+    if (error) {
+      throw new Error(error.message || 'Fuzzy product search failed');
+    }
+
+    const candidates = (data || []).map(product => this.toMatch(product, 'fuzzy', Number(product.similarity_score)));
+    const best = candidates[0];
+    const match = best && best.confidence >= BOQImportService.FUZZY_MATCH_THRESHOLD ? best : null;
+
+    return { match, candidates };
+  }
+
+  private async loadCompletedImport(importId: string): Promise<{ data: BOQImport | null; error: BOQServiceError | null }> {
+    const { data, error } = await databaseService.getBOQImport(importId);
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load BOQ import', code: 'DATABASE_ERROR' } };
+    }
+    if (!data) {
+      return { data: null, error: { message: 'BOQ import not found', code: 'NOT_FOUND' } };
+    }
+    if (data.status !== 'completed') {
+      return { data: null, error: { message: `BOQ import is ${data.status}, not completed`, code: 'IMPORT_NOT_COMPLETED' } };
+    }
+
+    return { data, error: null };
+  }
+
+  /**
+   * Alias key for supplier wording: lowercase, punctuation dropped, single spaces
+   */
+  private normalizeAlias(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private toMatch(product: any, matchType: BOQProductMatch['matchType'], confidence: number): BOQProductMatch {
+    return {
+      productId: product.id,
+      sku: product.sku || undefined,
+      name: product.name,
+      category: product.category,
+      price: Number(product.price) || 0,
+      matchType,
+      confidence: Number(confidence.toFixed(3))
+    };
+  }
+
+  private findHeader(worksheet: ExcelJS.Worksheet): { row: number; columns: ParsedBOQ['columns'] } | null {
+    const lastRow = Math.min(worksheet.rowCount, HEADER_SCAN_ROWS);
+
+    for (let rowNumber = 1; rowNumber <= lastRow; rowNumber++) {
+      const columns: ParsedBOQ['columns'] = {};
+
+      worksheet.getRow(rowNumber).eachCell((cell, colNumber) => {
+        const label = cell.text.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+        const column = (Object.keys(HEADER_ALIASES) as BOQColumn[])
+          .find(key => !columns[key] && HEADER_ALIASES[key].includes(label));
+        if (column) {
+          columns[column] = colNumber;
+        }
+      });
+
+      if (columns.description && columns.quantity) {
+        return { row: rowNumber, columns };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Numeric cell value; formula results and text such as "1.5" / "1,5" are accepted
+   */
+  private toNumber(cell: ExcelJS.Cell): number | null {
+    const value: any = cell.value;
+
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object' && typeof value.result === 'number') return value.result;
+
+    const text = cell.text.replace(/\s/g, '').replace(',', '.');
+    const number = parseFloat(text);
+    return Number.isFinite(number) ? number : null;
+  }
+}
+
+export const boqImportService = BOQImportService.getInstance();
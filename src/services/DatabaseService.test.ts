@@ -0,0 +1,145 @@
+// Tenant isolation: each organisation only sees its own quotes and customers
+
+import { databaseService } from '@/services/DatabaseService';
+import { db } from '@/config/database';
+import { poolAlvamitra } from '../middleware/database';
+import { runWithRequestContext } from '@/utils/requestContext';
+
+jest.mock('@/config/database', () => ({
+  db: {
+    query: jest.fn(),
+    execute: jest.fn()
+  }
+}));
+
+jest.mock('../middleware/database', () => ({
+  poolAlvamitra: { query: jest.fn(), getConnection: jest.fn() },
+  poolSmartjmp: { query: jest.fn(), getConnection: jest.fn() }
+}));
+
+const SESSION_ID = 'session-shared';
+const ORG_A = 'ORG-A';
+const ORG_B = 'ORG-B';
+
+// Postgres rows; the RLS policies on app.current_org are emulated from the organisationId argument
+const pgRows: Record<string, Array<{ id: string; session_id: string; organisation_id: string; [key: string]: any }>> = {
+  quotes: [
+    { id: 'quote-a', session_id: SESSION_ID, organisation_id: ORG_A, quote_number: 'Q-A' },
+    { id: 'quote-b', session_id: SESSION_ID, organisation_id: ORG_B, quote_number: 'Q-B' }
+  ],
+  customers: [
+    { id: 'customer-a', session_id: SESSION_ID, organisation_id: ORG_A, name: 'Customer A' },
+    { id: 'customer-b', session_id: SESSION_ID, organisation_id: ORG_B, name: 'Customer B' }
+  ]
+};
+
+// Alvamitra estimasi master rows
+const estimasiRows = [
+  { Id_Estimasi_Master: 101, Nomor_Estimasi: 'EST-A', Id_Pengguna: 1, Organisasi_Kode: ORG_A, Status: 'Aktif' },
+  { Id_Estimasi_Master: 202, Nomor_Estimasi: 'EST-B', Id_Pengguna: 2, Organisasi_Kode: ORG_B, Status: 'Aktif' }
+];
+
+const dbQuery = db.query as jest.Mock;
+const dbExecute = db.execute as jest.Mock;
+const mysqlQuery = poolAlvamitra.query as jest.Mock;
+
+function asOrganisation<T>(organisasiKode: string, callback: () => Promise<T>): Promise<T> {
+  return runWithRequestContext({ userId: `user-${organisasiKode}`, sessionId: SESSION_ID, organisasiKode }, callback);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+
+  dbQuery.mockImplementation(async (sessionId: string, queryText: string, values: any[] = [], _context?: string, organisationId?: string) => {
+    const table = /FROM quotes/.test(queryText) ? 'quotes' : 'customers';
+    const rows = pgRows[table].filter(row =>
+      row.id === values[0] &&
+      row.session_id === sessionId &&
+      (!organisationId || row.organisation_id === organisationId)
+    );
+    return { data: rows, error: null };
+  });
+
+  // alvamitra_quote_state: no rows, every estimasi is at version 1
+  dbExecute.mockResolvedValue({ data: [], error: null });
+
+  mysqlQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes('tb_store_estimasi_detail')) {
+      return [[]];
+    }
+
+    // tenantFilter appends Organisasi_Kode as the last parameter
+    const organisasiKode = /Organisasi_Kode = \?/.test(sql) ? params[params.length - 1] : null;
+    const rows = estimasiRows.filter(row =>
+      (!organisasiKode || row.Organisasi_Kode === organisasiKode) &&
+      (!/Id_Estimasi_Master = \?/.test(sql) || String(row.Id_Estimasi_Master) === String(params[0]))
+    );
+
+    return sql.includes('COUNT(*)') ? [[{ total: rows.length }]] : [rows];
+  });
+});
+
+describe('DatabaseService tenant isolation', () => {
+  describe('PostgreSQL (app.current_org)', () => {
+    it('passes the organisation of the request to getQuote and getCustomer', async () => {
+      await asOrganisation(ORG_A, () => databaseService.getQuote('quote-a'));
+      await asOrganisation(ORG_B, () => databaseService.getCustomer('customer-b'));
+
+      expect(dbQuery).toHaveBeenNthCalledWith(1, SESSION_ID, expect.stringContaining('organisation_id = $3'),
+        ['quote-a', SESSION_ID, ORG_A], 'get_quote', ORG_A);
+      expect(dbQuery).toHaveBeenNthCalledWith(2, SESSION_ID, expect.stringContaining('organisation_id = $3'),
+        ['customer-b', SESSION_ID, ORG_B], 'get_customer', ORG_B);
+    });
+
+    it('returns quotes and customers of the own organisation', async () => {
+      const quote = await asOrganisation(ORG_A, () => databaseService.getQuote('quote-a'));
+      const customer = await asOrganisation(ORG_B, () => databaseService.getCustomer('customer-b'));
+
+      expect(quote.data?.id).toBe('quote-a');
+      expect(customer.data?.id).toBe('customer-b');
+    });
+
+    it('does not find quotes or customers of another organisation', async () => {
+      const quote = await asOrganisation(ORG_A, () => databaseService.getQuote('quote-b'));
+      const customer = await asOrganisation(ORG_B, () => databaseService.getCustomer('customer-a'));
+
+      expect(quote).toEqual({ data: null, error: null });
+      expect(customer).toEqual({ data: null, error: null });
+    });
+  });
+
+  describe('Alvamitra (Organisasi_Kode)', () => {
+    it('filters getQuoteAlvamitra and getQuotesAlvamitra on the organisation of the request', async () => {
+      await asOrganisation(ORG_A, () => databaseService.getQuoteAlvamitra('101'));
+
+      const [quoteSql, quoteParams] = mysqlQuery.mock.calls[0];
+      expect(quoteSql).toContain('m.Organisasi_Kode = ?');
+      expect(quoteParams).toEqual(['101', ORG_A]);
+
+      mysqlQuery.mockClear();
+      await asOrganisation(ORG_B, () => databaseService.getQuotesAlvamitra());
+
+      const masterCalls = mysqlQuery.mock.calls.filter(([sql]) => sql.includes('tb_store_estimasi_master'));
+      expect(masterCalls).toHaveLength(2);
+      masterCalls.forEach(([sql, params]) => {
+        expect(sql).toContain('m.Organisasi_Kode = ?');
+        expect(params).toEqual([ORG_B]);
+      });
+    });
+
+    it('lists only quotes of the own organisation', async () => {
+      const { data } = await asOrganisation(ORG_B, () => databaseService.getQuotesAlvamitra());
+
+      expect(data?.total).toBe(1);
+      expect(data?.quotes.map(quote => quote.id)).toEqual(['202']);
+    });
+
+    it('does not find a quote of another organisation', async () => {
+      const own = await asOrganisation(ORG_A, () => databaseService.getQuoteAlvamitra('101'));
+      const other = await asOrganisation(ORG_A, () => databaseService.getQuoteAlvamitra('202'));
+
+      expect(own.data?.id).toBe('101');
+      expect(other).toEqual({ data: null, error: null });
+    });
+  });
+});
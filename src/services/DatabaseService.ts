@@ -5,12 +5,17 @@ import { db } from '@/config/database';
 import { Logger } from '@/utils/logger';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { PoolConnection } from 'mysql2/promise';
 import { poolAlvamitra, poolSmartjmp } from '../middleware/database';
+import { financialCalculationService } from './FinancialCalculationService';
+import { getRequestContext } from '@/utils/requestContext';
+import { CartItem, LaborItem } from '@/types/api';
 
 // Type definitions
 export interface Customer {
   id?: string;
   session_id?: string;
+  organisation_id?: string;
   name: string;
   email?: string;
   phone?: string;
@@ -18,6 +23,7 @@ export interface Customer {
   address?: Record<string, any>;
   created_at?: string;
   updated_at?: string;
+  version?: number;
   last_quote_date?: string;
   total_quotes?: number;
 }
@@ -50,6 +56,7 @@ export interface Product {
 export interface Quote {
   id?: string;
   session_id?: string;
+  organisation_id?: string;
   quote_number: string;
   customer_id?: string;
   organisasi_kode?: string;
@@ -63,21 +70,158 @@ export interface Quote {
     totalDiscount?: any;
   };
   customer_snapshot: Record<string, any>;
-  status: 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+  status: 'draft' | 'pending_approval' | 'sent' | 'accepted' | 'rejected' | 'expired';
   tax_rate: number;
   source: 'fresh' | 'boq' | 'template';
   template_id?: string;
   boq_import_id?: string;
   created_at?: string;
   updated_at?: string;
+  version?: number;
   valid_until?: string;
   notes?: string;
   metadata?: Record<string, any>;
 }
 
+export interface QuoteRevision {
+  id: string;
+  quote_id: string;
+  revision_number: number;
+  cart_data: Quote['cart_data'];
+  status: Quote['status'];
+  tax_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  final_total: number;
+  changed_fields: string[];
+  changed_by?: string;
+  created_at: string;
+}
+
+export interface QuoteApproval {
+  id: string;
+  quote_id: string;
+  quote_store: 'postgres' | 'alvamitra';
+  quote_number?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requested_by?: string;
+  requested_role?: string;
+  discount_percent: number;
+  margin_percent: number | null;
+  final_total: number;
+  reasons: string[];
+  decided_by?: string;
+  decision_comment?: string;
+  decided_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuoteValidityExtension {
+  id: string;
+  quote_id: string;
+  previous_valid_until?: string;
+  new_valid_until: string;
+  previous_status: Quote['status'];
+  note: string;
+  extended_by?: string;
+  created_at: string;
+}
+
+export interface QuoteShareLink {
+  id: string;
+  quote_id: string;
+  expires_at: string;
+  revoked_at?: string;
+  view_count: number;
+  last_viewed_at?: string;
+  created_by?: string;
+  organisation_id?: string;
+  created_at: string;
+}
+
+export interface QuoteCustomerResponse {
+  id: string;
+  quote_id: string;
+  share_link_id?: string;
+  decision: 'accepted' | 'rejected';
+  customer_name: string;
+  comment?: string;
+  responded_at: string;
+}
+
+export interface ExpiredQuote {
+  id: string;
+  quote_number: string;
+  session_id?: string;
+  organisation_id?: string;
+  valid_until: string;
+  previous_status: Quote['status'];
+}
+
+export interface QuoteApprovalFilters {
+  status?: QuoteApproval['status'];
+  quote_store?: QuoteApproval['quote_store'];
+  quote_id?: string;
+}
+
+// Tingkat harga produk di tb_store_produk
+export const PRICE_TIERS = ['Harga_Retail', 'Harga_Anggota', 'Harga_Anggota_Spesial'] as const;
+
+// Masa berlaku estimasi Alvamitra sejak Waktu_Simpan_Data (tabel estimasi tidak menyimpan valid_until)
+export const ALVAMITRA_QUOTE_VALID_DAYS = 30;
+
+// Status estimasi yang masih terbuka (bisa kedaluwarsa, diperpanjang, dikirim)
+const ALVAMITRA_OPEN_QUOTE_STATUSES = ['draft', 'pending_approval', 'sent'];
+
+// Versi & masa berlaku estimasi Alvamitra (Postgres alvamitra_quote_state); tanpa baris = versi 1,
+// valid_until NULL = Waktu_Simpan_Data + ALVAMITRA_QUOTE_VALID_DAYS
+interface AlvamitraQuoteState {
+  quote_id: string;
+  version: number;
+  valid_until?: string | null;
+  expired_from?: string | null;
+  updated_at?: string;
+}
+
+// Perubahan estimasi Alvamitra di Postgres: naikkan versi (dengan expected version $2 hanya selama
+// versi belum berubah), valid_until $5 (NULL = tetap), expired_from $7 saat status berubah ($6)
+// dan simpan revisi $4. Revisi baseline (keadaan sebelum perubahan pertama) hanya ditulis kalau
+// quote belum punya revisi. Parameter: lihat quoteChangeValues; CTE tambahan mulai dari $8.
+const ALVAMITRA_QUOTE_CHANGE_CTE = `changed AS (
+    INSERT INTO alvamitra_quote_state AS st (quote_id, version, organisation_id, valid_until, expired_from)
+    SELECT $1::text, 2, $3::text, $5::timestamptz, $7::text
+    WHERE $2::int IS NULL OR $2::int = 1
+       OR EXISTS (SELECT 1 FROM alvamitra_quote_state WHERE quote_id = $1::text)
+    ON CONFLICT (quote_id) DO UPDATE
+    SET version = st.version + 1,
+        valid_until = COALESCE(EXCLUDED.valid_until, st.valid_until),
+        expired_from = CASE WHEN $6::boolean THEN EXCLUDED.expired_from ELSE st.expired_from END,
+        updated_at = now()
+    WHERE $2::int IS NULL OR st.version = $2::int
+    RETURNING st.quote_id, st.version, st.valid_until, st.expired_from, st.updated_at
+  ), revisions AS (
+    INSERT INTO quote_revisions (
+      quote_id, cart_data, status, tax_rate, subtotal, tax_amount, final_total,
+      changed_fields, changed_by, organisation_id, created_at
+    )
+    SELECT c.quote_id, r.cart_data, r.status, r.tax_rate, r.subtotal, r.tax_amount, r.final_total,
+      r.changed_fields, r.changed_by, $3::text, COALESCE(r.created_at, now())
+    FROM changed c
+    CROSS JOIN jsonb_to_recordset($4::jsonb) AS r(
+      ord int, baseline boolean, cart_data jsonb, status text, tax_rate numeric, subtotal numeric,
+      tax_amount numeric, final_total numeric, changed_fields text[], changed_by text, created_at timestamptz
+    )
+    WHERE NOT r.baseline OR NOT EXISTS (SELECT 1 FROM quote_revisions x WHERE x.quote_id = c.quote_id)
+    ORDER BY r.ord
+  )`;
+
+export type PriceTier = typeof PRICE_TIERS[number];
+
 export interface Template {
   id?: string;
   session_id?: string;
+  organisation_id?: string;
   name: string;
   description?: string;
   category: string;
@@ -95,9 +239,23 @@ export interface Template {
   last_used_at?: string;
 }
 
+export interface TemplateListFilters {
+  tags?: string[];      // templates carrying all of these tags
+  search?: string;      // full-text search on name, description and tags
+  mine?: boolean;       // only templates owned by the current user / session
+}
+
+export interface TemplateGalleryEntry extends Template {
+  popularity_level: 'popular' | 'moderate' | 'new';
+  item_count: number;
+  labor_item_count: number;
+  preview_items: any[];
+}
+
 export interface BOQImport {
   id?: string;
   session_id: string;
+  organisation_id?: string;
   filename: string;
   original_filename: string;
   file_size?: number;
@@ -113,6 +271,42 @@ export interface BOQImport {
   processed_at?: string;
 }
 
+export interface ExportJob {
+  id?: string;
+  job_type: 'quote' | 'quote_list' | 'order_list';
+  format: 'pdf' | 'excel';
+  params: Record<string, any>;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  result?: Record<string, any> | null;
+  error_message?: string | null;
+  user_id?: string | null;
+  organisation_id?: string | null;
+  organisation_id_smartjmp?: string | null;
+  run_after?: string;
+  created_at?: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+  updated_at?: string;
+}
+
+export interface ExportFileRecord {
+  id?: string;
+  filename: string;
+  format: 'pdf' | 'excel';
+  mime_type: string;
+  file_size: number;
+  download_count: number;
+  max_downloads: number;
+  user_id?: string | null;
+  organisation_id?: string | null;
+  expires_at: string;
+  last_downloaded_at?: string | null;
+  created_at?: string;
+}
+
 export interface SearchResult {
   entity_type: 'product' | 'customer' | 'quote' | 'template';
   entity_id: string;
@@ -143,8 +337,15 @@ export interface DatabaseStats {
   };
 }
 
+export interface OrderTotals {
+  subtotal: number;
+  promoAmount: number;
+  taxAmount: number;
+  finalTotal: number;
+}
+
 export class DatabaseService {
-  private sessionId: string | null = null;
+  private currentSessionId: string | null = null;
 
   constructor() {
     // No client initialization needed with pure PostgreSQL
@@ -154,7 +355,7 @@ export class DatabaseService {
    * Set session context for all subsequent operations
    */
   setSession(sessionId: string): void {
-    this.sessionId = sessionId;
+    this.currentSessionId = sessionId;
     Logger.debug('Database session set', { sessionId: sessionId.substring(0, 8) + '...' });
   }
 
@@ -162,24 +363,58 @@ export class DatabaseService {
    * Clear session context
    */
   clearSession(): void {
-    this.sessionId = null;
+    this.currentSessionId = null;
     Logger.debug('Database session cleared');
   }
 
   /**
-   * Execute query with session context
+   * Session of the current request, falling back to the one set via setSession;
+   * work started during a request (e.g. BOQ matching) keeps its request's session
+   */
+  private get sessionId(): string | null {
+    return getRequestContext()?.sessionId || this.currentSessionId;
+  }
+
+  /**
+   * Organisation (tenant) of the current request; null outside a request, e.g. background jobs
+   */
+  private get organisasiKode(): string | null {
+    return getRequestContext()?.organisasiKode || null;
+  }
+
+  /**
+   * SmartJMP organisation of the current request; null when the user's organisation has none
+   */
+  private get organisasiKodeSmartjmp(): string | null {
+    return getRequestContext()?.organisasiKodeSmartjmp || null;
+  }
+
+  /**
+   * Filter Organisasi_Kode untuk query MySQL: push param dan return kondisi AND,
+   * kosong jika tidak ada tenant (internal/background)
+   */
+  private tenantFilter(column: string, params: any[]): string {
+    if (!this.organisasiKode) return '';
+    params.push(this.organisasiKode);
+    return ` AND ${column} = ?`;
+  }
+
+  /**
+   * Execute query with session context; app.current_org is set for the organisation RLS policies
    */
   private async executeWithSession<T>(
     queryText: string,
     values?: any[],
     context?: string
   ): Promise<{ data: T[] | null; error: any }> {
+    const organisationId = this.organisasiKode || undefined;
+
     if (!this.sessionId) {
       Logger.warn('Executing query without session context', { context });
-      return db.execute<T>(queryText, values, context);
+      return db.execute<T>(queryText, values, context, organisationId);
     }
 
-    return db.query<T>(this.sessionId, queryText, values, context);
+    return db.query<T>(this.sessionId, queryText, values, context, organisationId);
   }
 
   /**
@@ -209,6 +444,24 @@ export class DatabaseService {
           await this.runMigration('001_initial_schema');
           await this.runMigration('002_security_policies');
           await this.runMigration('003_search_optimization');
+          await this.runMigration('004_order_status_history');
+          await this.runMigration('005_order_quote_links');
+          await this.runMigration('006_user_roles');
+          await this.runMigration('007_organisation_isolation');
+          await this.runMigration('008_export_jobs');
+          await this.runMigration('009_export_files');
+          await this.runMigration('010_boq_product_aliases');
+          await this.runMigration('011_template_gallery');
+          await this.runMigration('012_quote_revisions');
+          await this.runMigration('013_quote_approvals');
+          await this.runMigration('014_quote_validity_extensions');
+          await this.runMigration('015_quote_share_links');
+          await this.runMigration('016_quote_versions');
+          await this.runMigration('017_customer_versions');
+          await this.runMigration('018_alvamitra_quote_state');
+          await this.runMigration('019_alvamitra_quote_validity');
+          await this.runMigration('020_alvamitra_quote_share_links');
+          await this.runMigration('021_organisation_smartjmp');
         } catch (migrationError) {
           Logger.warn('Migration execution failed, database may need manual setup', {
             error: migrationError instanceof Error ? migrationError.message : String(migrationError)
@@ -292,9 +545,9 @@ export class DatabaseService {
   // ====================================
 
   /**
-   * Create or update customer
+   * Create or update customer; updates with expectedVersion only apply while it is still at that version
    */
-  async upsertCustomer(customer: Customer): Promise<{ data: Customer | null; error: any }> {
+  async upsertCustomer(customer: Customer, expectedVersion: number | null = null): Promise<{ data: Customer | null; error: any }> {
     const customerData = {
       ...customer,
       session_id: this.sessionId,
@@ -306,7 +559,8 @@ export class DatabaseService {
       const { data, error } = await this.executeWithSession<Customer>(
         `UPDATE customers 
         SET name = $2, email = $3, phone = $4, company = $5, address = $6, updated_at = $7
-        WHERE id = $1 AND session_id = $8
+        WHERE id = $1 AND session_id = $8 AND ($9::text IS NULL OR organisation_id = $9)
+          AND ($10::int IS NULL OR version = $10)
         RETURNING *`,
         [
           customer.id,
@@ -316,7 +570,9 @@ export class DatabaseService {
           customerData.company || '',        // safe default
           JSON.stringify(customerData.address),
           customerData.updated_at,
-          this.sessionId
+          this.sessionId,
+          this.organisasiKode,
+          expectedVersion
         ],
         'upsert_customer_update'
       );
@@ -325,8 +581,8 @@ export class DatabaseService {
       // Create new customer
       const { data, error } = await this.executeWithSession<Customer>(
         `INSERT INTO customers (
-          session_id, name, email, phone, company, address, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          session_id, name, email, phone, company, address, created_at, updated_at, organisation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *`,
         [
           this.sessionId,
@@ -336,7 +592,8 @@ export class DatabaseService {
           customerData.company || '',        // safe default
           JSON.stringify(customerData.address),
           new Date().toISOString(),          // created_at
-          customerData.updated_at            // updated_at
+          customerData.updated_at,           // updated_at
+          this.organisasiKode
         ],
         'upsert_customer_create'
       );
@@ -350,8 +607,8 @@ export class DatabaseService {
    */
   async getCustomer(customerId: string): Promise<{ data: Customer | null; error: any }> {
     const { data, error } = await this.executeWithSession<Customer>(
-      'SELECT * FROM customers WHERE id = $1 AND session_id = $2',
-      [customerId, this.sessionId],
+      'SELECT * FROM customers WHERE id = $1 AND session_id = $2 AND ($3::text IS NULL OR organisation_id = $3)',
+      [customerId, this.sessionId, this.organisasiKode],
       'get_customer'
     );
 
@@ -375,11 +632,13 @@ export class DatabaseService {
           Provinsi AS state,
           Kode_Pos AS postal_code,
           Waktu_Terakhir_Login AS last_quote_date,
+          Organisasi_Kode,
           0 AS total_quotes
         FROM tb_data_pengguna
         WHERE Status = 'Aktif'
       `;
       const params: any[] = [];
+      sql += this.tenantFilter('Organisasi_Kode', params);
 
       if (query) {
         sql += `
@@ -483,8 +742,23 @@ export class DatabaseService {
   /**
    * Get all products with optional filtering
    */
-  async getProducts(category?: string, search?: string, inStockOnly?: boolean, limit = 10, offset = 0) {
+  async getProducts(
+    category?: string,
+    search?: string,
+    inStockOnly?: boolean,
+    limit = 10,
+    offset = 0
+  ) {
     try {
+      // Tanpa organisasi SmartJMP tidak ada stok yang boleh ditampilkan
+      const organisasiKodeSmartjmp = this.organisasiKodeSmartjmp;
+      if (!organisasiKodeSmartjmp) {
+        return {
+          data: null,
+          error: Object.assign(new Error('Organisation has no SmartJMP organisation'), { code: 'SMARTJMP_ORGANISATION_MISSING' })
+        };
+      }
+
       console.log('==================1==================');
       let sql = `
         SELECT Id_Produk, Nama_Produk, SKU, Deskripsi_Produk, Foto, Foto_PNG,
@@ -525,9 +799,9 @@ export class DatabaseService {
           `SELECT SKU, Id_Item, Nama_Item, Jumlah, Organisasi_Kode 
           FROM tb_v2_inventory_item 
           WHERE Status = 'Aktif' 
-            AND Organisasi_Kode = '20190815113219K54579' 
+            AND Organisasi_Kode = ? 
             AND SKU IN (?)`,
-          [skus]
+          [organisasiKodeSmartjmp, skus]
         );
 
         inventoryMap = (rowsItem as any[]).reduce((acc, row) => {
@@ -554,8 +828,9 @@ export class DatabaseService {
             JOIN tb_v2_inventory_gudang g ON s.Id_Gudang = g.Id_Gudang
             JOIN tb_v2_inventory_item i ON s.Id_Item = i.Id_Item
             WHERE s.Id_Item IN (${placeholders})
+              AND i.Organisasi_Kode = ?
             GROUP BY s.Id_Item, g.Id_Gudang`,
-            itemIds
+            [...itemIds, organisasiKodeSmartjmp]
           );
 
 
@@ -720,6 +995,39 @@ export class DatabaseService {
 
   
 
+  /**
+   * Harga produk aktif saat ini per Id_Produk untuk satu tingkat harga (re-price quote)
+   */
+  async getProductPricesAlvamitra(
+    productIds: string[],
+    tier: PriceTier = 'Harga_Retail'
+  ): Promise<{ data: Record<string, { name: string; price: number }> | null; error: any }> {
+    if (productIds.length === 0) {
+      return { data: {}, error: null };
+    }
+
+    try {
+      // Nama kolom dari whitelist PRICE_TIERS, bukan input bebas
+      const column = PRICE_TIERS.includes(tier) ? tier : 'Harga_Retail';
+      const [rows] = await poolAlvamitra.query(
+        `SELECT Id_Produk, Nama_Produk, ${column} AS Harga
+        FROM tb_store_produk
+        WHERE Status = 'Aktif' AND Id_Produk IN (?)`,
+        [productIds]
+      );
+
+      const prices: Record<string, { name: string; price: number }> = {};
+      (rows as any[]).forEach(row => {
+        prices[String(row.Id_Produk)] = { name: row.Nama_Produk, price: Number(row.Harga) || 0 };
+      });
+
+      return { data: prices, error: null };
+    } catch (error) {
+      Logger.error('Error fetching product prices from MySQL', error);
+      return { data: null, error };
+    }
+  }
+
   /**
    * Advanced product search with fuzzy matching
    */
@@ -802,6 +1110,80 @@ export class DatabaseService {
     return { data: data || [], error };
   }
 
+  /**
+   * Catalog products by SKU (case-insensitive), e.g. for BOQ row matching
+   */
+  async getProductsBySku(skus: string[]): Promise<{ data: any[] | null; error: any }> {
+    if (skus.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await this.executeWithSession(
+      `SELECT id, sku, name, category, brand, model, price, in_stock
+       FROM products
+       WHERE is_active = true AND upper(sku) = ANY($1::text[])`,
+      [skus.map(sku => sku.trim().toUpperCase())],
+      'get_products_by_sku'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Active catalog products by ID
+   */
+  async getProductsByIds(productIds: string[]): Promise<{ data: any[] | null; error: any }> {
+    if (productIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await this.executeWithSession(
+      `SELECT id, sku, name, category, brand, model, price, in_stock
+       FROM products
+       WHERE is_active = true AND id = ANY($1::uuid[])`,
+      [productIds],
+      'get_products_by_ids'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Purchase cost per product (products without a cost are left out)
+   */
+  async getProductCosts(productIds: string[]): Promise<{ data: Array<{ id: string; cost: number }> | null; error: any }> {
+    if (productIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await this.executeWithSession<{ id: string; cost: number }>(
+      `SELECT id, cost
+       FROM products
+       WHERE id = ANY($1::uuid[]) AND cost IS NOT NULL`,
+      [productIds],
+      'get_product_costs'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Trigram (pg_trgm) product search with typo tolerance, best match first
+   */
+  async fuzzyProductSearch(
+    searchQuery: string,
+    minSimilarity = 0.3,
+    limit = 5
+  ): Promise<{ data: any[] | null; error: any }> {
+    const { data, error } = await this.executeWithSession(
+      'SELECT * FROM fuzzy_product_search($1, $2, $3)',
+      [searchQuery, minSimilarity, limit],
+      'fuzzy_product_search'
+    );
+
+    return { data: data || [], error };
+  }
+
   // ====================================
   // QUOTE OPERATIONS
   // ====================================
@@ -848,6 +1230,7 @@ export class DatabaseService {
       cart_data: any; // items & laborItems
       notes?: string;
       tax_rate?: number;
+      valid_until?: string; // default: ALVAMITRA_QUOTE_VALID_DAYS sejak Waktu_Simpan_Data
     }
   ): Promise<{ data: any | null; error: any }> {
     const connection = await poolAlvamitra.getConnection();
@@ -885,29 +1268,21 @@ export class DatabaseService {
       );
       const subId = (subResult as any).insertId;
 
-      // 3️⃣ Insert Detail per item cart jika ada
+      // 3️⃣ Insert Detail item & jasa
       const items = quote.cart_data?.items || [];
-      if (items.length) {
-        const insertDetailPromises = items.map((item: any) => {
-          return connection.query(
-            `INSERT INTO tb_store_estimasi_detail
-              (Id_Estimasi_Master, Id_Estimasi_Sub, Id_Produk, Qty, Array_Object_Item_Atribut_Varian, Tipe_Produk, Nama_Produk, Deskripsi_Produk, Harga_Produk, Harga_Produk_Setelah_Diskon)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              masterId,
-              subId,
-              item.productId,
-              item.quantity,
-              JSON.stringify(item.specs || {}),
-              item.tipeProduk || 'Barang',
-              item.name,
-              item.notes || '',
-              item.price,
-              item.total
-            ]
-          );
-        });
-        await Promise.all(insertDetailPromises);
+      await this.insertEstimasiDetails(connection, masterId, subId, quote.cart_data);
+
+      // 4️⃣ Masa berlaku selain default disimpan di Postgres (versi tetap 1)
+      if (quote.valid_until) {
+        const { error: stateError } = await db.execute(
+          `INSERT INTO alvamitra_quote_state (quote_id, version, valid_until, organisation_id)
+          VALUES ($1, 1, $2, $3)`,
+          [String(masterId), quote.valid_until, quote.organisasi_kode],
+          'create_alvamitra_quote_state'
+        );
+        if (stateError) {
+          throw stateError;
+        }
       }
 
       // Commit transaksi
@@ -932,208 +1307,2058 @@ export class DatabaseService {
     }
   }
 
-  async createOrderAlvamitra(
-    order: {
-      quote_number: string;
-      id_pengguna: string;
-      organisasi_kode: string;
-      nomor_whatsapp?: string;
-      cart_data: any; // items & laborItems
-      notes?: string;
-      tax_rate?: number;
-    }
-  ): Promise<{ data: any | null; error: any }> {
-    const connection = await poolAlvamitra.getConnection();
-    try {
-      console.log('====================================');
-      console.log('ORDER OPERATIONS');
-      console.log('====================================');
-
-      await connection.beginTransaction();
-      const now = new Date();
-
-      // 1️⃣ Insert ke MASTER
-      const [masterResult] = await connection.query(
-        `INSERT INTO tb_store_transaksi_master
-          (Nomor_Order, Id_Pengguna, Organisasi_Kode, Id_Pengguna_SMARTJMP, Organisasi_Kode_SMARTJMP,
-          Id_Account, Id_Call, Id_Pembayaran, Id_Kupon, Status_Order, Sub_Status_Order,
-          Tanggal_Order, PPN, Id_Kode_Promo, Redeem_Order, Sub_Total_Pembelian,
-          PPN_Total_Pembelian, Promo_Total_Pembelian, Harga_Total_Pembelian,
-          Waktu_Simpan_Data, Status)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  /**
+   * Insert detail estimasi: item cart per baris, jasa (labor) sebagai Tipe_Produk 'Jasa'
+   */
+  private async insertEstimasiDetails(
+    connection: PoolConnection,
+    masterId: number | string,
+    subId: number | string,
+    cart: { items?: any[]; laborItems?: any[] }
+  ): Promise<void> {
+    const items = cart?.items || [];
+    if (items.length) {
+      await Promise.all(items.map((item: any) => connection.query(
+        `INSERT INTO tb_store_estimasi_detail
+          (Id_Estimasi_Master, Id_Estimasi_Sub, Id_Produk, Qty, Array_Object_Item_Atribut_Varian, Tipe_Produk, Nama_Produk, Deskripsi_Produk, Harga_Produk, Harga_Produk_Setelah_Diskon)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
-          order.quote_number,                 // Nomor_Order
-          order.id_pengguna,                  // Id_Pengguna
-          order.organisasi_kode,              // Organisasi_Kode
-          0,                                  // Id_Pengguna_SMARTJMP (default 0)
-          '',                                 // Organisasi_Kode_SMARTJMP (default kosong)
-          null,                               // Id_Account
-          null,                               // Id_Call
-          0,                                  // Id_Pembayaran (default 0)
-          null,                               // Id_Kupon
-          'Draft',                            // Status_Order
-          'Pending',                          // Sub_Status_Order
-          now,                                // Tanggal_Order
-          String(order.tax_rate || 0),        // PPN (text field!)
-          0,                                  // Id_Kode_Promo
-          0,                               // Redeem_Order
-          '0',                                // Sub_Total_Pembelian
-          '0',                                // PPN_Total_Pembelian
-          '0',                                // Promo_Total_Pembelian
-          '0',                                // Harga_Total_Pembelian
-          now,                                // Waktu_Simpan_Data
-          'Aktif'                             // Status
+          masterId,
+          subId,
+          item.productId,
+          item.quantity,
+          JSON.stringify(item.specs || {}),
+          item.tipeProduk || 'Barang',
+          item.name,
+          item.notes || '',
+          item.price,
+          item.total
         ]
-      );
-      const masterId = (masterResult as any).insertId;
+      )));
+    }
 
-      // 2️⃣ Insert ke SUB
-      const [subResult] = await connection.query(
-        `INSERT INTO tb_store_transaksi_sub
-          (Id_Transaksi_Master, Nomor_Order_Vendor, Id_Vendor, Id_Pengguna,
-          Id_Pengiriman, Tanggal_Pengiriman, Id_Kupon_Vendor, Waktu_Simpan_Data, Status)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    const laborItems = cart?.laborItems || [];
+    if (laborItems.length) {
+      await Promise.all(laborItems.map((labor: any) => connection.query(
+        `INSERT INTO tb_store_estimasi_detail
+          (Id_Estimasi_Master, Id_Estimasi_Sub, Id_Produk, Qty, Array_Object_Item_Atribut_Varian, Tipe_Produk, Nama_Produk, Deskripsi_Produk, Harga_Produk, Harga_Produk_Setelah_Diskon)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           masterId,
-          '',           // Nomor_Order_Vendor
-          '',           // Id_Vendor
-          order.id_pengguna,
-          0,            // Id_Pengiriman default
-          null,         // Tanggal_Pengiriman
-          null,         // Id_Kupon_Vendor
-          now,
-          'Draft'
+          subId,
+          0,
+          labor.quantity,
+          JSON.stringify({
+            type: labor.type,
+            rateType: labor.rateType,
+            unit: labor.unit,
+            category: labor.category
+          }),
+          'Jasa',
+          labor.name,
+          labor.description || '',
+          labor.rate,
+          labor.total
         ]
+      )));
+    }
+  }
+
+  /**
+   * Get single quote (master + sub + detail items/jasa) dari Alvamitra
+   */
+  async getQuoteAlvamitra(quoteId: string): Promise<{ data: any | null; error: any }> {
+    try {
+      const params: any[] = [quoteId];
+      const [rows] = await poolAlvamitra.query(
+        `SELECT m.*, s.Id_Estimasi_Sub, s.Status AS Status_Estimasi
+        FROM tb_store_estimasi_master m
+        LEFT JOIN tb_store_estimasi_sub s ON s.Id_Estimasi_Master = m.Id_Estimasi_Master
+        WHERE m.Id_Estimasi_Master = ? AND m.Status = 'Aktif'${this.tenantFilter('m.Organisasi_Kode', params)}
+        LIMIT 1`,
+        params
       );
-      const subId = (subResult as any).insertId;
 
-      // 3️⃣ Insert DETAIL (items)
-      const items = order.cart_data?.items || [];
-      if (items.length) {
-        const insertDetailPromises = items.map((item: any) => {
-          return connection.query(
-            `INSERT INTO tb_store_transaksi_detail
-              (Id_Transaksi_Master, Id_Transaksi_Sub, Induk_Id_Transaksi_Detail,
-              Id_Produk, Qty, Array_Object_Item_Atribut_Varian,
-              Tipe_Produk, Nama_Produk, Deskripsi_Produk,
-              Harga_Produk, Harga_Produk_Setelah_Diskon,
-              Format_Garansi, Lama_Garansi, Poin_Yang_Didapatkan)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              masterId,
-              subId,
-              null,                               // Induk_Id_Transaksi_Detail
-              item.productId,
-              item.quantity,
-              JSON.stringify(item.specs || {}),
-              item.tipeProduk || 'Barang',
-              item.name,
-              item.notes || '',
-              item.price,
-              item.total,
-              null,                               // Format_Garansi
-              null,                               // Lama_Garansi
-              0                                   // Poin_Yang_Didapatkan default
-            ]
-          );
-        });
-        await Promise.all(insertDetailPromises);
+      const row = (rows as any[])[0];
+      if (!row) {
+        return { data: null, error: null };
       }
 
-      // ✅ Commit transaksi
-      await connection.commit();
-
-      console.log('====================================');
-      console.log('END OPERATIONS');
-      console.log('====================================');
+      const [details] = await poolAlvamitra.query(
+        `SELECT * FROM tb_store_estimasi_detail
+        WHERE Id_Estimasi_Master = ?
+        ORDER BY Id_Estimasi_Detail ASC`,
+        [quoteId]
+      );
 
-      return { data: { masterId, subId, items }, error: null };
+      const quote = this.mapQuoteRow(row, details as any[]);
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([quote.id]);
+      if (stateError) {
+        return { data: null, error: stateError };
+      }
 
-    } catch (err) {
-      await connection.rollback();
-      console.error("❌ Database error createOrderAlvamitra:", err);
-      return { data: null, error: err };
-    } finally {
-      connection.release();
+      return { data: this.withQuoteState(quote, states), error: null };
+    } catch (error) {
+      Logger.error('Error fetching quote from MySQL', error);
+      return { data: null, error };
     }
   }
 
-
-
-
   /**
-   * Update quote
+   * Get quotes (paginated, dengan detail items/jasa) dari Alvamitra
    */
-  async updateQuote(quoteId: string, updates: Partial<Quote>): Promise<{ data: Quote | null; error: any }> {
-    const updateFields: string[] = [];
-    const queryParams: any[] = [quoteId, this.sessionId];
-    let paramCount = 2;
+  async getQuotesAlvamitra(
+    filters: {
+      status?: string[];
+      date_from?: string;
+      date_to?: string;
+    } = {},
+    limit = 20,
+    offset = 0
+  ): Promise<{ data: { quotes: any[]; total: number } | null; error: any }> {
+    try {
+      let where = ` WHERE m.Status = 'Aktif'`;
+      const params: any[] = [];
+      where += this.tenantFilter('m.Organisasi_Kode', params);
 
-    // Build dynamic update query
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined && key !== 'id') {
-        paramCount++;
-        if (key === 'cart_data' || key === 'customer_snapshot' || key === 'metadata') {
-          updateFields.push(`${key} = $${paramCount}`);
-          queryParams.push(JSON.stringify(value));
-        } else {
-          updateFields.push(`${key} = $${paramCount}`);
-          queryParams.push(value);
-        }
+      if (filters.status && filters.status.length) {
+        where += ` AND LOWER(s.Status) IN (?)`;
+        params.push(filters.status.map(status => status.toLowerCase()));
+      }
+      if (filters.date_from) {
+        where += ' AND m.Waktu_Simpan_Data >= ?';
+        params.push(new Date(filters.date_from));
+      }
+      if (filters.date_to) {
+        where += ' AND m.Waktu_Simpan_Data <= ?';
+        params.push(new Date(filters.date_to));
       }
-    });
 
-    // Always update updated_at
-    paramCount++;
-    updateFields.push(`updated_at = $${paramCount}`);
-    queryParams.push(new Date().toISOString());
+      const from = `FROM tb_store_estimasi_master m
+        LEFT JOIN tb_store_estimasi_sub s ON s.Id_Estimasi_Master = m.Id_Estimasi_Master`;
 
-    const { data, error } = await this.executeWithSession<Quote>(
-      `UPDATE quotes SET ${updateFields.join(', ')} 
-       WHERE id = $1 AND session_id = $2
-       RETURNING *`,
-      queryParams,
-      'update_quote'
-    );
+      const [countRows] = await poolAlvamitra.query(`SELECT COUNT(*) AS total ${from}${where}`, params);
+      const total = Number((countRows as any[])[0]?.total) || 0;
 
-    return { data: data && data.length > 0 ? data[0] : null, error };
-  }
+      limit = Math.max(Number(limit) || 20, 1);
+      offset = Math.max(Number(offset) || 0, 0);
 
-  /**
-   * Get quote by ID
-   */
-  async getQuote(quoteId: string): Promise<{ data: Quote | null; error: any }> {
-    const { data, error } = await this.executeWithSession<Quote>(
-      'SELECT * FROM quotes WHERE id = $1 AND session_id = $2',
-      [quoteId, this.sessionId],
-      'get_quote'
-    );
+      const [rows] = await poolAlvamitra.query(
+        `SELECT m.*, s.Id_Estimasi_Sub, s.Status AS Status_Estimasi
+        ${from}
+        ${where}
+        ORDER BY m.Waktu_Simpan_Data DESC, m.Id_Estimasi_Master DESC
+        LIMIT ${limit} OFFSET ${offset}`,
+        params
+      );
 
-    return { data: data && data.length > 0 ? data[0] : null, error };
-  }
+      const masterIds = (rows as any[]).map(row => row.Id_Estimasi_Master);
+      const detailsByMaster: Record<string, any[]> = {};
 
-  /**
-   * Get quotes for current session
-   */
-  async getSessionQuotes(limit = 20, offset = 0): Promise<{ data: Quote[] | null; error: any }> {
-    const { data, error } = await this.executeWithSession<Quote>(
-      `SELECT * FROM quotes 
-       WHERE session_id = $1 
-       ORDER BY updated_at DESC 
-       LIMIT $2 OFFSET $3`,
-      [this.sessionId, limit, offset],
-      'get_session_quotes'
-    );
+      if (masterIds.length > 0) {
+        const [details] = await poolAlvamitra.query(
+          `SELECT * FROM tb_store_estimasi_detail
+          WHERE Id_Estimasi_Master IN (?)
+          ORDER BY Id_Estimasi_Detail ASC`,
+          [masterIds]
+        );
+        (details as any[]).forEach(d => {
+          (detailsByMaster[d.Id_Estimasi_Master] = detailsByMaster[d.Id_Estimasi_Master] || []).push(d);
+        });
+      }
 
-    return { data: data || [], error };
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra(masterIds.map(String));
+      if (stateError) {
+        return { data: null, error: stateError };
+      }
+
+      const quotes = (rows as any[]).map(row =>
+        this.withQuoteState(this.mapQuoteRow(row, detailsByMaster[row.Id_Estimasi_Master] || []), states)
+      );
+      return { data: { quotes, total }, error: null };
+    } catch (error) {
+      Logger.error('Error fetching quotes from MySQL', error);
+      return { data: null, error };
+    }
   }
 
   /**
-   * Generate unique quote number
+   * Update estimasi (PPN, catatan, status dan/atau detail) dalam satu transaksi MySQL. Versi,
+   * valid_until dan revisi disimpan di Postgres sebelum commit; dengan expectedVersion hanya selama quote masih di
+   * versi itu, dan dengan fromStatuses hanya selama statusnya masih salah satu dari itu.
+   * Return data null tanpa error kalau versi sudah berubah.
    */
-  async generateQuoteNumber(): Promise<string> {
-    const year = new Date().getFullYear();
-    const prefix = `QT${year}-`;
+  async updateQuoteAlvamitra(
+    quoteId: string,
+    updates: {
+      cart_data?: { items?: any[]; laborItems?: any[] };
+      tax_rate?: number;
+      notes?: string;
+      status?: string;
+      valid_until?: string;
+    },
+    expectedVersion: number | null = null,
+    fromStatuses?: string[]
+  ): Promise<{ data: any | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // 1️⃣ Lock quote (master + sub)
+      const before = await this.lockQuoteAlvamitra(connection, quoteId);
+      if (!before) {
+        await connection.rollback();
+        return { data: null, error: { message: 'Quote not found', code: 'NOT_FOUND' } };
+      }
+      if (fromStatuses && !fromStatuses.map(status => status.toLowerCase()).includes(before.status)) {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: `Quote is ${before.status} and cannot be edited`, code: 'QUOTE_NOT_EDITABLE', details: { status: before.status } }
+        };
+      }
+
+      // 2️⃣ Update master (PPN, catatan) & sub (status)
+      if (updates.tax_rate !== undefined || updates.notes !== undefined) {
+        await connection.query(
+          `UPDATE tb_store_estimasi_master SET PPN = ?, Note_Quotation = ? WHERE Id_Estimasi_Master = ?`,
+          [updates.tax_rate ?? before.tax_rate, updates.notes ?? before.notes ?? '', quoteId]
+        );
+      }
+      if (updates.status !== undefined) {
+        await connection.query(
+          `UPDATE tb_store_estimasi_sub SET Status = ? WHERE Id_Estimasi_Sub = ?`,
+          [this.toEstimasiStatus(updates.status), before.sub_id]
+        );
+      }
+
+      // 3️⃣ Ganti seluruh detail dengan isi cart baru
+      if (updates.cart_data) {
+        await connection.query(`DELETE FROM tb_store_estimasi_detail WHERE Id_Estimasi_Master = ?`, [quoteId]);
+        await this.insertEstimasiDetails(connection, quoteId, before.sub_id, updates.cart_data);
+      }
+
+      const after = (await this.lockQuoteAlvamitra(connection, quoteId))!;
+
+      // 4️⃣ Versi + revisi (Postgres) sebelum commit MySQL
+      const changedFields = Object.keys(updates).filter(key => (updates as any)[key] !== undefined);
+      const { data: changed, error: changeError } = await db.execute<AlvamitraQuoteState>(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}
+        SELECT quote_id, version, valid_until, expired_from, updated_at FROM changed`,
+        this.quoteChangeValues(before, after, changedFields, { expectedVersion, validUntil: updates.valid_until }),
+        'update_quote_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+      if (!changed || changed.length === 0) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      await connection.commit();
+      return { data: this.withQuoteState(after, new Map(changed.map(state => [state.quote_id, state]))), error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error updating quote in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Soft delete estimasi (master Status 'Tidak Aktif'); quote yang sudah di-convert tetap aktif
+   * karena order menyimpan referensinya
+   */
+  async deleteQuoteAlvamitra(quoteId: string): Promise<{ data: { id: string } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const quote = await this.lockQuoteAlvamitra(connection, quoteId);
+      if (!quote) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+      if (quote.status === 'converted') {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: 'Quote has been converted to an order and cannot be deleted', code: 'QUOTE_NOT_DELETABLE' }
+        };
+      }
+
+      await connection.query(
+        `UPDATE tb_store_estimasi_master SET Status = 'Tidak Aktif' WHERE Id_Estimasi_Master = ?`,
+        [quoteId]
+      );
+
+      await connection.commit();
+      return { data: { id: String(quoteId) }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error deleting quote in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Lock estimasi aktif (master + sub, FOR UPDATE) dan baca detailnya; null kalau tidak ditemukan
+   */
+  private async lockQuoteAlvamitra(connection: PoolConnection, quoteId: string) {
+    const params: any[] = [quoteId];
+    const [rows] = await connection.query(
+      `SELECT m.*, s.Id_Estimasi_Sub, s.Status AS Status_Estimasi
+      FROM tb_store_estimasi_master m
+      JOIN tb_store_estimasi_sub s ON s.Id_Estimasi_Master = m.Id_Estimasi_Master
+      WHERE m.Id_Estimasi_Master = ? AND m.Status = 'Aktif'${this.tenantFilter('m.Organisasi_Kode', params)}
+      LIMIT 1
+      FOR UPDATE`,
+      params
+    );
+
+    const row = (rows as any[])[0];
+    if (!row) {
+      return null;
+    }
+
+    const [details] = await connection.query(
+      `SELECT * FROM tb_store_estimasi_detail
+      WHERE Id_Estimasi_Master = ?
+      ORDER BY Id_Estimasi_Detail ASC`,
+      [quoteId]
+    );
+
+    return this.mapQuoteRow(row, details as any[]);
+  }
+
+  /**
+   * Parameter ALVAMITRA_QUOTE_CHANGE_CTE: revisi baseline dari keadaan sebelum perubahan
+   * (dipakai kalau quote belum punya revisi) dan revisi hasil perubahan
+   */
+  private quoteChangeValues(
+    before: ReturnType<DatabaseService['mapQuoteRow']>,
+    after: ReturnType<DatabaseService['mapQuoteRow']>,
+    changedFields: string[],
+    options: {
+      expectedVersion?: number | null;
+      changedBy?: string | null;
+      validUntil?: string | null;
+      expiredFrom?: string | null;
+    } = {}
+  ): any[] {
+    const changedBy = options.changedBy !== undefined ? options.changedBy : getRequestContext()?.userId || null;
+    const revisions = [
+      { ...this.quoteRevisionRow(before, [], null), baseline: true, created_at: before.created_at || null },
+      { ...this.quoteRevisionRow(after, changedFields, changedBy), baseline: false, created_at: null }
+    ].map((revision, index) => ({ ord: index + 1, ...revision }));
+
+    return [
+      String(after.id),
+      options.expectedVersion ?? null,
+      after.organisasi_kode || null,
+      JSON.stringify(revisions),
+      options.validUntil || null,
+      before.status !== after.status,
+      options.expiredFrom || null
+    ];
+  }
+
+  /**
+   * Snapshot revisi (cart + totals server-side) dari estimasi
+   */
+  private quoteRevisionRow(quote: ReturnType<DatabaseService['mapQuoteRow']>, changedFields: string[], changedBy: string | null) {
+    const { totals } = financialCalculationService.priceCart(quote.items, quote.laborItems, quote.tax_rate);
+    return {
+      cart_data: {
+        items: quote.items,
+        laborItems: quote.laborItems,
+        subtotal: totals.subtotal,
+        taxAmount: totals.taxAmount,
+        finalTotal: totals.finalTotal
+      },
+      status: quote.status,
+      tax_rate: quote.tax_rate,
+      subtotal: totals.subtotal,
+      tax_amount: totals.taxAmount,
+      final_total: totals.finalTotal,
+      changed_fields: changedFields,
+      changed_by: changedBy
+    };
+  }
+
+  /**
+   * Status API ke status estimasi Alvamitra (huruf kapital di depan: 'Draft', 'Pending_approval', ...)
+   */
+  private toEstimasiStatus(status: string): string {
+    return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+
+  /**
+   * Versi estimasi dari alvamitra_quote_state, per quote id
+   */
+  private async getQuoteStatesAlvamitra(quoteIds: string[]): Promise<{ data: Map<string, AlvamitraQuoteState>; error: any }> {
+    if (quoteIds.length === 0) {
+      return { data: new Map(), error: null };
+    }
+
+    const { data, error } = await db.execute<AlvamitraQuoteState>(
+      `SELECT quote_id, version, valid_until, expired_from, updated_at
+      FROM alvamitra_quote_state WHERE quote_id = ANY($1::text[])`,
+      [quoteIds],
+      'get_alvamitra_quote_states'
+    );
+
+    return { data: new Map((data || []).map(state => [state.quote_id, state])), error };
+  }
+
+  private withQuoteState<T extends { id: string; created_at: string }>(quote: T, states: Map<string, AlvamitraQuoteState>) {
+    const state = states.get(quote.id);
+    return {
+      ...quote,
+      version: state?.version ?? 1,
+      valid_until: state?.valid_until
+        ? new Date(state.valid_until).toISOString()
+        : this.defaultValidUntilAlvamitra(quote.created_at),
+      expired_from: state?.expired_from || null,
+      updated_at: state?.updated_at ? new Date(state.updated_at).toISOString() : quote.created_at
+    };
+  }
+
+  /**
+   * Masa berlaku default estimasi: Waktu_Simpan_Data + ALVAMITRA_QUOTE_VALID_DAYS
+   */
+  private defaultValidUntilAlvamitra(createdAt: string): string {
+    if (!createdAt) return '';
+    return new Date(new Date(createdAt).getTime() + ALVAMITRA_QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  /**
+   * Map estimasi master row (+ detail rows) ke format API quote
+   */
+  private mapQuoteRow(row: any, details: any[] = []) {
+    return {
+      id: String(row.Id_Estimasi_Master),
+      quote_number: row.Nomor_Estimasi,
+      sub_id: row.Id_Estimasi_Sub != null ? String(row.Id_Estimasi_Sub) : '',
+      id_pengguna: String(row.Id_Pengguna),
+      organisasi_kode: row.Organisasi_Kode,
+      status: String(row.Status_Estimasi || 'draft').toLowerCase(),
+      tax_rate: Number(row.PPN) || 0,
+      notes: row.Note_Quotation || undefined,
+      created_at: row.Waktu_Simpan_Data ? new Date(row.Waktu_Simpan_Data).toISOString() : '',
+      ...this.mapEstimasiDetails(details)
+    };
+  }
+
+  /**
+   * Map detail estimasi ke cart items + labor items.
+   * Diskon per baris = Harga_Produk * Qty - Harga_Produk_Setelah_Diskon (nominal).
+   */
+  private mapEstimasiDetails(details: any[]): { items: CartItem[]; laborItems: LaborItem[] } {
+    const items: CartItem[] = [];
+    const laborItems: LaborItem[] = [];
+
+    for (const d of details) {
+      let specs: Record<string, any> = {};
+      try {
+        specs = d.Array_Object_Item_Atribut_Varian ? JSON.parse(d.Array_Object_Item_Atribut_Varian) : {};
+      } catch {
+        specs = {};
+      }
+
+      const price = Number(d.Harga_Produk) || 0;
+      const quantity = Number(d.Qty) || 0;
+      const subtotal = price * quantity;
+      const lineDiscount = Math.max(subtotal - (Number(d.Harga_Produk_Setelah_Diskon) || 0), 0);
+      const discount = lineDiscount > 0
+        ? { type: 'nominal' as const, value: lineDiscount, appliedAmount: lineDiscount }
+        : undefined;
+
+      if (d.Tipe_Produk === 'Jasa') {
+        laborItems.push({
+          id: String(d.Id_Estimasi_Detail),
+          type: specs.type || 'installation',
+          name: d.Nama_Produk,
+          description: d.Deskripsi_Produk || undefined,
+          rateType: specs.rateType || 'fixed',
+          rate: price,
+          quantity,
+          unit: specs.unit || 'unit',
+          discount,
+          subtotal,
+          total: subtotal - lineDiscount,
+          editable: true,
+          category: specs.category || 'labor'
+        });
+      } else {
+        items.push({
+          id: String(d.Id_Estimasi_Detail),
+          productId: String(d.Id_Produk),
+          name: d.Nama_Produk,
+          category: '',
+          price,
+          quantity,
+          specs,
+          discount,
+          notes: d.Deskripsi_Produk || undefined,
+          subtotal,
+          total: subtotal - lineDiscount
+        });
+      }
+    }
+
+    return { items, laborItems };
+  }
+
+  async createOrderAlvamitra(
+    order: {
+      quote_number: string;
+      id_pengguna: string;
+      organisasi_kode: string;
+      organisasi_kode_smartjmp?: string;
+      nomor_whatsapp?: string;
+      cart_data: any; // items & laborItems (sudah dihitung ulang di server)
+      notes?: string;
+      tax_rate?: number;
+      totals?: OrderTotals;
+    }
+  ): Promise<{ data: any | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      console.log('====================================');
+      console.log('ORDER OPERATIONS');
+      console.log('====================================');
+
+      await connection.beginTransaction();
+      const now = new Date();
+
+      // 1️⃣ + 2️⃣ Insert MASTER & SUB
+      const { masterId, subId } = await this.insertOrderMaster(connection, order, now);
+
+      // 3️⃣ Insert DETAIL (items)
+      const items = order.cart_data?.items || [];
+      await this.insertOrderDetails(connection, masterId, subId, items);
+
+      // ✅ Commit transaksi
+      await connection.commit();
+
+      console.log('====================================');
+      console.log('END OPERATIONS');
+      console.log('====================================');
+
+      return { data: { masterId, subId, items }, error: null };
+
+    } catch (err) {
+      await connection.rollback();
+      console.error("❌ Database error createOrderAlvamitra:", err);
+      return { data: null, error: err };
+    } finally {
+      connection.release();
+    }
+  }
+
+
+  /**
+   * Insert transaksi master + sub untuk order baru (dipakai create & convert dari quote)
+   */
+  private async insertOrderMaster(
+    connection: PoolConnection,
+    order: {
+      quote_number: string;
+      id_pengguna: string;
+      organisasi_kode: string;
+      organisasi_kode_smartjmp?: string;
+      tax_rate?: number;
+      totals?: OrderTotals;
+    },
+    now: Date
+  ): Promise<{ masterId: number; subId: number }> {
+    const totals: OrderTotals = order.totals || { subtotal: 0, promoAmount: 0, taxAmount: 0, finalTotal: 0 };
+
+    // 1️⃣ Insert ke MASTER
+    const [masterResult] = await connection.query(
+      `INSERT INTO tb_store_transaksi_master
+        (Nomor_Order, Id_Pengguna, Organisasi_Kode, Id_Pengguna_SMARTJMP, Organisasi_Kode_SMARTJMP,
+        Id_Account, Id_Call, Id_Pembayaran, Id_Kupon, Status_Order, Sub_Status_Order,
+        Tanggal_Order, PPN, Id_Kode_Promo, Redeem_Order, Sub_Total_Pembelian,
+        PPN_Total_Pembelian, Promo_Total_Pembelian, Harga_Total_Pembelian,
+        Waktu_Simpan_Data, Status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        order.quote_number,                 // Nomor_Order
+        order.id_pengguna,                  // Id_Pengguna
+        order.organisasi_kode,              // Organisasi_Kode
+        0,                                  // Id_Pengguna_SMARTJMP (default 0)
+        order.organisasi_kode_smartjmp || '', // Organisasi_Kode_SMARTJMP
+        null,                               // Id_Account
+        null,                               // Id_Call
+        0,                                  // Id_Pembayaran (default 0)
+        null,                               // Id_Kupon
+        'Draft',                            // Status_Order
+        'Pending',                          // Sub_Status_Order
+        now,                                // Tanggal_Order
+        String(order.tax_rate || 0),        // PPN (text field!)
+        0,                                  // Id_Kode_Promo
+        0,                               // Redeem_Order
+        String(totals.subtotal),            // Sub_Total_Pembelian
+        String(totals.taxAmount),           // PPN_Total_Pembelian
+        String(totals.promoAmount),         // Promo_Total_Pembelian
+        String(totals.finalTotal),          // Harga_Total_Pembelian
+        now,                                // Waktu_Simpan_Data
+        'Aktif'                             // Status
+      ]
+    );
+    const masterId = (masterResult as any).insertId;
+
+    // 2️⃣ Insert ke SUB
+    const [subResult] = await connection.query(
+      `INSERT INTO tb_store_transaksi_sub
+        (Id_Transaksi_Master, Nomor_Order_Vendor, Id_Vendor, Id_Pengguna,
+        Id_Pengiriman, Tanggal_Pengiriman, Id_Kupon_Vendor, Waktu_Simpan_Data, Status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        masterId,
+        '',           // Nomor_Order_Vendor
+        '',           // Id_Vendor
+        order.id_pengguna,
+        0,            // Id_Pengiriman default
+        null,         // Tanggal_Pengiriman
+        null,         // Id_Kupon_Vendor
+        now,
+        'Draft'
+      ]
+    );
+    const subId = (subResult as any).insertId;
+
+    return { masterId, subId };
+  }
+
+  /**
+   * Insert transaksi detail rows for an order (shared by create & update)
+   */
+  private async insertOrderDetails(
+    connection: PoolConnection,
+    masterId: number,
+    subId: number,
+    items: any[]
+  ): Promise<void> {
+    if (!items.length) return;
+
+    const insertDetailPromises = items.map((item: any) => {
+      return connection.query(
+        `INSERT INTO tb_store_transaksi_detail
+          (Id_Transaksi_Master, Id_Transaksi_Sub, Induk_Id_Transaksi_Detail,
+          Id_Produk, Qty, Array_Object_Item_Atribut_Varian,
+          Tipe_Produk, Nama_Produk, Deskripsi_Produk,
+          Harga_Produk, Harga_Produk_Setelah_Diskon,
+          Format_Garansi, Lama_Garansi, Poin_Yang_Didapatkan)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          masterId,
+          subId,
+          null,                               // Induk_Id_Transaksi_Detail
+          item.productId,
+          item.quantity,
+          JSON.stringify(item.specs || {}),
+          item.tipeProduk || 'Barang',
+          item.name,
+          item.notes || '',
+          item.price,
+          item.total,
+          null,                               // Format_Garansi
+          null,                               // Lama_Garansi
+          0                                   // Poin_Yang_Didapatkan default
+        ]
+      );
+    });
+    await Promise.all(insertDetailPromises);
+  }
+
+  /**
+   * Map transaksi master row (+ detail rows) ke format API order
+   */
+  private mapOrderRow(row: any, details: any[] = []) {
+    const items = details.map(d => {
+      let specs: Record<string, any> = {};
+      try {
+        specs = d.Array_Object_Item_Atribut_Varian ? JSON.parse(d.Array_Object_Item_Atribut_Varian) : {};
+      } catch {
+        specs = {};
+      }
+
+      return {
+        id: String(d.Id_Transaksi_Detail),
+        productId: String(d.Id_Produk),
+        name: d.Nama_Produk,
+        quantity: Number(d.Qty) || 0,
+        price: Number(d.Harga_Produk) || 0,
+        total: Number(d.Harga_Produk_Setelah_Diskon) || 0,
+        tipeProduk: d.Tipe_Produk,
+        specs,
+        notes: d.Deskripsi_Produk || undefined,
+      };
+    });
+
+    return {
+      id: String(row.Id_Transaksi_Master),
+      order_number: row.Nomor_Order,
+      sub_id: row.Id_Transaksi_Sub != null ? String(row.Id_Transaksi_Sub) : '',
+      id_pengguna: String(row.Id_Pengguna),
+      organisasi_kode: row.Organisasi_Kode,
+      status: String(row.Status_Order || '').toLowerCase(),
+      sub_status: row.Sub_Status_Order,
+      order_date: row.Tanggal_Order ? new Date(row.Tanggal_Order).toISOString() : '',
+      tax_rate: Number(row.PPN) || 0,
+      subtotal: Number(row.Sub_Total_Pembelian) || 0,
+      tax_amount: Number(row.PPN_Total_Pembelian) || 0,
+      promo_amount: Number(row.Promo_Total_Pembelian) || 0,
+      final_total: Number(row.Harga_Total_Pembelian) || 0,
+      item_count: row.Item_Count != null ? Number(row.Item_Count) : items.length,
+      items,
+      created_at: row.Waktu_Simpan_Data ? new Date(row.Waktu_Simpan_Data).toISOString() : '',
+    };
+  }
+
+  /**
+   * Get orders (paginated) dari Alvamitra
+   */
+  async getOrdersAlvamitra(
+    filters: {
+      status?: string[];
+      date_from?: string;
+      date_to?: string;
+    } = {},
+    limit = 20,
+    offset = 0,
+    includeItems = false
+  ): Promise<{ data: { orders: any[]; total: number } | null; error: any }> {
+    try {
+      let where = ` WHERE m.Status = 'Aktif'`;
+      const params: any[] = [];
+      where += this.tenantFilter('m.Organisasi_Kode', params);
+
+      if (filters.status && filters.status.length) {
+        where += ` AND LOWER(m.Status_Order) IN (?)`;
+        params.push(filters.status.map(s => s.toLowerCase()));
+      }
+      if (filters.date_from) {
+        where += ' AND m.Tanggal_Order >= ?';
+        params.push(new Date(filters.date_from));
+      }
+      if (filters.date_to) {
+        where += ' AND m.Tanggal_Order <= ?';
+        params.push(new Date(filters.date_to));
+      }
+
+      const [countRows] = await poolAlvamitra.query(
+        `SELECT COUNT(*) AS total FROM tb_store_transaksi_master m${where}`,
+        params
+      );
+      const total = Number((countRows as any[])[0]?.total) || 0;
+
+      limit = Math.max(Number(limit) || 20, 1);
+      offset = Math.max(Number(offset) || 0, 0);
+
+      const [rows] = await poolAlvamitra.query(
+        `SELECT m.*, s.Id_Transaksi_Sub,
+                (SELECT COUNT(*) FROM tb_store_transaksi_detail d
+                 WHERE d.Id_Transaksi_Master = m.Id_Transaksi_Master) AS Item_Count
+        FROM tb_store_transaksi_master m
+        LEFT JOIN tb_store_transaksi_sub s ON s.Id_Transaksi_Master = m.Id_Transaksi_Master
+        ${where}
+        ORDER BY m.Tanggal_Order DESC, m.Id_Transaksi_Master DESC
+        LIMIT ${limit} OFFSET ${offset}`,
+        params
+      );
+
+      const detailsByMaster: Record<string, any[]> = {};
+      const masterIds = (rows as any[]).map(row => row.Id_Transaksi_Master);
+
+      if (includeItems && masterIds.length > 0) {
+        const [details] = await poolAlvamitra.query(
+          `SELECT * FROM tb_store_transaksi_detail
+          WHERE Id_Transaksi_Master IN (?)
+          ORDER BY Id_Transaksi_Detail ASC`,
+          [masterIds]
+        );
+        (details as any[]).forEach(d => {
+          (detailsByMaster[d.Id_Transaksi_Master] = detailsByMaster[d.Id_Transaksi_Master] || []).push(d);
+        });
+      }
+
+      const orders = (rows as any[]).map(row => this.mapOrderRow(row, detailsByMaster[row.Id_Transaksi_Master]));
+      return { data: { orders, total }, error: null };
+    } catch (error) {
+      Logger.error('Error fetching orders from MySQL', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get single order (master + sub + detail items) dari Alvamitra
+   */
+  async getOrderAlvamitra(orderId: string): Promise<{ data: any | null; error: any }> {
+    try {
+      const params: any[] = [orderId];
+      const [rows] = await poolAlvamitra.query(
+        `SELECT m.*, s.Id_Transaksi_Sub
+        FROM tb_store_transaksi_master m
+        LEFT JOIN tb_store_transaksi_sub s ON s.Id_Transaksi_Master = m.Id_Transaksi_Master
+        WHERE m.Id_Transaksi_Master = ? AND m.Status = 'Aktif'${this.tenantFilter('m.Organisasi_Kode', params)}
+        LIMIT 1`,
+        params
+      );
+
+      if ((rows as any[]).length === 0) {
+        return { data: null, error: null };
+      }
+
+      const [details] = await poolAlvamitra.query(
+        `SELECT * FROM tb_store_transaksi_detail
+        WHERE Id_Transaksi_Master = ?
+        ORDER BY Id_Transaksi_Detail ASC`,
+        [orderId]
+      );
+
+      const order: any = this.mapOrderRow((rows as any[])[0], details as any[]);
+
+      const { data: quoteLink, error: linkError } = await this.getOrderQuoteLink(orderId);
+      if (linkError) {
+        Logger.warn('Could not load quote back-reference for order', { orderId, error: linkError });
+      }
+      if (quoteLink) {
+        order.source_quote = {
+          id: quoteLink.quote_id,
+          quote_number: quoteLink.quote_number,
+          converted_by: quoteLink.converted_by,
+          converted_at: quoteLink.created_at
+        };
+      }
+
+      return { data: order, error: null };
+    } catch (error) {
+      Logger.error('Error fetching order from MySQL', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Update draft order: ganti detail items dan/atau PPN
+   */
+  async updateOrderAlvamitra(
+    orderId: string,
+    updates: {
+      cart_data?: any;
+      tax_rate?: number;
+      totals?: OrderTotals;
+    }
+  ): Promise<{ data: any | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const params: any[] = [orderId];
+      const [rows] = await connection.query(
+        `SELECT m.Id_Transaksi_Master, m.Status_Order, m.Sub_Total_Pembelian, m.Promo_Total_Pembelian,
+                s.Id_Transaksi_Sub
+        FROM tb_store_transaksi_master m
+        LEFT JOIN tb_store_transaksi_sub s ON s.Id_Transaksi_Master = m.Id_Transaksi_Master
+        WHERE m.Id_Transaksi_Master = ? AND m.Status = 'Aktif'${this.tenantFilter('m.Organisasi_Kode', params)}
+        LIMIT 1
+        FOR UPDATE`,
+        params
+      );
+
+      const existing = (rows as any[])[0];
+      if (!existing) {
+        await connection.rollback();
+        return { data: null, error: { message: 'Order not found', code: 'NOT_FOUND' } };
+      }
+
+      if (String(existing.Status_Order).toLowerCase() !== 'draft') {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: `Only draft orders can be edited (current status: ${existing.Status_Order})`, code: 'ORDER_NOT_EDITABLE' }
+        };
+      }
+
+      if (updates.tax_rate !== undefined) {
+        await connection.query(
+          'UPDATE tb_store_transaksi_master SET PPN = ? WHERE Id_Transaksi_Master = ?',
+          [String(updates.tax_rate), orderId]
+        );
+      }
+
+      // Totals: pakai hasil hitung server kalau cart berubah, kalau cuma PPN yang berubah hitung ulang dari nilai tersimpan
+      let totals = updates.totals;
+      if (!totals && updates.tax_rate !== undefined) {
+        const subtotal = Number(existing.Sub_Total_Pembelian) || 0;
+        const promoAmount = Number(existing.Promo_Total_Pembelian) || 0;
+        const tax = financialCalculationService.calculateTax(subtotal - promoAmount, { rate: updates.tax_rate });
+        totals = {
+          subtotal,
+          promoAmount,
+          taxAmount: financialCalculationService.roundCurrency(tax.taxAmount.toNumber()),
+          finalTotal: financialCalculationService.roundCurrency(tax.afterTaxAmount.toNumber())
+        };
+      }
+
+      if (totals) {
+        await connection.query(
+          `UPDATE tb_store_transaksi_master
+          SET Sub_Total_Pembelian = ?, PPN_Total_Pembelian = ?, Promo_Total_Pembelian = ?, Harga_Total_Pembelian = ?
+          WHERE Id_Transaksi_Master = ?`,
+          [String(totals.subtotal), String(totals.taxAmount), String(totals.promoAmount), String(totals.finalTotal), orderId]
+        );
+      }
+
+      if (updates.cart_data) {
+        await connection.query(
+          'DELETE FROM tb_store_transaksi_detail WHERE Id_Transaksi_Master = ?',
+          [orderId]
+        );
+        await this.insertOrderDetails(
+          connection,
+          existing.Id_Transaksi_Master,
+          existing.Id_Transaksi_Sub,
+          updates.cart_data.items || []
+        );
+      }
+
+      await connection.commit();
+    } catch (err) {
+      await connection.rollback();
+      Logger.error('Error updating order in MySQL', err);
+      return { data: null, error: err };
+    } finally {
+      connection.release();
+    }
+
+    return this.getOrderAlvamitra(orderId);
+  }
+
+  /**
+   * Soft delete draft order (Status -> 'Tidak Aktif')
+   */
+  async deleteOrderAlvamitra(orderId: string): Promise<{ data: { id: string } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // Lock order supaya transisi status tidak bisa masuk di antara cek dan delete
+      const params: any[] = [orderId];
+      const [rows] = await connection.query(
+        `SELECT Status_Order FROM tb_store_transaksi_master
+        WHERE Id_Transaksi_Master = ? AND Status = 'Aktif'${this.tenantFilter('Organisasi_Kode', params)}
+        LIMIT 1
+        FOR UPDATE`,
+        params
+      );
+
+      const existing = (rows as any[])[0];
+      if (!existing) {
+        await connection.rollback();
+        return { data: null, error: { message: 'Order not found', code: 'NOT_FOUND' } };
+      }
+
+      if (String(existing.Status_Order).toLowerCase() !== 'draft') {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: `Only draft orders can be deleted (current status: ${existing.Status_Order})`, code: 'ORDER_NOT_EDITABLE' }
+        };
+      }
+
+      await connection.query(
+        `UPDATE tb_store_transaksi_master SET Status = 'Tidak Aktif' WHERE Id_Transaksi_Master = ?`,
+        [orderId]
+      );
+      await connection.query(
+        `UPDATE tb_store_transaksi_sub SET Status = 'Tidak Aktif' WHERE Id_Transaksi_Master = ?`,
+        [orderId]
+      );
+
+      await connection.commit();
+      return { data: { id: orderId }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error deleting order in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Convert quote (tb_store_estimasi_*) menjadi order (tb_store_transaksi_*) dalam satu transaksi.
+   * Quote yang expired (lebih dari ALVAMITRA_QUOTE_VALID_DAYS), rejected atau sudah converted ditolak.
+   */
+  async convertQuoteToOrderAlvamitra(
+    quoteId: string,
+    options: {
+      order_number: string;
+      id_pengguna: string;
+      organisasi_kode: string;
+      organisasi_kode_smartjmp?: string;
+      converted_by: string;
+    }
+  ): Promise<{ data: any | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    let masterId: number;
+    let linked = false;
+
+    try {
+      await connection.beginTransaction();
+      const now = new Date();
+
+      // 1️⃣ Lock quote (master + sub)
+      const quoteParams: any[] = [quoteId];
+      const [quoteRows] = await connection.query(
+        `SELECT m.*, s.Id_Estimasi_Sub, s.Status AS Status_Estimasi
+        FROM tb_store_estimasi_master m
+        JOIN tb_store_estimasi_sub s ON s.Id_Estimasi_Master = m.Id_Estimasi_Master
+        WHERE m.Id_Estimasi_Master = ? AND m.Status = 'Aktif'${this.tenantFilter('m.Organisasi_Kode', quoteParams)}
+        LIMIT 1
+        FOR UPDATE`,
+        quoteParams
+      );
+
+      const quote = (quoteRows as any[])[0];
+      if (!quote) {
+        await connection.rollback();
+        return { data: null, error: { message: 'Quote not found', code: 'NOT_FOUND' } };
+      }
+
+      // 2️⃣ Cek status quote
+      const quoteStatus = String(quote.Status_Estimasi || '').toLowerCase();
+      if (quoteStatus === 'pending_approval') {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: 'Quote is waiting for discount approval and cannot be converted', code: 'APPROVAL_REQUIRED' }
+        };
+      }
+      if (['expired', 'rejected', 'converted'].includes(quoteStatus)) {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: `Quote is ${quoteStatus} and cannot be converted`, code: 'QUOTE_NOT_CONVERTIBLE' }
+        };
+      }
+
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([String(quoteId)]);
+      if (stateError) {
+        throw stateError;
+      }
+      const validUntil = new Date(this.withQuoteState(this.mapQuoteRow(quote), states).valid_until);
+      if (validUntil < now) {
+        await connection.rollback();
+        return {
+          data: null,
+          error: { message: `Quote expired on ${validUntil.toISOString()}`, code: 'QUOTE_NOT_CONVERTIBLE' }
+        };
+      }
+
+      // 3️⃣ Hitung totals order dari detail estimasi (server-side)
+      const [quoteDetails] = await connection.query(
+        `SELECT * FROM tb_store_estimasi_detail
+        WHERE Id_Estimasi_Master = ?`,
+        [quoteId]
+      );
+      const taxRate = Number(quote.PPN) || 0;
+      const { items, laborItems } = this.mapEstimasiDetails(quoteDetails as any[]);
+      const calculation = financialCalculationService.priceCart(items, laborItems, taxRate);
+
+      // 4️⃣ Insert MASTER & SUB order
+      const inserted = await this.insertOrderMaster(connection, {
+        quote_number: options.order_number,
+        id_pengguna: options.id_pengguna,
+        organisasi_kode: options.organisasi_kode,
+        organisasi_kode_smartjmp: options.organisasi_kode_smartjmp,
+        tax_rate: taxRate,
+        totals: financialCalculationService.summarizeOrderTotals(calculation.totals)
+      }, now);
+      masterId = inserted.masterId;
+
+      // 5️⃣ Copy DETAIL estimasi -> transaksi
+      const [copyResult] = await connection.query(
+        `INSERT INTO tb_store_transaksi_detail
+          (Id_Transaksi_Master, Id_Transaksi_Sub, Induk_Id_Transaksi_Detail,
+          Id_Produk, Qty, Array_Object_Item_Atribut_Varian,
+          Tipe_Produk, Nama_Produk, Deskripsi_Produk,
+          Harga_Produk, Harga_Produk_Setelah_Diskon,
+          Format_Garansi, Lama_Garansi, Poin_Yang_Didapatkan)
+        SELECT ?, ?, NULL,
+          Id_Produk, Qty, Array_Object_Item_Atribut_Varian,
+          Tipe_Produk, Nama_Produk, Deskripsi_Produk,
+          Harga_Produk, Harga_Produk_Setelah_Diskon,
+          NULL, NULL, 0
+        FROM tb_store_estimasi_detail
+        WHERE Id_Estimasi_Master = ?
+        ORDER BY Id_Estimasi_Detail ASC`,
+        [inserted.masterId, inserted.subId, quoteId]
+      );
+
+      if (!(copyResult as any).affectedRows) {
+        throw Object.assign(new Error('Quote has no items to convert'), { code: 'QUOTE_NOT_CONVERTIBLE' });
+      }
+
+      // 6️⃣ Tandai quote sebagai converted
+      await connection.query(
+        `UPDATE tb_store_estimasi_sub SET Status = 'Converted' WHERE Id_Estimasi_Sub = ?`,
+        [quote.Id_Estimasi_Sub]
+      );
+
+      // Versi + revisi quote untuk status converted
+      const before = this.mapQuoteRow(quote, quoteDetails as any[]);
+      const { error: changeError } = await db.execute(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}
+        SELECT quote_id, version, valid_until, expired_from, updated_at FROM changed`,
+        this.quoteChangeValues(before, { ...before, status: 'converted' }, ['status'], { changedBy: options.converted_by }),
+        'convert_quote_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+
+      // 7️⃣ Simpan back-reference order -> quote sebelum commit MySQL, supaya order tidak pernah
+      // tersimpan tanpa link. Quote masih terkunci dan belum converted, jadi link lama untuk quote
+      // ini adalah sisa convert yang gagal (reconcile) dan boleh dihapus.
+      const { error: staleLinkError } = await db.execute(
+        `DELETE FROM order_quote_links WHERE quote_id = $1 OR order_id = $2`,
+        [String(quoteId), String(inserted.masterId)],
+        'reconcile_order_quote_link'
+      );
+      if (staleLinkError) {
+        throw staleLinkError;
+      }
+
+      const { error: linkError } = await db.execute(
+        `INSERT INTO order_quote_links (order_id, order_number, quote_id, quote_number, converted_by)
+        VALUES ($1, $2, $3, $4, $5)`,
+        [String(inserted.masterId), options.order_number, String(quoteId), quote.Nomor_Estimasi, options.converted_by],
+        'link_order_quote'
+      );
+      if (linkError) {
+        throw linkError;
+      }
+      linked = true;
+
+      await connection.commit();
+      masterId = inserted.masterId;
+    } catch (err: any) {
+      await connection.rollback();
+      Logger.error('Error converting quote to order in MySQL', err);
+
+      if (linked) {
+        // Commit MySQL gagal; hapus link supaya quote bisa di-convert ulang
+        const { error: unlinkError } = await db.execute(
+          `DELETE FROM order_quote_links WHERE quote_id = $1`,
+          [String(quoteId)],
+          'unlink_order_quote'
+        );
+        if (unlinkError) {
+          // Link yatim dibersihkan oleh langkah reconcile pada convert berikutnya
+          Logger.error('Failed to remove order quote link after rollback', { quoteId, error: unlinkError.message });
+        }
+      }
+
+      if (err?.code === 'QUOTE_NOT_CONVERTIBLE') {
+        return { data: null, error: { message: err.message, code: err.code } };
+      }
+      return { data: null, error: err };
+    } finally {
+      connection.release();
+    }
+
+    return this.getOrderAlvamitra(String(masterId));
+  }
+
+  /**
+   * Ubah status estimasi (tb_store_estimasi_sub) jika status saat ini termasuk fromStatuses,
+   * dengan versi + revisi di Postgres. Return null jika quote tidak ditemukan atau statusnya tidak cocok.
+   */
+  async transitionQuoteStatusAlvamitra(
+    quoteId: string,
+    fromStatuses: string[],
+    toStatus: string,
+    changedBy: string | null = getRequestContext()?.userId || null
+  ): Promise<{ data: { id: string; status: string } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const before = await this.lockQuoteAlvamitra(connection, quoteId);
+      if (!before || !fromStatuses.map(status => status.toLowerCase()).includes(before.status)) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      await connection.query(
+        `UPDATE tb_store_estimasi_sub SET Status = ? WHERE Id_Estimasi_Sub = ?`,
+        [this.toEstimasiStatus(toStatus), before.sub_id]
+      );
+
+      const after = { ...before, status: toStatus.toLowerCase() };
+      const { error: changeError } = await db.execute(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}
+        SELECT quote_id, version, valid_until, expired_from, updated_at FROM changed`,
+        this.quoteChangeValues(before, after, ['status'], { changedBy }),
+        'transition_quote_status_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+
+      await connection.commit();
+      return { data: { id: String(quoteId), status: after.status }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error updating quote status in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get quote back-reference for an order (null kalau order tidak berasal dari quote)
+   */
+  async getOrderQuoteLink(orderId: string): Promise<{ data: any | null; error: any }> {
+    const { data, error } = await db.execute(
+      `SELECT quote_id, quote_number, converted_by, created_at
+      FROM order_quote_links
+      WHERE order_id = $1
+      LIMIT 1`,
+      [String(orderId)],
+      'get_order_quote_link'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Pindahkan status order (Status_Order) dan catat ke order_status_history.
+   * Row master di-lock selama transaksi; kalau insert history gagal, update status di-rollback.
+   */
+  async transitionOrderStatusAlvamitra(
+    orderId: string,
+    toStatus: string,
+    audit: { actor: string; reason?: string; metadata?: Record<string, any> },
+    isAllowed: (fromStatus: any) => boolean
+  ): Promise<{ data: { order: any; history: any } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    let history: any = null;
+
+    try {
+      await connection.beginTransaction();
+
+      const params: any[] = [orderId];
+      const [rows] = await connection.query(
+        `SELECT Id_Transaksi_Master, Status_Order
+        FROM tb_store_transaksi_master
+        WHERE Id_Transaksi_Master = ? AND Status = 'Aktif'${this.tenantFilter('Organisasi_Kode', params)}
+        LIMIT 1
+        FOR UPDATE`,
+        params
+      );
+
+      const existing = (rows as any[])[0];
+      if (!existing) {
+        await connection.rollback();
+        return { data: null, error: { message: 'Order not found', code: 'NOT_FOUND' } };
+      }
+
+      const fromStatus = String(existing.Status_Order || '').toLowerCase();
+      if (!isAllowed(fromStatus)) {
+        await connection.rollback();
+        return {
+          data: null,
+          error: {
+            message: `Cannot move order from '${fromStatus}' to '${toStatus}'`,
+            code: 'INVALID_TRANSITION',
+            details: { from: fromStatus, to: toStatus }
+          }
+        };
+      }
+
+      // Alvamitra menyimpan status dengan huruf kapital di depan ('Draft', 'Confirmed', ...)
+      const dbStatus = toStatus.charAt(0).toUpperCase() + toStatus.slice(1);
+      await connection.query(
+        'UPDATE tb_store_transaksi_master SET Status_Order = ? WHERE Id_Transaksi_Master = ?',
+        [dbStatus, orderId]
+      );
+
+      const { data: historyRows, error: historyError } = await db.execute(
+        `INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason, metadata)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *`,
+        [String(orderId), fromStatus, toStatus, audit.actor, audit.reason || null, JSON.stringify(audit.metadata || {})],
+        'record_order_transition'
+      );
+
+      if (historyError || !historyRows?.length) {
+        throw new Error(`Failed to record order transition: ${historyError?.message || 'no row returned'}`);
+      }
+
+      history = historyRows[0];
+      await connection.commit();
+    } catch (err) {
+      await connection.rollback();
+      Logger.error('Error transitioning order status in MySQL', err);
+
+      // History sudah ter-commit di PostgreSQL; hapus agar tidak ada riwayat untuk transisi yang batal
+      if (history) {
+        const { error: cleanupError } = await db.execute(
+          'DELETE FROM order_status_history WHERE id = $1',
+          [history.id],
+          'revert_order_transition'
+        );
+        if (cleanupError) {
+          Logger.error('Failed to remove history of rolled back order transition', {
+            orderId,
+            historyId: history.id,
+            error: cleanupError.message
+          });
+        }
+      }
+
+      return { data: null, error: err };
+    } finally {
+      connection.release();
+    }
+
+    const orderResult = await this.getOrderAlvamitra(orderId);
+    if (orderResult.error || !orderResult.data) {
+      return { data: null, error: orderResult.error || { message: 'Order not found', code: 'NOT_FOUND' } };
+    }
+
+    return { data: { order: orderResult.data, history }, error: null };
+  }
+
+  /**
+   * Get status transition history for an order (oldest first)
+   */
+  async getOrderStatusHistory(orderId: string): Promise<{ data: any[] | null; error: any }> {
+    const { data, error } = await db.execute(
+      `SELECT * FROM order_status_history
+      WHERE order_id = $1
+      ORDER BY created_at ASC`,
+      [String(orderId)],
+      'get_order_status_history'
+    );
+
+    if (error) {
+      Logger.error('Error fetching order status history', error);
+      return { data: null, error };
+    }
+
+    return { data: data || [], error: null };
+  }
+
+  /**
+   * Update quote; with expectedVersion only while it is still at that version (null data otherwise)
+   */
+  async updateQuote(quoteId: string, updates: Partial<Quote>, expectedVersion: number | null = null): Promise<{ data: Quote | null; error: any }> {
+    const updateFields: string[] = [];
+    const queryParams: any[] = [quoteId, this.sessionId, this.organisasiKode, expectedVersion];
+    let paramCount = 4;
+
+    // Build dynamic update query
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'id' && key !== 'organisation_id' && key !== 'version') {
+        paramCount++;
+        if (key === 'cart_data' || key === 'customer_snapshot' || key === 'metadata') {
+          updateFields.push(`${key} = $${paramCount}`);
+          queryParams.push(JSON.stringify(value));
+        } else {
+          updateFields.push(`${key} = $${paramCount}`);
+          queryParams.push(value);
+        }
+      }
+    });
+
+    const changedFields = Object.keys(updates).filter(
+      key => (updates as any)[key] !== undefined && key !== 'id' && key !== 'organisation_id' && key !== 'version'
+    );
+
+    // Always update updated_at
+    paramCount++;
+    updateFields.push(`updated_at = $${paramCount}`);
+    queryParams.push(new Date().toISOString());
+
+    queryParams.push(changedFields, getRequestContext()?.userId || null);
+
+    // Every update stores an immutable revision of the resulting quote in the same statement
+    const { data, error } = await this.executeWithSession<Quote>(
+      `WITH updated AS (
+        UPDATE quotes SET ${updateFields.join(', ')} 
+        WHERE id = $1 AND session_id = $2 AND ($3::text IS NULL OR organisation_id = $3)
+          AND ($4::int IS NULL OR version = $4)
+        RETURNING *
+      ), revision AS (
+        INSERT INTO quote_revisions (
+          quote_id, cart_data, status, tax_rate, subtotal, tax_amount, final_total,
+          changed_fields, changed_by, organisation_id
+        )
+        SELECT id, cart_data, status, tax_rate, subtotal, tax_amount, final_total,
+          $${paramCount + 1}::text[], $${paramCount + 2}, organisation_id
+        FROM updated
+      )
+      SELECT * FROM updated`,
+      queryParams,
+      'update_quote'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Revision history of a quote, newest first (without cart snapshots)
+   */
+  async getQuoteRevisions(quoteId: string): Promise<{ data: Omit<QuoteRevision, 'cart_data'>[] | null; error: any }> {
+    const { data, error } = await db.execute<Omit<QuoteRevision, 'cart_data'>>(
+      `SELECT r.id, r.quote_id, r.revision_number, r.status, r.tax_rate, r.subtotal, r.tax_amount,
+              r.final_total, r.changed_fields, r.changed_by, r.created_at,
+              jsonb_array_length(COALESCE(r.cart_data->'items', '[]'::jsonb)) AS item_count
+       FROM quote_revisions r
+       WHERE r.quote_id = $1 AND ($2::text IS NULL OR r.organisation_id = $2)
+       ORDER BY r.revision_number DESC`,
+      [String(quoteId), this.organisasiKode],
+      'get_quote_revisions'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Full revisions (with cart snapshot) of a quote by revision number
+   */
+  async getQuoteRevisionsByNumber(quoteId: string, revisionNumbers: number[]): Promise<{ data: QuoteRevision[] | null; error: any }> {
+    const { data, error } = await db.execute<QuoteRevision>(
+      `SELECT r.*
+       FROM quote_revisions r
+       WHERE r.quote_id = $1 AND r.revision_number = ANY($3::int[])
+         AND ($2::text IS NULL OR r.organisation_id = $2)`,
+      [String(quoteId), this.organisasiKode, revisionNumbers],
+      'get_quote_revisions_by_number'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Get quote by ID
+   */
+  async getQuote(quoteId: string): Promise<{ data: Quote | null; error: any }> {
+    const { data, error } = await this.executeWithSession<Quote>(
+      'SELECT * FROM quotes WHERE id = $1 AND session_id = $2 AND ($3::text IS NULL OR organisation_id = $3)',
+      [quoteId, this.sessionId, this.organisasiKode],
+      'get_quote'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Get quotes for current session
+   */
+  async getSessionQuotes(limit = 20, offset = 0): Promise<{ data: Quote[] | null; error: any }> {
+    const { data, error } = await this.executeWithSession<Quote>(
+      `SELECT * FROM quotes 
+       WHERE session_id = $1 AND ($4::text IS NULL OR organisation_id = $4)
+       ORDER BY updated_at DESC 
+       LIMIT $2 OFFSET $3`,
+      [this.sessionId, limit, offset, this.organisasiKode],
+      'get_session_quotes'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Move a quote between statuses within the organisation (not limited to the creating session,
+   * approvers work from their own session). Returns null when the quote is not in a from-status.
+   */
+  async transitionQuoteStatus(
+    quoteId: string,
+    fromStatuses: Quote['status'][],
+    toStatus: Quote['status']
+  ): Promise<{ data: Quote | null; error: any }> {
+    const { data, error } = await this.executeWithSession<Quote>(
+      `WITH updated AS (
+        UPDATE quotes SET status = $3, updated_at = now()
+        WHERE id = $1 AND status = ANY($2::text[]) AND ($4::text IS NULL OR organisation_id = $4)
+        RETURNING *
+      ), revision AS (
+        INSERT INTO quote_revisions (
+          quote_id, cart_data, status, tax_rate, subtotal, tax_amount, final_total,
+          changed_fields, changed_by, organisation_id
+        )
+        SELECT id, cart_data, status, tax_rate, subtotal, tax_amount, final_total,
+          ARRAY['status'], $5, organisation_id
+        FROM updated
+      )
+      SELECT * FROM updated`,
+      [quoteId, fromStatuses, toStatus, this.organisasiKode, getRequestContext()?.userId || null],
+      'transition_quote_status'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Expire estimasi terbuka (draft/pending_approval/sent) yang lewat valid_until, per quote dengan
+   * lock, versi dan revisi oleh system:quote-expiry. Return quote yang di-expire.
+   */
+  async expireOverdueQuotesAlvamitra(limit = 200): Promise<{ data: ExpiredQuote[] | null; error: any }> {
+    try {
+      // 1️⃣ Estimasi dengan valid_until sendiri (dibuat dengan valid_days atau diperpanjang)
+      const { data: states, error: stateError } = await db.execute<{ quote_id: string; valid_until: string }>(
+        `SELECT quote_id, valid_until FROM alvamitra_quote_state WHERE valid_until IS NOT NULL`,
+        [],
+        'get_alvamitra_quote_validity'
+      );
+      if (stateError) {
+        return { data: null, error: stateError };
+      }
+
+      const now = Date.now();
+      const overdueIds = (states || []).filter(state => new Date(state.valid_until).getTime() < now).map(state => state.quote_id);
+      const notDueIds = (states || []).filter(state => new Date(state.valid_until).getTime() >= now).map(state => state.quote_id);
+
+      // 2️⃣ Estimasi terbuka yang lewat masa berlaku default atau valid_until sendiri
+      const params: any[] = [ALVAMITRA_OPEN_QUOTE_STATUSES, new Date(now - ALVAMITRA_QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000)];
+      let overdue = 'm.Waktu_Simpan_Data < ?';
+      if (notDueIds.length > 0) {
+        overdue += ' AND m.Id_Estimasi_Master NOT IN (?)';
+        params.push(notDueIds);
+      }
+      if (overdueIds.length > 0) {
+        overdue = `(${overdue}) OR m.Id_Estimasi_Master IN (?)`;
+        params.push(overdueIds);
+      }
+
+      limit = Math.max(Number(limit) || 200, 1);
+      const [rows] = await poolAlvamitra.query(
+        `SELECT m.Id_Estimasi_Master
+        FROM tb_store_estimasi_master m
+        JOIN tb_store_estimasi_sub s ON s.Id_Estimasi_Master = m.Id_Estimasi_Master
+        WHERE m.Status = 'Aktif' AND LOWER(s.Status) IN (?) AND (${overdue})
+        ORDER BY m.Waktu_Simpan_Data ASC
+        LIMIT ${limit}`,
+        params
+      );
+
+      // 3️⃣ Expire satu per satu; quote yang gagal dicoba lagi pada run berikutnya
+      const expired: ExpiredQuote[] = [];
+      for (const row of rows as any[]) {
+        const { data, error } = await this.expireQuoteAlvamitra(String(row.Id_Estimasi_Master));
+        if (error) {
+          Logger.warn('Failed to expire quote', { quoteId: row.Id_Estimasi_Master, error: error.message || String(error) });
+        } else if (data) {
+          expired.push(data);
+        }
+      }
+
+      return { data: expired, error: null };
+    } catch (error) {
+      Logger.error('Error expiring overdue quotes in MySQL', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Expire satu estimasi kalau (di bawah lock) masih terbuka dan lewat valid_until; null kalau tidak
+   */
+  private async expireQuoteAlvamitra(quoteId: string): Promise<{ data: ExpiredQuote | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const locked = await this.lockQuoteAlvamitra(connection, quoteId);
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([quoteId]);
+      if (stateError) {
+        throw stateError;
+      }
+
+      const before = locked && this.withQuoteState(locked, states);
+      if (!before || !ALVAMITRA_OPEN_QUOTE_STATUSES.includes(before.status) || new Date(before.valid_until).getTime() >= Date.now()) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      await connection.query(
+        `UPDATE tb_store_estimasi_sub SET Status = 'Expired' WHERE Id_Estimasi_Sub = ?`,
+        [before.sub_id]
+      );
+
+      const { error: changeError } = await db.execute(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}
+        SELECT quote_id, version FROM changed`,
+        this.quoteChangeValues(before, { ...before, status: 'expired' }, ['status'], {
+          changedBy: 'system:quote-expiry',
+          expiredFrom: before.status
+        }),
+        'expire_quote_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+
+      await connection.commit();
+      return {
+        data: {
+          id: before.id,
+          quote_number: before.quote_number,
+          organisation_id: before.organisasi_kode,
+          valid_until: before.valid_until,
+          previous_status: before.status as Quote['status']
+        },
+        error: null
+      };
+    } catch (error) {
+      await connection.rollback();
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Pindahkan valid_until estimasi dan catat perpanjangan dengan catatannya. Quote yang di-expire
+   * oleh expiry job dibuka lagi di status sebelumnya; quote lain yang expired tidak bisa diperpanjang.
+   * Return null jika quote tidak ditemukan atau tidak bisa diperpanjang.
+   */
+  async extendQuoteValidityAlvamitra(
+    quoteId: string,
+    validUntil: string,
+    note: string
+  ): Promise<{ data: { quote: any; extension: QuoteValidityExtension } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // 1️⃣ Lock quote & cek status
+      const locked = await this.lockQuoteAlvamitra(connection, quoteId);
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([quoteId]);
+      if (stateError) {
+        throw stateError;
+      }
+
+      const before = locked && this.withQuoteState(locked, states);
+      const reopen = before?.status === 'expired' && !!before.expired_from;
+      if (!before || (!ALVAMITRA_OPEN_QUOTE_STATUSES.includes(before.status) && !reopen)) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      // 2️⃣ Quote yang di-expire oleh job kembali ke status sebelumnya
+      const after = { ...before, status: reopen ? before.expired_from! : before.status };
+      if (reopen) {
+        await connection.query(
+          `UPDATE tb_store_estimasi_sub SET Status = ? WHERE Id_Estimasi_Sub = ?`,
+          [this.toEstimasiStatus(after.status), before.sub_id]
+        );
+      }
+
+      // 3️⃣ valid_until, versi, revisi & audit perpanjangan (Postgres)
+      const userId = getRequestContext()?.userId || null;
+      const { data, error: changeError } = await db.execute<AlvamitraQuoteState & { extension: QuoteValidityExtension }>(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}, extension AS (
+          INSERT INTO quote_validity_extensions (
+            quote_id, previous_valid_until, new_valid_until, previous_status, note, extended_by, organisation_id
+          )
+          SELECT quote_id, $8, valid_until, $9, $10, $11, $3
+          FROM changed
+          RETURNING *
+        )
+        SELECT c.quote_id, c.version, c.valid_until, c.expired_from, c.updated_at, row_to_json(e) AS extension
+        FROM changed c
+        JOIN extension e ON e.quote_id = c.quote_id`,
+        [
+          ...this.quoteChangeValues(before, after, reopen ? ['valid_until', 'status'] : ['valid_until'], {
+            changedBy: userId,
+            validUntil
+          }),
+          before.valid_until,
+          before.status,
+          note,
+          userId
+        ],
+        'extend_quote_validity_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+
+      const row = data && data.length > 0 ? data[0] : null;
+      if (!row) {
+        throw new Error('Quote validity extension was not recorded');
+      }
+
+      await connection.commit();
+
+      const { extension, ...state } = row;
+      return { data: { quote: this.withQuoteState(after, new Map([[state.quote_id, state]])), extension }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error extending quote validity in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Validity extensions of a quote, newest first
+   */
+  async getQuoteValidityExtensions(quoteId: string): Promise<{ data: QuoteValidityExtension[] | null; error: any }> {
+    const { data, error } = await db.execute<QuoteValidityExtension>(
+      `SELECT e.id, e.quote_id, e.previous_valid_until, e.new_valid_until, e.previous_status,
+              e.note, e.extended_by, e.created_at
+       FROM quote_validity_extensions e
+       WHERE e.quote_id = $1 AND ($2::text IS NULL OR e.organisation_id = $2)
+       ORDER BY e.created_at DESC`,
+      [String(quoteId), this.organisasiKode],
+      'get_quote_validity_extensions'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Tandai estimasi draft (atau yang sudah sent) sebagai sent dan buat share link baru; link lama
+   * dicabut. Return null jika quote tidak ditemukan atau tidak bisa dikirim.
+   */
+  async sendQuoteAlvamitra(
+    quoteId: string,
+    tokenHash: string,
+    expiresAt: string
+  ): Promise<{ data: { quote: any; share_link: QuoteShareLink } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // 1️⃣ Lock quote & cek status
+      const locked = await this.lockQuoteAlvamitra(connection, quoteId);
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([quoteId]);
+      if (stateError) {
+        throw stateError;
+      }
+
+      const before = locked && this.withQuoteState(locked, states);
+      if (!before || !['draft', 'sent'].includes(before.status)) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      // 2️⃣ Status sent + link baru (kirim ulang: hanya link baru, tanpa versi/revisi baru)
+      const after = { ...before, status: 'sent' };
+      const userId = getRequestContext()?.userId || null;
+
+      let result;
+      if (before.status !== 'sent') {
+        await connection.query(
+          `UPDATE tb_store_estimasi_sub SET Status = 'Sent' WHERE Id_Estimasi_Sub = ?`,
+          [before.sub_id]
+        );
+        result = await db.execute<AlvamitraQuoteState & { share_link: QuoteShareLink }>(
+          `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}, revoked AS (
+            UPDATE quote_share_links
+            SET revoked_at = now()
+            WHERE quote_id = $1 AND revoked_at IS NULL
+          ), link AS (
+            INSERT INTO quote_share_links (quote_id, token_hash, expires_at, created_by, organisation_id)
+            SELECT quote_id, $8, $9, $10, $3
+            FROM changed
+            RETURNING id, quote_id, expires_at, view_count, created_by, created_at
+          )
+          SELECT c.quote_id, c.version, c.valid_until, c.expired_from, c.updated_at, row_to_json(l) AS share_link
+          FROM changed c
+          JOIN link l ON l.quote_id = c.quote_id`,
+          [...this.quoteChangeValues(before, after, ['status'], { changedBy: userId }), tokenHash, expiresAt, userId],
+          'send_quote_alvamitra'
+        );
+      } else {
+        result = await db.execute<{ share_link: QuoteShareLink }>(
+          `WITH revoked AS (
+            UPDATE quote_share_links
+            SET revoked_at = now()
+            WHERE quote_id = $1 AND revoked_at IS NULL
+          ), link AS (
+            INSERT INTO quote_share_links (quote_id, token_hash, expires_at, created_by, organisation_id)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id, quote_id, expires_at, view_count, created_by, created_at
+          )
+          SELECT row_to_json(l) AS share_link
+          FROM link l`,
+          [String(quoteId), tokenHash, expiresAt, userId, before.organisasi_kode || null],
+          'resend_quote_alvamitra'
+        );
+      }
+
+      if (result.error) {
+        throw result.error;
+      }
+      const row = result.data && result.data.length > 0 ? result.data[0] : null;
+      if (!row) {
+        throw new Error('Quote share link was not created');
+      }
+
+      await connection.commit();
+
+      const { share_link, ...state } = row as AlvamitraQuoteState & { share_link: QuoteShareLink };
+      const quote = before.status !== 'sent' ? this.withQuoteState(after, new Map([[state.quote_id, state]])) : before;
+      return { data: { quote, share_link }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error sending quote in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Active (not revoked, not expired) share link by token hash. Public requests have no
+   * session or organisation; the link's organisation scopes the follow-up queries.
+   */
+  async getQuoteShareLink(tokenHash: string): Promise<{ data: QuoteShareLink | null; error: any }> {
+    const { data, error } = await db.execute<QuoteShareLink>(
+      `SELECT id, quote_id, expires_at, revoked_at, view_count, last_viewed_at, created_by, organisation_id, created_at
+       FROM quote_share_links
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > now()`,
+      [tokenHash],
+      'get_quote_share_link'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Quote behind a share link (with the customer's response, if any); counts the view.
+   * Public requests have no organisation; the link's organisation must match the estimasi.
+   */
+  async getSharedQuoteAlvamitra(
+    link: QuoteShareLink
+  ): Promise<{ data: any | null; error: any }> {
+    const { data, error } = await db.execute<{ customer_response: QuoteCustomerResponse | null }>(
+      `WITH viewed AS (
+        UPDATE quote_share_links
+        SET view_count = view_count + 1, last_viewed_at = now()
+        WHERE id = $2
+      )
+      SELECT (SELECT row_to_json(r) FROM (
+          SELECT id, quote_id, share_link_id, decision, customer_name, comment, responded_at
+          FROM quote_customer_responses
+          WHERE quote_id = $1
+        ) r) AS customer_response`,
+      [link.quote_id, link.id],
+      'get_shared_quote'
+    );
+    if (error) {
+      return { data: null, error };
+    }
+
+    const quote = await this.getQuoteAlvamitra(link.quote_id);
+    if (quote.error || !quote.data || (link.organisation_id && quote.data.organisasi_kode !== link.organisation_id)) {
+      return { data: null, error: quote.error };
+    }
+
+    return { data: { ...quote.data, customer_response: data?.[0]?.customer_response || null }, error: null };
+  }
+
+  /**
+   * Catat accept/reject customer lewat share link. Hanya estimasi sent yang belum lewat
+   * valid_until bisa dijawab; return null jika tidak.
+   */
+  async respondToSharedQuoteAlvamitra(
+    link: QuoteShareLink,
+    response: {
+      decision: QuoteCustomerResponse['decision'];
+      customer_name: string;
+      comment?: string;
+      ip_address?: string;
+      user_agent?: string;
+    }
+  ): Promise<{ data: { quote: any; customer_response: QuoteCustomerResponse } | null; error: any }> {
+    const connection = await poolAlvamitra.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // 1️⃣ Lock quote & cek status, organisasi dan masa berlaku
+      const locked = await this.lockQuoteAlvamitra(connection, link.quote_id);
+      const { data: states, error: stateError } = await this.getQuoteStatesAlvamitra([link.quote_id]);
+      if (stateError) {
+        throw stateError;
+      }
+
+      const before = locked && this.withQuoteState(locked, states);
+      if (
+        !before ||
+        before.status !== 'sent' ||
+        (link.organisation_id && before.organisasi_kode !== link.organisation_id) ||
+        new Date(before.valid_until).getTime() <= Date.now()
+      ) {
+        await connection.rollback();
+        return { data: null, error: null };
+      }
+
+      // 2️⃣ Status mengikuti keputusan customer
+      const after = { ...before, status: response.decision };
+      await connection.query(
+        `UPDATE tb_store_estimasi_sub SET Status = ? WHERE Id_Estimasi_Sub = ?`,
+        [this.toEstimasiStatus(response.decision), before.sub_id]
+      );
+
+      // 3️⃣ Versi, revisi & jawaban customer (Postgres)
+      const { data, error: changeError } = await db.execute<AlvamitraQuoteState & { customer_response: QuoteCustomerResponse }>(
+        `WITH ${ALVAMITRA_QUOTE_CHANGE_CTE}, response AS (
+          INSERT INTO quote_customer_responses (
+            quote_id, share_link_id, decision, customer_name, comment, ip_address, user_agent, organisation_id
+          )
+          SELECT quote_id, $8, $9, $10, $11, $12, $13, $3
+          FROM changed
+          RETURNING id, quote_id, share_link_id, decision, customer_name, comment, responded_at
+        )
+        SELECT c.quote_id, c.version, c.valid_until, c.expired_from, c.updated_at, row_to_json(r) AS customer_response
+        FROM changed c
+        JOIN response r ON r.quote_id = c.quote_id`,
+        [
+          ...this.quoteChangeValues(before, after, ['status'], { changedBy: `customer:${link.id}` }),
+          link.id,
+          response.decision,
+          response.customer_name,
+          response.comment || null,
+          response.ip_address || null,
+          response.user_agent || null
+        ],
+        'respond_to_shared_quote_alvamitra'
+      );
+      if (changeError) {
+        throw changeError;
+      }
+
+      const row = data && data.length > 0 ? data[0] : null;
+      if (!row) {
+        throw new Error('Customer response was not recorded');
+      }
+
+      await connection.commit();
+
+      const { customer_response, ...state } = row;
+      return { data: { quote: this.withQuoteState(after, new Map([[state.quote_id, state]])), customer_response }, error: null };
+    } catch (error) {
+      await connection.rollback();
+      Logger.error('Error recording customer response in MySQL', error);
+      return { data: null, error };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Open an approval request for a quote, or refresh the figures of the one already pending
+   */
+  async upsertPendingQuoteApproval(
+    approval: Pick<QuoteApproval, 'quote_id' | 'quote_store' | 'quote_number' | 'requested_role' | 'discount_percent' | 'margin_percent' | 'final_total' | 'reasons'>
+  ): Promise<{ data: QuoteApproval | null; error: any }> {
+    const { data, error } = await this.executeWithSession<QuoteApproval>(
+      `INSERT INTO quote_approvals (
+        quote_id, quote_store, quote_number, requested_by, requested_role,
+        discount_percent, margin_percent, final_total, reasons, organisation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (quote_store, quote_id) WHERE status = 'pending'
+      DO UPDATE SET
+        quote_number = EXCLUDED.quote_number,
+        requested_by = EXCLUDED.requested_by,
+        requested_role = EXCLUDED.requested_role,
+        discount_percent = EXCLUDED.discount_percent,
+        margin_percent = EXCLUDED.margin_percent,
+        final_total = EXCLUDED.final_total,
+        reasons = EXCLUDED.reasons,
+        updated_at = now()
+      RETURNING *`,
+      [
+        approval.quote_id,
+        approval.quote_store,
+        approval.quote_number || null,
+        getRequestContext()?.userId || null,
+        approval.requested_role || null,
+        approval.discount_percent,
+        approval.margin_percent,
+        approval.final_total,
+        JSON.stringify(approval.reasons || []),
+        this.organisasiKode
+      ],
+      'upsert_pending_quote_approval'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Approval requests in the current organisation, newest first
+   */
+  async getQuoteApprovals(
+    filters: QuoteApprovalFilters = {},
+    limit = 50,
+    offset = 0
+  ): Promise<{ data: QuoteApproval[] | null; error: any }> {
+    const { data, error } = await this.executeWithSession<QuoteApproval>(
+      `SELECT * FROM quote_approvals
+       WHERE ($1::text IS NULL OR organisation_id = $1)
+         AND ($2::text IS NULL OR status = $2)
+         AND ($3::text IS NULL OR quote_store = $3)
+         AND ($4::text IS NULL OR quote_id = $4)
+       ORDER BY created_at DESC
+       LIMIT $5 OFFSET $6`,
+      [
+        this.organisasiKode,
+        filters.status || null,
+        filters.quote_store || null,
+        filters.quote_id || null,
+        limit,
+        offset
+      ],
+      'get_quote_approvals'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Record the decision on a pending approval request (null if it is no longer pending)
+   */
+  async decideQuoteApproval(
+    approvalId: string,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<{ data: QuoteApproval | null; error: any }> {
+    const { data, error } = await this.executeWithSession<QuoteApproval>(
+      `UPDATE quote_approvals
+       SET status = $2, decision_comment = $3, decided_by = $4, decided_at = now(), updated_at = now()
+       WHERE id = $1 AND status = 'pending' AND ($5::text IS NULL OR organisation_id = $5)
+       RETURNING *`,
+      [approvalId, decision, comment || null, getRequestContext()?.userId || null, this.organisasiKode],
+      'decide_quote_approval'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Generate unique quote number
+   */
+  async generateQuoteNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const prefix = `QT${year}-`;
 
     // Get the last quote number for this year
     const { data } = await db.execute<{ quote_number: string }>(
@@ -1154,6 +3379,16 @@ export class DatabaseService {
     return `${prefix}${nextNumber.toString().padStart(3, '0')}`;
   }
 
+  /**
+   * Generate unique quote number untuk estimasi Alvamitra (tanpa query nomor terakhir)
+   */
+  generateQuoteNumberAlvamitra(): string {
+    const year = new Date().getFullYear();
+    const timestamp = Date.now().toString().slice(-6);
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `QT${year}-${timestamp}${random}`;
+  }
+
   // ====================================
   // TEMPLATE OPERATIONS
   // ====================================
@@ -1165,8 +3400,8 @@ export class DatabaseService {
     const { data, error } = await this.executeWithSession<Template>(
       `INSERT INTO templates (
         session_id, name, description, category, template_data, tags, 
-        is_public, usage_count, created_by, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 0, $8, $9, $9)
+        is_public, usage_count, created_by, created_at, updated_at, organisation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 0, $8, $9, $9, $10)
       RETURNING *`,
       [
         this.sessionId,
@@ -1174,10 +3409,11 @@ export class DatabaseService {
         template.description,
         template.category,
         JSON.stringify(template.template_data),
-        JSON.stringify(template.tags),
+        template.tags || [],
         template.is_public,
-        template.created_by,
-        new Date().toISOString()
+        template.created_by || getRequestContext()?.userId || null,
+        new Date().toISOString(),
+        this.organisasiKode
       ],
       'create_template'
     );
@@ -1186,22 +3422,34 @@ export class DatabaseService {
   }
 
   /**
-   * Get public templates and session templates
+   * Get public templates and the current user's / session's templates
    */
-  async getTemplates(category?: string, limit = 50): Promise<{ data: Template[] | null; error: any }> {
+  async getTemplates(category?: string, limit = 50, filters: TemplateListFilters = {}): Promise<{ data: Template[] | null; error: any }> {
+    const queryParams: any[] = [this.sessionId, this.organisasiKode, getRequestContext()?.userId || null];
+    const visibility = filters.mine
+      ? '(session_id = $1 OR created_by = $3)'
+      : '(is_public = true OR session_id = $1 OR created_by = $3)';
     let queryText = `
       SELECT * FROM templates 
-      WHERE (is_public = true OR session_id = $1)
+      WHERE ${visibility}
+        AND (organisation_id IS NULL OR $2::text IS NULL OR organisation_id = $2)
     `;
-    const queryParams: any[] = [this.sessionId];
 
     if (category) {
-      queryText += ' AND category = $2';
       queryParams.push(category);
+      queryText += ` AND category = $${queryParams.length}`;
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      queryParams.push(filters.tags);
+      queryText += ` AND tags @> $${queryParams.length}::text[]`;
+    }
+    if (filters.search) {
+      queryParams.push(filters.search);
+      queryText += ` AND search_vector @@ plainto_tsquery('english', $${queryParams.length})`;
     }
 
-    queryText += ' ORDER BY usage_count DESC, updated_at DESC LIMIT $' + (queryParams.length + 1);
     queryParams.push(limit);
+    queryText += ` ORDER BY usage_count DESC, updated_at DESC LIMIT $${queryParams.length}`;
 
     const { data, error } = await this.executeWithSession<Template>(
       queryText,
@@ -1212,19 +3460,131 @@ export class DatabaseService {
     return { data: data || [], error };
   }
 
+  /**
+   * Public templates of the organisation (and shared system templates) with popularity stats
+   */
+  async getTemplateGallery(
+    category?: string,
+    filters: Omit<TemplateListFilters, 'mine'> = {},
+    limit = 24,
+    offset = 0
+  ): Promise<{ data: TemplateGalleryEntry[] | null; total: number; error: any }> {
+    const queryParams: any[] = [this.organisasiKode];
+    let whereClause = `WHERE is_public = true AND (organisation_id IS NULL OR $1::text IS NULL OR organisation_id = $1)`;
+
+    if (category) {
+      queryParams.push(category);
+      whereClause += ` AND category = $${queryParams.length}`;
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      queryParams.push(filters.tags);
+      whereClause += ` AND tags @> $${queryParams.length}::text[]`;
+    }
+    if (filters.search) {
+      queryParams.push(filters.search);
+      whereClause += ` AND search_vector @@ plainto_tsquery('english', $${queryParams.length})`;
+    }
+
+    const countResult = await this.executeWithSession<{ total: string }>(
+      `SELECT count(*) AS total FROM template_gallery ${whereClause}`,
+      queryParams,
+      'count_template_gallery'
+    );
+    if (countResult.error) {
+      return { data: null, total: 0, error: countResult.error };
+    }
+
+    const { data, error } = await this.executeWithSession<TemplateGalleryEntry>(
+      `SELECT * FROM template_gallery ${whereClause}
+       ORDER BY usage_count DESC, updated_at DESC
+       LIMIT $${queryParams.length + 1} OFFSET $${queryParams.length + 2}`,
+      [...queryParams, limit, offset],
+      'get_template_gallery'
+    );
+
+    return { data: data || [], total: parseInt(countResult.data?.[0]?.total || '0'), error };
+  }
+
+  /**
+   * Tags in use on templates visible to the current user, with counts
+   */
+  async getTemplateTags(): Promise<{ data: Array<{ tag: string; count: number }> | null; error: any }> {
+    const { data, error } = await this.executeWithSession<{ tag: string; count: string }>(
+      `SELECT tag, count(*) AS count
+       FROM templates, unnest(tags) AS tag
+       WHERE (is_public = true OR session_id = $1 OR created_by = $3)
+         AND (organisation_id IS NULL OR $2::text IS NULL OR organisation_id = $2)
+       GROUP BY tag
+       ORDER BY count(*) DESC, tag`,
+      [this.sessionId, this.organisasiKode, getRequestContext()?.userId || null],
+      'get_template_tags'
+    );
+
+    return { data: (data || []).map(row => ({ tag: row.tag, count: parseInt(row.count) })), error };
+  }
+
   /**
    * Get template by ID
    */
   async getTemplate(templateId: string): Promise<{ data: Template | null; error: any }> {
     const { data, error } = await this.executeWithSession<Template>(
-      'SELECT * FROM templates WHERE id = $1 AND (is_public = true OR session_id = $2)',
-      [templateId, this.sessionId],
+      `SELECT * FROM templates WHERE id = $1 AND (is_public = true OR session_id = $2 OR created_by = $4)
+        AND (organisation_id IS NULL OR $3::text IS NULL OR organisation_id = $3)`,
+      [templateId, this.sessionId, this.organisasiKode, getRequestContext()?.userId || null],
       'get_template'
     );
 
     return { data: data && data.length > 0 ? data[0] : null, error };
   }
 
+  /**
+   * Update a template owned by the current user / session (system templates are read-only)
+   */
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<Pick<Template, 'name' | 'description' | 'category' | 'template_data' | 'tags' | 'is_public'>>
+  ): Promise<{ data: Template | null; error: any }> {
+    const updateFields: string[] = [];
+    const queryParams: any[] = [templateId, this.sessionId, this.organisasiKode, getRequestContext()?.userId || null];
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === undefined) return;
+      queryParams.push(key === 'template_data' ? JSON.stringify(value) : value);
+      updateFields.push(`${key} = $${queryParams.length}`);
+    });
+
+    if (updateFields.length === 0) {
+      return { data: null, error: { message: 'No fields to update' } };
+    }
+
+    const { data, error } = await this.executeWithSession<Template>(
+      `UPDATE templates SET ${updateFields.join(', ')}, updated_at = now()
+       WHERE id = $1 AND (session_id = $2 OR created_by = $4)
+         AND ($3::text IS NULL OR organisation_id = $3)
+       RETURNING *`,
+      queryParams,
+      'update_template'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Delete a template owned by the current user / session
+   */
+  async deleteTemplate(templateId: string): Promise<{ data: Template | null; error: any }> {
+    const { data, error } = await this.executeWithSession<Template>(
+      `DELETE FROM templates
+       WHERE id = $1 AND (session_id = $2 OR created_by = $4)
+         AND ($3::text IS NULL OR organisation_id = $3)
+       RETURNING *`,
+      [templateId, this.sessionId, this.organisasiKode, getRequestContext()?.userId || null],
+      'delete_template'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
   /**
    * Increment template usage
    */
@@ -1232,9 +3592,9 @@ export class DatabaseService {
     const { data, error } = await this.executeWithSession(
       `UPDATE templates 
        SET usage_count = usage_count + 1, last_used_at = $1 
-       WHERE id = $2
+       WHERE id = $2 AND (organisation_id IS NULL OR $3::text IS NULL OR organisation_id = $3)
        RETURNING usage_count`,
-      [new Date().toISOString(), templateId],
+      [new Date().toISOString(), templateId, this.organisasiKode],
       'increment_template_usage'
     );
 
@@ -1253,8 +3613,8 @@ export class DatabaseService {
       `INSERT INTO boq_imports (
         session_id, filename, original_filename, file_size, mime_type, 
         status, processing_progress, error_message, total_items, 
-        matched_items, unmatched_items, import_data, uploaded_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        matched_items, unmatched_items, import_data, uploaded_at, organisation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *`,
       [
         boqImport.session_id,
@@ -1269,7 +3629,8 @@ export class DatabaseService {
         boqImport.matched_items,
         boqImport.unmatched_items,
         JSON.stringify(boqImport.import_data),
-        new Date().toISOString()
+        new Date().toISOString(),
+        this.organisasiKode
       ],
       'create_boq_import'
     );
@@ -1282,12 +3643,12 @@ export class DatabaseService {
    */
   async updateBOQImport(importId: string, updates: Partial<BOQImport>): Promise<{ data: BOQImport | null; error: any }> {
     const updateFields: string[] = [];
-    const queryParams: any[] = [importId, this.sessionId];
-    let paramCount = 2;
+    const queryParams: any[] = [importId, this.sessionId, this.organisasiKode];
+    let paramCount = 3;
 
     // Build dynamic update query
     Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined && key !== 'id') {
+      if (value !== undefined && key !== 'id' && key !== 'organisation_id') {
         paramCount++;
         if (key === 'import_data') {
           updateFields.push(`${key} = $${paramCount}`);
@@ -1301,7 +3662,7 @@ export class DatabaseService {
 
     const { data, error } = await this.executeWithSession<BOQImport>(
       `UPDATE boq_imports SET ${updateFields.join(', ')} 
-       WHERE id = $1 AND session_id = $2
+       WHERE id = $1 AND session_id = $2 AND ($3::text IS NULL OR organisation_id = $3)
        RETURNING *`,
       queryParams,
       'update_boq_import'
@@ -1316,16 +3677,262 @@ export class DatabaseService {
   async getBOQImports(limit = 20): Promise<{ data: BOQImport[] | null; error: any }> {
     const { data, error } = await this.executeWithSession<BOQImport>(
       `SELECT * FROM boq_imports 
-       WHERE session_id = $1 
+       WHERE session_id = $1 AND ($3::text IS NULL OR organisation_id = $3)
        ORDER BY uploaded_at DESC 
        LIMIT $2`,
-      [this.sessionId, limit],
+      [this.sessionId, limit, this.organisasiKode],
       'get_boq_imports'
     );
 
     return { data: data || [], error };
   }
 
+  /**
+   * Get a single BOQ import of the session
+   */
+  async getBOQImport(importId: string): Promise<{ data: BOQImport | null; error: any }> {
+    const { data, error } = await this.executeWithSession<BOQImport>(
+      `SELECT * FROM boq_imports
+       WHERE id = $1 AND session_id = $2 AND ($3::text IS NULL OR organisation_id = $3)`,
+      [importId, this.sessionId, this.organisasiKode],
+      'get_boq_import'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Learned aliases (normalised BOQ wording) with their active products
+   */
+  async getProductAliases(aliases: string[]): Promise<{ data: any[] | null; error: any }> {
+    if (aliases.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data, error } = await this.executeWithSession(
+      `SELECT a.alias, p.id, p.sku, p.name, p.category, p.price
+       FROM boq_product_aliases a
+       JOIN products p ON p.id = a.product_id AND p.is_active = true
+       WHERE a.alias = ANY($1::text[]) AND ($2::text IS NULL OR a.organisation_id = $2)`,
+      [aliases, this.organisasiKode],
+      'get_product_aliases'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Remember (or re-point) an alias for the current organisation
+   */
+  async upsertProductAlias(alias: string, productId: string): Promise<{ data: any | null; error: any }> {
+    const { data, error } = await this.executeWithSession(
+      `INSERT INTO boq_product_aliases (organisation_id, alias, product_id, created_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ((coalesce(organisation_id, '')), alias)
+       DO UPDATE SET product_id = EXCLUDED.product_id, created_by = EXCLUDED.created_by, updated_at = now()
+       RETURNING *`,
+      [this.organisasiKode, alias, productId, getRequestContext()?.userId || null],
+      'upsert_product_alias'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  // ====================================
+  // EXPORT JOB OPERATIONS
+  // ====================================
+
+  /**
+   * Queue an export job for the current user and organisation
+   */
+  async createExportJob(
+    job: Pick<ExportJob, 'job_type' | 'format' | 'params' | 'max_attempts'>
+  ): Promise<{ data: ExportJob | null; error: any }> {
+    const context = getRequestContext();
+
+    const { data, error } = await db.execute<ExportJob>(
+      `INSERT INTO export_jobs (
+        job_type, format, params, max_attempts, user_id, organisation_id, organisation_id_smartjmp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        job.job_type,
+        job.format,
+        JSON.stringify(job.params || {}),
+        job.max_attempts,
+        context?.userId || null,
+        this.organisasiKode,
+        context?.organisasiKodeSmartjmp || null
+      ],
+      'create_export_job'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Get export job, scoped to the current organisation
+   */
+  async getExportJob(jobId: string): Promise<{ data: ExportJob | null; error: any }> {
+    const { data, error } = await db.execute<ExportJob>(
+      `SELECT * FROM export_jobs
+       WHERE id = $1 AND ($2::text IS NULL OR organisation_id = $2)`,
+      [jobId, this.organisasiKode],
+      'get_export_job'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Claim the oldest runnable queued job (SKIP LOCKED, so several workers never take the same job)
+   */
+  async claimNextExportJob(): Promise<{ data: ExportJob | null; error: any }> {
+    const { data, error } = await db.execute<ExportJob>(
+      `UPDATE export_jobs
+       SET status = 'processing', attempts = attempts + 1, progress = 0,
+           started_at = now(), updated_at = now()
+       WHERE id = (
+         SELECT id FROM export_jobs
+         WHERE status = 'queued' AND run_after <= now()
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [],
+      'claim_export_job'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Update export job state (worker side, not tenant scoped)
+   */
+  async updateExportJob(jobId: string, updates: Partial<ExportJob>): Promise<{ data: ExportJob | null; error: any }> {
+    const updateFields: string[] = [];
+    const queryParams: any[] = [jobId];
+    let paramCount = 1;
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'id' && key !== 'organisation_id') {
+        paramCount++;
+        if (key === 'params' || key === 'result') {
+          updateFields.push(`${key} = $${paramCount}`);
+          queryParams.push(value === null ? null : JSON.stringify(value));
+        } else {
+          updateFields.push(`${key} = $${paramCount}`);
+          queryParams.push(value);
+        }
+      }
+    });
+
+    updateFields.push('updated_at = now()');
+
+    const { data, error } = await db.execute<ExportJob>(
+      `UPDATE export_jobs SET ${updateFields.join(', ')}
+       WHERE id = $1
+       RETURNING *`,
+      queryParams,
+      'update_export_job'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Put jobs that were processing when the server stopped back in the queue;
+   * the interrupted run counts as an attempt, so jobs without attempts left are failed
+   */
+  async requeueInterruptedExportJobs(): Promise<{ data: ExportJob[] | null; error: any }> {
+    const { data, error } = await db.execute<ExportJob>(
+      `UPDATE export_jobs
+       SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+           error_message = CASE WHEN attempts < max_attempts THEN error_message ELSE 'Interrupted by server restart' END,
+           completed_at = CASE WHEN attempts < max_attempts THEN NULL ELSE now() END,
+           run_after = now(), updated_at = now()
+       WHERE status = 'processing'
+       RETURNING *`,
+      [],
+      'requeue_export_jobs'
+    );
+
+    return { data: data || [], error };
+  }
+
+  /**
+   * Register a generated export file for the current user and organisation
+   */
+  async createExportFile(
+    file: Pick<ExportFileRecord, 'filename' | 'format' | 'mime_type' | 'file_size' | 'max_downloads' | 'expires_at'>
+  ): Promise<{ data: ExportFileRecord | null; error: any }> {
+    const { data, error } = await db.execute<ExportFileRecord>(
+      `INSERT INTO export_files (
+        filename, format, mime_type, file_size, max_downloads, expires_at, user_id, organisation_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        file.filename,
+        file.format,
+        file.mime_type,
+        file.file_size,
+        file.max_downloads,
+        file.expires_at,
+        getRequestContext()?.userId || null,
+        this.organisasiKode
+      ],
+      'create_export_file'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Get export file by ID (not tenant scoped: download links are authorised by their signature)
+   */
+  async getExportFileRecord(fileId: string): Promise<{ data: ExportFileRecord | null; error: any }> {
+    const { data, error } = await db.execute<ExportFileRecord>(
+      'SELECT * FROM export_files WHERE id = $1',
+      [fileId],
+      'get_export_file'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Count a download; returns null when the file has expired or reached its download limit
+   */
+  async registerExportFileDownload(fileId: string): Promise<{ data: ExportFileRecord | null; error: any }> {
+    const { data, error } = await db.execute<ExportFileRecord>(
+      `UPDATE export_files
+       SET download_count = download_count + 1, last_downloaded_at = now()
+       WHERE id = $1 AND download_count < max_downloads AND expires_at > now()
+       RETURNING *`,
+      [fileId],
+      'register_export_file_download'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
+  /**
+   * Give back a download that was counted but could not be served
+   */
+  async releaseExportFileDownload(fileId: string): Promise<{ data: ExportFileRecord | null; error: any }> {
+    const { data, error } = await db.execute<ExportFileRecord>(
+      `UPDATE export_files
+       SET download_count = GREATEST(download_count - 1, 0)
+       WHERE id = $1
+       RETURNING *`,
+      [fileId],
+      'release_export_file_download'
+    );
+
+    return { data: data && data.length > 0 ? data[0] : null, error };
+  }
+
   // ====================================
   // SEARCH OPERATIONS
   // ====================================
@@ -1358,7 +3965,8 @@ export class DatabaseService {
           0.9 as search_rank,
           jsonb_build_object('company', company, 'phone', phone) as metadata
         FROM customers 
-        WHERE session_id = $2 AND (name ILIKE $1 OR email ILIKE $1 OR company ILIKE $1)
+        WHERE session_id = $2 AND ($4::text IS NULL OR organisation_id = $4)
+          AND (name ILIKE $1 OR email ILIKE $1 OR company ILIKE $1)
         
         UNION ALL
         
@@ -1371,7 +3979,7 @@ export class DatabaseService {
           0.8 as search_rank,
           jsonb_build_object('total', (cart_data->>'finalTotal')::numeric) as metadata
         FROM quotes 
-        WHERE session_id = $2 AND quote_number ILIKE $1
+        WHERE session_id = $2 AND ($4::text IS NULL OR organisation_id = $4) AND quote_number ILIKE $1
         
         UNION ALL
         
@@ -1384,11 +3992,13 @@ export class DatabaseService {
           0.7 as search_rank,
           jsonb_build_object('usage_count', usage_count, 'tags', tags) as metadata
         FROM templates 
-        WHERE (is_public = true OR session_id = $2) AND name ILIKE $1
+        WHERE (is_public = true OR session_id = $2)
+          AND (organisation_id IS NULL OR $4::text IS NULL OR organisation_id = $4)
+          AND name ILIKE $1
       ) combined_results 
       ORDER BY search_rank DESC, title 
       LIMIT $3`,
-      [`%${query}%`, this.sessionId, limit],
+      [`%${query}%`, this.sessionId, limit, this.organisasiKode],
       'global_search'
     );
 
@@ -1413,10 +4023,10 @@ export class DatabaseService {
       queryText = `
         SELECT DISTINCT name as suggestion, 'customer' as type 
         FROM customers 
-        WHERE session_id = $2 AND name ILIKE $1
+        WHERE session_id = $2 AND ($3::text IS NULL OR organisation_id = $3) AND name ILIKE $1
         LIMIT 10
       `;
-      queryParams.push(this.sessionId);
+      queryParams.push(this.sessionId, this.organisasiKode);
     }
 
     const { data, error } = await this.executeWithSession(
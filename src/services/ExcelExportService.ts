@@ -0,0 +1,356 @@
+// ALVA POS MVP - Excel Export Service
+// XLSX workbooks (exceljs) for quotes and orders; totals are live formulas so figures can be edited offline
+
+import ExcelJS from 'exceljs';
+import { config } from '@/config/environment';
+import { Order } from '@/types/api';
+import { QuotationDocument } from '@/types/export';
+
+// One priced line (item or labor) in an Items / Labor sheet
+interface SheetLine {
+  lead: Array<string | number>;
+  quantity: number;
+  price: number;
+  discount: number;
+}
+
+interface LeadColumn {
+  header: string;
+  width: number;
+}
+
+const MONEY_FORMAT = '#,##0.00';
+const PERCENT_FORMAT = '0.00%';
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1F4E79' } };
+
+export class ExcelExportService {
+  private static instance: ExcelExportService;
+
+  static getInstance(): ExcelExportService {
+    if (!ExcelExportService.instance) {
+      ExcelExportService.instance = new ExcelExportService();
+    }
+    return ExcelExportService.instance;
+  }
+
+  /**
+   * Workbook for a single quote: Items, Labor and Totals sheets
+   */
+  async buildQuoteWorkbook(quote: QuotationDocument): Promise<Buffer> {
+    const workbook = this.createWorkbook();
+
+    const itemsLast = this.addLineSheet(
+      workbook,
+      'Items',
+      [{ header: 'No', width: 6 }, { header: 'Product ID', width: 14 }, { header: 'Name', width: 40 }, { header: 'Notes', width: 30 }],
+      quote.items.map((item, index) => ({
+        lead: [index + 1, item.productId, item.name, item.notes || ''],
+        quantity: item.quantity,
+        price: item.price,
+        discount: item.discount?.appliedAmount || 0
+      }))
+    );
+
+    const laborLast = this.addLineSheet(
+      workbook,
+      'Labor',
+      [{ header: 'No', width: 6 }, { header: 'Name', width: 40 }, { header: 'Description', width: 30 }, { header: 'Unit', width: 10 }],
+      quote.laborItems.map((labor, index) => ({
+        lead: [index + 1, labor.name, labor.description || '', labor.unit],
+        quantity: labor.quantity,
+        price: labor.rate,
+        discount: labor.discount?.appliedAmount || 0
+      }))
+    );
+
+    const { totals } = quote;
+    const totalDiscount = totals.totalDiscount?.appliedAmount || 0;
+    const taxable = totals.subtotal - totalDiscount;
+
+    const sheet = workbook.addWorksheet('Totals');
+    sheet.columns = [{ width: 22 }, { width: 22 }];
+
+    sheet.addRow(['Quote', quote.quote_number]);
+    sheet.addRow(['Status', quote.status]);
+    sheet.addRow(['Date', this.date(quote.created_at)]);
+    sheet.addRow(['Valid until', this.date(quote.valid_until)]);
+    sheet.addRow([]);
+
+    // Rows 6-15; discount and PPN rate are plain values so they can be edited
+    const discountCell = totals.totalDiscount?.type === 'percentage'
+      ? { formula: `B10*${(totals.totalDiscount.value || 0) / 100}`, result: totalDiscount }
+      : totalDiscount;
+
+    const rows: Array<[string, ExcelJS.CellValue, string]> = [
+      ['Items subtotal', { formula: `SUMPRODUCT(Items!E2:E${itemsLast},Items!F2:F${itemsLast})`, result: totals.itemsSubtotal }, MONEY_FORMAT],
+      ['Item discounts', { formula: `SUM(Items!G2:G${itemsLast})`, result: totals.itemDiscounts }, MONEY_FORMAT],
+      ['Labor subtotal', { formula: `SUMPRODUCT(Labor!E2:E${laborLast},Labor!F2:F${laborLast})`, result: totals.laborSubtotal }, MONEY_FORMAT],
+      ['Labor discounts', { formula: `SUM(Labor!G2:G${laborLast})`, result: totals.laborDiscounts }, MONEY_FORMAT],
+      ['Subtotal', { formula: 'B6-B7+B8-B9', result: totals.subtotal }, MONEY_FORMAT],
+      ['Total discount', discountCell, MONEY_FORMAT],
+      ['Taxable amount', { formula: 'B10-B11', result: taxable }, MONEY_FORMAT],
+      ['PPN rate', totals.taxRate, PERCENT_FORMAT],
+      ['PPN', { formula: 'ROUND(B12*B13,2)', result: totals.taxAmount }, MONEY_FORMAT],
+      ['Grand total', { formula: 'B12+B14', result: totals.finalTotal }, MONEY_FORMAT],
+    ];
+
+    rows.forEach(([label, value, numFmt]) => {
+      const row = sheet.addRow([label, value]);
+      row.getCell(2).numFmt = numFmt;
+    });
+    sheet.lastRow!.font = { bold: true };
+
+    if (quote.notes) {
+      sheet.addRow([]);
+      sheet.addRow(['Notes', quote.notes]);
+    }
+
+    return this.toBuffer(workbook);
+  }
+
+  /**
+   * Workbook for a list of quotes: Quotes, Items, Labor and Totals sheets
+   */
+  async buildQuoteListWorkbook(quotes: QuotationDocument[]): Promise<Buffer> {
+    const workbook = this.createWorkbook();
+
+    const sheet = workbook.addWorksheet('Quotes');
+    sheet.columns = [
+      { header: 'Quote No', width: 20 },
+      { header: 'Status', width: 12 },
+      { header: 'Date', width: 14 },
+      { header: 'Valid until', width: 14 },
+      { header: 'Items subtotal', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Labor subtotal', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Line discounts', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Total discount', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Taxable amount', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'PPN rate', width: 10, style: { numFmt: PERCENT_FORMAT } },
+      { header: 'PPN', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Grand total', width: 18, style: { numFmt: MONEY_FORMAT } },
+    ];
+    this.styleHeader(sheet);
+
+    quotes.forEach((quote, index) => {
+      const r = index + 2;
+      const { totals } = quote;
+      const totalDiscount = totals.totalDiscount?.appliedAmount || 0;
+
+      sheet.addRow([
+        quote.quote_number,
+        quote.status,
+        this.date(quote.created_at),
+        this.date(quote.valid_until),
+        totals.itemsSubtotal,
+        totals.laborSubtotal,
+        totals.itemDiscounts + totals.laborDiscounts,
+        totalDiscount,
+        { formula: `E${r}+F${r}-G${r}-H${r}`, result: totals.subtotal - totalDiscount },
+        totals.taxRate,
+        { formula: `ROUND(I${r}*J${r},2)`, result: totals.taxAmount },
+        { formula: `I${r}+K${r}`, result: totals.finalTotal },
+      ]);
+    });
+
+    const last = this.addSumRow(sheet, quotes.length, ['E', 'F', 'G', 'H', 'I', 'K', 'L']);
+
+    this.addLineSheet(
+      workbook,
+      'Items',
+      [{ header: 'Quote No', width: 20 }, { header: 'No', width: 6 }, { header: 'Product ID', width: 14 }, { header: 'Name', width: 40 }],
+      quotes.flatMap(quote => quote.items.map((item, index) => ({
+        lead: [quote.quote_number, index + 1, item.productId, item.name],
+        quantity: item.quantity,
+        price: item.price,
+        discount: item.discount?.appliedAmount || 0
+      })))
+    );
+
+    this.addLineSheet(
+      workbook,
+      'Labor',
+      [{ header: 'Quote No', width: 20 }, { header: 'No', width: 6 }, { header: 'Name', width: 40 }, { header: 'Unit', width: 10 }],
+      quotes.flatMap(quote => quote.laborItems.map((labor, index) => ({
+        lead: [quote.quote_number, index + 1, labor.name, labor.unit],
+        quantity: labor.quantity,
+        price: labor.rate,
+        discount: labor.discount?.appliedAmount || 0
+      })))
+    );
+
+    this.addSummarySheet(workbook, 'Quotes', last, [
+      ['Quotes', `COUNTA(Quotes!A2:A${last})`, quotes.length, '0'],
+      ['Taxable amount', `SUM(Quotes!I2:I${last})`, this.sum(quotes, q => q.totals.subtotal - (q.totals.totalDiscount?.appliedAmount || 0)), MONEY_FORMAT],
+      ['PPN', `SUM(Quotes!K2:K${last})`, this.sum(quotes, q => q.totals.taxAmount), MONEY_FORMAT],
+      ['Grand total', `SUM(Quotes!L2:L${last})`, this.sum(quotes, q => q.totals.finalTotal), MONEY_FORMAT],
+    ]);
+
+    return this.toBuffer(workbook);
+  }
+
+  /**
+   * Workbook for a list of orders: Orders, Items, Labor and Totals sheets
+   */
+  async buildOrderListWorkbook(orders: Order[]): Promise<Buffer> {
+    const workbook = this.createWorkbook();
+
+    const sheet = workbook.addWorksheet('Orders');
+    sheet.columns = [
+      { header: 'Order No', width: 20 },
+      { header: 'Status', width: 12 },
+      { header: 'Order date', width: 14 },
+      { header: 'Subtotal', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Promo', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'PPN rate', width: 10, style: { numFmt: PERCENT_FORMAT } },
+      { header: 'PPN', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Grand total', width: 18, style: { numFmt: MONEY_FORMAT } },
+    ];
+    this.styleHeader(sheet);
+
+    orders.forEach((order, index) => {
+      const r = index + 2;
+      sheet.addRow([
+        order.order_number,
+        order.status,
+        this.date(order.order_date),
+        order.subtotal,
+        order.promo_amount,
+        order.tax_rate,
+        { formula: `ROUND((D${r}-E${r})*F${r},2)`, result: order.tax_amount },
+        { formula: `D${r}-E${r}+G${r}`, result: order.final_total },
+      ]);
+    });
+
+    const last = this.addSumRow(sheet, orders.length, ['D', 'E', 'G', 'H']);
+
+    const toLine = (order: Order) => (item: Order['items'][number], index: number): SheetLine => ({
+      lead: [order.order_number, index + 1, item.productId, item.name],
+      quantity: item.quantity,
+      price: item.price,
+      discount: Math.max(item.price * item.quantity - item.total, 0)
+    });
+
+    this.addLineSheet(
+      workbook,
+      'Items',
+      [{ header: 'Order No', width: 20 }, { header: 'No', width: 6 }, { header: 'Product ID', width: 14 }, { header: 'Name', width: 40 }],
+      orders.flatMap(order => order.items.filter(item => item.tipeProduk !== 'Jasa').map(toLine(order)))
+    );
+
+    this.addLineSheet(
+      workbook,
+      'Labor',
+      [{ header: 'Order No', width: 20 }, { header: 'No', width: 6 }, { header: 'Product ID', width: 14 }, { header: 'Name', width: 40 }],
+      orders.flatMap(order => order.items.filter(item => item.tipeProduk === 'Jasa').map(toLine(order)))
+    );
+
+    this.addSummarySheet(workbook, 'Orders', last, [
+      ['Orders', `COUNTA(Orders!A2:A${last})`, orders.length, '0'],
+      ['Subtotal', `SUM(Orders!D2:D${last})`, this.sum(orders, o => o.subtotal), MONEY_FORMAT],
+      ['Promo', `SUM(Orders!E2:E${last})`, this.sum(orders, o => o.promo_amount), MONEY_FORMAT],
+      ['PPN', `SUM(Orders!G2:G${last})`, this.sum(orders, o => o.tax_amount), MONEY_FORMAT],
+      ['Grand total', `SUM(Orders!H2:H${last})`, this.sum(orders, o => o.final_total), MONEY_FORMAT],
+    ]);
+
+    return this.toBuffer(workbook);
+  }
+
+  private createWorkbook(): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = config.export.branding.companyName;
+    workbook.created = new Date();
+    // Cached results are written too, but let Excel recalculate after offline edits
+    workbook.calcProperties.fullCalcOnLoad = true;
+    return workbook;
+  }
+
+  /**
+   * Add an Items/Labor style sheet: 4 lead columns, then Qty (E), Price (F), Discount (G)
+   * and Total (H = E*F-G). Returns the last data row (at least 2, so ranges stay valid).
+   */
+  private addLineSheet(workbook: ExcelJS.Workbook, name: string, lead: LeadColumn[], lines: SheetLine[]): number {
+    const sheet = workbook.addWorksheet(name);
+    sheet.columns = [
+      ...lead,
+      { header: 'Qty', width: 8 },
+      { header: name === 'Labor' ? 'Rate' : 'Unit price', width: 16, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Discount', width: 14, style: { numFmt: MONEY_FORMAT } },
+      { header: 'Total', width: 18, style: { numFmt: MONEY_FORMAT } },
+    ];
+    this.styleHeader(sheet);
+
+    lines.forEach((line, index) => {
+      const r = index + 2;
+      sheet.addRow([
+        ...line.lead,
+        line.quantity,
+        line.price,
+        line.discount,
+        { formula: `E${r}*F${r}-G${r}`, result: line.quantity * line.price - line.discount },
+      ]);
+    });
+
+    return this.addSumRow(sheet, lines.length, ['H']);
+  }
+
+  /**
+   * Bold SUM row under the data; returns the last data row used in the ranges
+   */
+  private addSumRow(sheet: ExcelJS.Worksheet, dataRows: number, columns: string[]): number {
+    const last = Math.max(dataRows + 1, 2);
+    const row = sheet.getRow(last + 1);
+
+    row.getCell(1).value = 'Total';
+    columns.forEach(column => {
+      let result = 0;
+      for (let r = 2; r <= last; r++) {
+        const value = sheet.getRow(r).getCell(column).value as any;
+        result += Number(typeof value === 'object' && value !== null ? value.result : value) || 0;
+      }
+      row.getCell(column).value = { formula: `SUM(${column}2:${column}${last})`, result };
+    });
+    row.font = { bold: true };
+
+    return last;
+  }
+
+  private addSummarySheet(
+    workbook: ExcelJS.Workbook,
+    source: string,
+    last: number,
+    rows: Array<[string, string, number, string]>
+  ): void {
+    const sheet = workbook.addWorksheet('Totals');
+    sheet.columns = [{ width: 22 }, { width: 22 }];
+
+    sheet.addRow([`Summary of ${source} sheet (rows 2-${last})`]).font = { italic: true };
+    rows.forEach(([label, formula, result, numFmt]) => {
+      const row = sheet.addRow([label, { formula, result }]);
+      row.getCell(2).numFmt = numFmt;
+    });
+    sheet.lastRow!.font = { bold: true };
+  }
+
+  private styleHeader(sheet: ExcelJS.Worksheet): void {
+    const header = sheet.getRow(1);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.eachCell(cell => {
+      cell.fill = HEADER_FILL;
+    });
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  }
+
+  private sum<T>(rows: T[], pick: (row: T) => number): number {
+    return rows.reduce((total, row) => total + (pick(row) || 0), 0);
+  }
+
+  private date(value: string): string {
+    return value ? value.split('T')[0] : '';
+  }
+
+  private async toBuffer(workbook: ExcelJS.Workbook): Promise<Buffer> {
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
+
+export const excelExportService = ExcelExportService.getInstance();
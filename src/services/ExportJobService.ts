@@ -0,0 +1,410 @@
+// ALVA POS MVP - Export Job Service
+// Export generation (quote PDF/XLSX, quote and order list workbooks) and the background job queue
+
+import { databaseService, ExportJob } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { quotePdfService } from './QuotePdfService';
+import { excelExportService } from './ExcelExportService';
+import { simpleExportService } from './SimpleExportService';
+import ExportLoggerService from './ExportLoggerService';
+import { EXPORT_CONFIG, EXPORT_CONSTANTS } from '@/config/export';
+import { ExportError, ExportOptions, QuotationDocument } from '@/types/export';
+import { runWithRequestContext } from '@/utils/requestContext';
+import { Logger } from '@/utils/logger';
+
+export type ExportFormat = typeof EXPORT_CONSTANTS.SUPPORTED_FORMATS[number];
+export type ExportJobType = ExportJob['job_type'];
+
+export interface ExportListFilters {
+  status?: string[];
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface ExportFileResult {
+  fileId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  maxDownloads: number;
+  fileExpiresAt: string;  // file is deleted / no longer served after this
+  downloadUrl: string;
+  expiresAt: string;      // expiry of this download URL
+  rowCount?: number;
+  total?: number;
+  truncated?: boolean;
+}
+
+type ProgressCallback = (progress: number) => Promise<void> | void;
+
+// Errors that will fail again on retry (bad input, missing quote)
+const PERMANENT_ERROR_CODES: string[] = [
+  EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED,
+  EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND,
+];
+
+export class ExportJobService {
+  private static instance: ExportJobService;
+  private exportLogger = ExportLoggerService.getInstance();
+  private running = 0;
+  private draining = false;
+  private drainRequested = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): ExportJobService {
+    if (!ExportJobService.instance) {
+      ExportJobService.instance = new ExportJobService();
+    }
+    return ExportJobService.instance;
+  }
+
+  // ====================================
+  // EXPORT GENERATION
+  // ====================================
+
+  /**
+   * Render a quote (Alvamitra estimasi) as PDF or XLSX and store it
+   */
+  async exportQuote(
+    quoteId: string,
+    format: ExportFormat,
+    options: ExportOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<ExportFileResult> {
+    const quoteResult = await databaseService.getQuoteAlvamitra(quoteId);
+    if (quoteResult.error) {
+      throw new Error(quoteResult.error.message || 'Failed to load quote');
+    }
+    if (!quoteResult.data) {
+      throw new ExportError(EXPORT_CONSTANTS.ERROR_CODES.FILE_NOT_FOUND, 'Quote not found');
+    }
+
+    const quote = quoteResult.data;
+    if (quote.items.length + quote.laborItems.length > EXPORT_CONSTANTS.MAX_QUOTE_ITEMS) {
+      throw new ExportError(
+        EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED,
+        `Quote has more than ${EXPORT_CONSTANTS.MAX_QUOTE_ITEMS} lines`
+      );
+    }
+    await onProgress?.(30);
+
+    const document = this.toQuotationDocument(quote);
+    const data = format === 'excel'
+      ? await excelExportService.buildQuoteWorkbook(document)
+      : await quotePdfService.renderQuotation(document, options);
+    await onProgress?.(80);
+
+    return this.storeExport(format, `quotation-${quote.quote_number}`, data);
+  }
+
+  /**
+   * Export a filtered quote list as XLSX (Quotes, Items, Labor, Totals)
+   */
+  async exportQuoteList(
+    filters: ExportListFilters,
+    onProgress?: ProgressCallback
+  ): Promise<ExportFileResult> {
+    const result = await databaseService.getQuotesAlvamitra(filters, EXPORT_CONSTANTS.MAX_LIST_ROWS, 0);
+    if (result.error || !result.data) {
+      throw new Error(result.error?.message || 'Failed to load quotes');
+    }
+    await onProgress?.(30);
+
+    const data = await excelExportService.buildQuoteListWorkbook(
+      result.data.quotes.map(quote => this.toQuotationDocument(quote))
+    );
+    await onProgress?.(80);
+
+    const file = await this.storeExport('excel', 'quotes', data);
+    return {
+      ...file,
+      rowCount: result.data.quotes.length,
+      total: result.data.total,
+      truncated: result.data.total > result.data.quotes.length
+    };
+  }
+
+  /**
+   * Export a filtered order list as XLSX (Orders, Items, Labor, Totals)
+   */
+  async exportOrderList(filters: ExportListFilters, onProgress?: ProgressCallback): Promise<ExportFileResult> {
+    const result = await databaseService.getOrdersAlvamitra(filters, EXPORT_CONSTANTS.MAX_LIST_ROWS, 0, true);
+    if (result.error || !result.data) {
+      throw new Error(result.error?.message || 'Failed to load orders');
+    }
+    await onProgress?.(30);
+
+    const data = await excelExportService.buildOrderListWorkbook(result.data.orders);
+    await onProgress?.(80);
+
+    const file = await this.storeExport('excel', 'orders', data);
+    return {
+      ...file,
+      rowCount: result.data.orders.length,
+      total: result.data.total,
+      truncated: result.data.total > result.data.orders.length
+    };
+  }
+
+  // ====================================
+  // JOB QUEUE
+  // ====================================
+
+  /**
+   * Queue an export job for the current request's user and organisation
+   */
+  async enqueue(
+    jobType: ExportJobType,
+    format: ExportFormat,
+    params: Record<string, any>
+  ): Promise<{ data: ExportJob | null; error: any }> {
+    const { data, error } = await databaseService.createExportJob({
+      job_type: jobType,
+      format,
+      params,
+      max_attempts: EXPORT_CONFIG.processing.maxRetries + 1
+    });
+
+    if (error || !data) {
+      return { data: null, error: error || { message: 'Failed to queue export job' } };
+    }
+
+    this.exportLogger.logJobCreated(data.id!, { jobType, format, userId: data.user_id || undefined });
+    void this.drain();
+
+    return { data, error: null };
+  }
+
+  /**
+   * Get a job of the current organisation
+   */
+  async getJob(jobId: string): Promise<{ data: ExportJob | null; error: any }> {
+    return databaseService.getExportJob(jobId);
+  }
+
+  /**
+   * Job status for API responses; completed jobs get a freshly signed download URL
+   */
+  describeJob(job: ExportJob) {
+    let result = job.result || null;
+
+    if (job.status === 'completed' && result?.fileId) {
+      const { url, expiresAt } = simpleExportService.createSignedDownloadUrl(
+        result.fileId,
+        undefined,
+        result.fileExpiresAt ? new Date(result.fileExpiresAt) : undefined
+      );
+      result = { ...result, downloadUrl: url, expiresAt: expiresAt.toISOString() };
+    }
+
+    return {
+      id: job.id,
+      type: job.job_type,
+      format: job.format,
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      result,
+      error: job.error_message || null,
+      createdAt: job.created_at,
+      startedAt: job.started_at || null,
+      completedAt: job.completed_at || null
+    };
+  }
+
+  /**
+   * Resume the queue after a restart and start polling for runnable jobs
+   */
+  async start(): Promise<void> {
+    const { data, error } = await databaseService.requeueInterruptedExportJobs();
+    if (error) {
+      Logger.warn('Export job queue could not be resumed', { error: error.message || String(error) });
+    } else if (data && data.length > 0) {
+      Logger.info(`Resumed ${data.length} interrupted export job(s)`);
+    }
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+    this.pollTimer = setInterval(() => {
+      void this.drain();
+    }, EXPORT_CONFIG.processing.pollIntervalMs);
+
+    await this.drain();
+  }
+
+  /**
+   * Stop polling; running jobs are requeued on next start if they do not finish
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Claim queued jobs until the concurrency limit is reached
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+
+        while (this.running < EXPORT_CONFIG.processing.concurrency) {
+          const { data: job, error } = await databaseService.claimNextExportJob();
+          if (error || !job) break;
+
+          this.running++;
+          void this.runJob(job).finally(() => {
+            this.running--;
+            void this.drain();
+          });
+        }
+      } while (this.drainRequested && this.running < EXPORT_CONFIG.processing.concurrency);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Run one attempt of a claimed job and record the outcome (completed, retry or failed)
+   */
+  private async runJob(job: ExportJob): Promise<void> {
+    const jobId = job.id!;
+    const stopTimer = this.exportLogger.startPerformanceTimer();
+    this.exportLogger.logJobStarted(jobId, { jobType: job.job_type, attempt: job.attempts });
+
+    const onProgress = async (progress: number) => {
+      this.exportLogger.logJobProgress(jobId, progress);
+      await databaseService.updateExportJob(jobId, { progress });
+    };
+
+    try {
+      const result = await runWithRequestContext(
+        {
+          userId: job.user_id || undefined,
+          organisasiKode: job.organisation_id || undefined,
+          organisasiKodeSmartjmp: job.organisation_id_smartjmp || undefined
+        },
+        () => this.withTimeout(this.execute(job, onProgress))
+      );
+
+      await databaseService.updateExportJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        result,
+        error_message: null,
+        completed_at: new Date().toISOString()
+      });
+      this.exportLogger.logJobCompleted(jobId, { filename: result.filename, fileSize: result.fileSize, duration: stopTimer() });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const permanent = error instanceof ExportError && PERMANENT_ERROR_CODES.includes(error.code);
+
+      if (!permanent && job.attempts < job.max_attempts) {
+        await databaseService.updateExportJob(jobId, {
+          status: 'queued',
+          error_message: message,
+          run_after: new Date(Date.now() + EXPORT_CONFIG.processing.retryDelayMs * job.attempts).toISOString()
+        });
+        this.exportLogger.warn('Export job attempt failed, retrying', { jobId, attempt: job.attempts, error: message });
+        return;
+      }
+
+      await databaseService.updateExportJob(jobId, {
+        status: 'failed',
+        error_message: message,
+        completed_at: new Date().toISOString()
+      });
+      this.exportLogger.logJobFailed(jobId, message, { attempts: job.attempts });
+    }
+  }
+
+  private execute(job: ExportJob, onProgress: ProgressCallback): Promise<ExportFileResult> {
+    const params = job.params || {};
+
+    switch (job.job_type) {
+      case 'quote':
+        return this.exportQuote(String(params.quoteId), job.format, {
+          includeLogo: params.includeLogo
+        }, onProgress);
+      case 'quote_list':
+        return this.exportQuoteList(params.filters || {}, onProgress);
+      case 'order_list':
+        return this.exportOrderList(params.filters || {}, onProgress);
+      default:
+        throw new ExportError(EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED, `Unknown export job type: ${job.job_type}`);
+    }
+  }
+
+  /**
+   * Fail an attempt that runs longer than EXPORT_CONFIG.processing.timeoutMs.
+   * The work itself is not cancelled; its result is discarded.
+   */
+  private async withTimeout<T>(work: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new ExportError(EXPORT_CONSTANTS.ERROR_CODES.TIMEOUT_ERROR, 'Export timed out')),
+        EXPORT_CONFIG.processing.timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Price an Alvamitra quote server-side for rendering; valid_until is the quote's own
+   */
+  private toQuotationDocument(quote: any): QuotationDocument {
+    const calculation = financialCalculationService.priceCart(quote.items, quote.laborItems, quote.tax_rate);
+
+    return {
+      quote_number: quote.quote_number,
+      status: quote.status,
+      created_at: quote.created_at,
+      valid_until: quote.valid_until,
+      notes: quote.notes,
+      items: calculation.updatedCartData.items,
+      laborItems: calculation.updatedCartData.laborItems,
+      totals: calculation.totals
+    };
+  }
+
+  /**
+   * Save rendered export, register it under an opaque file ID and sign its download URL
+   */
+  private async storeExport(format: ExportFormat, name: string, data: Buffer): Promise<ExportFileResult> {
+    const filename = `${name.replace(/[^\w-]/g, '_')}-${Date.now()}.${EXPORT_CONSTANTS.FILE_EXTENSIONS[format]}`;
+    await simpleExportService.saveExportFile({ format, filename, data });
+
+    const file = await simpleExportService.registerExportFile(format, filename, data.length);
+    const { url, expiresAt } = simpleExportService.createSignedDownloadUrl(file.id, undefined, file.expiresAt);
+
+    return {
+      fileId: file.id,
+      filename,
+      mimeType: file.mimeType,
+      fileSize: file.fileSize,
+      maxDownloads: file.maxDownloads,
+      fileExpiresAt: file.expiresAt.toISOString(),
+      downloadUrl: url,
+      expiresAt: expiresAt.toISOString()
+    };
+  }
+}
+
+export const exportJobService = ExportJobService.getInstance();
@@ -0,0 +1,117 @@
+// Client totals are only checked against the server calculation, never trusted
+
+import { financialCalculationService } from '@/services/FinancialCalculationService';
+import { CartData, CartItem, LaborItem } from '@/types/api';
+
+const TAX_RATE = 0.11;
+
+const items: CartItem[] = [
+  { id: 'item-1', productId: 'P-1', name: 'Cable', category: 'Electrical', price: 100000, quantity: 2, subtotal: 0, total: 0 },
+  {
+    id: 'item-2', productId: 'P-2', name: 'Switch', category: 'Electrical', price: 45000, quantity: 3,
+    discount: { type: 'percentage', value: 10, appliedAmount: 0 }, subtotal: 0, total: 0
+  }
+];
+
+const laborItems: LaborItem[] = [
+  {
+    id: 'labor-1', type: 'installation', name: 'Installation', rateType: 'fixed', rate: 50000, quantity: 1,
+    unit: 'job', subtotal: 0, total: 0, editable: true, category: 'Installation'
+  }
+];
+
+const serverCart: CartData = financialCalculationService.priceCart(items, laborItems, TAX_RATE).updatedCartData;
+
+// What an honest client would send: the server's own numbers
+function clientCart(overrides: { items?: number[]; laborItems?: number[]; totals?: Partial<CartData['totals']> } = {}): Partial<CartData> {
+  return {
+    items: serverCart.items.map((item, index) => ({ ...item, total: overrides.items?.[index] ?? item.total })),
+    laborItems: serverCart.laborItems.map((item, index) => ({ ...item, total: overrides.laborItems?.[index] ?? item.total })),
+    totals: { ...serverCart.totals, ...overrides.totals }
+  };
+}
+
+describe('FinancialCalculationService.reconcileClientTotals', () => {
+  it('prices the cart on the server', () => {
+    expect(serverCart.items.map(item => item.total)).toEqual([200000, 121500]);
+    expect(serverCart.laborItems[0].total).toBe(50000);
+    expect(serverCart.totals.subtotal).toBe(371500);
+    expect(serverCart.totals.taxAmount).toBe(40865);
+    expect(serverCart.totals.finalTotal).toBe(412365);
+  });
+
+  it('accepts totals that match the server calculation', () => {
+    expect(financialCalculationService.reconcileClientTotals(clientCart(), serverCart)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('accepts differences up to the default tolerance of 1', () => {
+    const result = financialCalculationService.reconcileClientTotals(clientCart({
+      items: [200001, 121499],
+      laborItems: [50000.5],
+      totals: { subtotal: 371501, taxAmount: 40864, finalTotal: 412366 }
+    }), serverCart);
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('rejects differences just above the tolerance', () => {
+    const result = financialCalculationService.reconcileClientTotals(clientCart({
+      items: [200001.01]
+    }), serverCart);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        field: 'items[0].total',
+        message: 'Client value differs from server calculation by 1.01',
+        value: { client: 200001.01, server: 200000 }
+      }
+    ]);
+  });
+
+  it('reports every mismatching item, labor line and total', () => {
+    const result = financialCalculationService.reconcileClientTotals(clientCart({
+      items: [1, 121500],
+      laborItems: [0],
+      totals: { subtotal: 100, taxAmount: 11, finalTotal: 111 }
+    }), serverCart);
+
+    expect(result.errors.map(error => error.field)).toEqual([
+      'items[0].total',
+      'laborItems[0].total',
+      'totals.subtotal',
+      'totals.taxAmount',
+      'totals.finalTotal'
+    ]);
+  });
+
+  it('uses a custom tolerance when given', () => {
+    const cart = clientCart({ totals: { finalTotal: 412370 } });
+
+    expect(financialCalculationService.reconcileClientTotals(cart, serverCart).isValid).toBe(false);
+    expect(financialCalculationService.reconcileClientTotals(cart, serverCart, 5).isValid).toBe(true);
+    expect(financialCalculationService.reconcileClientTotals(clientCart(), serverCart, 0).isValid).toBe(true);
+  });
+
+  it('only checks amounts the client sent', () => {
+    const { totals, ...withoutTotals } = clientCart();
+    const withoutLineTotals: Partial<CartData> = {
+      items: serverCart.items.map(({ total, ...item }) => item as CartItem),
+      totals: { ...totals!, taxAmount: null as any }
+    };
+
+    expect(financialCalculationService.reconcileClientTotals(withoutTotals, serverCart).isValid).toBe(true);
+    expect(financialCalculationService.reconcileClientTotals(withoutLineTotals, serverCart).isValid).toBe(true);
+    expect(financialCalculationService.reconcileClientTotals({}, serverCart).isValid).toBe(true);
+  });
+
+  it('compares non-numeric client amounts as 0', () => {
+    const result = financialCalculationService.reconcileClientTotals(clientCart({
+      totals: { finalTotal: 'abc' as any }
+    }), serverCart);
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'totals.finalTotal', value: { client: NaN, server: 412365 } })
+    ]);
+  });
+});
@@ -46,6 +46,7 @@ export class FinancialCalculationService {
   private readonly MAX_NOMINAL_DISCOUNT = 1000000; // $1M max nominal discount
   private readonly MIN_ITEM_PRICE = 0.01;
   private readonly DEFAULT_TAX_RATE = 0.10; // 10%
+  private readonly TOTALS_TOLERANCE = 1; // max allowed client/server difference per amount
 
   constructor() {
     Logger.info('FinancialCalculationService initialized with precision settings', {
@@ -469,6 +470,24 @@ export class FinancialCalculationService {
     }
   }
 
+  /**
+   * Price a cart built server-side (no client totals to start from)
+   */
+  public priceCart(
+    items: CartItem[],
+    laborItems: LaborItem[],
+    taxRate: number = this.DEFAULT_TAX_RATE,
+    totalDiscount?: Discount
+  ): { totals: CartTotals; updatedCartData: CartData; isValid: boolean; errors: ValidationError[] } {
+    // Fallback totals only complete the CartData shape; calculateComprehensiveCartTotals replaces them
+    return this.calculateComprehensiveCartTotals({
+      items,
+      laborItems,
+      totalDiscount,
+      totals: this.getFallbackTotals({ items, laborItems }, taxRate)
+    }, taxRate);
+  }
+
   // ===========================================
   // VALIDATION METHODS
   // ===========================================
@@ -476,7 +495,7 @@ export class FinancialCalculationService {
   /**
    * Validate cart data for financial calculations
    */
-  public validateCartData(cartData: CartData): FinancialValidationResult {
+  public validateCartData(cartData: Pick<CartData, 'items' | 'laborItems' | 'totalDiscount'>): FinancialValidationResult {
     const errors: ValidationError[] = [];
     const warnings: string[] = [];
 
@@ -647,6 +666,85 @@ export class FinancialCalculationService {
     }
   }
 
+  // ===========================================
+  // CLIENT RECONCILIATION
+  // ===========================================
+
+  /**
+   * Compare client-submitted totals against server-calculated totals.
+   * Only amounts the client actually sent are checked.
+   */
+  public reconcileClientTotals(
+    clientCart: Partial<CartData>,
+    serverCart: CartData,
+    tolerance: number = this.TOTALS_TOLERANCE
+  ): FinancialValidationResult {
+    const errors: ValidationError[] = [];
+
+    const check = (field: string, clientValue: any, serverValue: number) => {
+      if (clientValue === undefined || clientValue === null) return;
+
+      const difference = new Decimal(Number(clientValue) || 0).minus(serverValue).abs();
+      if (difference.greaterThan(tolerance)) {
+        errors.push({
+          field,
+          message: `Client value differs from server calculation by ${difference.toNumber()}`,
+          value: { client: Number(clientValue), server: serverValue }
+        });
+      }
+    };
+
+    (clientCart.items || []).forEach((item, index) => {
+      const serverItem = serverCart.items[index];
+      if (serverItem) {
+        check(`items[${index}].total`, item.total, serverItem.total);
+      }
+    });
+
+    (clientCart.laborItems || []).forEach((item, index) => {
+      const serverItem = serverCart.laborItems[index];
+      if (serverItem) {
+        check(`laborItems[${index}].total`, item.total, serverItem.total);
+      }
+    });
+
+    const clientTotals = clientCart.totals;
+    if (clientTotals) {
+      check('totals.subtotal', clientTotals.subtotal, serverCart.totals.subtotal);
+      check('totals.taxAmount', clientTotals.taxAmount, serverCart.totals.taxAmount);
+      check('totals.finalTotal', clientTotals.finalTotal, serverCart.totals.finalTotal);
+    }
+
+    if (errors.length > 0) {
+      Logger.warn('Client totals disagree with server calculation', { tolerance, mismatches: errors.length });
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Summarize cart totals into the transaksi master columns
+   * (Sub_Total, Promo_Total, PPN_Total, Harga_Total)
+   */
+  public summarizeOrderTotals(totals: CartTotals): {
+    subtotal: number;
+    promoAmount: number;
+    taxAmount: number;
+    finalTotal: number;
+  } {
+    const grossSubtotal = new Decimal(totals.itemsSubtotal).plus(totals.laborSubtotal);
+    const promoAmount = new Decimal(totals.itemDiscounts)
+      .plus(totals.laborDiscounts)
+      .plus(totals.totalDiscount?.appliedAmount || 0);
+
+    return {
+      subtotal: this.roundCurrency(grossSubtotal.toNumber()),
+      promoAmount: this.roundCurrency(promoAmount.toNumber()),
+      taxAmount: this.roundCurrency(totals.taxAmount),
+      finalTotal: this.roundCurrency(totals.finalTotal)
+    };
+  }
+
   // ===========================================
   // UTILITY METHODS
   // ===========================================
@@ -671,7 +769,7 @@ export class FinancialCalculationService {
   /**
    * Get fallback totals in case of calculation failure
    */
-  private getFallbackTotals(cartData: CartData, taxRate: number): CartTotals {
+  private getFallbackTotals(cartData: Pick<CartData, 'items' | 'laborItems'>, taxRate: number): CartTotals {
     const itemsSubtotal = cartData.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
     const laborSubtotal = cartData.laborItems.reduce((sum, item) => sum + (item.rate * item.quantity), 0);
     const subtotal = itemsSubtotal + laborSubtotal;
@@ -0,0 +1,154 @@
+// Order state machine: which status changes are allowed and what applyAction does with the rest
+
+import { OrderLifecycleService, OrderAction, orderLifecycleService } from '@/services/OrderLifecycleService';
+import { databaseService } from '@/services/DatabaseService';
+import { OrderStatus } from '@/types/api';
+
+jest.mock('@/services/DatabaseService', () => ({
+  databaseService: { transitionOrderStatusAlvamitra: jest.fn() }
+}));
+
+const transitionOrderStatus = databaseService.transitionOrderStatusAlvamitra as jest.Mock;
+
+const ALL_STATUSES = Object.keys(OrderLifecycleService.TRANSITIONS) as OrderStatus[];
+
+// Emulates the locked status check in DatabaseService for an order currently in `current`
+function orderIn(current: OrderStatus) {
+  transitionOrderStatus.mockImplementation(async (orderId: string, toStatus: OrderStatus, audit: any, isAllowed: (from: OrderStatus) => boolean) => {
+    if (!isAllowed(current)) {
+      return {
+        data: null,
+        error: {
+          message: `Cannot move order from '${current}' to '${toStatus}'`,
+          code: 'INVALID_TRANSITION',
+          details: { from: current, to: toStatus }
+        }
+      };
+    }
+    return {
+      data: {
+        order: { id: orderId, status: toStatus },
+        history: { order_id: orderId, from_status: current, to_status: toStatus, actor: audit.actor }
+      },
+      error: null
+    };
+  });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('OrderLifecycleService', () => {
+  describe('canTransition', () => {
+    it.each([
+      ['draft', 'confirmed'],
+      ['draft', 'cancelled'],
+      ['confirmed', 'paid'],
+      ['confirmed', 'cancelled'],
+      ['paid', 'packed'],
+      ['paid', 'refunded'],
+      ['packed', 'shipped'],
+      ['packed', 'refunded'],
+      ['shipped', 'delivered'],
+      ['shipped', 'refunded'],
+      ['delivered', 'refunded']
+    ] as [OrderStatus, OrderStatus][])('allows %s → %s', (from, to) => {
+      expect(orderLifecycleService.canTransition(from, to)).toBe(true);
+    });
+
+    it.each([
+      ['draft', 'paid'],
+      ['draft', 'shipped'],
+      ['confirmed', 'packed'],
+      ['paid', 'cancelled'],
+      ['packed', 'cancelled'],
+      ['shipped', 'packed'],
+      ['delivered', 'shipped'],
+      ['delivered', 'cancelled']
+    ] as [OrderStatus, OrderStatus][])('refuses %s → %s', (from, to) => {
+      expect(orderLifecycleService.canTransition(from, to)).toBe(false);
+    });
+
+    it('treats cancelled and refunded as terminal', () => {
+      for (const to of ALL_STATUSES) {
+        expect(orderLifecycleService.canTransition('cancelled', to)).toBe(false);
+        expect(orderLifecycleService.canTransition('refunded', to)).toBe(false);
+      }
+    });
+
+    it('never allows staying in the same status', () => {
+      for (const status of ALL_STATUSES) {
+        expect(orderLifecycleService.canTransition(status, status)).toBe(false);
+      }
+    });
+
+    it('refuses unknown statuses', () => {
+      expect(orderLifecycleService.canTransition('unknown' as OrderStatus, 'confirmed')).toBe(false);
+      expect(orderLifecycleService.getAllowedTransitions('unknown' as OrderStatus)).toEqual([]);
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('lists the statuses reachable from each status', () => {
+      expect(orderLifecycleService.getAllowedTransitions('draft')).toEqual(['confirmed', 'cancelled']);
+      expect(orderLifecycleService.getAllowedTransitions('delivered')).toEqual(['refunded']);
+      expect(orderLifecycleService.getAllowedTransitions('refunded')).toEqual([]);
+    });
+  });
+
+  describe('applyAction', () => {
+    it('moves the order to the status of the action and returns the history entry', async () => {
+      orderIn('draft');
+
+      const result = await orderLifecycleService.applyAction('42', 'confirm', 'user:1', 'customer agreed');
+
+      expect(transitionOrderStatus).toHaveBeenCalledWith('42', 'confirmed', { actor: 'user:1', reason: 'customer agreed' }, expect.any(Function));
+      expect(result.error).toBeNull();
+      expect(result.order).toEqual({ id: '42', status: 'confirmed' });
+      expect(result.history).toMatchObject({ from_status: 'draft', to_status: 'confirmed', actor: 'user:1' });
+    });
+
+    it.each(Object.entries(OrderLifecycleService.ACTIONS) as [OrderAction, OrderStatus][])(
+      'maps %s to %s',
+      async (action, toStatus) => {
+        orderIn('draft');
+
+        await orderLifecycleService.applyAction('42', action, 'user:1');
+
+        expect(transitionOrderStatus.mock.calls[0][1]).toBe(toStatus);
+      }
+    );
+
+    it('rejects an illegal transition with the statuses that are allowed', async () => {
+      orderIn('paid');
+
+      const result = await orderLifecycleService.applyAction('42', 'cancel', 'user:1');
+
+      expect(result.order).toBeNull();
+      expect(result.history).toBeNull();
+      expect(result.error).toMatchObject({
+        code: 'INVALID_TRANSITION',
+        details: { from: 'paid', to: 'cancelled', allowed: ['packed', 'refunded'] }
+      });
+    });
+
+    it('rejects every action on a terminal order', async () => {
+      orderIn('refunded');
+
+      for (const action of Object.keys(OrderLifecycleService.ACTIONS) as OrderAction[]) {
+        const result = await orderLifecycleService.applyAction('42', action, 'user:1');
+        expect(result.error).toMatchObject({ code: 'INVALID_TRANSITION', details: { allowed: [] } });
+      }
+    });
+
+    it('passes other errors through unchanged', async () => {
+      const notFound = { message: 'Order not found', code: 'NOT_FOUND' };
+      transitionOrderStatus.mockResolvedValue({ data: null, error: notFound });
+
+      const result = await orderLifecycleService.applyAction('404', 'confirm', 'user:1');
+
+      expect(result).toEqual({ order: null, history: null, error: notFound });
+    });
+  });
+});
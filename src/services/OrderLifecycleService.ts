@@ -0,0 +1,115 @@
+// ALVA POS MVP - Order Lifecycle Service
+// Order state machine: draft → confirmed → paid → packed → shipped → delivered (+ cancelled, refunded)
+
+import { databaseService } from '@/services/DatabaseService';
+import { Logger } from '@/utils/logger';
+import { Order, OrderStatus, OrderStatusHistoryEntry } from '@/types/api';
+
+export type OrderAction = 'confirm' | 'pay' | 'pack' | 'ship' | 'deliver' | 'cancel' | 'refund';
+
+export interface OrderTransitionResult {
+  order: Order | null;
+  history: OrderStatusHistoryEntry | null;
+  error: { message: string; code: string; details?: any } | null;
+}
+
+export class OrderLifecycleService {
+  private static instance: OrderLifecycleService;
+
+  /**
+   * Allowed transitions per status. Cancelled and refunded are terminal;
+   * once money has been taken an order can only be refunded, not cancelled.
+   */
+  public static readonly TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    draft: ['confirmed', 'cancelled'],
+    confirmed: ['paid', 'cancelled'],
+    paid: ['packed', 'refunded'],
+    packed: ['shipped', 'refunded'],
+    shipped: ['delivered', 'refunded'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: []
+  };
+
+  /**
+   * Target status for each transition endpoint
+   */
+  public static readonly ACTIONS: Record<OrderAction, OrderStatus> = {
+    confirm: 'confirmed',
+    pay: 'paid',
+    pack: 'packed',
+    ship: 'shipped',
+    deliver: 'delivered',
+    cancel: 'cancelled',
+    refund: 'refunded'
+  };
+
+  public static getInstance(): OrderLifecycleService {
+    if (!OrderLifecycleService.instance) {
+      OrderLifecycleService.instance = new OrderLifecycleService();
+    }
+    return OrderLifecycleService.instance;
+  }
+
+  /**
+   * Check whether an order may move from one status to another
+   */
+  public canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return (OrderLifecycleService.TRANSITIONS[from] || []).includes(to);
+  }
+
+  /**
+   * Statuses reachable from the given status
+   */
+  public getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+    return OrderLifecycleService.TRANSITIONS[from] || [];
+  }
+
+  /**
+   * Apply a lifecycle action to an order and record it in the status history
+   */
+  public async applyAction(
+    orderId: string,
+    action: OrderAction,
+    actor: string,
+    reason?: string
+  ): Promise<OrderTransitionResult> {
+    const toStatus = OrderLifecycleService.ACTIONS[action];
+
+    const result = await databaseService.transitionOrderStatusAlvamitra(
+      orderId,
+      toStatus,
+      { actor, reason },
+      (from: OrderStatus) => this.canTransition(from, toStatus)
+    );
+
+    if (result.error) {
+      if (result.error.code === 'INVALID_TRANSITION') {
+        const from = result.error.details?.from as OrderStatus;
+        Logger.warn('Rejected illegal order transition', { orderId, action, from, to: toStatus, actor });
+        return {
+          order: null,
+          history: null,
+          error: {
+            ...result.error,
+            details: { from, to: toStatus, allowed: this.getAllowedTransitions(from) }
+          }
+        };
+      }
+      return { order: null, history: null, error: result.error };
+    }
+
+    Logger.info('Order status transitioned', {
+      orderId,
+      action,
+      from: result.data!.history.from_status,
+      to: toStatus,
+      actor
+    });
+
+    return { order: result.data!.order, history: result.data!.history, error: null };
+  }
+}
+
+// Export singleton instance
+export const orderLifecycleService = OrderLifecycleService.getInstance();
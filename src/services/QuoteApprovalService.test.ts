@@ -0,0 +1,238 @@
+// Discount/margin thresholds per role and when an approval lets a quote through
+
+import { quoteApprovalService } from '@/services/QuoteApprovalService';
+import { databaseService } from '@/services/DatabaseService';
+import { CartItem, Discount } from '@/types/api';
+
+jest.mock('@/services/DatabaseService', () => ({
+  databaseService: {
+    getProductCosts: jest.fn(),
+    getQuoteApprovals: jest.fn(),
+    upsertPendingQuoteApproval: jest.fn(),
+    decideQuoteApproval: jest.fn(),
+    transitionQuoteStatusAlvamitra: jest.fn()
+  }
+}));
+
+const getProductCosts = databaseService.getProductCosts as jest.Mock;
+const getQuoteApprovals = databaseService.getQuoteApprovals as jest.Mock;
+const decideQuoteApproval = databaseService.decideQuoteApproval as jest.Mock;
+const transitionQuoteStatus = databaseService.transitionQuoteStatusAlvamitra as jest.Mock;
+
+const PRODUCT_ID = '3f1c2b4a-5d6e-4f70-8a9b-0c1d2e3f4a5b';
+const QUOTE_ID = '101';
+
+function item(price: number, discountPercent = 0, productId = 'P-1'): CartItem {
+  return {
+    id: `item-${price}`,
+    productId,
+    name: 'Cable',
+    category: 'Electrical',
+    price,
+    quantity: 1,
+    discount: discountPercent > 0 ? { type: 'percentage', value: discountPercent, appliedAmount: 0 } : undefined,
+    subtotal: 0,
+    total: 0
+  };
+}
+
+function cart(items: CartItem[], totalDiscount?: Discount) {
+  return { items, laborItems: [], totalDiscount };
+}
+
+function approval(overrides: Record<string, any> = {}) {
+  return {
+    id: 'approval-1',
+    quote_id: QUOTE_ID,
+    quote_store: 'alvamitra',
+    status: 'approved',
+    requested_by: 'user-sales',
+    requested_role: 'sales',
+    discount_percent: '20.00',
+    margin_percent: null,
+    final_total: '80000',
+    reasons: [],
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  getProductCosts.mockResolvedValue({ data: [], error: null });
+  getQuoteApprovals.mockResolvedValue({ data: [], error: null });
+  transitionQuoteStatus.mockResolvedValue({ data: { id: QUOTE_ID, status: 'draft' }, error: null });
+});
+
+describe('QuoteApprovalService', () => {
+  describe('evaluate', () => {
+    it('allows a discount up to the role threshold', async () => {
+      const evaluation = await quoteApprovalService.evaluate(cart([item(100000, 10)]), 'sales');
+
+      expect(evaluation).toMatchObject({
+        requires_approval: false,
+        discount_percent: 10,
+        margin_percent: null,
+        max_discount_percent: 10,
+        min_margin_percent: 15,
+        reasons: []
+      });
+    });
+
+    it('requires approval for a discount above the role threshold', async () => {
+      const evaluation = await quoteApprovalService.evaluate(cart([item(100000, 10.5)]), 'sales');
+
+      expect(evaluation.requires_approval).toBe(true);
+      expect(evaluation.discount_percent).toBe(10.5);
+      expect(evaluation.reasons).toEqual(["Discount 10.5% exceeds the 10% allowed for role 'sales'"]);
+    });
+
+    it('counts the cart discount together with line discounts', async () => {
+      const evaluation = await quoteApprovalService.evaluate(
+        cart([item(100000, 5)], { type: 'nominal', value: 6000, appliedAmount: 0 }),
+        'sales'
+      );
+
+      expect(evaluation.discount_percent).toBe(11);
+      expect(evaluation.requires_approval).toBe(true);
+    });
+
+    it('applies the thresholds of the given role', async () => {
+      const discounted = cart([item(100000, 8)]);
+
+      expect((await quoteApprovalService.evaluate(discounted, 'sales')).requires_approval).toBe(false);
+      expect((await quoteApprovalService.evaluate(discounted, 'cashier')).requires_approval).toBe(true);
+      expect((await quoteApprovalService.evaluate(cart([item(100000, 100)]), 'admin')).requires_approval).toBe(false);
+    });
+
+    it('allows no discount for unknown roles', async () => {
+      const evaluation = await quoteApprovalService.evaluate(cart([item(100000, 1)]), 'intern');
+
+      expect(evaluation).toMatchObject({ requires_approval: true, max_discount_percent: 0, min_margin_percent: null });
+    });
+
+    it('requires approval when the margin of catalog products is below the role minimum', async () => {
+      getProductCosts.mockResolvedValue({ data: [{ id: PRODUCT_ID, cost: '90000' }], error: null });
+
+      const evaluation = await quoteApprovalService.evaluate(cart([item(100000, 0, PRODUCT_ID)]), 'sales');
+
+      expect(getProductCosts).toHaveBeenCalledWith([PRODUCT_ID]);
+      expect(evaluation.margin_percent).toBe(10);
+      expect(evaluation.reasons).toEqual(["Margin 10% is below the 15% required for role 'sales'"]);
+      expect((await quoteApprovalService.evaluate(cart([item(100000, 0, PRODUCT_ID)]), 'manager')).requires_approval).toBe(false);
+    });
+
+    it('takes the cart discount off the margin', async () => {
+      getProductCosts.mockResolvedValue({ data: [{ id: PRODUCT_ID, cost: '80000' }], error: null });
+
+      const evaluation = await quoteApprovalService.evaluate(
+        cart([item(100000, 0, PRODUCT_ID)], { type: 'nominal', value: 5000, appliedAmount: 0 }),
+        'sales'
+      );
+
+      expect(evaluation.margin_percent).toBe(15.79);
+      expect(evaluation.requires_approval).toBe(false);
+    });
+
+    it('does not check the margin without product costs', async () => {
+      getProductCosts.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      const withoutCosts = await quoteApprovalService.evaluate(cart([item(100000, 0, PRODUCT_ID)]), 'sales');
+      const notInCatalog = await quoteApprovalService.evaluate(cart([item(100000)]), 'sales');
+
+      expect(withoutCosts).toMatchObject({ margin_percent: null, requires_approval: false });
+      expect(notInCatalog).toMatchObject({ margin_percent: null, requires_approval: false });
+    });
+  });
+
+  describe('checkApproval', () => {
+    it('allows a cart within the thresholds without looking for approvals', async () => {
+      const result = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 5)]), 'sales');
+
+      expect(result.data).toMatchObject({ allowed: true, approval: null });
+      expect(getQuoteApprovals).not.toHaveBeenCalled();
+    });
+
+    it('blocks a cart above the thresholds without an approval', async () => {
+      const result = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 15)]), 'sales');
+
+      expect(getQuoteApprovals).toHaveBeenCalledWith({ quote_store: 'alvamitra', quote_id: QUOTE_ID, status: 'approved' }, 1);
+      expect(result.data).toMatchObject({ allowed: false, approval: null });
+    });
+
+    it('allows a cart whose discount the latest approval covers', async () => {
+      getQuoteApprovals.mockResolvedValue({ data: [approval({ discount_percent: '20.00' })], error: null });
+
+      const atApproved = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 20)]), 'sales');
+      const aboveApproved = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 21)]), 'sales');
+
+      expect(atApproved.data).toMatchObject({ allowed: true, approval: { discount_percent: 20 } });
+      expect(aboveApproved.data?.allowed).toBe(false);
+    });
+
+    it('blocks a margin below the one that was approved', async () => {
+      getProductCosts.mockResolvedValue({ data: [{ id: PRODUCT_ID, cost: '90000' }], error: null });
+      getQuoteApprovals.mockResolvedValue({ data: [approval({ discount_percent: '0', margin_percent: '10.00' })], error: null });
+
+      const atApproved = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 0, PRODUCT_ID)]), 'sales');
+      const belowApproved = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(99000, 0, PRODUCT_ID)]), 'sales');
+
+      expect(atApproved.data?.allowed).toBe(true);
+      expect(belowApproved.data?.allowed).toBe(false);
+    });
+
+    it('reports database errors', async () => {
+      getQuoteApprovals.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+
+      const result = await quoteApprovalService.checkApproval('alvamitra', QUOTE_ID, cart([item(100000, 15)]), 'sales');
+
+      expect(result).toEqual({ data: null, error: { message: 'timeout', code: 'DATABASE_ERROR' } });
+    });
+  });
+
+  describe('decide', () => {
+    beforeEach(() => {
+      getQuoteApprovals.mockResolvedValue({ data: [approval({ status: 'pending', discount_percent: '25.00' })], error: null });
+      decideQuoteApproval.mockImplementation(async (id: string, status: string) => ({
+        data: approval({ id, status, discount_percent: '25.00' }),
+        error: null
+      }));
+    });
+
+    it('lets an approver within their own thresholds approve and moves the quote back to draft', async () => {
+      const result = await quoteApprovalService.decide('alvamitra', QUOTE_ID, 'approved', { userId: 'user-manager', role: 'manager' });
+
+      expect(decideQuoteApproval).toHaveBeenCalledWith('approval-1', 'approved', undefined);
+      expect(transitionQuoteStatus).toHaveBeenCalledWith(QUOTE_ID, ['pending_approval'], 'draft');
+      expect(result.data).toMatchObject({ status: 'approved', discount_percent: 25 });
+    });
+
+    it('refuses approvals beyond the approver thresholds', async () => {
+      const result = await quoteApprovalService.decide('alvamitra', QUOTE_ID, 'approved', { userId: 'user-other', role: 'sales' });
+
+      expect(result.error).toMatchObject({ code: 'APPROVER_LIMIT_EXCEEDED', details: { discount_percent: 25 } });
+      expect(decideQuoteApproval).not.toHaveBeenCalled();
+    });
+
+    it('lets any approver reject', async () => {
+      const result = await quoteApprovalService.decide('alvamitra', QUOTE_ID, 'rejected', { userId: 'user-other', role: 'sales' }, 'too low');
+
+      expect(decideQuoteApproval).toHaveBeenCalledWith('approval-1', 'rejected', 'too low');
+      expect(result.data?.status).toBe('rejected');
+    });
+
+    it('refuses decisions by the requester', async () => {
+      const result = await quoteApprovalService.decide('alvamitra', QUOTE_ID, 'approved', { userId: 'user-sales', role: 'admin' });
+
+      expect(result.error?.code).toBe('SELF_APPROVAL');
+      expect(decideQuoteApproval).not.toHaveBeenCalled();
+    });
+
+    it('reports a quote without a pending request', async () => {
+      getQuoteApprovals.mockResolvedValue({ data: [], error: null });
+
+      const result = await quoteApprovalService.decide('alvamitra', QUOTE_ID, 'approved', { userId: 'user-manager', role: 'manager' });
+
+      expect(result.error?.code).toBe('NOT_FOUND');
+    });
+  });
+});
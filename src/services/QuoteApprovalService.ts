@@ -0,0 +1,291 @@
+// ALVA POS MVP - Quote Approval Service
+// Discount/margin checks against the per-role thresholds and the manager approval decisions
+
+import Decimal from 'decimal.js';
+import { databaseService, QuoteApproval, QuoteApprovalFilters } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { getApprovalThreshold } from '@/config/approval';
+import { Logger } from '@/utils/logger';
+import { CartItem, Discount, LaborItem, QuoteApprovalEvaluation } from '@/types/api';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Percentages are compared at 2 decimals
+const PERCENT_PLACES = 2;
+
+export type QuoteStore = QuoteApproval['quote_store'];
+
+export interface ApprovalCart {
+  items: CartItem[];
+  laborItems: LaborItem[];
+  totalDiscount?: Discount;
+}
+
+export interface ApprovalQuoteRef {
+  id: string;
+  quote_number?: string;
+  final_total?: number;
+}
+
+export interface QuoteApprovalServiceError {
+  message: string;
+  code: string;
+  details?: any;
+}
+
+export interface QuoteApprovalCheckResult {
+  data: { allowed: boolean; evaluation: QuoteApprovalEvaluation; approval: QuoteApproval | null } | null;
+  error: QuoteApprovalServiceError | null;
+}
+
+export interface QuoteApprovalResult {
+  data: QuoteApproval | null;
+  error: QuoteApprovalServiceError | null;
+}
+
+export class QuoteApprovalService {
+  private static instance: QuoteApprovalService;
+
+  static getInstance(): QuoteApprovalService {
+    if (!QuoteApprovalService.instance) {
+      QuoteApprovalService.instance = new QuoteApprovalService();
+    }
+    return QuoteApprovalService.instance;
+  }
+
+  /**
+   * Compare a cart's discount and margin with the thresholds of a role.
+   * Discount = line discounts + cart discount vs the gross amount; margin only covers
+   * catalog products with a known cost, after their share of the cart discount.
+   */
+  async evaluate(cart: ApprovalCart, role: string): Promise<QuoteApprovalEvaluation> {
+    const calculation = financialCalculationService.priceCart(cart.items || [], cart.laborItems || [], 0, cart.totalDiscount);
+    const summary = financialCalculationService.summarizeOrderTotals(calculation.totals);
+
+    const gross = new Decimal(summary.subtotal);
+    const discountPercent = gross.greaterThan(0)
+      ? new Decimal(summary.promoAmount).dividedBy(gross).times(100).toDecimalPlaces(PERCENT_PLACES).toNumber()
+      : 0;
+
+    const cartDiscount = new Decimal(calculation.totals.totalDiscount?.appliedAmount || 0);
+    const cartShare = calculation.totals.subtotal > 0
+      ? new Decimal(calculation.totals.subtotal).minus(cartDiscount).dividedBy(calculation.totals.subtotal)
+      : new Decimal(0);
+    const marginPercent = await this.marginPercent(calculation.updatedCartData.items, cartShare);
+
+    const threshold = getApprovalThreshold(role);
+    const reasons: string[] = [];
+    if (threshold.maxDiscountPercent !== null && discountPercent > threshold.maxDiscountPercent) {
+      reasons.push(`Discount ${discountPercent}% exceeds the ${threshold.maxDiscountPercent}% allowed for role '${role}'`);
+    }
+    if (threshold.minMarginPercent !== null && marginPercent !== null && marginPercent < threshold.minMarginPercent) {
+      reasons.push(`Margin ${marginPercent}% is below the ${threshold.minMarginPercent}% required for role '${role}'`);
+    }
+
+    return {
+      requires_approval: reasons.length > 0,
+      role,
+      discount_percent: discountPercent,
+      margin_percent: marginPercent,
+      max_discount_percent: threshold.maxDiscountPercent,
+      min_margin_percent: threshold.minMarginPercent,
+      reasons
+    };
+  }
+
+  /**
+   * Whether a quote may leave draft (send/convert) with this cart: either it is within the
+   * role's thresholds or an earlier approval covers at least this discount and this margin.
+   */
+  async checkApproval(store: QuoteStore, quoteId: string, cart: ApprovalCart, role: string): Promise<QuoteApprovalCheckResult> {
+    const evaluation = await this.evaluate(cart, role);
+    if (!evaluation.requires_approval) {
+      return { data: { allowed: true, evaluation, approval: null }, error: null };
+    }
+
+    const { data: approvals, error } = await databaseService.getQuoteApprovals(
+      { quote_store: store, quote_id: quoteId, status: 'approved' },
+      1
+    );
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load approvals', code: 'DATABASE_ERROR' } };
+    }
+
+    const approval = approvals?.[0] ? this.normalize(approvals[0]) : null;
+    const allowed = approval !== null && this.covers(approval, evaluation);
+
+    return { data: { allowed, evaluation, approval }, error: null };
+  }
+
+  /**
+   * Open (or refresh) the pending approval request for a quote
+   */
+  async requestApproval(store: QuoteStore, quote: ApprovalQuoteRef, evaluation: QuoteApprovalEvaluation): Promise<QuoteApprovalResult> {
+    const { data, error } = await databaseService.upsertPendingQuoteApproval({
+      quote_id: quote.id,
+      quote_store: store,
+      quote_number: quote.quote_number,
+      requested_role: evaluation.role,
+      discount_percent: evaluation.discount_percent,
+      margin_percent: evaluation.margin_percent,
+      final_total: quote.final_total || 0,
+      reasons: evaluation.reasons
+    });
+
+    if (error || !data) {
+      return { data: null, error: { message: error?.message || 'Failed to request approval', code: 'DATABASE_ERROR' } };
+    }
+
+    Logger.info('Quote approval requested', {
+      quoteId: quote.id,
+      quoteStore: store,
+      discountPercent: evaluation.discount_percent,
+      marginPercent: evaluation.margin_percent
+    });
+
+    return { data: this.normalize(data), error: null };
+  }
+
+  /**
+   * Approve or reject the pending request of a quote. Either way the quote goes back to draft;
+   * after a rejection the send/convert check keeps blocking until the discount is reduced.
+   * Approvers cannot decide their own requests or approve beyond their own thresholds.
+   */
+  async decide(
+    store: QuoteStore,
+    quoteId: string,
+    decision: 'approved' | 'rejected',
+    approver: { userId: string; role: string },
+    comment?: string
+  ): Promise<QuoteApprovalResult> {
+    const { data: pending, error } = await databaseService.getQuoteApprovals(
+      { quote_store: store, quote_id: quoteId, status: 'pending' },
+      1
+    );
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load approvals', code: 'DATABASE_ERROR' } };
+    }
+
+    const request = pending?.[0] ? this.normalize(pending[0]) : null;
+    if (!request) {
+      return { data: null, error: { message: 'No pending approval request for this quote', code: 'NOT_FOUND' } };
+    }
+
+    if (request.requested_by && request.requested_by === approver.userId) {
+      return { data: null, error: { message: 'Approval requests cannot be decided by their requester', code: 'SELF_APPROVAL' } };
+    }
+
+    if (decision === 'approved') {
+      const limit = getApprovalThreshold(approver.role);
+      const overDiscount = limit.maxDiscountPercent !== null && request.discount_percent > limit.maxDiscountPercent;
+      const underMargin = limit.minMarginPercent !== null && request.margin_percent !== null
+        && request.margin_percent < limit.minMarginPercent;
+
+      if (overDiscount || underMargin) {
+        return {
+          data: null,
+          error: {
+            message: `Role '${approver.role}' cannot approve this discount/margin`,
+            code: 'APPROVER_LIMIT_EXCEEDED',
+            details: { discount_percent: request.discount_percent, margin_percent: request.margin_percent, limit }
+          }
+        };
+      }
+    }
+
+    const { data: decided, error: decideError } = await databaseService.decideQuoteApproval(request.id, decision, comment);
+    if (decideError) {
+      return { data: null, error: { message: decideError.message || 'Failed to record decision', code: 'DATABASE_ERROR' } };
+    }
+    if (!decided) {
+      return { data: null, error: { message: 'Approval request was already decided', code: 'ALREADY_DECIDED' } };
+    }
+
+    const { data: quote, error: statusError } = store === 'postgres'
+      ? await databaseService.transitionQuoteStatus(quoteId, ['pending_approval'], 'draft')
+      : await databaseService.transitionQuoteStatusAlvamitra(quoteId, ['pending_approval'], 'draft');
+    if (statusError || !quote) {
+      // Quote was edited, expired or removed meanwhile; the decision still stands
+      Logger.warn('Quote not moved out of pending_approval after decision', { quoteId, quoteStore: store, decision, statusError });
+    }
+
+    Logger.info('Quote approval decided', { quoteId, quoteStore: store, decision, approvalId: decided.id });
+
+    return { data: this.normalize(decided), error: null };
+  }
+
+  /**
+   * Approval requests in the organisation (newest first)
+   */
+  async listApprovals(filters: QuoteApprovalFilters, limit = 50, offset = 0): Promise<{ data: QuoteApproval[] | null; error: QuoteApprovalServiceError | null }> {
+    const { data, error } = await databaseService.getQuoteApprovals(filters, limit, offset);
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load approvals', code: 'DATABASE_ERROR' } };
+    }
+    return { data: (data || []).map(row => this.normalize(row)), error: null };
+  }
+
+  /**
+   * An approval covers the cart when the discount is no higher and the margin no lower than approved
+   */
+  private covers(approval: QuoteApproval, evaluation: QuoteApprovalEvaluation): boolean {
+    if (evaluation.discount_percent > approval.discount_percent) {
+      return false;
+    }
+
+    if (evaluation.margin_percent === null) {
+      return true;
+    }
+    if (evaluation.min_margin_percent !== null && evaluation.margin_percent >= evaluation.min_margin_percent) {
+      return true;
+    }
+    return approval.margin_percent !== null && evaluation.margin_percent >= approval.margin_percent;
+  }
+
+  /**
+   * Margin over catalog (UUID) products with a cost, null when none have one
+   */
+  private async marginPercent(items: CartItem[], cartShare: Decimal): Promise<number | null> {
+    const productIds = [...new Set(items.map(item => item.productId).filter(id => UUID_PATTERN.test(String(id))))];
+    if (productIds.length === 0) {
+      return null;
+    }
+
+    const { data: costs, error } = await databaseService.getProductCosts(productIds);
+    if (error) {
+      Logger.warn('Product costs unavailable, margin not checked', { error });
+      return null;
+    }
+
+    const costById = new Map((costs || []).map(row => [row.id, new Decimal(row.cost)]));
+    let revenue = new Decimal(0);
+    let cost = new Decimal(0);
+
+    for (const item of items) {
+      const unitCost = costById.get(item.productId);
+      if (!unitCost) continue;
+      revenue = revenue.plus(new Decimal(item.total || 0).times(cartShare));
+      cost = cost.plus(unitCost.times(item.quantity));
+    }
+
+    if (!revenue.greaterThan(0)) {
+      return null;
+    }
+
+    return revenue.minus(cost).dividedBy(revenue).times(100).toDecimalPlaces(PERCENT_PLACES).toNumber();
+  }
+
+  /**
+   * decimal columns come back from pg as strings
+   */
+  private normalize(row: QuoteApproval): QuoteApproval {
+    return {
+      ...row,
+      discount_percent: Number(row.discount_percent),
+      margin_percent: row.margin_percent === null || row.margin_percent === undefined ? null : Number(row.margin_percent),
+      final_total: Number(row.final_total)
+    };
+  }
+}
+
+export const quoteApprovalService = QuoteApprovalService.getInstance();
@@ -0,0 +1,119 @@
+// ALVA POS MVP - Quote Expiry Service
+// Scheduled job that expires open quotes past their valid_until
+
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, ExpiredQuote } from './DatabaseService';
+import { realTimeSyncService, RealTimeMessage } from './RealTimeSyncService';
+import { config } from '@/config/environment';
+import { Logger } from '@/utils/logger';
+
+// Quotes expired per batch; a run repeats until nothing is overdue
+const BATCH_SIZE = 200;
+
+export interface QuoteExpiryRunResult {
+  expired: number;
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+export class QuoteExpiryService {
+  private static instance: QuoteExpiryService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  static getInstance(): QuoteExpiryService {
+    if (!QuoteExpiryService.instance) {
+      QuoteExpiryService.instance = new QuoteExpiryService();
+    }
+    return QuoteExpiryService.instance;
+  }
+
+  /**
+   * Run once now, then every config.quoteExpiry.interval
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.run();
+    }, config.quoteExpiry.interval);
+
+    await this.run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire every overdue draft/pending_approval/sent quote and emit a quote_expired
+   * message per quote. Overlapping runs are skipped (reported as 0).
+   */
+  async run(): Promise<QuoteExpiryRunResult> {
+    const startedAt = new Date();
+    if (this.running) {
+      return { expired: 0, startedAt: startedAt.toISOString(), durationMs: 0 };
+    }
+
+    this.running = true;
+    let expired = 0;
+
+    try {
+      while (true) {
+        const { data, error } = await databaseService.expireOverdueQuotesAlvamitra(BATCH_SIZE);
+        if (error) {
+          throw new Error(error.message || String(error));
+        }
+
+        for (const quote of data || []) {
+          await this.emitExpired(quote);
+        }
+
+        expired += data?.length || 0;
+        if (!data || data.length < BATCH_SIZE) break;
+      }
+
+      const result = { expired, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime() };
+      if (expired > 0) {
+        Logger.info(`Quote expiry run expired ${expired} quote(s)`, result);
+      } else {
+        Logger.debug('Quote expiry run found no overdue quotes', result);
+      }
+      return result;
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.error('Quote expiry run failed', { error: message, expiredBeforeFailure: expired });
+      return { expired, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime(), error: message };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async emitExpired(quote: ExpiredQuote): Promise<void> {
+    const message: RealTimeMessage = {
+      type: 'quote_expired',
+      sessionId: quote.session_id || '',
+      data: {
+        quoteId: quote.id,
+        quoteNumber: quote.quote_number,
+        validUntil: quote.valid_until,
+        previousStatus: quote.previous_status,
+        organisationId: quote.organisation_id || null
+      },
+      timestamp: new Date().toISOString(),
+      messageId: uuidv4()
+    };
+
+    try {
+      await realTimeSyncService.broadcastMessage(message);
+    } catch (error) {
+      Logger.warn('Failed to emit quote_expired event', { quoteId: quote.id, error });
+    }
+  }
+}
+
+export const quoteExpiryService = QuoteExpiryService.getInstance();
@@ -0,0 +1,283 @@
+// ALVA POS MVP - Quote PDF Service
+// Branded PDF quotation rendering with pdfkit
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { config } from '@/config/environment';
+import { financialCalculationService } from './FinancialCalculationService';
+import { CartTotals } from '@/types/api';
+import { ExportOptions, QuotationDocument } from '@/types/export';
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+const PAGE_MARGIN = 40;
+const BRAND_COLOR = '#1f4e79';
+const MUTED_COLOR = '#666666';
+const ROW_PADDING = 4;
+
+export class QuotePdfService {
+  private static instance: QuotePdfService;
+
+  static getInstance(): QuotePdfService {
+    if (!QuotePdfService.instance) {
+      QuotePdfService.instance = new QuotePdfService();
+    }
+    return QuotePdfService.instance;
+  }
+
+  /**
+   * Render quotation to a PDF buffer
+   */
+  async renderQuotation(quote: QuotationDocument, options: ExportOptions = {}): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Quotation ${quote.quote_number}`,
+        Author: config.export.branding.companyName,
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.drawHeader(doc, quote, options.includeLogo !== false);
+
+    if (quote.items.length > 0) {
+      this.drawSectionTitle(doc, 'Items');
+      this.drawTable(
+        doc,
+        [
+          { header: 'No', width: 30, align: 'center' },
+          { header: 'Description', width: 205 },
+          { header: 'Qty', width: 40, align: 'right' },
+          { header: 'Unit Price', width: 85, align: 'right' },
+          { header: 'Discount', width: 70, align: 'right' },
+          { header: 'Total', width: 85, align: 'right' },
+        ],
+        quote.items.map((item, index) => [
+          String(index + 1),
+          item.notes ? `${item.name}\n${item.notes}` : item.name,
+          String(item.quantity),
+          this.money(item.price),
+          item.discount?.appliedAmount ? `-${this.money(item.discount.appliedAmount)}` : '-',
+          this.money(item.total),
+        ])
+      );
+    }
+
+    if (quote.laborItems.length > 0) {
+      this.drawSectionTitle(doc, 'Labor & Services');
+      this.drawTable(
+        doc,
+        [
+          { header: 'No', width: 30, align: 'center' },
+          { header: 'Description', width: 205 },
+          { header: 'Qty', width: 40, align: 'right' },
+          { header: 'Rate', width: 85, align: 'right' },
+          { header: 'Discount', width: 70, align: 'right' },
+          { header: 'Total', width: 85, align: 'right' },
+        ],
+        quote.laborItems.map((labor, index) => [
+          String(index + 1),
+          labor.description ? `${labor.name}\n${labor.description}` : labor.name,
+          `${labor.quantity} ${labor.unit}`,
+          this.money(labor.rate),
+          labor.discount?.appliedAmount ? `-${this.money(labor.discount.appliedAmount)}` : '-',
+          this.money(labor.total),
+        ])
+      );
+    }
+
+    this.drawTotals(doc, quote.totals);
+
+    if (quote.notes) {
+      this.drawSectionTitle(doc, 'Notes');
+      doc.font('Helvetica').fontSize(9).fillColor('black')
+        .text(quote.notes, PAGE_MARGIN, doc.y, { width: this.contentWidth(doc) });
+    }
+
+    this.drawFooters(doc, quote);
+    doc.end();
+
+    return done;
+  }
+
+  private drawHeader(doc: PDFKit.PDFDocument, quote: QuotationDocument, includeLogo: boolean): void {
+    const { branding } = config.export;
+    const top = PAGE_MARGIN;
+    let textX = PAGE_MARGIN;
+
+    if (includeLogo && branding.logoPath && fs.existsSync(branding.logoPath)) {
+      doc.image(branding.logoPath, PAGE_MARGIN, top, { fit: [80, 50] });
+      textX += 90;
+    }
+
+    doc.font('Helvetica-Bold').fontSize(16).fillColor(BRAND_COLOR)
+      .text(branding.companyName, textX, top);
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR);
+    [branding.address, branding.phone, branding.email]
+      .filter(Boolean)
+      .forEach(line => doc.text(line, textX));
+
+    const rightX = doc.page.width - PAGE_MARGIN - 200;
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(BRAND_COLOR)
+      .text('QUOTATION', rightX, top, { width: 200, align: 'right' });
+    doc.font('Helvetica').fontSize(9).fillColor('black');
+    [
+      `No: ${quote.quote_number}`,
+      `Date: ${this.date(quote.created_at)}`,
+      `Valid until: ${this.date(quote.valid_until)}`,
+      `Status: ${quote.status}`,
+    ].forEach(line => doc.text(line, rightX, doc.y, { width: 200, align: 'right' }));
+
+    const lineY = Math.max(doc.y, top + 60) + 10;
+    doc.moveTo(PAGE_MARGIN, lineY).lineTo(doc.page.width - PAGE_MARGIN, lineY)
+      .lineWidth(1).strokeColor(BRAND_COLOR).stroke();
+    doc.y = lineY + 10;
+  }
+
+  private drawSectionTitle(doc: PDFKit.PDFDocument, title: string): void {
+    this.ensureSpace(doc, 40);
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(BRAND_COLOR)
+      .text(title, PAGE_MARGIN, doc.y);
+    doc.moveDown(0.3);
+  }
+
+  private drawTable(doc: PDFKit.PDFDocument, columns: TableColumn[], rows: string[][]): void {
+    const drawRow = (cells: string[], header: boolean) => {
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+
+      const height = Math.max(...cells.map((cell, i) =>
+        doc.heightOfString(cell, { width: columns[i].width - ROW_PADDING * 2 })
+      )) + ROW_PADDING * 2;
+
+      if (this.ensureSpace(doc, height) && !header) {
+        drawRow(columns.map(column => column.header), true);
+        doc.font('Helvetica').fontSize(8);
+      }
+
+      const y = doc.y;
+      if (header) {
+        doc.rect(PAGE_MARGIN, y, this.contentWidth(doc), height).fill(BRAND_COLOR);
+      }
+
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, i) => {
+        doc.fillColor(header ? 'white' : 'black')
+          .text(cell, x + ROW_PADDING, y + ROW_PADDING, {
+            width: columns[i].width - ROW_PADDING * 2,
+            align: columns[i].align || 'left'
+          });
+        x += columns[i].width;
+      });
+
+      doc.moveTo(PAGE_MARGIN, y + height).lineTo(PAGE_MARGIN + this.contentWidth(doc), y + height)
+        .lineWidth(0.5).strokeColor('#cccccc').stroke();
+      doc.y = y + height;
+    };
+
+    drawRow(columns.map(column => column.header), true);
+    rows.forEach(row => drawRow(row, false));
+  }
+
+  private drawTotals(doc: PDFKit.PDFDocument, totals: CartTotals): void {
+    const lines: Array<[string, string, boolean?]> = [
+      ['Items subtotal', this.money(totals.itemsSubtotal)],
+      ['Labor subtotal', this.money(totals.laborSubtotal)],
+    ];
+
+    if (totals.itemDiscounts + totals.laborDiscounts > 0) {
+      lines.push(['Line discounts', `-${this.money(totals.itemDiscounts + totals.laborDiscounts)}`]);
+    }
+
+    // totals.subtotal is after line discounts, before the total-level discount
+    lines.push(['Subtotal', this.money(totals.subtotal)]);
+
+    if (totals.totalDiscount?.appliedAmount) {
+      const label = totals.totalDiscount.type === 'percentage'
+        ? `Discount (${totals.totalDiscount.value}%)`
+        : 'Discount';
+      lines.push([label, `-${this.money(totals.totalDiscount.appliedAmount)}`]);
+    }
+
+    lines.push(
+      [`PPN (${this.percent(totals.taxRate)})`, this.money(totals.taxAmount)],
+      ['Grand total', this.money(totals.finalTotal), true]
+    );
+
+    this.ensureSpace(doc, lines.length * 16 + 20);
+    doc.moveDown(0.8);
+
+    const labelX = doc.page.width - PAGE_MARGIN - 260;
+    lines.forEach(([label, value, emphasis]) => {
+      const y = doc.y;
+      doc.font(emphasis ? 'Helvetica-Bold' : 'Helvetica')
+        .fontSize(emphasis ? 11 : 9)
+        .fillColor(emphasis ? BRAND_COLOR : 'black');
+      doc.text(label, labelX, y, { width: 140 });
+      doc.text(value, labelX + 140, y, { width: 120, align: 'right' });
+      doc.moveDown(0.2);
+    });
+  }
+
+  private drawFooters(doc: PDFKit.PDFDocument, quote: QuotationDocument): void {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Footer sits inside the bottom margin; without this pdfkit would start a new page
+      doc.page.margins.bottom = 0;
+      const y = doc.page.height - PAGE_MARGIN + 10;
+      doc.font('Helvetica').fontSize(7).fillColor(MUTED_COLOR)
+        .text(
+          `${quote.quote_number} - valid until ${this.date(quote.valid_until)} - page ${i - range.start + 1} of ${range.count}`,
+          PAGE_MARGIN,
+          y,
+          { width: this.contentWidth(doc), align: 'center', lineBreak: false }
+        );
+    }
+  }
+
+  /**
+   * Start a new page when the next block does not fit; returns true if a page was added
+   */
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): boolean {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN - 20) {
+      doc.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  private contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  private money(amount: number): string {
+    return financialCalculationService.formatCurrency(amount || 0, 'id-ID', 'IDR');
+  }
+
+  private percent(rate: number): string {
+    return `${Number(((rate || 0) * 100).toFixed(2))}%`;
+  }
+
+  private date(value: string): string {
+    const date = new Date(value);
+    return isNaN(date.getTime())
+      ? '-'
+      : date.toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+  }
+}
+
+export const quotePdfService = QuotePdfService.getInstance();
@@ -0,0 +1,142 @@
+// ALVA POS MVP - Quote Revision Service
+// Item-level comparison between stored quote revisions
+
+import Decimal from 'decimal.js';
+import { databaseService, QuoteRevision } from './DatabaseService';
+import { QuoteRevisionDiff, QuoteRevisionLine, QuoteRevisionLineChange } from '@/types/api';
+
+export interface QuoteRevisionDiffResult {
+  data: QuoteRevisionDiff | null;
+  error: { message: string; code: string; details?: any } | null;
+}
+
+export class QuoteRevisionService {
+  private static instance: QuoteRevisionService;
+
+  static getInstance(): QuoteRevisionService {
+    if (!QuoteRevisionService.instance) {
+      QuoteRevisionService.instance = new QuoteRevisionService();
+    }
+    return QuoteRevisionService.instance;
+  }
+
+  /**
+   * Load two revisions of a quote and compare them (from → to)
+   */
+  async getDiff(quoteId: string, fromRevision: number, toRevision: number): Promise<QuoteRevisionDiffResult> {
+    const { data, error } = await databaseService.getQuoteRevisionsByNumber(quoteId, [fromRevision, toRevision]);
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load revisions', code: 'DATABASE_ERROR' } };
+    }
+
+    const from = data?.find(revision => revision.revision_number === fromRevision);
+    const to = data?.find(revision => revision.revision_number === toRevision);
+    if (!from || !to) {
+      const missing = [fromRevision, toRevision].filter(number => !data?.some(revision => revision.revision_number === number));
+      return { data: null, error: { message: 'Revision not found', code: 'NOT_FOUND', details: { revisions: missing } } };
+    }
+
+    return { data: this.diff(from, to), error: null };
+  }
+
+  /**
+   * Lines are matched by product (items) or type and name (labor); a line present in only one
+   * revision is an add or removal, otherwise quantity and unit price are compared.
+   */
+  diff(from: QuoteRevision, to: QuoteRevision): QuoteRevisionDiff {
+    const before = this.lines(from);
+    const after = this.lines(to);
+
+    const added: QuoteRevisionLine[] = [];
+    const removed: QuoteRevisionLine[] = [];
+    const quantityChanges: QuoteRevisionLineChange[] = [];
+    const priceChanges: QuoteRevisionLineChange[] = [];
+
+    for (const [key, line] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        added.push(line);
+        continue;
+      }
+
+      const change = { key, kind: line.kind, productId: line.productId, name: line.name };
+      if (previous.quantity !== line.quantity) {
+        quantityChanges.push({ ...change, from: previous.quantity, to: line.quantity });
+      }
+      if (previous.price !== line.price) {
+        priceChanges.push({ ...change, from: previous.price, to: line.price });
+      }
+    }
+
+    for (const [key, line] of before) {
+      if (!after.has(key)) {
+        removed.push(line);
+      }
+    }
+
+    const total = (field: 'subtotal' | 'tax_amount' | 'final_total') => {
+      const fromValue = Number(from[field]) || 0;
+      const toValue = Number(to[field]) || 0;
+      return { from: fromValue, to: toValue, delta: new Decimal(toValue).minus(fromValue).toNumber() };
+    };
+
+    const diff: QuoteRevisionDiff = {
+      quote_id: to.quote_id,
+      from: { revision_number: from.revision_number, created_at: from.created_at, changed_by: from.changed_by },
+      to: { revision_number: to.revision_number, created_at: to.created_at, changed_by: to.changed_by },
+      added,
+      removed,
+      quantity_changes: quantityChanges,
+      price_changes: priceChanges,
+      totals: {
+        subtotal: total('subtotal'),
+        tax_amount: total('tax_amount'),
+        final_total: total('final_total')
+      }
+    };
+
+    if (from.status !== to.status) {
+      diff.status = { from: from.status, to: to.status };
+    }
+    if (Number(from.tax_rate) !== Number(to.tax_rate)) {
+      diff.tax_rate = { from: Number(from.tax_rate), to: Number(to.tax_rate) };
+    }
+
+    return diff;
+  }
+
+  private lines(revision: QuoteRevision): Map<string, QuoteRevisionLine> {
+    const lines = new Map<string, QuoteRevisionLine>();
+
+    const add = (baseKey: string, line: Omit<QuoteRevisionLine, 'key'>) => {
+      let key = baseKey;
+      for (let occurrence = 2; lines.has(key); occurrence++) {
+        key = `${baseKey}#${occurrence}`;
+      }
+      lines.set(key, { key, ...line });
+    };
+
+    for (const item of revision.cart_data?.items || []) {
+      add(`item:${item.productId}`, {
+        kind: 'item',
+        productId: String(item.productId),
+        name: item.name,
+        quantity: Number(item.quantity) || 0,
+        price: Number(item.price) || 0
+      });
+    }
+
+    for (const labor of revision.cart_data?.laborItems || []) {
+      add(`labor:${labor.type}:${labor.name}`, {
+        kind: 'labor',
+        name: labor.name,
+        quantity: Number(labor.quantity) || 0,
+        price: Number(labor.rate) || 0
+      });
+    }
+
+    return lines;
+  }
+}
+
+export const quoteRevisionService = QuoteRevisionService.getInstance();
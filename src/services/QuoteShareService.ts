@@ -0,0 +1,280 @@
+// ALVA POS MVP - Quote Share Service
+// Sending quotes as tokenized public links and recording the customer's accept/reject
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, QuoteCustomerResponse, QuoteShareLink } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { quoteApprovalService } from './QuoteApprovalService';
+import { realTimeSyncService } from './RealTimeSyncService';
+import { config } from '@/config/environment';
+import { Logger } from '@/utils/logger';
+import { CartItem, LaborItem, PublicQuoteView, QuoteApprovalEvaluation, QuoteCustomerResponseRequest } from '@/types/api';
+
+// Link lifetime for quotes without valid_until
+const DEFAULT_LINK_DAYS = 30;
+const TOKEN_BYTES = 32;
+
+export interface QuoteShareServiceError {
+  message: string;
+  code: string;
+  details?: any;
+}
+
+export interface QuoteSendResult {
+  data: { quote: any; share_link: QuoteShareLink; url: string } | null; // quote: DatabaseService.getQuoteAlvamitra
+  error: QuoteShareServiceError | null;
+}
+
+export interface PublicQuoteResult {
+  data: PublicQuoteView | null;
+  error: QuoteShareServiceError | null;
+}
+
+export class QuoteShareService {
+  private static instance: QuoteShareService;
+
+  static getInstance(): QuoteShareService {
+    if (!QuoteShareService.instance) {
+      QuoteShareService.instance = new QuoteShareService();
+    }
+    return QuoteShareService.instance;
+  }
+
+  /**
+   * Send a draft quote (or re-send a sent one): checks discount approval and validity,
+   * moves it to 'sent' and returns a new public link. Earlier links stop working.
+   */
+  async sendQuote(quoteId: string, role: string): Promise<QuoteSendResult> {
+    const { data: quote, error } = await databaseService.getQuoteAlvamitra(quoteId);
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load quote', code: 'DATABASE_ERROR' } };
+    }
+    if (!quote) {
+      return { data: null, error: { message: 'Quote not found', code: 'NOT_FOUND' } };
+    }
+
+    if (quote.status === 'pending_approval') {
+      return { data: null, error: { message: 'Quote is waiting for discount approval', code: 'APPROVAL_REQUIRED' } };
+    }
+    if (quote.status !== 'draft' && quote.status !== 'sent') {
+      return { data: null, error: { message: `Quote is ${quote.status} and cannot be sent`, code: 'NOT_SENDABLE' } };
+    }
+    if (quote.valid_until && new Date(quote.valid_until).getTime() <= Date.now()) {
+      return { data: null, error: { message: `Quote expired on ${quote.valid_until}`, code: 'QUOTE_EXPIRED' } };
+    }
+
+    const approval = await this.checkApproval(quote, role);
+    if (approval.error) {
+      return { data: null, error: approval.error };
+    }
+    if (approval.evaluation) {
+      return {
+        data: null,
+        error: {
+          message: `Quote cannot be sent before a manager approves its discount: ${approval.evaluation.reasons.join('; ')}`,
+          code: 'APPROVAL_REQUIRED',
+          details: approval.evaluation
+        }
+      };
+    }
+
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const expiresAt = quote.valid_until
+      ? new Date(quote.valid_until)
+      : new Date(Date.now() + DEFAULT_LINK_DAYS * 24 * 60 * 60 * 1000);
+
+    const result = await databaseService.sendQuoteAlvamitra(quoteId, this.hashToken(token), expiresAt.toISOString());
+    if (result.error) {
+      return { data: null, error: { message: result.error.message || 'Failed to send quote', code: 'DATABASE_ERROR' } };
+    }
+    if (!result.data) {
+      return { data: null, error: { message: 'Quote changed while it was being sent', code: 'NOT_SENDABLE' } };
+    }
+
+    Logger.info('Quote sent', { quoteId, shareLinkId: result.data.share_link.id, expiresAt: result.data.share_link.expires_at });
+
+    return {
+      data: { ...result.data, url: `${config.quoteSharing.baseUrl}/${token}` },
+      error: null
+    };
+  }
+
+  /**
+   * Read-only view of the quote behind a public link
+   */
+  async getPublicQuote(token: string): Promise<PublicQuoteResult> {
+    const link = await this.resolveLink(token);
+    if (link.error || !link.data) {
+      return { data: null, error: link.error };
+    }
+
+    const { data: quote, error } = await databaseService.getSharedQuoteAlvamitra(link.data);
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load quote', code: 'DATABASE_ERROR' } };
+    }
+    if (!quote) {
+      return { data: null, error: { message: 'Quote not found', code: 'NOT_FOUND' } };
+    }
+
+    return { data: this.toPublicView(quote, quote.customer_response), error: null };
+  }
+
+  /**
+   * Customer accepts or rejects a sent quote through its public link. The quote status
+   * follows the decision and the sales session is notified.
+   */
+  async respond(
+    token: string,
+    decision: QuoteCustomerResponse['decision'],
+    request: QuoteCustomerResponseRequest,
+    client: { ip?: string; userAgent?: string } = {}
+  ): Promise<PublicQuoteResult> {
+    const link = await this.resolveLink(token);
+    if (link.error || !link.data) {
+      return { data: null, error: link.error };
+    }
+
+    const { data, error } = await databaseService.respondToSharedQuoteAlvamitra(link.data, {
+      decision,
+      customer_name: request.name,
+      comment: request.comment,
+      ip_address: client.ip,
+      user_agent: client.userAgent
+    });
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to record response', code: 'DATABASE_ERROR' } };
+    }
+
+    if (!data) {
+      // Explain why: already answered, expired or no longer sent
+      const current = await databaseService.getSharedQuoteAlvamitra(link.data);
+      const quote = current.data;
+      if (quote?.customer_response) {
+        return { data: null, error: { message: `Quote was already ${quote.customer_response.decision}`, code: 'ALREADY_RESPONDED' } };
+      }
+      if (quote?.valid_until && new Date(quote.valid_until).getTime() <= Date.now()) {
+        return { data: null, error: { message: 'Quote has expired', code: 'QUOTE_EXPIRED' } };
+      }
+      return { data: null, error: { message: 'Quote can no longer be answered', code: 'NOT_RESPONDABLE' } };
+    }
+
+    Logger.info(`Quote ${decision} by customer`, { quoteId: data.quote.id, shareLinkId: link.data.id });
+
+    try {
+      await realTimeSyncService.broadcastMessage({
+        type: 'quote_updated',
+        sessionId: '',
+        data: {
+          quoteId: data.quote.id,
+          quoteNumber: data.quote.quote_number,
+          status: data.quote.status,
+          customerResponse: data.customer_response
+        },
+        timestamp: new Date().toISOString(),
+        messageId: uuidv4()
+      });
+    } catch (broadcastError) {
+      Logger.warn('Failed to broadcast customer response', { quoteId: data.quote.id, broadcastError });
+    }
+
+    return { data: this.toPublicView(data.quote, data.customer_response), error: null };
+  }
+
+  /**
+   * Same gate as cart edits in PUT /api/quotes/:id: an uncovered discount puts the quote in pending_approval
+   */
+  private async checkApproval(
+    quote: any,
+    role: string
+  ): Promise<{ evaluation: QuoteApprovalEvaluation | null; error: QuoteShareServiceError | null }> {
+    const check = await quoteApprovalService.checkApproval('alvamitra', quote.id, quote, role);
+
+    if (check.error || !check.data) {
+      return { evaluation: null, error: check.error || { message: 'Failed to check discount approval', code: 'DATABASE_ERROR' } };
+    }
+    if (check.data.allowed) {
+      return { evaluation: null, error: null };
+    }
+
+    const evaluation = check.data.evaluation;
+    const pending = await databaseService.transitionQuoteStatusAlvamitra(quote.id, ['draft', 'sent'], 'pending_approval');
+    const request = await quoteApprovalService.requestApproval('alvamitra', {
+      id: quote.id,
+      quote_number: quote.quote_number,
+      final_total: financialCalculationService.priceCart(quote.items, quote.laborItems, quote.tax_rate).totals.finalTotal
+    }, evaluation);
+
+    if (pending.error || request.error) {
+      Logger.warn('Failed to queue quote for approval', { quoteId: quote.id, statusError: pending.error, approvalError: request.error });
+    }
+
+    return { evaluation, error: null };
+  }
+
+  private async resolveLink(token: string): Promise<{ data: QuoteShareLink | null; error: QuoteShareServiceError | null }> {
+    const { data, error } = await databaseService.getQuoteShareLink(this.hashToken(token));
+    if (error) {
+      return { data: null, error: { message: error.message || 'Failed to load link', code: 'DATABASE_ERROR' } };
+    }
+    if (!data) {
+      return { data: null, error: { message: 'Link is invalid, expired or was replaced by a newer one', code: 'NOT_FOUND' } };
+    }
+    return { data, error: null };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toPublicView(quote: any, response: QuoteCustomerResponse | null | undefined): PublicQuoteView {
+    const { branding } = config.export;
+    const { totals } = financialCalculationService.priceCart(quote.items, quote.laborItems, quote.tax_rate);
+    const open = quote.status === 'sent' && (!quote.valid_until || new Date(quote.valid_until).getTime() > Date.now());
+
+    return {
+      quote_number: quote.quote_number,
+      status: quote.status,
+      created_at: quote.created_at || '',
+      valid_until: quote.valid_until,
+      notes: quote.notes,
+      customer: {}, // Alvamitra quotes keep no customer
+      company: { name: branding.companyName, address: branding.address, phone: branding.phone, email: branding.email },
+      items: (quote.items || []).map((item: CartItem) => ({
+        name: item.name,
+        specs: item.specs,
+        quantity: Number(item.quantity),
+        price: Number(item.price),
+        discount_amount: Number(item.discount?.appliedAmount || 0),
+        total: Number(item.total)
+      })),
+      labor_items: (quote.laborItems || []).map((labor: LaborItem) => ({
+        name: labor.name,
+        description: labor.description,
+        quantity: Number(labor.quantity),
+        unit: labor.unit,
+        rate: Number(labor.rate),
+        discount_amount: Number(labor.discount?.appliedAmount || 0),
+        total: Number(labor.total)
+      })),
+      totals: {
+        subtotal: Number(totals.subtotal || 0),
+        total_discount: 0, // line discounts only, see items/labor_items
+        tax_rate: Number(quote.tax_rate),
+        tax_amount: Number(totals.taxAmount || 0),
+        final_total: Number(totals.finalTotal || 0)
+      },
+      response: response
+        ? {
+            decision: response.decision,
+            customer_name: response.customer_name,
+            comment: response.comment,
+            responded_at: response.responded_at
+          }
+        : null,
+      can_respond: open && !response
+    };
+  }
+}
+
+export const quoteShareService = QuoteShareService.getInstance();
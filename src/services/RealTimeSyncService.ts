@@ -1,20 +1,34 @@
-// ALVA POS MVP - Real-Time Sync Service Stub
-// Real-time functionality temporarily disabled for PostgreSQL conversion
+// ALVA POS MVP - Real-Time Sync Service
+// Quote updates and calculation results per session or per quote, over WebSocket or SSE
 
 import { EventEmitter } from 'events';
+import { IncomingMessage, Server, ServerResponse } from 'http';
+import { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { authService, AuthUser } from './AuthService';
+import { databaseService } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { config } from '@/config/environment';
+import { sessionManager } from '@/utils/session';
+import { runWithRequestContext, RequestContext } from '@/utils/requestContext';
 import { Logger } from '@/utils/logger';
 
 export interface RealTimeMessage {
-  type: 'quote_updated' | 'customer_updated' | 'calculation_sync' | 'connection_status' | 'error';
+  type: 'quote_updated' | 'quote_expired' | 'customer_updated' | 'calculation_sync'
+    | 'update_confirmed' | 'update_rolled_back' | 'conflict' | 'connection_status' | 'error';
   sessionId: string;
   data?: any;
   timestamp: string;
   messageId: string;
 }
 
+export type RealTimeTransport = 'websocket' | 'sse';
+
 export interface ConnectionState {
   isConnected: boolean;
   connectionId?: string;
+  transport?: RealTimeTransport;
   lastHeartbeat?: string;
   reconnectAttempts: number;
   subscriptions: string[];
@@ -29,21 +43,97 @@ export interface CalculationSyncPayload {
 }
 
 export interface OptimisticUpdate {
-  id: string;
+  id: string;                    // update id (request id, so clients can match it to their write)
   type: 'quote' | 'customer';
+  entityId: string;
   operation: 'create' | 'update' | 'delete';
   data: any;
+  sessionId: string;
+  baseVersion?: number | null;   // entity version the edit was made on
+  version?: number | null;       // version the write committed as
   timestamp: string;
   confirmed: boolean;
 }
 
-// Stub implementation - all methods return disabled status
+// Both sides of a conflicting edit, as sent in 'conflict' messages
+export interface OptimisticConflict {
+  updateId: string;
+  entity: OptimisticUpdate['type'];
+  entityId: string;
+  yours: { baseVersion: number | null; version: number | null; data: any };
+  theirs: { updateId: string | null; version: number | null; data: any };
+}
+
+export interface RealTimeSyncError {
+  message: string;
+  code: string;
+}
+
+// Messages a client sends over the socket
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe' | 'ping';
+  sessionId?: string;
+  quoteId?: string;
+}
+
+interface Connection {
+  id: string;
+  transport: RealTimeTransport;
+  socket: WebSocket | null;
+  stream: ServerResponse | null;
+  keepAlive?: NodeJS.Timeout;
+  sessionId: string;
+  user: AuthUser | null;
+  connectedAt: string;
+  disconnectedAt?: number;
+  alive: boolean;
+  state: ConnectionState;
+}
+
+// Last committed write per entity
+interface TrackedEntity {
+  updateId: string;
+  sessionId: string;
+  version: number | null;
+  data: any;
+  committedAt: number;
+}
+
+interface ReplayEntry {
+  eventId: number;
+  channels: string[];
+  message: RealTimeMessage;
+}
+
+const SESSION_COOKIE = 'alva-session-id';
+// Alvamitra quote ids (Id_Estimasi_Master)
+const QUOTE_ID_PATTERN = /^[1-9]\d*$/;
+
+// Close codes sent to clients
+const CLOSE_GOING_AWAY = 1001;
+const CLOSE_POLICY_VIOLATION = 1008;
+
+// EventSource reconnect delay suggested to SSE clients
+const SSE_RETRY_MS = 3000;
+
+// Unconfirmed updates are rolled back, and committed versions forgotten, after this long
+const OPTIMISTIC_UPDATE_TTL_MS = 10 * 60 * 1000;
+
 export class RealTimeSyncService extends EventEmitter {
   private static instance: RealTimeSyncService;
+  private wss: WebSocketServer | null = null;
+  private httpServer: Server | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private connections = new Map<string, Connection>();
+  private replay: ReplayEntry[] = [];
+  private pendingUpdates = new Map<string, OptimisticUpdate>();
+  private entityVersions = new Map<string, TrackedEntity>();
+  private lastEventId = 0;
+  private messagesSent = 0;
 
   constructor() {
     super();
-    Logger.info('RealTimeSyncService stub initialized (functionality disabled)');
+    Logger.info('RealTimeSyncService initialized');
   }
 
   static getInstance(): RealTimeSyncService {
@@ -53,67 +143,873 @@ export class RealTimeSyncService extends EventEmitter {
     return RealTimeSyncService.instance;
   }
 
-  // Stub methods that return disabled status
-  async subscribeSession(sessionId: string): Promise<ConnectionState> {
+  /**
+   * Accept WebSocket upgrades on config.realtime.wsPath of the HTTP server and start heartbeats
+   */
+  attach(server: Server): void {
+    if (this.wss) {
+      return;
+    }
+
+    this.httpServer = server;
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', this.handleUpgrade);
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), config.realtime.heartbeatInterval);
+
+    Logger.info('Real-time WebSocket server attached', {
+      path: config.realtime.wsPath,
+      heartbeatInterval: config.realtime.heartbeatInterval
+    });
+  }
+
+  /**
+   * Open a Server-Sent Events stream for a session and some of its quotes (fallback where
+   * WebSockets are blocked). With lastEventId the buffered messages after it are replayed first;
+   * when the buffer no longer reaches back that far a replay_incomplete status is sent instead.
+   */
+  async openStream(
+    res: ServerResponse,
+    sessionId: string,
+    user: AuthUser | null,
+    quoteIds: string[] = [],
+    lastEventId?: string
+  ): Promise<{ data: ConnectionState | null; error: RealTimeSyncError | null }> {
+    if (quoteIds.length > 0 && !user) {
+      return { data: null, error: { message: 'Quote subscriptions require an access token', code: 'AUTH_REQUIRED' } };
+    }
+
+    for (const quoteId of quoteIds) {
+      const access = await this.checkQuoteAccessFor(sessionId, user!, quoteId);
+      if (access) {
+        return { data: null, error: access };
+      }
+    }
+
+    const channels = [this.sessionChannel(sessionId), ...quoteIds.map(quoteId => this.quoteChannel(quoteId))];
+    const resumeFrom = lastEventId !== undefined && /^\d+$/.test(lastEventId) ? Number(lastEventId) : null;
+    const previous = resumeFrom !== null ? this.findResumableStream(sessionId, user, channels) : undefined;
+    const now = new Date().toISOString();
+
+    let connection: Connection;
+    if (previous) {
+      connection = previous;
+      connection.connectedAt = now;
+      connection.disconnectedAt = undefined;
+      connection.state.reconnectAttempts++;
+    } else {
+      connection = {
+        id: uuidv4(),
+        transport: 'sse',
+        socket: null,
+        stream: null,
+        sessionId,
+        user,
+        connectedAt: now,
+        alive: true,
+        state: {
+          isConnected: false,
+          transport: 'sse',
+          reconnectAttempts: 0,
+          subscriptions: [...new Set(channels)]
+        }
+      };
+      connection.state.connectionId = connection.id;
+      this.connections.set(connection.id, connection);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      // no-transform keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    connection.stream = res;
+    connection.state.isConnected = true;
+    this.markAlive(connection);
+
+    connection.keepAlive = setInterval(() => {
+      if (connection.stream === res) {
+        res.write(': keep-alive\n\n');
+        this.markAlive(connection);
+      }
+    }, config.realtime.sseKeepAliveInterval);
+    res.on('close', () => this.onClose(connection, res));
+
+    Logger.info(previous ? 'SSE stream resumed' : 'SSE stream opened', {
+      connectionId: connection.id,
+      sessionId,
+      userId: user?.id,
+      subscriptions: connection.state.subscriptions.length,
+      lastEventId: resumeFrom
+    });
+
+    this.sendStatus(connection, previous ? 'reconnected' : 'connected');
+    if (resumeFrom !== null) {
+      this.replaySince(connection, resumeFrom);
+    }
+
+    return { data: { ...connection.state, subscriptions: [...connection.state.subscriptions] }, error: null };
+  }
+
+  /**
+   * Transports a session currently has open connections on
+   */
+  getSessionTransports(sessionId: string): Record<RealTimeTransport, boolean> {
+    const open = this.openConnections(sessionId);
     return {
-      isConnected: false,
-      reconnectAttempts: 0,
-      subscriptions: []
+      websocket: open.some(connection => connection.transport === 'websocket'),
+      sse: open.some(connection => connection.transport === 'sse')
     };
   }
 
-  async unsubscribeSession(sessionId: string): Promise<void> {
-    Logger.debug(`Real-time unsubscription attempted for session ${sessionId} - disabled`);
+  /**
+   * Subscribe the open connections of a session to the session itself, or to one of its quotes.
+   * Quote access is checked in the current request context.
+   */
+  async subscribeSession(
+    sessionId: string,
+    quoteId?: string
+  ): Promise<{ data: ConnectionState | null; error: RealTimeSyncError | null }> {
+    const open = this.openConnections(sessionId);
+    if (open.length === 0) {
+      return { data: this.emptyState(), error: null };
+    }
+
+    let channel = this.sessionChannel(sessionId);
+    if (quoteId) {
+      const access = await this.checkQuoteAccess(quoteId);
+      if (access) {
+        return { data: null, error: access };
+      }
+      channel = this.quoteChannel(quoteId);
+    }
+
+    for (const connection of open) {
+      this.addSubscription(connection, channel);
+    }
+
+    return { data: this.getConnectionState(sessionId), error: null };
   }
 
+  /**
+   * Drop a quote subscription, or every subscription, of the session's connections
+   */
+  async unsubscribeSession(sessionId: string, quoteId?: string): Promise<void> {
+    for (const connection of this.openConnections(sessionId)) {
+      connection.state.subscriptions = quoteId
+        ? connection.state.subscriptions.filter(channel => channel !== this.quoteChannel(quoteId))
+        : [];
+    }
+
+    Logger.debug('Real-time unsubscription', { sessionId, quoteId });
+  }
+
+  /**
+   * State of the newest open connection of a session (or of its last closed one)
+   */
   getConnectionState(sessionId: string): ConnectionState | null {
-    return {
-      isConnected: false,
-      reconnectAttempts: 0,
-      subscriptions: []
-    };
+    const connections = [...this.connections.values()]
+      .filter(connection => connection.sessionId === sessionId)
+      .sort((a, b) => Number(b.state.isConnected) - Number(a.state.isConnected) || b.connectedAt.localeCompare(a.connectedAt));
+
+    return connections[0] ? { ...connections[0].state, subscriptions: [...connections[0].state.subscriptions] } : null;
   }
 
   getConnectionStats(): any {
+    const open = [...this.connections.values()].filter(connection => connection.state.isConnected);
+
     return {
-      activeConnections: 0,
-      status: 'disabled',
-      message: 'Real-time functionality disabled for PostgreSQL conversion'
+      status: this.wss ? 'running' : 'stopped',
+      path: config.realtime.wsPath,
+      activeConnections: open.length,
+      websocketConnections: open.filter(connection => connection.transport === 'websocket').length,
+      sseConnections: open.filter(connection => connection.transport === 'sse').length,
+      activeSessions: new Set(open.map(connection => connection.sessionId)).size,
+      subscriptions: open.reduce((total, connection) => total + connection.state.subscriptions.length, 0),
+      reconnectableConnections: this.connections.size - open.length,
+      messagesSent: this.messagesSent,
+      replayBuffer: { size: this.replay.length, lastEventId: this.lastEventId },
+      optimisticUpdates: { pending: this.pendingUpdates.size, trackedEntities: this.entityVersions.size },
+      heartbeatInterval: config.realtime.heartbeatInterval
     };
   }
 
+  /**
+   * Recalculate cart totals and push them as calculation_sync to the session and the quote's subscribers
+   */
   async syncCalculation(
     sessionId: string,
     quoteId: string,
     cartData: any,
     taxRate: number
   ): Promise<{ success: boolean; error?: string }> {
-    return {
-      success: false,
-      error: 'Real-time sync functionality disabled for PostgreSQL conversion'
+    const calculation = financialCalculationService.calculateComprehensiveCartTotals(cartData, taxRate);
+    if (!calculation.isValid) {
+      return { success: false, error: `Calculation invalid: ${calculation.errors.join('; ')}` };
+    }
+
+    const payload: CalculationSyncPayload = {
+      quoteId,
+      cartData: calculation.updatedCartData,
+      taxRate,
+      totals: calculation.totals,
+      calculatedAt: new Date().toISOString()
     };
+
+    await this.broadcastMessage({
+      type: 'calculation_sync',
+      sessionId,
+      data: payload,
+      timestamp: payload.calculatedAt,
+      messageId: uuidv4()
+    });
+
+    return { success: true };
   }
 
   getActiveConnections(): any[] {
-    return [];
+    return [...this.connections.values()]
+      .filter(connection => connection.state.isConnected)
+      .map(connection => ({
+        connectionId: connection.id,
+        transport: connection.transport,
+        sessionId: connection.sessionId,
+        userId: connection.user?.id || null,
+        connectedAt: connection.connectedAt,
+        lastHeartbeat: connection.state.lastHeartbeat,
+        reconnectAttempts: connection.state.reconnectAttempts,
+        subscriptions: [...connection.state.subscriptions]
+      }));
   }
 
-  async broadcastMessage(message: any): Promise<void> {
-    Logger.debug('Broadcast message attempted - real-time functionality disabled');
+  /**
+   * Deliver a message to connections subscribed to its session or to its quote (data.quoteId).
+   * The message is kept in the replay buffer for SSE resume; in-process listeners receive
+   * every message through the 'message' event.
+   */
+  async broadcastMessage(message: RealTimeMessage): Promise<void> {
+    this.emit('message', message);
+
+    const channels: string[] = [];
+    if (message.sessionId) {
+      channels.push(this.sessionChannel(message.sessionId));
+    }
+    if (message.data?.quoteId) {
+      channels.push(this.quoteChannel(String(message.data.quoteId)));
+    }
+
+    const entry: ReplayEntry = { eventId: ++this.lastEventId, channels, message };
+    if (config.realtime.replayBufferSize > 0) {
+      this.replay.push(entry);
+      if (this.replay.length > config.realtime.replayBufferSize) {
+        this.replay.splice(0, this.replay.length - config.realtime.replayBufferSize);
+      }
+    }
+
+    let delivered = 0;
+    for (const connection of this.connections.values()) {
+      if (!connection.state.isConnected) continue;
+      if (!this.matches(connection, entry)) continue;
+      if (this.send(connection, message, entry.eventId)) {
+        delivered++;
+      }
+    }
+
+    Logger.debug('Real-time message broadcast', { type: message.type, sessionId: message.sessionId, eventId: entry.eventId, delivered });
   }
 
   async shutdown(): Promise<void> {
-    Logger.info('RealTimeSyncService stub shutdown completed');
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const connection of this.connections.values()) {
+      connection.socket?.close(CLOSE_GOING_AWAY, 'Server shutting down');
+      if (connection.keepAlive) {
+        clearInterval(connection.keepAlive);
+      }
+      connection.stream?.end();
+    }
+    this.connections.clear();
+    this.replay = [];
+    this.pendingUpdates.clear();
+    this.entityVersions.clear();
+
+    if (this.httpServer) {
+      this.httpServer.off('upgrade', this.handleUpgrade);
+      this.httpServer = null;
+    }
+
+    if (this.wss) {
+      const wss = this.wss;
+      this.wss = null;
+      await new Promise<void>(resolve => wss.close(() => resolve()));
+    }
+
+    Logger.info('RealTimeSyncService shutdown completed');
   }
 
-  registerOptimisticUpdate(update: OptimisticUpdate): void {
-    Logger.debug('Optimistic update attempted - real-time functionality disabled', {
-      id: update.id,
-      type: update.type,
-      operation: update.operation
+  // ===========================================
+  // OPTIMISTIC UPDATES
+  // ===========================================
+
+  /**
+   * Track a write that is about to be committed; it stays pending until confirmed or rolled back
+   */
+  registerOptimisticUpdate(update: OptimisticUpdate): OptimisticUpdate {
+    const pending: OptimisticUpdate = { ...update, confirmed: false };
+    this.pendingUpdates.set(pending.id, pending);
+
+    Logger.debug('Optimistic update registered', {
+      id: pending.id,
+      type: pending.type,
+      entityId: pending.entityId,
+      operation: pending.operation,
+      baseVersion: pending.baseVersion
     });
+
+    return pending;
+  }
+
+  /**
+   * The write committed as `version`: confirm it to the writer and, when other writes landed
+   * between the version the edit was based on and this one, send a conflict with both versions.
+   */
+  async confirmOptimisticUpdate(
+    updateId: string,
+    committed: { version: number | null; data: any }
+  ): Promise<{ update: OptimisticUpdate | null; conflict: OptimisticConflict | null }> {
+    const pending = this.pendingUpdates.get(updateId);
+    if (!pending) {
+      return { update: null, conflict: null };
+    }
+    this.pendingUpdates.delete(updateId);
+
+    const key = this.entityKey(pending.type, pending.entityId);
+    const previous = this.entityVersions.get(key);
+    const update: OptimisticUpdate = { ...pending, version: committed.version, data: committed.data, confirmed: true };
+
+    this.entityVersions.set(key, {
+      updateId,
+      sessionId: pending.sessionId,
+      version: committed.version,
+      data: committed.data,
+      committedAt: Date.now()
+    });
+
+    await this.broadcastMessage(this.updateMessage('update_confirmed', update, {
+      baseVersion: update.baseVersion ?? null,
+      version: update.version ?? null
+    }));
+
+    const baseVersion = pending.baseVersion ?? null;
+    const interleaved = baseVersion !== null && committed.version !== null && committed.version > baseVersion + 1;
+    if (!interleaved) {
+      return { update, conflict: null };
+    }
+
+    const conflict: OptimisticConflict = {
+      updateId,
+      entity: pending.type,
+      entityId: pending.entityId,
+      yours: { baseVersion, version: committed.version, data: committed.data },
+      theirs: previous && previous.updateId !== updateId
+        ? { updateId: previous.updateId, version: previous.version, data: previous.data }
+        : { updateId: null, version: committed.version! - 1, data: null }
+    };
+
+    Logger.warn('Optimistic update conflict', {
+      updateId,
+      entity: conflict.entity,
+      entityId: conflict.entityId,
+      baseVersion,
+      version: committed.version,
+      theirVersion: conflict.theirs.version
+    });
+
+    await this.emitConflict(pending, conflict, previous?.sessionId);
+    return { update, conflict };
+  }
+
+  /**
+   * The write failed or was refused: tell the writer to undo its optimistic change,
+   * with the current state when known
+   */
+  async rollbackOptimisticUpdate(
+    updateId: string,
+    reason: string,
+    current?: { version: number | null; data: any }
+  ): Promise<OptimisticUpdate | null> {
+    const pending = this.pendingUpdates.get(updateId);
+    if (!pending) {
+      return null;
+    }
+    this.pendingUpdates.delete(updateId);
+
+    Logger.debug('Optimistic update rolled back', { id: updateId, type: pending.type, entityId: pending.entityId, reason });
+
+    await this.broadcastMessage(this.updateMessage('update_rolled_back', pending, {
+      reason,
+      current: current || null
+    }));
+
+    return pending;
+  }
+
+  /**
+   * Conflict to the writer's session and the entity's subscribers, and to the session of the
+   * other write when that was a different one
+   */
+  private async emitConflict(update: OptimisticUpdate, conflict: OptimisticConflict, otherSessionId?: string): Promise<void> {
+    await this.broadcastMessage(this.updateMessage('conflict', update, { ...conflict }));
+
+    if (otherSessionId && otherSessionId !== update.sessionId) {
+      await this.broadcastMessage(this.updateMessage('conflict', { ...update, sessionId: otherSessionId }, { ...conflict }));
+    }
+  }
+
+  private updateMessage(
+    type: 'update_confirmed' | 'update_rolled_back' | 'conflict',
+    update: OptimisticUpdate,
+    extra: Record<string, any>
+  ): RealTimeMessage {
+    return {
+      type,
+      sessionId: update.sessionId,
+      data: {
+        updateId: update.id,
+        entity: update.type,
+        entityId: update.entityId,
+        operation: update.operation,
+        // quote messages also reach the quote's subscribers
+        ...(update.type === 'quote' ? { quoteId: update.entityId } : { customerId: update.entityId }),
+        ...extra
+      },
+      timestamp: new Date().toISOString(),
+      messageId: uuidv4()
+    };
+  }
+
+  /**
+   * Roll back updates that were never confirmed and forget old committed versions
+   */
+  private expireOptimisticUpdates(now: number): void {
+    for (const update of this.pendingUpdates.values()) {
+      if (now - new Date(update.timestamp).getTime() > OPTIMISTIC_UPDATE_TTL_MS) {
+        void this.rollbackOptimisticUpdate(update.id, 'Update was not confirmed in time');
+      }
+    }
+
+    for (const [key, entity] of this.entityVersions) {
+      if (now - entity.committedAt > OPTIMISTIC_UPDATE_TTL_MS) {
+        this.entityVersions.delete(key);
+      }
+    }
+  }
+
+  private entityKey(type: OptimisticUpdate['type'], entityId: string): string {
+    return `${type}:${entityId}`;
+  }
+
+  // ===========================================
+  // CONNECTION HANDLING
+  // ===========================================
+
+  /**
+   * Authenticate the upgrade request: same origin rules as CORS, a valid browser session
+   * (cookie, X-Session-ID header or ?sessionId=) and, when given, a valid access token
+   * (Authorization header or ?token=). ?connectionId= resumes a recently closed connection.
+   */
+  private handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== config.realtime.wsPath || !this.wss) {
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && !config.cors.allowedOrigins.includes(origin)) {
+      Logger.security('WebSocket origin rejected', { origin });
+      return this.rejectUpgrade(socket, 403, 'Forbidden');
+    }
+
+    const sessionId = url.searchParams.get('sessionId')
+      || (req.headers['x-session-id'] as string | undefined)
+      || this.readCookie(req, SESSION_COOKIE);
+    if (!sessionId || !sessionManager.getSession(sessionId)) {
+      Logger.security('WebSocket connection without a valid session', { ip: req.socket.remoteAddress });
+      return this.rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    const header = req.headers.authorization;
+    const token = url.searchParams.get('token')
+      || (header && header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : null);
+    const user = token ? authService.verifyToken(token) : null;
+    if (token && !user) {
+      Logger.security('WebSocket connection with an invalid access token', { ip: req.socket.remoteAddress });
+      return this.rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => {
+      this.onConnection(ws, sessionId, user, url.searchParams.get('connectionId'));
+    });
+  };
+
+  private onConnection(ws: WebSocket, sessionId: string, user: AuthUser | null, previousId: string | null): void {
+    const now = new Date().toISOString();
+    const previous = previousId ? this.connections.get(previousId) : undefined;
+    const resumable = previous
+      && previous.transport === 'websocket'
+      && !previous.state.isConnected
+      && previous.sessionId === sessionId
+      && (previous.user?.id || null) === (user?.id || null);
+
+    let connection: Connection;
+    if (resumable && previous) {
+      connection = previous;
+      connection.socket = ws;
+      connection.connectedAt = now;
+      connection.disconnectedAt = undefined;
+      connection.state.isConnected = true;
+      connection.state.lastHeartbeat = now;
+      connection.state.reconnectAttempts++;
+    } else {
+      connection = {
+        id: uuidv4(),
+        transport: 'websocket',
+        socket: ws,
+        stream: null,
+        sessionId,
+        user,
+        connectedAt: now,
+        alive: true,
+        state: {
+          isConnected: true,
+          transport: 'websocket',
+          lastHeartbeat: now,
+          reconnectAttempts: 0,
+          subscriptions: []
+        }
+      };
+      connection.state.connectionId = connection.id;
+      this.connections.set(connection.id, connection);
+    }
+    connection.alive = true;
+
+    ws.on('message', (raw: RawData) => {
+      void this.onClientMessage(connection, raw);
+    });
+    ws.on('pong', () => this.markAlive(connection));
+    ws.on('close', () => this.onClose(connection, ws));
+    ws.on('error', error => {
+      Logger.warn('WebSocket connection error', { connectionId: connection.id, error: error.message });
+    });
+
+    Logger.info(resumable ? 'WebSocket connection resumed' : 'WebSocket connection opened', {
+      connectionId: connection.id,
+      sessionId,
+      userId: user?.id,
+      reconnectAttempts: connection.state.reconnectAttempts
+    });
+
+    this.sendStatus(connection, resumable ? 'reconnected' : 'connected');
+  }
+
+  private async onClientMessage(connection: Connection, raw: RawData): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return this.sendError(connection, 'INVALID_MESSAGE', 'Messages must be JSON');
+    }
+
+    this.markAlive(connection);
+
+    switch (message?.type) {
+      case 'ping':
+        return this.sendStatus(connection, 'pong');
+
+      case 'subscribe': {
+        const channel = await this.resolveChannel(connection, message);
+        if (!channel) return;
+        this.addSubscription(connection, channel);
+        return this.sendStatus(connection, 'subscribed', { channel });
+      }
+
+      case 'unsubscribe': {
+        const channel = message.quoteId
+          ? this.quoteChannel(message.quoteId)
+          : this.sessionChannel(connection.sessionId);
+        connection.state.subscriptions = connection.state.subscriptions.filter(existing => existing !== channel);
+        return this.sendStatus(connection, 'unsubscribed', { channel });
+      }
+
+      default:
+        return this.sendError(connection, 'UNKNOWN_MESSAGE_TYPE', `Unknown message type '${(message as any)?.type}'`);
+    }
+  }
+
+  /**
+   * Channel for a subscribe message: the connection's own session, or a quote it may read
+   */
+  private async resolveChannel(connection: Connection, message: ClientMessage): Promise<string | null> {
+    if (message.quoteId) {
+      if (!connection.user) {
+        this.sendError(connection, 'AUTH_REQUIRED', 'Quote subscriptions require an access token');
+        return null;
+      }
+
+      const access = await this.checkQuoteAccessFor(connection.sessionId, connection.user, message.quoteId);
+      if (access) {
+        this.sendError(connection, access.code, access.message);
+        return null;
+      }
+      return this.quoteChannel(message.quoteId);
+    }
+
+    if (message.sessionId && message.sessionId !== connection.sessionId) {
+      this.sendError(connection, 'FORBIDDEN', 'Only the connection\'s own session can be subscribed');
+      return null;
+    }
+    return this.sessionChannel(connection.sessionId);
+  }
+
+  /**
+   * null when the quote is readable in the current request context, otherwise the reason
+   */
+  private async checkQuoteAccess(quoteId: string): Promise<RealTimeSyncError | null> {
+    if (!QUOTE_ID_PATTERN.test(quoteId)) {
+      return { message: 'Quote ID must be a positive integer', code: 'INVALID_QUOTE_ID' };
+    }
+
+    const { data, error } = await databaseService.getQuoteAlvamitra(quoteId);
+    if (error) {
+      return { message: 'Failed to load quote', code: 'DATABASE_ERROR' };
+    }
+    if (!data) {
+      return { message: 'Quote not found', code: 'NOT_FOUND' };
+    }
+    return null;
+  }
+
+  /**
+   * checkQuoteAccess in the context of a connection's session and user
+   */
+  private checkQuoteAccessFor(sessionId: string, user: AuthUser, quoteId: string): Promise<RealTimeSyncError | null> {
+    const context: RequestContext = {
+      userId: user.id,
+      sessionId,
+      organisasiKode: user.organisasiKode,
+      organisasiKodeSmartjmp: user.organisasiKodeSmartjmp || undefined
+    };
+    return runWithRequestContext(context, () => this.checkQuoteAccess(quoteId));
+  }
+
+  private onClose(connection: Connection, handle: WebSocket | ServerResponse): void {
+    // A resumed connection already has a newer socket/stream
+    if (connection.socket !== handle && connection.stream !== handle) {
+      return;
+    }
+
+    if (connection.keepAlive) {
+      clearInterval(connection.keepAlive);
+      connection.keepAlive = undefined;
+    }
+    connection.socket = null;
+    connection.stream = null;
+    connection.state.isConnected = false;
+    connection.disconnectedAt = Date.now();
+
+    Logger.info(connection.transport === 'sse' ? 'SSE stream closed' : 'WebSocket connection closed', {
+      connectionId: connection.id,
+      sessionId: connection.sessionId
+    });
+  }
+
+  /**
+   * Most recently closed SSE stream of the same session, user and subscriptions within the
+   * reconnect window; EventSource reconnects with the same URL and Last-Event-ID
+   */
+  private findResumableStream(sessionId: string, user: AuthUser | null, channels: string[]): Connection | undefined {
+    const wanted = [...new Set(channels)].sort().join(',');
+
+    return [...this.connections.values()]
+      .filter(connection => connection.transport === 'sse'
+        && !connection.state.isConnected
+        && connection.sessionId === sessionId
+        && (connection.user?.id || null) === (user?.id || null)
+        && [...connection.state.subscriptions].sort().join(',') === wanted)
+      .sort((a, b) => (b.disconnectedAt || 0) - (a.disconnectedAt || 0))[0];
+  }
+
+  /**
+   * Send buffered messages after lastEventId that match the connection's subscriptions
+   */
+  private replaySince(connection: Connection, lastEventId: number): void {
+    const oldest = this.replay[0]?.eventId ?? this.lastEventId + 1;
+    if (lastEventId > this.lastEventId || oldest > lastEventId + 1) {
+      // Server restarted or the buffer was overrun: the client has to reload its data
+      this.sendStatus(connection, 'replay_incomplete', { lastEventId, oldestEventId: this.replay[0]?.eventId ?? null });
+      if (lastEventId > this.lastEventId) {
+        return;
+      }
+    }
+
+    let replayed = 0;
+    for (const entry of this.replay) {
+      if (entry.eventId <= lastEventId || !this.matches(connection, entry)) continue;
+      if (this.send(connection, entry.message, entry.eventId)) {
+        replayed++;
+      }
+    }
+
+    Logger.debug('SSE stream replayed buffered messages', { connectionId: connection.id, lastEventId, replayed });
+  }
+
+  private matches(connection: Connection, entry: ReplayEntry): boolean {
+    return connection.state.subscriptions.some(channel => entry.channels.includes(channel));
+  }
+
+  /**
+   * Ping every open WebSocket; terminate the ones that did not answer the previous ping, end
+   * streams of expired sessions, forget closed connections after the reconnect window and
+   * expire stale optimistic updates
+   */
+  private heartbeat(): void {
+    const now = Date.now();
+    this.expireOptimisticUpdates(now);
+
+    for (const connection of this.connections.values()) {
+      if (!connection.state.isConnected) {
+        if (connection.disconnectedAt && now - connection.disconnectedAt > config.realtime.reconnectWindow) {
+          this.connections.delete(connection.id);
+        }
+        continue;
+      }
+
+      // SSE streams are kept alive by their keep-alive comments
+      if (connection.stream) {
+        if (!sessionManager.getSession(connection.sessionId)) {
+          connection.stream.end();
+        }
+        continue;
+      }
+
+      if (!connection.socket) {
+        continue;
+      }
+
+      if (!connection.alive) {
+        Logger.info('WebSocket connection missed heartbeat, terminating', { connectionId: connection.id });
+        connection.socket.terminate();
+        continue;
+      }
+
+      if (!sessionManager.getSession(connection.sessionId)) {
+        connection.socket.close(CLOSE_POLICY_VIOLATION, 'Session expired');
+        continue;
+      }
+
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+
+  private markAlive(connection: Connection): void {
+    connection.alive = true;
+    connection.state.lastHeartbeat = new Date().toISOString();
+  }
+
+  private addSubscription(connection: Connection, channel: string): void {
+    if (!connection.state.subscriptions.includes(channel)) {
+      connection.state.subscriptions.push(channel);
+    }
+  }
+
+  private openConnections(sessionId: string): Connection[] {
+    return [...this.connections.values()].filter(connection => connection.sessionId === sessionId && connection.state.isConnected);
+  }
+
+  private sendStatus(connection: Connection, event: string, extra: Record<string, any> = {}): void {
+    this.send(connection, {
+      type: 'connection_status',
+      sessionId: connection.sessionId,
+      data: { event, ...extra, connectionState: connection.state },
+      timestamp: new Date().toISOString(),
+      messageId: uuidv4()
+    });
+  }
+
+  private sendError(connection: Connection, code: string, message: string): void {
+    this.send(connection, {
+      type: 'error',
+      sessionId: connection.sessionId,
+      data: { code, message },
+      timestamp: new Date().toISOString(),
+      messageId: uuidv4()
+    });
+  }
+
+  /**
+   * Write a message to the connection's socket, or as an SSE event (with id when it was buffered)
+   */
+  private send(connection: Connection, message: RealTimeMessage, eventId?: number): boolean {
+    const payload = JSON.stringify(message);
+
+    if (connection.stream) {
+      if (connection.stream.writableEnded) {
+        return false;
+      }
+      const id = eventId !== undefined ? `id: ${eventId}\n` : '';
+      connection.stream.write(`${id}event: ${message.type}\ndata: ${payload}\n\n`);
+      this.messagesSent++;
+      return true;
+    }
+
+    if (!connection.socket || connection.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    connection.socket.send(payload);
+    this.messagesSent++;
+    return true;
+  }
+
+  private rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  }
+
+  private readCookie(req: IncomingMessage, name: string): string | undefined {
+    for (const part of (req.headers.cookie || '').split(';')) {
+      const [key, ...value] = part.trim().split('=');
+      if (key === name) {
+        return decodeURIComponent(value.join('='));
+      }
+    }
+    return undefined;
+  }
+
+  private sessionChannel(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private quoteChannel(quoteId: string): string {
+    return `quote:${quoteId}`;
+  }
+
+  private emptyState(): ConnectionState {
+    return {
+      isConnected: false,
+      reconnectAttempts: 0,
+      subscriptions: []
+    };
   }
 }
 
 // Export singleton instance
-export const realTimeSyncService = RealTimeSyncService.getInstance();
\ No newline at end of file
+export const realTimeSyncService = RealTimeSyncService.getInstance();
@@ -0,0 +1,134 @@
+// Download links: signature and expiry checks, and file names that must stay inside the exports directory
+
+import fs from 'fs';
+import path from 'path';
+import { simpleExportService } from '@/services/SimpleExportService';
+import { EXPORT_CONSTANTS, EXPORT_PATHS } from '@/config/export';
+import { ExportError } from '@/types/export';
+
+jest.mock('@/config/export', () => {
+  const actual = jest.requireActual('@/config/export');
+  const storage = require('fs').mkdtempSync(require('path').join(require('os').tmpdir(), 'alva-exports-'));
+  return { ...actual, EXPORT_PATHS: { ...actual.EXPORT_PATHS, storage } };
+});
+
+jest.mock('@/services/DatabaseService', () => ({
+  databaseService: {}
+}));
+
+const FILE_ID = '0b6f3a52-8f0e-4c8e-9f51-6d2f1c3b7a10';
+
+function linkParams(url: string): { fileId: string; expires: number; signature: string } {
+  const parsed = new URL(url, 'http://localhost');
+  return {
+    fileId: decodeURIComponent(parsed.pathname.split('/').pop()!),
+    expires: Number(parsed.searchParams.get('expires')),
+    signature: parsed.searchParams.get('signature')!
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  fs.rmSync(EXPORT_PATHS.storage, { recursive: true, force: true });
+});
+
+describe('SimpleExportService', () => {
+  describe('signed download URLs', () => {
+    it('accepts the link it signed', () => {
+      const { url } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60);
+      const { fileId, expires, signature } = linkParams(url);
+
+      expect(fileId).toBe(FILE_ID);
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires, signature)).toBe(true);
+    });
+
+    it('rejects a signature for another file', () => {
+      const { url } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60);
+      const { expires, signature } = linkParams(url);
+
+      expect(simpleExportService.verifyDownloadSignature('7c1d7a7e-0000-4000-8000-000000000000', expires, signature)).toBe(false);
+    });
+
+    it('rejects a link whose expiry was moved', () => {
+      const { url } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60);
+      const { fileId, expires, signature } = linkParams(url);
+
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires + 3600, signature)).toBe(false);
+    });
+
+    it('rejects tampered, missing and malformed signatures', () => {
+      const { url } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60);
+      const { fileId, expires, signature } = linkParams(url);
+      const tampered = (signature[0] === 'a' ? 'b' : 'a') + signature.slice(1);
+
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires, tampered)).toBe(false);
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires, signature.slice(0, -2))).toBe(false);
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires, '')).toBe(false);
+      expect(simpleExportService.verifyDownloadSignature(fileId, NaN, signature)).toBe(false);
+    });
+
+    it('rejects the link once it has expired', () => {
+      const now = Date.now();
+      const { url, expiresAt } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60);
+      const { fileId, expires, signature } = linkParams(url);
+
+      expect(expiresAt.getTime()).toBeGreaterThan(now + 59 * 60 * 1000);
+
+      jest.spyOn(Date, 'now').mockReturnValue(expiresAt.getTime() + 1000);
+      expect(simpleExportService.verifyDownloadSignature(fileId, expires, signature)).toBe(false);
+    });
+
+    it('never signs a link that outlives the file', () => {
+      const fileExpiresAt = new Date(Date.now() + 5 * 60 * 1000);
+      const { url, expiresAt } = simpleExportService.createSignedDownloadUrl(FILE_ID, 60, fileExpiresAt);
+
+      expect(expiresAt).toEqual(fileExpiresAt);
+      expect(linkParams(url).expires).toBe(Math.floor(fileExpiresAt.getTime() / 1000));
+    });
+  });
+
+  describe('export file names', () => {
+    it('saves and finds files inside the exports directory', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const filePath = await simpleExportService.saveExportFile({
+        format: 'pdf',
+        filename: 'quotation-EST-1.pdf',
+        data: Buffer.from('%PDF')
+      });
+
+      expect(path.dirname(filePath)).toBe(path.resolve(EXPORT_PATHS.storage));
+      await expect(simpleExportService.getExportFile('quotation-EST-1.pdf')).resolves.toEqual({ filePath, exists: true });
+      await expect(simpleExportService.getExportFile('missing.pdf')).resolves.toMatchObject({ exists: false });
+    });
+
+    it.each([
+      '../secrets.txt',
+      '../../etc/passwd',
+      'nested/quotation.pdf',
+      path.resolve('/etc/passwd'),
+      '..',
+      '.',
+      ''
+    ])('rejects %j', async filename => {
+      const error = await simpleExportService.getExportFile(filename).catch(err => err);
+
+      expect(error).toBeInstanceOf(ExportError);
+      expect(error.code).toBe(EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED);
+    });
+
+    it('does not write outside the exports directory', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const outside = path.join(path.dirname(EXPORT_PATHS.storage), 'escaped.pdf');
+
+      await expect(simpleExportService.saveExportFile({
+        format: 'pdf',
+        filename: '../escaped.pdf',
+        data: Buffer.from('%PDF')
+      })).rejects.toBeInstanceOf(ExportError);
+      expect(fs.existsSync(outside)).toBe(false);
+    });
+  });
+});
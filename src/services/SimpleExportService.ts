@@ -1,8 +1,13 @@
 // ALVA POS MVP - Simple Export Service
 // Basic file operations for export functionality
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { config } from '@/config/environment';
+import { EXPORT_CONFIG, EXPORT_CONSTANTS, EXPORT_PATHS } from '@/config/export';
+import { databaseService, ExportFileRecord } from './DatabaseService';
+import { ExportError, ExportFile } from '@/types/export';
 
 interface ExportOptions {
   format: 'pdf' | 'excel';
@@ -15,7 +20,7 @@ export class SimpleExportService {
   private exportsDir: string;
 
   private constructor() {
-    this.exportsDir = path.join(process.cwd(), 'exports');
+    this.exportsDir = EXPORT_PATHS.storage;
     this.ensureExportsDirectory();
   }
 
@@ -41,15 +46,13 @@ export class SimpleExportService {
    */
   async saveExportFile(options: ExportOptions): Promise<string> {
     try {
-      const filePath = path.join(this.exportsDir, options.filename);
+      const filePath = this.resolveExportPath(options.filename);
       
-      if (options.format === 'excel') {
-        // For Excel files, data should already be a buffer from exceljs
-        if (Buffer.isBuffer(options.data)) {
-          fs.writeFileSync(filePath, options.data);
-        } else {
-          throw new Error('Excel data must be a buffer');
-        }
+      if (Buffer.isBuffer(options.data)) {
+        // Rendered documents (exceljs / pdfkit output)
+        fs.writeFileSync(filePath, options.data);
+      } else if (options.format === 'excel') {
+        throw new Error('Excel data must be a buffer');
       } else {
         // For other formats, write as JSON or string
         const content = typeof options.data === 'string' 
@@ -67,15 +70,143 @@ export class SimpleExportService {
   }
 
   /**
-   * Serve a file for download
+   * Register a saved file under an opaque ID with expiry and download limit
+   */
+  async registerExportFile(format: 'pdf' | 'excel', filename: string, fileSize: number): Promise<ExportFile> {
+    const expiresAt = new Date(Date.now() + EXPORT_CONFIG.storage.cleanup.retentionHours * 60 * 60 * 1000);
+
+    const { data, error } = await databaseService.createExportFile({
+      filename,
+      format,
+      mime_type: EXPORT_CONSTANTS.MIME_TYPES[format],
+      file_size: fileSize,
+      max_downloads: EXPORT_CONFIG.security.maxDownloads,
+      expires_at: expiresAt.toISOString()
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to register export file: ${error?.message || 'no row returned'}`);
+    }
+
+    return this.toExportFile(data);
+  }
+
+  /**
+   * Look up a registered export file by its ID
+   */
+  async getExportFileById(fileId: string): Promise<ExportFile | null> {
+    const { data, error } = await databaseService.getExportFileRecord(fileId);
+    if (error) {
+      throw new Error(`Failed to load export file: ${error.message || error}`);
+    }
+
+    return data ? this.toExportFile(data) : null;
+  }
+
+  /**
+   * Count a download against the file's limit; null when expired or the limit is reached
+   */
+  async registerDownload(fileId: string): Promise<ExportFile | null> {
+    const { data, error } = await databaseService.registerExportFileDownload(fileId);
+    if (error) {
+      throw new Error(`Failed to register download: ${error.message || error}`);
+    }
+
+    return data ? this.toExportFile(data) : null;
+  }
+
+  /**
+   * Undo registerDownload when the file could not be sent
+   */
+  async releaseDownload(fileId: string): Promise<void> {
+    const { error } = await databaseService.releaseExportFileDownload(fileId);
+    if (error) {
+      throw new Error(`Failed to release download: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Serve a file for download; names that resolve outside the exports directory are rejected
    */
   async getExportFile(filename: string): Promise<{ filePath: string; exists: boolean }> {
-    const filePath = path.join(this.exportsDir, filename);
-    const exists = fs.existsSync(filePath);
-    
+    const filePath = this.resolveExportPath(filename);
+    const exists = fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+
     return { filePath, exists };
   }
 
+  /**
+   * Create a signed, expiring download URL for an export file.
+   * The link never outlives the file itself.
+   */
+  createSignedDownloadUrl(
+    fileId: string,
+    ttlMinutes: number = config.export.linkTtlMinutes,
+    fileExpiresAt?: Date
+  ): { url: string; expiresAt: Date } {
+    let expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+    if (fileExpiresAt && fileExpiresAt < expiresAt) {
+      expiresAt = fileExpiresAt;
+    }
+
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const signature = this.sign(fileId, expires);
+
+    return {
+      url: `/api/v1/export/files/${encodeURIComponent(fileId)}?expires=${expires}&signature=${signature}`,
+      expiresAt
+    };
+  }
+
+  /**
+   * Verify signature and expiry of a download URL
+   */
+  verifyDownloadSignature(fileId: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(fileId, expires));
+    const provided = Buffer.from(String(signature || ''));
+
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  private sign(fileId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.export.urlSecret)
+      .update(`${fileId}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Resolve a file name inside the exports directory (path traversal protection)
+   */
+  private resolveExportPath(filename: string): string {
+    const baseDir = path.resolve(this.exportsDir);
+    const filePath = path.resolve(baseDir, String(filename || ''));
+
+    if (path.basename(filePath) !== filename || path.dirname(filePath) !== baseDir) {
+      throw new ExportError(EXPORT_CONSTANTS.ERROR_CODES.VALIDATION_FAILED, 'Invalid export file name');
+    }
+
+    return filePath;
+  }
+
+  private toExportFile(record: ExportFileRecord): ExportFile {
+    return {
+      id: record.id!,
+      filename: record.filename,
+      mimeType: record.mime_type,
+      fileSize: Number(record.file_size),
+      filePath: path.join(this.exportsDir, record.filename),
+      downloadCount: Number(record.download_count),
+      maxDownloads: Number(record.max_downloads),
+      createdAt: new Date(record.created_at!),
+      expiresAt: new Date(record.expires_at)
+    };
+  }
+
   /**
    * Clean up old export files (basic cleanup)
    */
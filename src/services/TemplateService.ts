@@ -0,0 +1,268 @@
+// ALVA POS MVP - Template Service
+// Turns saved quote templates into draft quotes priced from the current catalog
+
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService, Quote, Template } from './DatabaseService';
+import { financialCalculationService } from './FinancialCalculationService';
+import { Logger } from '@/utils/logger';
+import { CartItem, Discount, LaborItem, SaveAsTemplateRequest, TemplateApplyRequest } from '@/types/api';
+
+// Same default as POST /api/quotes
+const DEFAULT_TAX_RATE = 0.10;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface TemplateServiceError {
+  message: string;
+  code: string;
+  details?: any;
+}
+
+export interface SkippedTemplateItem {
+  productId: string;
+  name?: string;
+  quantity: number;
+}
+
+export interface RepricedTemplateItem {
+  productId: string;
+  templatePrice: number;
+  currentPrice: number;
+}
+
+export interface TemplateApplyResult {
+  data: { quote: Quote; skippedItems: SkippedTemplateItem[]; repricedItems: RepricedTemplateItem[] } | null;
+  error: TemplateServiceError | null;
+}
+
+export interface TemplateFromQuoteResult {
+  data: Template | null;
+  error: TemplateServiceError | null;
+}
+
+export class TemplateService {
+  private static instance: TemplateService;
+
+  static getInstance(): TemplateService {
+    if (!TemplateService.instance) {
+      TemplateService.instance = new TemplateService();
+    }
+    return TemplateService.instance;
+  }
+
+  /**
+   * Save a quote's items and labor as a template. Customer data, per-item notes and
+   * BOQ references are not carried over; discounts are kept only when asked for.
+   */
+  async createTemplateFromQuote(quoteId: string, request: SaveAsTemplateRequest): Promise<TemplateFromQuoteResult> {
+    const quoteResult = await databaseService.getQuoteAlvamitra(quoteId);
+    if (quoteResult.error) {
+      return { data: null, error: { message: quoteResult.error.message || 'Failed to load quote', code: 'DATABASE_ERROR' } };
+    }
+
+    const quote = quoteResult.data;
+    if (!quote) {
+      return { data: null, error: { message: 'Quote not found', code: 'NOT_FOUND' } };
+    }
+
+    const keepDiscounts = request.keep_discounts === true;
+    const discount = (value?: Discount | null) =>
+      keepDiscounts && value ? { type: value.type, value: value.value, appliedAmount: 0, reason: value.reason } : undefined;
+
+    const items: Template['template_data']['items'] = (quote.items || []).map((item: CartItem) => ({
+      productId: item.productId,
+      name: item.name,
+      category: item.category,
+      price: item.price,
+      quantity: item.quantity,
+      specs: item.specs,
+      discount: discount(item.discount)
+    }));
+
+    const laborItems: Template['template_data']['laborItems'] = (quote.laborItems || []).map((labor: LaborItem) => ({
+      type: labor.type,
+      name: labor.name,
+      description: labor.description,
+      rateType: labor.rateType,
+      rate: labor.rate,
+      quantity: labor.quantity,
+      unit: labor.unit,
+      discount: discount(labor.discount),
+      editable: labor.editable,
+      category: labor.category
+    }));
+
+    if (items.length === 0 && laborItems.length === 0) {
+      return { data: null, error: { message: 'Quote has no items to save as a template', code: 'EMPTY_TEMPLATE' } };
+    }
+
+    const { data: template, error } = await databaseService.createTemplate({
+      name: request.name,
+      description: request.description,
+      category: request.category,
+      template_data: {
+        items,
+        laborItems,
+        // Alvamitra estimasi only keeps line discounts
+        totalDiscount: null
+      },
+      tags: [...new Set(request.tags || [])],
+      is_public: request.is_public === true
+    });
+
+    if (error || !template) {
+      return { data: null, error: { message: error?.message || 'Failed to create template', code: 'DATABASE_ERROR' } };
+    }
+
+    Logger.info('Template created from quote', {
+      quoteId,
+      templateId: template.id,
+      items: items.length,
+      laborItems: laborItems.length,
+      keepDiscounts
+    });
+
+    return { data: template, error: null };
+  }
+
+  /**
+   * Create a draft quote from a template. Items are re-priced at current catalog
+   * prices; items whose product is no longer in the catalog are left out and reported.
+   * Labor items and item discounts are taken from the template; a total discount is
+   * not applied because Alvamitra estimasi only store line discounts.
+   */
+  async applyTemplate(
+    templateId: string,
+    owner: { userId: string; organisasiKode: string },
+    request: TemplateApplyRequest = {}
+  ): Promise<TemplateApplyResult> {
+    const templateResult = await databaseService.getTemplate(templateId);
+    if (templateResult.error) {
+      return { data: null, error: { message: templateResult.error.message || 'Failed to load template', code: 'DATABASE_ERROR' } };
+    }
+
+    const template = templateResult.data;
+    if (!template) {
+      return { data: null, error: { message: 'Template not found', code: 'NOT_FOUND' } };
+    }
+
+    const templateItems: any[] = template.template_data?.items || [];
+    const productIds = [...new Set(
+      templateItems.map(item => String(item.productId || '')).filter(id => UUID_PATTERN.test(id))
+    )];
+
+    const productResult = await databaseService.getProductsByIds(productIds);
+    if (productResult.error) {
+      return { data: null, error: { message: productResult.error.message || 'Failed to load products', code: 'DATABASE_ERROR' } };
+    }
+
+    const products = new Map<string, any>(
+      (productResult.data || []).map(product => [String(product.id), product])
+    );
+
+    const items: CartItem[] = [];
+    const skippedItems: SkippedTemplateItem[] = [];
+    const repricedItems: RepricedTemplateItem[] = [];
+
+    for (const item of templateItems) {
+      const product = products.get(String(item.productId));
+      const quantity = Number(item.quantity) || 1;
+
+      if (!product) {
+        skippedItems.push({ productId: String(item.productId), name: item.name, quantity });
+        continue;
+      }
+
+      const currentPrice = Number(product.price) || 0;
+      const templatePrice = item.price ?? item.unitPrice;
+      if (templatePrice !== undefined && Number(templatePrice) !== currentPrice) {
+        repricedItems.push({ productId: product.id, templatePrice: Number(templatePrice), currentPrice });
+      }
+
+      items.push({
+        id: uuidv4(),
+        productId: product.id,
+        name: product.name,
+        category: product.category,
+        price: currentPrice,
+        quantity,
+        specs: item.specs,
+        discount: item.discount,
+        notes: item.notes,
+        subtotal: 0,
+        total: 0
+      });
+    }
+
+    const laborItems: LaborItem[] = (template.template_data?.laborItems || []).map((labor: any) => ({
+      id: uuidv4(),
+      type: labor.type || 'installation',
+      name: labor.name,
+      description: labor.description,
+      rateType: labor.rateType || (labor.unit === 'hours' ? 'hourly' : 'fixed'),
+      rate: Number(labor.rate) || 0,
+      quantity: Number(labor.quantity) || 1,
+      unit: labor.unit || 'job',
+      discount: labor.discount,
+      subtotal: 0,
+      total: 0,
+      editable: labor.editable ?? true,
+      category: labor.category || labor.type || 'installation'
+    }));
+
+    if (items.length === 0 && laborItems.length === 0) {
+      return {
+        data: null,
+        error: { message: 'None of the template items are available in the catalog', code: 'EMPTY_QUOTE', details: { skippedItems } }
+      };
+    }
+
+    const taxRate = request.tax_rate ?? DEFAULT_TAX_RATE;
+    const calculation = financialCalculationService.priceCart(items, laborItems, taxRate);
+
+    if (!calculation.isValid || calculation.errors.length > 0) {
+      return { data: null, error: { message: 'Quote calculation failed', code: 'CALCULATION_FAILED', details: calculation.errors } };
+    }
+
+    // Quotes live in Alvamitra, same as POST /api/quotes
+    const { data: created, error } = await databaseService.createQuoteAlvamitra({
+      quote_number: databaseService.generateQuoteNumberAlvamitra(),
+      id_pengguna: owner.userId,
+      organisasi_kode: owner.organisasiKode,
+      cart_data: {
+        items: calculation.updatedCartData.items,
+        laborItems: calculation.updatedCartData.laborItems
+      },
+      notes: request.notes || `Created from template ${template.name}`,
+      tax_rate: taxRate
+    });
+
+    if (error || !created) {
+      return { data: null, error: { message: error?.message || 'Failed to create quote', code: 'DATABASE_ERROR' } };
+    }
+
+    const { data: quote, error: loadError } = await databaseService.getQuoteAlvamitra(String(created.masterId));
+    if (loadError || !quote) {
+      return { data: null, error: { message: loadError?.message || 'Failed to load created quote', code: 'DATABASE_ERROR' } };
+    }
+
+    // Usage stats are informational; the quote stands even if the counter update fails
+    const usage = await databaseService.incrementTemplateUsage(template.id!);
+    if (usage.error) {
+      Logger.warn('Template usage could not be recorded', { templateId: template.id, error: usage.error.message });
+    }
+
+    Logger.info('Quote created from template', {
+      templateId: template.id,
+      quoteId: quote.id,
+      items: items.length,
+      laborItems: laborItems.length,
+      skipped: skippedItems.length,
+      repriced: repricedItems.length
+    });
+
+    return { data: { quote, skippedItems, repricedItems }, error: null };
+  }
+}
+
+export const templateService = TemplateService.getInstance();
@@ -135,6 +135,7 @@ export interface Customer extends SessionEntity {
   address?: CustomerAddress;
   last_quote_date?: string;
   total_quotes: number;
+  version?: number;
 }
 
 export interface CustomerCreateRequest {
@@ -147,6 +148,7 @@ export interface CustomerCreateRequest {
 
 export interface CustomerUpdateRequest extends Partial<CustomerCreateRequest> {
   // All fields optional for updates
+  version?: number; // version the edit is based on, 409 when the customer changed since
 }
 
 export interface CustomerSearchQuery extends SearchQuery {
@@ -228,19 +230,20 @@ export interface ProductSearchResult extends Product {
 export interface Quote extends SessionEntity {
   quote_number: string;
   customer_id?: string;
-  customer_snapshot: Customer;
+  customer_snapshot?: Customer; // not kept for Alvamitra quotes
   cart_data: CartData;
-  status: 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+  status: 'draft' | 'pending_approval' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'converted';
   tax_rate: number;
   subtotal: number;
   tax_amount: number;
   final_total: number;
-  source: 'fresh' | 'boq' | 'template';
+  source?: 'fresh' | 'boq' | 'template'; // not kept for Alvamitra quotes
   template_id?: string;
   boq_import_id?: string;
   valid_until?: string;
   notes?: string;
   metadata?: Record<string, any>;
+  version?: number;
 }
 
 export interface QuoteCreateRequest {
@@ -261,11 +264,12 @@ export interface QuoteUpdateRequest {
   customer_id?: string;
   customer_data?: CustomerUpdateRequest;
   cart_data?: CartData;
-  status?: Quote['status'];
+  status?: Extract<Quote['status'], 'draft' | 'expired'>; // sent/accepted/rejected via send and share link
   tax_rate?: number;
   notes?: string;
   valid_until?: string;
   metadata?: Record<string, any>;
+  version?: number; // version the edit is based on, for conflict detection
 }
 
 export interface QuoteSearchQuery extends SearchQuery {
@@ -290,6 +294,188 @@ export interface QuoteSummary {
   labor_count: number;
 }
 
+// ===========================================
+// ORDER TYPES
+// ===========================================
+
+export type OrderStatus =
+  | 'draft'
+  | 'confirmed'
+  | 'paid'
+  | 'packed'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded';
+
+export interface OrderItem {
+  id: string;
+  productId: string;
+  name: string;
+  quantity: number;
+  price: number;
+  total: number;
+  tipeProduk?: string;
+  specs?: Record<string, any>;
+  notes?: string;
+}
+
+export interface Order {
+  id: string;
+  order_number: string;
+  sub_id: string;
+  id_pengguna: string;
+  organisasi_kode: string;
+  status: OrderStatus;
+  sub_status?: string;
+  order_date: string;
+  tax_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  promo_amount: number;
+  final_total: number;
+  items: OrderItem[];
+  source_quote?: {
+    id: string;
+    quote_number: string;
+    converted_by: string;
+    converted_at: string;
+  };
+  created_at: string;
+}
+
+export interface OrderSummary {
+  id: string;
+  order_number: string;
+  status: OrderStatus;
+  order_date: string;
+  final_total: number;
+  item_count: number;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus;
+  to_status: OrderStatus;
+  actor: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  created_at: string;
+}
+
+export interface OrderTransitionRequest {
+  reason?: string;
+}
+
+export interface QuoteExtendValidityRequest {
+  valid_until?: string; // new absolute date, or
+  extend_days?: number; // days added to the later of now and the current valid_until
+  note: string;
+}
+
+export interface OrderUpdateRequest {
+  cart_data?: CartData;
+  tax_rate?: number;
+}
+
+export interface OrderSearchQuery extends PaginationQuery {
+  status?: OrderStatus | OrderStatus[];
+  date_from?: string;
+  date_to?: string;
+}
+
+// ===========================================
+// QUOTE REVISION TYPES
+// ===========================================
+
+export interface QuoteRevisionLine {
+  key: string; // productId for items, type:name for labor; repeated lines get a #n suffix
+  kind: 'item' | 'labor';
+  productId?: string;
+  name: string;
+  quantity: number;
+  price: number; // unit price for items, rate for labor
+}
+
+export interface QuoteRevisionLineChange {
+  key: string;
+  kind: 'item' | 'labor';
+  productId?: string;
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface QuoteRevisionDiff {
+  quote_id: string;
+  from: { revision_number: number; created_at: string; changed_by?: string };
+  to: { revision_number: number; created_at: string; changed_by?: string };
+  added: QuoteRevisionLine[];
+  removed: QuoteRevisionLine[];
+  quantity_changes: QuoteRevisionLineChange[];
+  price_changes: QuoteRevisionLineChange[];
+  totals: Record<'subtotal' | 'tax_amount' | 'final_total', { from: number; to: number; delta: number }>;
+  status?: { from: string; to: string };
+  tax_rate?: { from: number; to: number };
+}
+
+export interface QuoteApprovalEvaluation {
+  requires_approval: boolean;
+  role: string;
+  discount_percent: number; // line + cart discounts vs gross amount
+  margin_percent: number | null; // null when no product costs are known
+  max_discount_percent: number | null;
+  min_margin_percent: number | null;
+  reasons: string[];
+}
+
+export interface QuoteApprovalDecisionRequest {
+  comment?: string;
+}
+
+export interface QuoteCustomerResponseRequest {
+  name: string;
+  comment?: string;
+}
+
+// Read-only quote as shown on the public share link (no internal ids, session or metadata)
+export interface PublicQuoteView {
+  quote_number: string;
+  status: Quote['status'];
+  created_at: string;
+  valid_until?: string;
+  notes?: string;
+  customer: { name?: string; company?: string };
+  company: { name: string; address: string; phone: string; email: string };
+  items: Array<{
+    name: string;
+    specs?: Record<string, any>;
+    quantity: number;
+    price: number;
+    discount_amount: number;
+    total: number;
+  }>;
+  labor_items: Array<{
+    name: string;
+    description?: string;
+    quantity: number;
+    unit: string;
+    rate: number;
+    discount_amount: number;
+    total: number;
+  }>;
+  totals: {
+    subtotal: number;
+    total_discount: number;
+    tax_rate: number;
+    tax_amount: number;
+    final_total: number;
+  };
+  response: { decision: 'accepted' | 'rejected'; customer_name: string; comment?: string; responded_at: string } | null;
+  can_respond: boolean;
+}
+
 // ===========================================
 // TEMPLATE TYPES
 // ===========================================
@@ -323,6 +509,20 @@ export interface TemplateUpdateRequest extends Partial<TemplateCreateRequest> {
   // All fields optional for updates
 }
 
+export interface TemplateApplyRequest {
+  tax_rate?: number;
+  notes?: string;
+}
+
+export interface SaveAsTemplateRequest {
+  name: string;
+  category: string;
+  description?: string;
+  tags?: string[];
+  is_public?: boolean;
+  keep_discounts?: boolean; // default: discounts are cleared
+}
+
 export interface TemplateSearchQuery extends SearchQuery {
   category?: string;
   tags?: string[];
@@ -356,6 +556,44 @@ export interface BOQImportRequest {
   mime_type: string;
 }
 
+export type BOQMatchType = 'sku' | 'alias' | 'fuzzy' | 'manual';
+
+export interface BOQProductMatch {
+  productId: string;
+  sku?: string;
+  name: string;
+  category: string;
+  price: number;
+  matchType: BOQMatchType;
+  confidence: number; // 1 for SKU, alias and manual matches, trigram similarity for name matches
+}
+
+// One spreadsheet row with its catalog match, stored in boq_imports.import_data.rows
+export interface BOQImportRow {
+  row: number; // row number in the worksheet
+  sku?: string;
+  description: string;
+  quantity: number;
+  unit?: string;
+  notes?: string;
+  status: 'matched' | 'unmatched';
+  match?: BOQProductMatch;
+  candidates?: BOQProductMatch[]; // best trigram matches, for manual review
+}
+
+// Caller's decision for a BOQ row when building a quote: use another product or leave the row out
+export interface BOQRowResolution {
+  row: number;
+  action: 'product' | 'drop';
+  product_id?: string;
+}
+
+export interface BOQQuoteRequest {
+  resolutions?: BOQRowResolution[];
+  tax_rate?: number;
+  notes?: string;
+}
+
 // ===========================================
 // SESSION & ANALYTICS TYPES
 // ===========================================
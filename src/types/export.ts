@@ -1,6 +1,8 @@
 // ALVA POS MVP - Simple Export Types
 // Minimal type definitions for MVP export functionality
 
+import { CartItem, CartTotals, LaborItem } from './api';
+
 export interface ExportRequest {
   quoteId: string;
   format: 'pdf' | 'excel';
@@ -11,12 +13,26 @@ export interface ExportOptions {
   includeLogo?: boolean;
 }
 
+// Quote with server-calculated totals, as rendered into PDF / Excel
+export interface QuotationDocument {
+  quote_number: string;
+  status: string;
+  created_at: string;
+  valid_until: string;
+  notes?: string;
+  items: CartItem[];
+  laborItems: LaborItem[];
+  totals: CartTotals;
+}
+
 export interface ExportFile {
   id: string;
   filename: string;
   mimeType: string;
   fileSize: number;
   filePath: string;
+  downloadCount: number;
+  maxDownloads: number;
   createdAt: Date;
   expiresAt: Date;
 }
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Per-request tenant context, available to services without threading it through every call
+export interface RequestContext {
+  userId?: string;
+  sessionId?: string;
+  organisasiKode?: string;
+  organisasiKodeSmartjmp?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run callback (and everything it awaits) with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Get context of the current request (undefined outside a request, e.g. background jobs)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
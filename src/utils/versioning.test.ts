@@ -0,0 +1,89 @@
+// If-Match (412) and body `version` (409) preconditions for PUT routes
+
+import { Request } from 'express';
+import { evaluateVersionPrecondition, staleWriteStatus, versionETag } from '@/utils/versioning';
+
+function request(ifMatch?: string, body: Record<string, any> = {}): Request {
+  return {
+    get: (name: string) => (name.toLowerCase() === 'if-match' ? ifMatch : undefined),
+    body
+  } as unknown as Request;
+}
+
+describe('versioning', () => {
+  it('uses the quoted row version as ETag', () => {
+    expect(versionETag(3)).toBe('"3"');
+  });
+
+  describe('without a precondition', () => {
+    it('writes unconditionally', () => {
+      expect(evaluateVersionPrecondition(request(), 3)).toEqual({ expectedVersion: null, source: null, stale: false });
+    });
+
+    it('ignores preconditions for rows without a version', () => {
+      expect(evaluateVersionPrecondition(request('"1"', { version: 1 }), undefined))
+        .toEqual({ expectedVersion: null, source: null, stale: false });
+    });
+  });
+
+  describe('If-Match', () => {
+    it('writes conditionally on the current version when it matches', () => {
+      const precondition = evaluateVersionPrecondition(request('"3"'), 3);
+
+      expect(precondition).toEqual({ expectedVersion: 3, source: 'if-match', stale: false });
+    });
+
+    it('matches any of several tags', () => {
+      expect(evaluateVersionPrecondition(request('"1", "3"'), 3).stale).toBe(false);
+    });
+
+    it('answers 412 for an older version', () => {
+      const precondition = evaluateVersionPrecondition(request('"2"'), 3);
+
+      expect(precondition).toEqual({ expectedVersion: null, source: 'if-match', stale: true });
+      expect(staleWriteStatus(precondition)).toBe(412);
+    });
+
+    it.each(['W/"3"', '3', '"abc"', '"3'])('never matches %j', ifMatch => {
+      const precondition = evaluateVersionPrecondition(request(ifMatch), 3);
+
+      expect(precondition.stale).toBe(true);
+      expect(staleWriteStatus(precondition)).toBe(412);
+    });
+
+    it('only requires the row to exist for *', () => {
+      expect(evaluateVersionPrecondition(request('*'), 3)).toEqual({ expectedVersion: null, source: 'if-match', stale: false });
+    });
+
+    it('still checks a body version sent with *', () => {
+      expect(evaluateVersionPrecondition(request('*', { version: 3 }), 3))
+        .toEqual({ expectedVersion: 3, source: 'if-match', stale: false });
+
+      const stale = evaluateVersionPrecondition(request('*', { version: 2 }), 3);
+      expect(stale).toEqual({ expectedVersion: null, source: 'version', stale: true });
+      expect(staleWriteStatus(stale)).toBe(409);
+    });
+
+    it('answers 409 when the header matches but the body version does not', () => {
+      const precondition = evaluateVersionPrecondition(request('"3"', { version: 2 }), 3);
+
+      expect(precondition).toEqual({ expectedVersion: null, source: 'version', stale: true });
+      expect(staleWriteStatus(precondition)).toBe(409);
+    });
+  });
+
+  describe('body version', () => {
+    it('writes conditionally on the current version when it matches', () => {
+      expect(evaluateVersionPrecondition(request(undefined, { version: 3 }), 3))
+        .toEqual({ expectedVersion: 3, source: 'version', stale: false });
+      expect(evaluateVersionPrecondition(request(undefined, { version: '3' }), 3).stale).toBe(false);
+    });
+
+    it('answers 409 for another version', () => {
+      const precondition = evaluateVersionPrecondition(request(undefined, { version: 2 }), 3);
+
+      expect(precondition).toEqual({ expectedVersion: null, source: 'version', stale: true });
+      expect(staleWriteStatus(precondition)).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { Request } from 'express';
+
+// Optimistic concurrency for PUT routes: the row version is the (strong) ETag, and a write
+// can be made conditional with If-Match or an explicit `version` in the body
+
+export interface VersionPrecondition {
+  // Version the write must still find in the database; null = unconditional
+  expectedVersion: number | null;
+  // How the client asked: If-Match answers 412 when stale, a body version 409
+  source: 'if-match' | 'version' | null;
+  stale: boolean;
+}
+
+/**
+ * ETag header value for a row version
+ */
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Versions listed in an If-Match header; '*' matches any existing row.
+ * Weak or foreign tags never match (If-Match uses strong comparison).
+ */
+function parseIfMatch(header: string): number[] | '*' {
+  if (header.trim() === '*') {
+    return '*';
+  }
+
+  return header.split(',')
+    .map(tag => tag.trim().match(/^"(\d+)"$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => Number(match[1]));
+}
+
+/**
+ * Compare the request's If-Match header and/or body `version` with the current row version
+ */
+export function evaluateVersionPrecondition(req: Request, currentVersion: number | undefined): VersionPrecondition {
+  const ifMatch = req.get('If-Match');
+  const bodyVersion = req.body?.version;
+
+  if (currentVersion === undefined || currentVersion === null) {
+    return { expectedVersion: null, source: null, stale: false };
+  }
+
+  if (ifMatch) {
+    const versions = parseIfMatch(ifMatch);
+    if (versions !== '*' && !versions.includes(currentVersion)) {
+      return { expectedVersion: null, source: 'if-match', stale: true };
+    }
+    if (bodyVersion !== undefined && Number(bodyVersion) !== currentVersion) {
+      return { expectedVersion: null, source: 'version', stale: true };
+    }
+    // '*' only requires the row to exist
+    return {
+      expectedVersion: versions === '*' && bodyVersion === undefined ? null : currentVersion,
+      source: 'if-match',
+      stale: false
+    };
+  }
+
+  if (bodyVersion !== undefined) {
+    return Number(bodyVersion) === currentVersion
+      ? { expectedVersion: currentVersion, source: 'version', stale: false }
+      : { expectedVersion: null, source: 'version', stale: true };
+  }
+
+  return { expectedVersion: null, source: null, stale: false };
+}
+
+/**
+ * HTTP status for a stale write
+ */
+export function staleWriteStatus(precondition: VersionPrecondition): 412 | 409 {
+  return precondition.source === 'if-match' ? 412 : 409;
+}